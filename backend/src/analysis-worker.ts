@@ -0,0 +1,38 @@
+// RIFT 2026 – Analysis Worker
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Runs analyzeTransactions on a worker thread so a large graph never blocks
+//   the Express event loop.  Spawned and reused by job-queue: each message is
+//   one AnalysisTask; the worker posts a progress message as every pipeline
+//   stage starts, then the result (or the error) for that task.  Append tasks
+//   analyse the previous transactions plus the batch.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { parentPort } from 'worker_threads';
+import { analyzeTransactions } from './detection-engine';
+import { AnalysisTask, WorkerMessage } from './job-queue';
+
+if (!parentPort) {
+  throw new Error('analysis-worker must be started as a worker thread');
+}
+const port = parentPort;
+
+port.on('message', (task: AnalysisTask) => {
+  const send = (message: WorkerMessage) => port.postMessage(message);
+  try {
+    const { previous } = task;
+    const transactions = previous ? [...previous.transactions, ...task.transactions] : task.transactions;
+
+    const result = analyzeTransactions(transactions, task.mode, task.config, {
+      reportingCurrency: task.reportingCurrency,
+      dispositions: task.dispositions,
+      watchlists: task.watchlists,
+      debug: task.debug,
+      onProgress: (stage) => send({ type: 'progress', job_id: task.job_id, stage }),
+    });
+    send({ type: 'result', job_id: task.job_id, result });
+  } catch (error: any) {
+    send({ type: 'error', job_id: task.job_id, message: error.message });
+  }
+});
@@ -0,0 +1,147 @@
+// ─── ANALYST DISPOSITIONS ────────────────────────────────────────────────────
+// Applies analyst verdicts recorded in disposition-store as the final score
+// adjustment of the pipeline.  Unlike relationship intelligence and the
+// scoring dampening branch this is not a heuristic: every change names the
+// disposition, who recorded it and when.
+//
+//   benign_merchant / payroll on an account   score reduced by
+//                                             benign_reduction_pct of itself
+//   benign_merchant / payroll on a pair       same, scaled for each endpoint by
+//                                             the pair's share of its transactions
+//   confirmed_mule (account or pair)          score raised to at least
+//                                             confirmed_mule_min_score
+//
+// Benign verdicts apply first, oldest first, then mule floors — a confirmed
+// mule always ends at or above the floor.  Accounts in fraud cycles are NOT
+// exempt: the analyst has reviewed them.
+//
+// Complexity: O(T + A + D)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AccountNode, DetectionConfig, Disposition, DispositionLabel, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import { recordScoreChange } from './score-contributions';
+
+type DispositionConfig = DetectionConfig['dispositions'];
+
+function pairKey(sender: string, receiver: string): string {
+  return `${sender}|${receiver}`;
+}
+
+function describeLabel(label: DispositionLabel): string {
+  return label.replace('_', ' ');
+}
+
+/** "2026-10-19 14:03 UTC" */
+function describeTime(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function describeSubject(d: Disposition): string {
+  return d.subject_type === 'account' ? d.account_id! : `${d.sender_id}→${d.receiver_id}`;
+}
+
+/**
+ * Apply dispositions to the accounts they cover.  Mutates `suspicion_score`,
+ * `is_suspicious`, `score_contributions`, `triggered_algorithms` and `dispositions`
+ * on the supplied AccountNode objects.
+ *
+ * @param accounts      Array of all account nodes (will be mutated)
+ * @param transactions  Full transaction dataset (pair shares)
+ * @param dispositions  Verdicts from disposition-store
+ * @param config        Reduction and floor settings
+ * @returns             The same `accounts` array (mutated in-place)
+ */
+export function applyAnalystDispositions(
+  accounts: AccountNode[],
+  transactions: RawTransaction[],
+  dispositions: Disposition[],
+  config: DispositionConfig = DEFAULT_DETECTION_CONFIG.dispositions,
+): AccountNode[] {
+  if (dispositions.length === 0) return accounts;
+
+  const accountById = new Map(accounts.map((a) => [a.account_id, a]));
+
+  // Transaction counts for disposed pairs only
+  const pairCounts = new Map<string, number>();
+  for (const d of dispositions) {
+    if (d.subject_type === 'pair') pairCounts.set(pairKey(d.sender_id!, d.receiver_id!), 0);
+  }
+  if (pairCounts.size > 0) {
+    for (const tx of transactions) {
+      const key = pairKey(tx.sender_id, tx.receiver_id);
+      const count = pairCounts.get(key);
+      if (count !== undefined) pairCounts.set(key, count + 1);
+    }
+  }
+
+  const apply = (account: AccountNode, d: Disposition, newScore: number, effect: string, scope = '') => {
+    const oldScore = account.suspicion_score;
+    recordScoreChange(account, newScore, {
+      stage: 'dispositions',
+      algorithm: 'Analyst Disposition',
+      reason:
+        `Analyst disposition: ${describeLabel(d.label)} on ${describeSubject(d)}${scope},` +
+        ` recorded by ${d.recorded_by} on ${describeTime(d.recorded_at)}: ${effect}`,
+      counterparties: d.subject_type === 'pair' ? [d.sender_id!, d.receiver_id!] : [],
+    });
+    account.is_suspicious = newScore > 0;
+    if (!account.triggered_algorithms.includes('analyst_disposition')) {
+      account.triggered_algorithms.push('analyst_disposition');
+    }
+    (account.dispositions ??= []).push({
+      disposition_id: d.disposition_id,
+      label: d.label,
+      subject: describeSubject(d),
+      recorded_by: d.recorded_by,
+      recorded_at: d.recorded_at,
+      score_before: oldScore,
+      score_after: newScore,
+    });
+  };
+
+  const subjectAccounts = (d: Disposition): AccountNode[] =>
+    (d.subject_type === 'account' ? [d.account_id!] : [d.sender_id!, d.receiver_id!])
+      .map((id) => accountById.get(id))
+      .filter((a): a is AccountNode => a !== undefined);
+
+  const ordered = [...dispositions].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+
+  // ── Benign verdicts ─────────────────────────────────────────────────────────
+  for (const d of ordered) {
+    if (d.label === 'confirmed_mule') continue;
+    const pairCount = d.subject_type === 'pair' ? pairCounts.get(pairKey(d.sender_id!, d.receiver_id!))! : 0;
+    if (d.subject_type === 'pair' && pairCount === 0) continue;  // Pair not present in this dataset
+
+    for (const account of subjectAccounts(d)) {
+      if (account.suspicion_score <= 0) continue;
+      const share = d.subject_type === 'pair' ? pairCount / Math.max(1, account.total_transactions) : 1;
+      const reduction = Math.round(account.suspicion_score * Math.min(1, share) * config.benign_reduction_pct / 100);
+      if (reduction <= 0) continue;
+
+      const oldScore = account.suspicion_score;
+      const scope = d.subject_type === 'pair' ? ` (${pairCount} of ${account.total_transactions} transactions)` : '';
+      apply(account, d, oldScore - reduction, `score reduced by ${reduction} (${oldScore}→${oldScore - reduction})`, scope);
+    }
+  }
+
+  // ── Confirmed mules ─────────────────────────────────────────────────────────
+  const floor = config.confirmed_mule_min_score;
+  for (const d of ordered) {
+    if (d.label !== 'confirmed_mule') continue;
+    if (d.subject_type === 'pair' && pairCounts.get(pairKey(d.sender_id!, d.receiver_id!)) === 0) continue;
+    for (const account of subjectAccounts(d)) {
+      const oldScore = account.suspicion_score;
+      apply(
+        account,
+        d,
+        Math.max(oldScore, floor),
+        oldScore < floor
+          ? `score raised to ${floor} (${oldScore}→${floor})`
+          : `score kept at ${oldScore} (floor ${floor})`,
+      );
+    }
+  }
+
+  return accounts;
+}
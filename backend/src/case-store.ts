@@ -0,0 +1,262 @@
+// RIFT 2026 – Case Management
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Analyst workflow on top of detection output.  A case is opened on a
+//   flagged account or a fraud ring and moves through review statuses with
+//   an assignee, notes and evidence; every change is recorded in its audit
+//   trail (history).
+//
+// LIFECYCLE
+//   open → under_review → escalated → confirmed | false_positive
+//   Any active status may be closed directly as confirmed or false_positive;
+//   closed cases can be reopened.  CASE_TRANSITIONS is the full table.
+//
+// RE-LINKING
+//   Cases are keyed by account IDs, never by run or ring ID (ring IDs are
+//   renumbered on every analysis), so they survive re-analysis.
+//   linkCaseToRun locates the case's accounts and overlapping rings in any
+//   run's result.
+//
+// EVIDENCE
+//   Transactions and graph snapshots are copied out of the run when attached,
+//   so evidence stays intact after the run is deleted.
+//
+// STORAGE
+//   A single JSON object keyed by case ID in DATA_DIR/cases.json (file-store).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { randomUUID } from 'crypto';
+import {
+  AnalysisResult,
+  CaseEvent,
+  CaseEvidence,
+  CaseEvidenceType,
+  CaseRunLink,
+  CaseStatus,
+  CaseSubjectType,
+  CytoscapeGraphData,
+  InvestigationCase,
+  RawTransaction,
+} from './types';
+import { readJsonRecord, writeJsonFile } from './file-store';
+
+const CASES_FILE = 'cases.json';
+
+/** Evidence size caps: a case file must stay small enough to load on every request */
+export const MAX_EVIDENCE_TRANSACTIONS = 500;
+const MAX_SNAPSHOT_NODES = 200;
+
+export const CASE_STATUSES: CaseStatus[] = ['open', 'under_review', 'escalated', 'false_positive', 'confirmed'];
+
+export const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  open: ['under_review', 'escalated', 'false_positive', 'confirmed'],
+  under_review: ['open', 'escalated', 'false_positive', 'confirmed'],
+  escalated: ['under_review', 'false_positive', 'confirmed'],
+  false_positive: ['open'],
+  confirmed: ['open'],
+};
+
+/** Statuses in which a case is still being worked */
+const ACTIVE_STATUSES: CaseStatus[] = ['open', 'under_review', 'escalated'];
+
+type CaseMap = Record<string, InvestigationCase>;
+
+export interface NewCase {
+  title: string;
+  subject_type: CaseSubjectType;
+  account_ids: string[];
+  pattern_type?: string;
+  assignee?: string | null;
+  origin_run_id?: string;
+  origin_ring_id?: string;
+  risk_score_at_creation?: number;
+}
+
+function loadCases(): CaseMap {
+  return readJsonRecord<InvestigationCase>(CASES_FILE);
+}
+
+function nextCaseId(cases: CaseMap): string {
+  const highest = Object.keys(cases).reduce((max, id) => Math.max(max, parseInt(id.slice(5), 10) || 0), 0);
+  return `CASE_${String(highest + 1).padStart(4, '0')}`;
+}
+
+function recordEvent(c: InvestigationCase, event: Omit<CaseEvent, 'at'>): void {
+  const at = new Date().toISOString();
+  c.history.push({ at, ...event });
+  c.updated_at = at;
+}
+
+/** Load a case, apply `change` and persist it; undefined when it does not exist. */
+function modifyCase(caseId: string, change: (c: InvestigationCase) => void): InvestigationCase | undefined {
+  const cases = loadCases();
+  const c = cases[caseId];
+  if (!c) return undefined;
+  change(c);
+  writeJsonFile(CASES_FILE, cases);
+  return c;
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+export function isCaseStatus(value: unknown): value is CaseStatus {
+  return CASE_STATUSES.includes(value as CaseStatus);
+}
+
+/** Cases, most recently updated first, optionally filtered by status or account. */
+export function listCases(filter: { status?: CaseStatus; accountId?: string } = {}): InvestigationCase[] {
+  return Object.values(loadCases())
+    .filter((c) => !filter.status || c.status === filter.status)
+    .filter((c) => !filter.accountId || c.account_ids.includes(filter.accountId))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export function getCase(caseId: string): InvestigationCase | undefined {
+  return loadCases()[caseId];
+}
+
+/** Active case on exactly the same subject, if one exists (prevents duplicates). */
+export function findActiveCase(subjectType: CaseSubjectType, accountIds: string[]): InvestigationCase | undefined {
+  const key = [...accountIds].sort().join(',');
+  return Object.values(loadCases()).find((c) =>
+    c.subject_type === subjectType
+    && ACTIVE_STATUSES.includes(c.status)
+    && [...c.account_ids].sort().join(',') === key
+  );
+}
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+export function createCase(input: NewCase, actor: string): InvestigationCase {
+  const cases = loadCases();
+  const now = new Date().toISOString();
+  const c: InvestigationCase = {
+    case_id: nextCaseId(cases),
+    title: input.title,
+    subject_type: input.subject_type,
+    account_ids: input.account_ids,
+    ...(input.pattern_type && { pattern_type: input.pattern_type }),
+    status: 'open',
+    assignee: input.assignee ?? null,
+    created_at: now,
+    created_by: actor,
+    updated_at: now,
+    ...(input.origin_run_id && { origin_run_id: input.origin_run_id }),
+    ...(input.origin_ring_id && { origin_ring_id: input.origin_ring_id }),
+    ...(input.risk_score_at_creation !== undefined && { risk_score_at_creation: input.risk_score_at_creation }),
+    notes: [],
+    evidence: [],
+    history: [],
+  };
+  recordEvent(c, { actor, type: 'created', to: 'open', detail: input.title });
+  if (c.assignee) recordEvent(c, { actor, type: 'assigned', from: null, to: c.assignee });
+
+  cases[c.case_id] = c;
+  writeJsonFile(CASES_FILE, cases);
+  return c;
+}
+
+/** Move a case to `status`; the caller checks CASE_TRANSITIONS first. */
+export function setCaseStatus(caseId: string, status: CaseStatus, actor: string, reason?: string): InvestigationCase | undefined {
+  return modifyCase(caseId, (c) => {
+    recordEvent(c, { actor, type: 'status_changed', from: c.status, to: status, ...(reason && { detail: reason }) });
+    c.status = status;
+  });
+}
+
+export function assignCase(caseId: string, assignee: string | null, actor: string): InvestigationCase | undefined {
+  return modifyCase(caseId, (c) => {
+    if (c.assignee === assignee) return;
+    recordEvent(c, { actor, type: 'assigned', from: c.assignee, to: assignee });
+    c.assignee = assignee;
+  });
+}
+
+export function addCaseNote(caseId: string, text: string, actor: string): InvestigationCase | undefined {
+  return modifyCase(caseId, (c) => {
+    const note = { note_id: randomUUID(), author: actor, text, created_at: new Date().toISOString() };
+    c.notes.push(note);
+    recordEvent(c, { actor, type: 'note_added', detail: note.note_id });
+  });
+}
+
+export function addCaseEvidence(
+  caseId: string,
+  evidence: Omit<CaseEvidence, 'evidence_id' | 'added_at' | 'added_by'>,
+  actor: string,
+): InvestigationCase | undefined {
+  return modifyCase(caseId, (c) => {
+    const entry: CaseEvidence = {
+      evidence_id: randomUUID(),
+      added_at: new Date().toISOString(),
+      added_by: actor,
+      ...evidence,
+    };
+    c.evidence.push(entry);
+    const size = entry.transactions
+      ? `${entry.transactions.length} transactions`
+      : `${entry.graph?.nodes.length ?? 0} accounts`;
+    recordEvent(c, { actor, type: 'evidence_added', detail: `${entry.type} from run ${entry.run_id} (${size})` });
+  });
+}
+
+// ─── Run linking and evidence ────────────────────────────────────────────────
+
+/** Where the case's accounts appear in a run's result. */
+export function linkCaseToRun(c: InvestigationCase, runId: string, result: AnalysisResult): CaseRunLink {
+  const caseAccounts = new Set(c.account_ids);
+  const present = result.accounts.filter((a) => caseAccounts.has(a.account_id));
+
+  const ringIds = result.fraudRings
+    .map((ring) => ({ ring, shared: ring.members.filter((m) => caseAccounts.has(m)).length }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .map(({ ring }) => ring.ring_id);
+
+  return {
+    run_id: runId,
+    present_accounts: present.map((a) => a.account_id),
+    flagged_accounts: present.filter((a) => a.is_suspicious).map((a) => a.account_id),
+    max_suspicion_score: present.reduce((max, a) => Math.max(max, a.suspicion_score), 0),
+    ring_ids: ringIds,
+  };
+}
+
+/**
+ * Evidence of the given type for the case, taken from a run.  Transactions
+ * are those with both parties in the case (ring cases) or involving the
+ * account (account cases), unless specific IDs are requested.
+ */
+export function collectCaseEvidence(
+  c: InvestigationCase,
+  type: CaseEvidenceType,
+  result: AnalysisResult,
+  transactionIds?: string[],
+): { transactions?: RawTransaction[]; graph?: CytoscapeGraphData } {
+  const caseAccounts = new Set(c.account_ids);
+
+  if (type === 'transactions') {
+    const wanted = transactionIds && new Set(transactionIds);
+    const transactions = result.transactions.filter((tx) => wanted
+      ? wanted.has(tx.transaction_id)
+      : c.subject_type === 'ring'
+        ? caseAccounts.has(tx.sender_id) && caseAccounts.has(tx.receiver_id)
+        : caseAccounts.has(tx.sender_id) || caseAccounts.has(tx.receiver_id));
+    return { transactions: transactions.slice(0, MAX_EVIDENCE_TRANSACTIONS) };
+  }
+
+  // Graph snapshot: case accounts plus their direct counterparties
+  const included = new Set(c.account_ids.filter((id) => result.graphData.nodes.some((n) => n.data.id === id)));
+  for (const edge of result.graphData.edges) {
+    if (included.size >= MAX_SNAPSHOT_NODES) break;
+    if (caseAccounts.has(edge.data.source)) included.add(edge.data.target);
+    if (caseAccounts.has(edge.data.target)) included.add(edge.data.source);
+  }
+  return {
+    graph: {
+      nodes: result.graphData.nodes.filter((n) => included.has(n.data.id)),
+      edges: result.graphData.edges.filter((e) => included.has(e.data.source) && included.has(e.data.target)),
+    },
+  };
+}
@@ -10,7 +10,8 @@
 //     INTERMEDIARY  – mid-range centrality (middle tier)
 //     PERIPHERAL    – lowest centrality (bottom tier)
 //
-//   Orchestrators receive a +10 suspicion-score boost (capped at 100).
+//   Orchestrators receive a suspicion-score boost (capped at 100) taken from
+//   DetectionConfig.ring_leadership.orchestrator_boost (default +10).
 //
 // ALGORITHM
 //   Brandes' algorithm adapted for small dense subgraphs.
@@ -21,7 +22,9 @@
 //   Called in the detection pipeline AFTER fraud ring construction.
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { AccountNode, FraudRing, RawTransaction, RingRole } from './types';
+import { AccountNode, DetectionConfig, FraudRing, RawTransaction, RingRole } from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import { recordScoreChange } from './score-contributions';
 
 // ─── Betweenness Centrality (Brandes, unweighted, directed) ──────────────────
 // Returns a Map<nodeId, centrality> for the given subgraph.
@@ -83,7 +86,8 @@ function brandesBetweenness(
   }
 
   // Normalise to [0, 1] range
-  const maxCb = Math.max(...Array.from(cb.values()), 1e-9);
+  let maxCb = 1e-9;
+  for (const val of cb.values()) maxCb = Math.max(maxCb, val);
   for (const [v, val] of cb) {
     cb.set(v, val / maxCb);
   }
@@ -127,14 +131,15 @@ function assignRole(rank: number, totalMembers: number): RingRole {
 
 /**
  * Compute betweenness centrality for each fraud ring, assign leadership roles,
- * and apply an ORCHESTRATOR score boost (+10, capped at 100).
+ * and apply an ORCHESTRATOR score boost (default +10, capped at 100).
  *
  * Mutates `accounts` in-place.
  */
 export function analyzeRingLeadership(
   accounts: AccountNode[],
   fraudRings: FraudRing[],
-  transactions: RawTransaction[]
+  transactions: RawTransaction[],
+  config: DetectionConfig['ring_leadership'] = DEFAULT_DETECTION_CONFIG.ring_leadership
 ): void {
   if (fraudRings.length === 0) return;
 
@@ -168,13 +173,16 @@ export function analyzeRingLeadership(
 
       // Orchestrator boost
       if (role === 'ORCHESTRATOR') {
-        account.suspicion_score = Math.min(100, account.suspicion_score + 10);
+        recordScoreChange(account, Math.min(100, account.suspicion_score + config.orchestrator_boost), {
+          stage: 'ring_leadership',
+          algorithm: 'Ring Leadership Centrality',
+          reason: `Identified as ORCHESTRATOR (centrality ${Math.round(c * 1000) / 1000}) in ${ring.ring_id}`,
+          transaction_ids: ring.transaction_ids,
+          counterparties: ring.members,
+        });
         if (!account.triggered_algorithms.includes('Ring Leadership Centrality')) {
           account.triggered_algorithms.push('Ring Leadership Centrality');
         }
-        if (!account.explanation.includes('ORCHESTRATOR')) {
-          account.explanation += `. Identified as ORCHESTRATOR (centrality ${account.centrality_score}) in ${ring.ring_id}`;
-        }
       }
     }
   }
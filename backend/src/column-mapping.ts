@@ -0,0 +1,247 @@
+// RIFT 2026 – Column Mapping
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Bank exports rarely use the canonical schema (transaction_id, sender_id,
+//   receiver_id, amount, timestamp).  A ColumnMapping describes how a given
+//   export maps onto it so the file can be analysed without pre-processing:
+//     • Header aliases      – "Debtor IBAN" → sender_id
+//     • Date format         – "DD.MM.YYYY HH:mm" → YYYY-MM-DD HH:MM:SS
+//     • Amount sign         – how negative amounts are interpreted
+//     • Debit/credit column – per-row direction indicator
+//
+// INTEGRATION
+//   csv-validator resolves header indices with resolveColumns() and applies
+//   the per-row conversions; column-profiles persists named mappings.
+//   Mappings are validated with the same collect-errors convention as
+//   resolveDetectionConfig so the API can return them as a 400 response.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AmountSignConvention, CanonicalColumn, ColumnMapping, MappableColumn, OptionalColumn } from './types';
+
+export const CANONICAL_COLUMNS: CanonicalColumn[] = [
+  'transaction_id',
+  'sender_id',
+  'receiver_id',
+  'amount',
+  'timestamp',
+];
+
+export const OPTIONAL_COLUMNS: OptionalColumn[] = ['currency'];
+
+const MAPPABLE_COLUMNS: MappableColumn[] = [...CANONICAL_COLUMNS, ...OPTIONAL_COLUMNS];
+
+const SIGN_CONVENTIONS: AmountSignConvention[] = ['positive', 'absolute', 'negative_reverses'];
+
+export interface ResolvedColumns {
+  colIdx: Record<CanonicalColumn, number>;
+  /** Index of the debit/credit indicator column, -1 when not mapped */
+  directionIdx: number;
+  /** Index of the optional currency column, -1 when absent */
+  currencyIdx: number;
+}
+
+export interface MappingResolution {
+  mapping: ColumnMapping;
+  errors: string[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Accept a single string or an array of non-empty strings. */
+function readStringList(value: unknown, path: string, errors: string[]): string[] {
+  const list = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(list) || list.some((v) => typeof v !== 'string' || !v.trim())) {
+    errors.push(`${path} must be a non-empty string or array of strings`);
+    return [];
+  }
+  return list.map((v: string) => v.trim());
+}
+
+/**
+ * Validate a user-supplied mapping.  Never throws: problems are collected in
+ * `errors`, and the returned mapping must not be used when it is non-empty.
+ */
+export function validateColumnMapping(input: unknown): MappingResolution {
+  const errors: string[] = [];
+  const mapping: ColumnMapping = { columns: {} };
+
+  if (!isPlainObject(input)) {
+    return { mapping, errors: ['columnMapping must be an object'] };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!['columns', 'date_format', 'amount_sign', 'direction'].includes(key)) {
+      errors.push(`Unknown columnMapping field: ${key}`);
+    }
+  }
+
+  if (input.columns !== undefined) {
+    if (!isPlainObject(input.columns)) {
+      errors.push('columnMapping.columns must be an object');
+    } else {
+      for (const [field, aliases] of Object.entries(input.columns)) {
+        if (!MAPPABLE_COLUMNS.includes(field as MappableColumn)) {
+          errors.push(`Unknown column field: ${field}. Expected one of ${MAPPABLE_COLUMNS.join(', ')}`);
+          continue;
+        }
+        mapping.columns[field as MappableColumn] = readStringList(aliases, `columnMapping.columns.${field}`, errors);
+      }
+    }
+  }
+
+  if (input.date_format !== undefined) {
+    if (typeof input.date_format !== 'string' || !/YYYY/.test(input.date_format)
+      || !/MM/.test(input.date_format) || !/DD/.test(input.date_format)) {
+      errors.push('columnMapping.date_format must contain at least the YYYY, MM and DD tokens');
+    } else {
+      mapping.date_format = input.date_format;
+    }
+  }
+
+  if (input.amount_sign !== undefined) {
+    if (!SIGN_CONVENTIONS.includes(input.amount_sign as AmountSignConvention)) {
+      errors.push(`columnMapping.amount_sign must be one of ${SIGN_CONVENTIONS.join(', ')}`);
+    } else {
+      mapping.amount_sign = input.amount_sign as AmountSignConvention;
+    }
+  }
+
+  if (input.direction !== undefined) {
+    const direction = input.direction;
+    if (!isPlainObject(direction) || typeof direction.column !== 'string' || !direction.column.trim()) {
+      errors.push('columnMapping.direction must be an object with a column name');
+    } else {
+      const debit = readStringList(direction.debit_values, 'columnMapping.direction.debit_values', errors);
+      const credit = readStringList(direction.credit_values, 'columnMapping.direction.credit_values', errors);
+      const overlap = debit.filter((v) => credit.some((c) => c.toLowerCase() === v.toLowerCase()));
+      if (overlap.length > 0) {
+        errors.push(`columnMapping.direction values cannot be both debit and credit: ${overlap.join(', ')}`);
+      }
+      mapping.direction = { column: direction.column.trim(), debit_values: debit, credit_values: credit };
+    }
+  }
+
+  return { mapping, errors };
+}
+
+// ─── Header resolution ───────────────────────────────────────────────────────
+
+/**
+ * Locate every canonical column (and the optional currency / direction
+ * columns) in the header row.  The canonical name always matches in addition
+ * to any aliases.
+ */
+export function resolveColumns(
+  headers: string[],
+  mapping?: ColumnMapping,
+): ResolvedColumns | { missing: string[] } {
+  const normalized = headers.map(normalizeHeader);
+  const colIdx = {} as Record<CanonicalColumn, number>;
+  const missing: string[] = [];
+
+  const findColumn = (field: MappableColumn): number => {
+    const candidates = [...(mapping?.columns[field] ?? []), field].map(normalizeHeader);
+    return candidates.map((c) => normalized.indexOf(c)).find((i) => i !== -1) ?? -1;
+  };
+
+  for (const field of CANONICAL_COLUMNS) {
+    const index = findColumn(field);
+    if (index === -1) missing.push(field);
+    else colIdx[field] = index;
+  }
+
+  let directionIdx = -1;
+  if (mapping?.direction) {
+    directionIdx = normalized.indexOf(normalizeHeader(mapping.direction.column));
+    if (directionIdx === -1) missing.push(mapping.direction.column);
+  }
+
+  if (missing.length > 0) return { missing };
+  return { colIdx, directionIdx, currencyIdx: findColumn('currency') };
+}
+
+// ─── Row conversions ─────────────────────────────────────────────────────────
+
+const DATE_TOKENS = ['YYYY', 'MM', 'DD', 'HH', 'mm', 'ss'] as const;
+type DateToken = (typeof DATE_TOKENS)[number];
+
+/**
+ * Compile a date format into a parser returning the canonical
+ * "YYYY-MM-DD HH:MM:SS" string, or null when the value does not match or
+ * is not a real calendar date.  Missing time tokens default to 00.
+ */
+export function compileDateFormat(format: string): (value: string) => string | null {
+  const order: DateToken[] = [];
+  let pattern = '';
+  let rest = format;
+
+  while (rest.length > 0) {
+    const token = DATE_TOKENS.find((t) => rest.startsWith(t));
+    if (token) {
+      order.push(token);
+      pattern += token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+      rest = rest.slice(token.length);
+    } else {
+      pattern += rest[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      rest = rest.slice(1);
+    }
+  }
+
+  const regex = new RegExp(`^${pattern}$`);
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return (value: string) => {
+    const match = regex.exec(value.trim());
+    if (!match) return null;
+
+    const parts: Record<DateToken, number> = { YYYY: 0, MM: 0, DD: 0, HH: 0, mm: 0, ss: 0 };
+    order.forEach((token, i) => (parts[token] = parseInt(match[i + 1], 10)));
+
+    // Round-trip through Date.UTC to reject e.g. 31.02.2024
+    const date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss));
+    if (
+      date.getUTCFullYear() !== parts.YYYY || date.getUTCMonth() !== parts.MM - 1
+      || date.getUTCDate() !== parts.DD || date.getUTCHours() !== parts.HH
+      || date.getUTCMinutes() !== parts.mm || date.getUTCSeconds() !== parts.ss
+    ) {
+      return null;
+    }
+
+    return `${parts.YYYY}-${pad(parts.MM)}-${pad(parts.DD)} ${pad(parts.HH)}:${pad(parts.mm)}:${pad(parts.ss)}`;
+  };
+}
+
+/**
+ * Apply the sign convention to a parsed amount.  Returns null when the
+ * amount is not acceptable; `reversed` means sender and receiver swap.
+ */
+export function applyAmountSign(
+  amount: number,
+  convention: AmountSignConvention = 'positive',
+): { amount: number; reversed: boolean } | null {
+  if (isNaN(amount) || amount === 0) return null;
+  if (amount > 0) return { amount, reversed: false };
+  if (convention === 'absolute') return { amount: -amount, reversed: false };
+  if (convention === 'negative_reverses') return { amount: -amount, reversed: true };
+  return null;
+}
+
+/**
+ * Interpret a debit/credit indicator value.  Returns true for credit rows
+ * (direction reversed), false for debit rows, null when unrecognised.
+ */
+export function isCreditIndicator(value: string, direction: NonNullable<ColumnMapping['direction']>): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (direction.credit_values.some((v) => v.toLowerCase() === normalized)) return true;
+  if (direction.debit_values.some((v) => v.toLowerCase() === normalized)) return false;
+  return null;
+}
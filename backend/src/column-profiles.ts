@@ -0,0 +1,80 @@
+// RIFT 2026 – Column Mapping Profiles
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Named ColumnMapping profiles saved server-side so a bank feed's mapping
+//   is configured once and selected by name on every upload
+//   (POST /api/analyze?profile=<name>).
+//
+// STORAGE
+//   A single JSON object keyed by profile name in DATA_DIR/column-profiles.json
+//   (see file-store).  Saving an existing name replaces its mapping while
+//   keeping the original created_at.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { ColumnMappingProfile } from './types';
+import { readJsonRecord, writeJsonFile } from './file-store';
+import { validateColumnMapping } from './column-mapping';
+
+const PROFILES_FILE = 'column-profiles.json';
+const PROFILE_NAME_REGEX = /^[A-Za-z0-9 _.-]{1,64}$/;
+
+type ProfileMap = Record<string, ColumnMappingProfile>;
+
+// Server-managed fields; ignored so a fetched profile can be sent back as-is
+const PROFILE_METADATA_KEYS = ['name', 'created_at', 'updated_at'];
+
+function stripMetadata(input: unknown): unknown {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return input;
+  return Object.fromEntries(Object.entries(input).filter(([key]) => !PROFILE_METADATA_KEYS.includes(key)));
+}
+
+function loadProfiles(): ProfileMap {
+  return readJsonRecord<ColumnMappingProfile>(PROFILES_FILE);
+}
+
+export function listColumnProfiles(): ColumnMappingProfile[] {
+  return Object.values(loadProfiles()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getColumnProfile(name: string): ColumnMappingProfile | undefined {
+  return loadProfiles()[name];
+}
+
+/**
+ * Create or replace a profile.  Returns validation errors instead of
+ * throwing; the profile is only persisted when `errors` is empty.
+ */
+export function saveColumnProfile(
+  name: string,
+  input: unknown,
+): { profile?: ColumnMappingProfile; errors: string[] } {
+  if (!PROFILE_NAME_REGEX.test(name)) {
+    return { errors: ['Profile name must be 1-64 characters: letters, digits, space, _ . -'] };
+  }
+
+  const { mapping, errors } = validateColumnMapping(stripMetadata(input));
+  if (errors.length > 0) return { errors };
+
+  const profiles = loadProfiles();
+  const now = new Date().toISOString();
+  const profile: ColumnMappingProfile = {
+    ...mapping,
+    name,
+    created_at: profiles[name]?.created_at ?? now,
+    updated_at: now,
+  };
+
+  profiles[name] = profile;
+  writeJsonFile(PROFILES_FILE, profiles);
+  return { profile, errors: [] };
+}
+
+/** Delete a profile; returns false when it did not exist. */
+export function deleteColumnProfile(name: string): boolean {
+  const profiles = loadProfiles();
+  if (!profiles[name]) return false;
+  delete profiles[name];
+  writeJsonFile(PROFILES_FILE, profiles);
+  return true;
+}
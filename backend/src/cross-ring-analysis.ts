@@ -0,0 +1,277 @@
+// RIFT 2026 – Cross-Ring Network Controller Detection
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Ring leadership ranks members inside one ring at a time, but real
+//   controllers sit across many rings: the shared funding source behind
+//   several cycles, the beneficiary several fan-outs pay into.  This module
+//   links rings to each other and flags the accounts that tie them together.
+//
+// RING OVERLAP GRAPH
+//   Two rings are linked when they share members or when money moved between
+//   their members.  A transaction internal to either ring is not a transfer
+//   between them.  Each ring records its links (linked_rings) with the shared
+//   members and the amount sent and received across the link.
+//
+// NETWORK CONTROLLERS
+//   An account is connected to a ring as
+//     member       – it is one of the ring's members
+//     funder       – it sent money to ≥ min_ring_members members
+//     beneficiary  – it received money from ≥ min_ring_members members
+//   Rings that share members besides the account itself are overlapping
+//   views of one group (a cycle and a fan-in over the same mules), so they
+//   count once.  Accounts connected to ≥ min_rings such groups are NETWORK
+//   CONTROLLERS: the account is what ties the groups together.  They
+//   record each ring and the money they exchanged with its members, plus the
+//   money that moved between members of different groups, and receive a suspicion-score
+//   boost from DetectionConfig.cross_ring.controller_boost (cap 100).
+//
+// ALGORITHM
+//   One pass over the transactions, pairing the rings of the sender with
+//   the rings of the receiver.
+//   Time complexity: O(T · r²) where r = rings per account (small in practice)
+//
+// INTEGRATION
+//   Called AFTER ring leadership analysis, so only pattern-level rings are
+//   linked (community rings are built later from the same accounts).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  AccountNode,
+  ControlledRing,
+  DetectionConfig,
+  FraudRing,
+  RawTransaction,
+  RingControlRelation,
+  RingLink,
+} from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import { DEFAULT_REPORTING_CURRENCY, formatCurrency } from './fx-rates';
+import { recordScoreChange } from './score-contributions';
+
+interface RingContact {
+  counterparts_sent: Set<string>;
+  counterparts_received: Set<string>;
+  amount_sent: number;
+  amount_received: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function relationOf(
+  isMember: boolean,
+  contact: RingContact | undefined,
+  minRingMembers: number
+): RingControlRelation | null {
+  if (isMember) return 'member';
+  const funds = (contact?.counterparts_sent.size ?? 0) >= minRingMembers;
+  const benefits = (contact?.counterparts_received.size ?? 0) >= minRingMembers;
+  if (funds && benefits) return 'funder_beneficiary';
+  if (funds) return 'funder';
+  if (benefits) return 'beneficiary';
+  return null;
+}
+
+/** The given rings grouped, joining rings that share a member other than `accountId` */
+function ringGroups(rings: number[], links: Map<number, RingLink>[], accountId: string): number[][] {
+  const group = new Map(rings.map((r) => [r, r]));
+  const find = (r: number): number => {
+    while (group.get(r) !== r) r = group.get(r)!;
+    return r;
+  };
+  for (const a of rings) {
+    for (const b of rings) {
+      if (a >= b || !links[a].get(b)?.shared_members.some((m) => m !== accountId)) continue;
+      group.set(find(a), find(b));
+    }
+  }
+  const groups = new Map<number, number[]>();
+  for (const r of rings) {
+    const root = find(r);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(r);
+  }
+  return [...groups.values()];
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Link fraud rings that share members or exchanged money (sets
+ * `linked_rings`), then tag accounts connected to ≥ min_rings otherwise
+ * separate ring groups as network controllers and apply the configured
+ * score boost (capped at 100).
+ *
+ * Mutates `accounts` and `fraudRings` in-place.
+ */
+export function detectNetworkControllers(
+  accounts: AccountNode[],
+  fraudRings: FraudRing[],
+  transactions: RawTransaction[],
+  config: DetectionConfig['cross_ring'] = DEFAULT_DETECTION_CONFIG.cross_ring,
+  currency: string = DEFAULT_REPORTING_CURRENCY
+): void {
+  if (fraudRings.length === 0) return;
+
+  const memberSets = fraudRings.map((ring) => new Set(ring.members));
+  const ringsOf = new Map<string, number[]>();
+  fraudRings.forEach((ring, r) => {
+    for (const member of memberSets[r]) {
+      if (!ringsOf.has(member)) ringsOf.set(member, []);
+      ringsOf.get(member)!.push(r);
+    }
+  });
+
+  // ── Ring overlap graph ──
+  // links[a].get(b) describes ring b as seen from ring a
+  const links: Map<number, RingLink>[] = fraudRings.map(() => new Map());
+  const linkBetween = (a: number, b: number) => {
+    let link = links[a].get(b);
+    if (!link) {
+      link = { ring_id: fraudRings[b].ring_id, shared_members: [], amount_out: 0, amount_in: 0, transaction_count: 0 };
+      links[a].set(b, link);
+    }
+    return link;
+  };
+  for (const [accountId, rings] of ringsOf) {
+    for (const a of rings) {
+      for (const b of rings) if (a !== b) linkBetween(a, b).shared_members.push(accountId);
+    }
+  }
+
+  // ── Account ↔ ring contacts ──
+  const contacts = new Map<string, Map<number, RingContact>>();
+  const contactOf = (accountId: string, r: number) => {
+    if (!contacts.has(accountId)) contacts.set(accountId, new Map());
+    const byRing = contacts.get(accountId)!;
+    let contact = byRing.get(r);
+    if (!contact) {
+      contact = { counterparts_sent: new Set(), counterparts_received: new Set(), amount_sent: 0, amount_received: 0 };
+      byRing.set(r, contact);
+    }
+    return contact;
+  };
+
+  for (const tx of transactions) {
+    if (tx.sender_id === tx.receiver_id) continue;
+    const senderRings = ringsOf.get(tx.sender_id) ?? [];
+    const receiverRings = ringsOf.get(tx.receiver_id) ?? [];
+
+    for (const r of receiverRings) {
+      const contact = contactOf(tx.sender_id, r);
+      contact.counterparts_sent.add(tx.receiver_id);
+      contact.amount_sent += tx.amount;
+    }
+    for (const r of senderRings) {
+      const contact = contactOf(tx.receiver_id, r);
+      contact.counterparts_received.add(tx.sender_id);
+      contact.amount_received += tx.amount;
+    }
+
+    for (const from of senderRings) {
+      if (memberSets[from].has(tx.receiver_id)) continue;
+      for (const to of receiverRings) {
+        if (from === to || memberSets[to].has(tx.sender_id)) continue;
+        const outgoing = linkBetween(from, to);
+        outgoing.amount_out += tx.amount;
+        outgoing.transaction_count++;
+        const incoming = linkBetween(to, from);
+        incoming.amount_in += tx.amount;
+        incoming.transaction_count++;
+      }
+    }
+  }
+
+  fraudRings.forEach((ring, r) => {
+    const ringLinks = [...links[r].values()];
+    if (ringLinks.length === 0) return;
+    ring.linked_rings = ringLinks
+      .map((link) => ({
+        ...link,
+        shared_members: link.shared_members.sort(),
+        amount_out: round2(link.amount_out),
+        amount_in: round2(link.amount_in),
+      }))
+      .sort((x, y) =>
+        y.shared_members.length - x.shared_members.length ||
+        y.amount_out + y.amount_in - (x.amount_out + x.amount_in) ||
+        x.ring_id.localeCompare(y.ring_id)
+      );
+  });
+
+  // ── Network controllers ──
+  const accountIdx = new Map<string, AccountNode>();
+  for (const a of accounts) accountIdx.set(a.account_id, a);
+
+  const sentBy = new Map<string, RawTransaction[]>();
+  for (const tx of transactions) {
+    if (!ringsOf.has(tx.sender_id)) continue;
+    if (!sentBy.has(tx.sender_id)) sentBy.set(tx.sender_id, []);
+    sentBy.get(tx.sender_id)!.push(tx);
+  }
+
+  const candidates = new Set([...ringsOf.keys(), ...contacts.keys()]);
+  for (const accountId of candidates) {
+    const account = accountIdx.get(accountId);
+    if (!account) continue;
+    const memberOf = new Set(ringsOf.get(accountId) ?? []);
+    const byRing = contacts.get(accountId);
+
+    const controlled: { ring: number; entry: ControlledRing }[] = [];
+    for (const r of new Set([...memberOf, ...(byRing?.keys() ?? [])])) {
+      const contact = byRing?.get(r);
+      const relation = relationOf(memberOf.has(r), contact, config.min_ring_members);
+      if (!relation) continue;
+      controlled.push({
+        ring: r,
+        entry: {
+          ring_id: fraudRings[r].ring_id,
+          relation,
+          amount_sent: round2(contact?.amount_sent ?? 0),
+          amount_received: round2(contact?.amount_received ?? 0),
+        },
+      });
+    }
+    const groups = ringGroups(controlled.map((c) => c.ring), links, accountId);
+    if (groups.length < config.min_rings) continue;
+
+    // Money between members of different groups, each transaction once
+    const groupOf = new Map<string, number>();
+    groups.forEach((group, g) => {
+      for (const r of group) for (const member of memberSets[r]) if (member !== accountId) groupOf.set(member, g);
+    });
+    let interRing = 0;
+    const interRingIds: string[] = [];
+    for (const [member, g] of groupOf) {
+      for (const tx of sentBy.get(member) ?? []) {
+        const other = groupOf.get(tx.receiver_id);
+        if (other === undefined || other === g) continue;
+        interRing += tx.amount;
+        interRingIds.push(tx.transaction_id);
+      }
+    }
+
+    const rings = controlled.map((c) => c.entry).sort((x, y) => x.ring_id.localeCompare(y.ring_id));
+    account.network_controller = { rings, inter_ring_amount: round2(interRing), currency };
+    const ringList = rings.map((c) => `${c.ring_id} (${c.relation.replace('_', '/')})`).join(', ');
+    recordScoreChange(account, Math.min(100, account.suspicion_score + config.controller_boost), {
+      stage: 'cross_ring',
+      algorithm: 'Cross-Ring Controller Detection',
+      reason:
+        `NETWORK CONTROLLER across ${rings.length} rings in ${groups.length} separate groups: ${ringList}; ` +
+        `${formatCurrency(interRing, currency)} moved between the groups`,
+      transaction_ids: interRingIds,
+      counterparties: groupOf.keys(),
+    });
+    account.is_suspicious = account.suspicion_score > 0;
+
+    if (!account.triggered_algorithms.includes('Cross-Ring Controller Detection')) {
+      account.triggered_algorithms.push('Cross-Ring Controller Detection');
+    }
+    if (!account.detected_patterns.includes('network_controller')) {
+      account.detected_patterns.push('network_controller');
+    }
+  }
+}
@@ -0,0 +1,237 @@
+// RIFT 2026 – RFC 4180 CSV Tokenizer
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Turn raw CSV text into records of fields, correctly handling everything a
+//   naive split('\n') / split(',') gets wrong in real bank exports:
+//     • Quoted fields containing delimiters, quotes ("" escape) and newlines
+//     • CRLF, LF and bare CR record terminators
+//     • A leading UTF-8 byte-order mark
+//     • Non-comma delimiters (; for European exports, tab, |)
+//
+// ALGORITHM
+//   Character-level state machine fed incrementally via push(); all state
+//   lives in the tokenizer so chunk boundaries may fall anywhere — inside a
+//   quoted field, between the two characters of "" or of CRLF.  Each record
+//   carries the physical line number it started on so validation errors can
+//   point at the right line even after multi-line quoted fields.
+//
+//   When no delimiter is given it is auto-detected from the header row: the
+//   candidate occurring most often outside quotes wins (comma on ties).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface CsvRecord {
+  fields: string[];
+  /** Physical (1-based) line the record starts on */
+  line: number;
+  /** True when the input ended inside a quoted field */
+  unterminated?: boolean;
+}
+
+export interface CsvTokenizer {
+  /** Feed the next chunk of text; returns the records it completed */
+  push(chunk: string): CsvRecord[];
+  /** Signal end of input; returns the final record, if any */
+  flush(): CsvRecord[];
+  /** Delimiter in use (undefined until auto-detection has seen the header) */
+  readonly delimiter: string | undefined;
+}
+
+/** Candidates tried, in tie-break order, when auto-detecting the delimiter */
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+const DELIMITER_ALIASES: Record<string, string> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  '\\t': '\t',
+  pipe: '|',
+};
+
+/**
+ * Normalise a user-supplied delimiter ("," / ";" / "tab" / "\t" …).
+ * Returns null when it cannot be used as a delimiter.
+ */
+export function normalizeDelimiter(raw: string): string | null {
+  const delimiter = DELIMITER_ALIASES[raw.toLowerCase()] ?? raw;
+  if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\r' || delimiter === '\n') {
+    return null;
+  }
+  return delimiter;
+}
+
+/** Pick the candidate delimiter that occurs most often outside quotes. */
+export function detectDelimiter(headerLine: string): string {
+  const counts = new Map<string, number>(DELIMITER_CANDIDATES.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const ch of headerLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+
+  let best = DELIMITER_CANDIDATES[0];
+  for (const candidate of DELIMITER_CANDIDATES) {
+    if (counts.get(candidate)! > counts.get(best)!) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * The line to detect the delimiter on: the first one with content, skipping
+ * the blank lines the validator ignores.  Undefined while that line may still
+ * continue in a later chunk (`complete` is false).
+ */
+function headerLineOf(text: string, complete: boolean): string | undefined {
+  let start = 0;
+  for (;;) {
+    let end = start;
+    while (end < text.length && text[end] !== '\n' && text[end] !== '\r') end++;
+    const line = text.slice(start, end);
+    if (end === text.length) return complete ? line : undefined;
+    if (line.trim()) return line;
+    start = end + 1;
+  }
+}
+
+// ─── Tokenizer ───────────────────────────────────────────────────────────────
+
+type FieldState =
+  | 'start'         // At the beginning of a field (only whitespace seen)
+  | 'unquoted'      // Inside an unquoted field
+  | 'quoted'        // Inside a quoted field
+  | 'quote_in_quoted' // Saw " inside a quoted field: escape or closing quote
+  | 'after_quoted'; // Closing quote seen, waiting for delimiter / newline
+
+export function createCsvTokenizer(delimiter?: string): CsvTokenizer {
+  let activeDelimiter = delimiter;
+  let pending = ''; // Text held back until the delimiter is detected
+  let atStart = true; // BOM is only stripped from the very first character
+
+  let fields: string[] = [];
+  let field = '';
+  let state: FieldState = 'start';
+  let line = 1;
+  let recordLine = 1;
+  let skipLF = false; // Previous char was a CR ending a record
+  let recordHasContent = false;
+
+  function endField(): void {
+    fields.push(field);
+    field = '';
+    state = 'start';
+  }
+
+  function endRecord(out: CsvRecord[]): void {
+    endField();
+    out.push({ fields, line: recordLine });
+    fields = [];
+    recordHasContent = false;
+  }
+
+  function consume(text: string, out: CsvRecord[]): void {
+    const delim = activeDelimiter!;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (skipLF) {
+        skipLF = false;
+        if (ch === '\n') continue;
+      }
+
+      if (!recordHasContent) {
+        recordLine = line;
+        recordHasContent = true;
+      }
+
+      switch (state) {
+        case 'quoted':
+          if (ch === '"') {
+            state = 'quote_in_quoted';
+          } else {
+            if (ch === '\n') line++;
+            field += ch;
+          }
+          continue;
+
+        case 'quote_in_quoted':
+          if (ch === '"') {
+            // "" inside quotes is a literal quote
+            field += '"';
+            state = 'quoted';
+            continue;
+          }
+          state = 'after_quoted';
+          break; // Re-examine ch as text following the closing quote
+
+        default:
+          break;
+      }
+
+      if (ch === delim) {
+        endField();
+      } else if (ch === '\n' || ch === '\r') {
+        endRecord(out);
+        line++;
+        skipLF = ch === '\r';
+      } else if (ch === '"' && state === 'start') {
+        // Whitespace before an opening quote is not part of the value
+        field = '';
+        state = 'quoted';
+      } else if (state === 'after_quoted') {
+        // Lenient: stray characters after a closing quote are kept
+        if (ch.trim()) field += ch;
+      } else {
+        field += ch;
+        if (state === 'start' && ch.trim()) state = 'unquoted';
+      }
+    }
+  }
+
+  function stripBom(text: string): string {
+    if (!atStart || !text) return text;
+    atStart = false;
+    return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  }
+
+  return {
+    get delimiter() {
+      return activeDelimiter;
+    },
+
+    push(chunk: string): CsvRecord[] {
+      const out: CsvRecord[] = [];
+      const text = stripBom(chunk);
+
+      if (activeDelimiter === undefined) {
+        pending += text;
+        const headerLine = headerLineOf(pending, false);
+        if (headerLine === undefined) return out;
+        activeDelimiter = detectDelimiter(headerLine);
+        const buffered = pending;
+        pending = '';
+        consume(buffered, out);
+        return out;
+      }
+
+      consume(text, out);
+      return out;
+    },
+
+    flush(): CsvRecord[] {
+      const out: CsvRecord[] = [];
+      if (activeDelimiter === undefined) {
+        activeDelimiter = detectDelimiter(headerLineOf(pending, true)!);
+        const buffered = pending;
+        pending = '';
+        consume(buffered, out);
+      }
+
+      if (recordHasContent) {
+        const unterminated = state === 'quoted';
+        endRecord(out);
+        if (unterminated) out[out.length - 1].unterminated = true;
+      }
+      return out;
+    },
+  };
+}
@@ -1,169 +1,403 @@
 // CSV Validation and Parsing
 // Strict schema validation for RIFT 2026 hackathon format
+//
+// Two entry points share the same header and row validation:
+//   validateAndParseCSV        – whole file already in memory as a string
+//   validateAndParseCSVStream  – consumes a Node Readable chunk by chunk so
+//                                the raw text of very large exports is never
+//                                held in memory at once
+//
+// Both tokenize with csv-tokenizer (RFC 4180 quoting, CRLF, BOM, custom or
+// auto-detected delimiter).  Row numbers are physical file lines.  An
+// optional ColumnMapping adapts non-standard bank export schemas.
 
-import { RawTransaction } from './types';
-
-const REQUIRED_COLUMNS = [
-  'transaction_id',
-  'sender_id',
-  'receiver_id',
-  'amount',
-  'timestamp',
-];
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { ColumnMapping, RawTransaction } from './types';
+import { CsvRecord, createCsvTokenizer } from './csv-tokenizer';
+import { isCurrencyCode } from './fx-rates';
+import {
+  CANONICAL_COLUMNS,
+  ResolvedColumns,
+  applyAmountSign,
+  compileDateFormat,
+  isCreditIndicator,
+  resolveColumns,
+} from './column-mapping';
 
 const TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
 
+/** Errors beyond this count fail the whole file */
+const MAX_REPORTED_ERRORS = 10;
+
+/** Streaming mode keeps at most this many warnings in memory */
+const MAX_STREAM_WARNINGS = 1000;
+
 export interface ValidationResult {
   success: boolean;
   transactions: RawTransaction[];
   errors: string[];
   warnings: string[];
+  delimiter?: string; // Field delimiter used (given or auto-detected)
+  headers?: string[]; // Header row as found in the file
+  missingColumns?: string[]; // Required columns the header/mapping did not provide
 }
 
-export function validateAndParseCSV(content: string): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const transactions: RawTransaction[] = [];
+export interface CsvParseOptions {
+  /** Field delimiter; auto-detected from the header row when omitted */
+  delimiter?: string;
+  /** Header aliases and value conventions for non-standard exports */
+  mapping?: ColumnMapping;
+}
 
-  // Check for empty file
-  const trimmed = content.trim();
-  if (!trimmed) {
-    return { success: false, transactions: [], errors: ['File is empty'], warnings: [] };
-  }
+// ─── Shared parse state ──────────────────────────────────────────────────────
 
-  const lines = trimmed.split('\n');
-  if (lines.length < 2) {
-    return {
-      success: false,
-      transactions: [],
-      errors: ['File must have a header row and at least one data row'],
-      warnings: [],
-    };
-  }
+interface ParseState extends ResolvedColumns {
+  headers: string[];
+  mapping?: ColumnMapping;
+  /** Converts mapped date formats to YYYY-MM-DD HH:MM:SS */
+  parseDate?: (value: string) => string | null;
+  seenIds: Set<string>;
+  transactions: RawTransaction[];
+  errors: string[];
+  errorCount: number;
+  warnings: string[];
+  omittedWarnings: number;
+  /** Cap on stored warnings (Infinity for in-memory parsing) */
+  maxWarnings: number;
+  /** Non-comma delimited exports (European banks) may use a decimal comma */
+  decimalComma: boolean;
+}
+
+function failure(error: string, extra: Partial<ValidationResult> = {}): ValidationResult {
+  return { success: false, transactions: [], errors: [error], warnings: [], ...extra };
+}
+
+interface HeaderError {
+  error: string;
+  headers: string[];
+  missingColumns: string[];
+}
 
-  // Parse header
-  const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
+/** Parse the header record; returns an error when required columns are missing. */
+function parseHeader(
+  fields: string[],
+  mapping?: ColumnMapping,
+): ({ headers: string[] } & ResolvedColumns) | HeaderError {
+  const headers = fields.map((h) => h.trim());
 
-  // Validate required columns exist
-  const missingColumns = REQUIRED_COLUMNS.filter((col) => !headers.includes(col));
-  if (missingColumns.length > 0) {
+  // Validate required columns exist (directly or via mapping aliases)
+  const resolved = resolveColumns(headers, mapping);
+  if ('missing' in resolved) {
     return {
-      success: false,
-      transactions: [],
-      errors: [`Missing required columns: ${missingColumns.join(', ')}. Required: ${REQUIRED_COLUMNS.join(', ')}`],
-      warnings: [],
+      error: `Missing required columns: ${resolved.missing.join(', ')}. Required: ${CANONICAL_COLUMNS.join(', ')}`,
+      headers,
+      missingColumns: resolved.missing,
     };
   }
 
-  // Get column indices
-  const colIdx = {
-    transaction_id: headers.indexOf('transaction_id'),
-    sender_id: headers.indexOf('sender_id'),
-    receiver_id: headers.indexOf('receiver_id'),
-    amount: headers.indexOf('amount'),
-    timestamp: headers.indexOf('timestamp'),
+  return { headers, ...resolved };
+}
+
+function createParseState(
+  header: { headers: string[] } & ResolvedColumns,
+  maxWarnings: number,
+  delimiter: string,
+  mapping?: ColumnMapping,
+): ParseState {
+  return {
+    ...header,
+    mapping,
+    parseDate: mapping?.date_format ? compileDateFormat(mapping.date_format) : undefined,
+    seenIds: new Set<string>(),
+    transactions: [],
+    errors: [],
+    errorCount: 0,
+    warnings: [],
+    omittedWarnings: 0,
+    maxWarnings,
+    decimalComma: delimiter !== ',',
   };
+}
+
+function addError(state: ParseState, message: string): void {
+  state.errorCount++;
+  // Only the first MAX_REPORTED_ERRORS (+1 to detect overflow) are ever shown
+  if (state.errors.length <= MAX_REPORTED_ERRORS) state.errors.push(message);
+  // Once the file is certain to fail, stop accumulating transactions
+  if (state.errorCount > MAX_REPORTED_ERRORS) state.transactions = [];
+}
 
-  // Check for duplicate transaction IDs
-  const seenIds = new Set<string>();
+function addWarning(state: ParseState, message: string): void {
+  if (state.warnings.length < state.maxWarnings) {
+    state.warnings.push(message);
+  } else {
+    state.omittedWarnings++;
+  }
+}
 
-  // Parse rows
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; // Skip blank lines
+function isBlankRecord(record: CsvRecord): boolean {
+  return record.fields.length === 1 && !record.fields[0].trim();
+}
 
-    const values = line.split(',').map((v) => v.trim());
-    const lineNum = i + 1;
+/** Validate one data record and append it to the state when valid. */
+function parseRow(state: ParseState, record: CsvRecord): void {
+  const lineNum = record.line;
+  if (isBlankRecord(record)) return; // Skip blank lines
 
-    // Check column count
-    if (values.length < headers.length) {
-      errors.push(`Row ${lineNum}: Expected ${headers.length} columns but got ${values.length}`);
-      continue;
-    }
+  if (record.unterminated) {
+    addError(state, `Row ${lineNum}: Unterminated quoted field`);
+    return;
+  }
 
-    const transactionId = values[colIdx.transaction_id];
-    const senderId = values[colIdx.sender_id];
-    const receiverId = values[colIdx.receiver_id];
-    const amountStr = values[colIdx.amount];
-    const timestamp = values[colIdx.timestamp];
+  const values = record.fields.map((v) => v.trim());
 
-    // Validate transaction_id
-    if (!transactionId) {
-      errors.push(`Row ${lineNum}: Missing transaction_id`);
-      continue;
-    }
+  // Check column count
+  if (values.length < state.headers.length) {
+    addError(state, `Row ${lineNum}: Expected ${state.headers.length} columns but got ${values.length}`);
+    return;
+  }
 
-    // Check duplicates
-    if (seenIds.has(transactionId)) {
-      warnings.push(`Row ${lineNum}: Duplicate transaction_id "${transactionId}"`);
-    }
-    seenIds.add(transactionId);
+  const { colIdx, mapping } = state;
+  const transactionId = values[colIdx.transaction_id];
+  let senderId = values[colIdx.sender_id];
+  let receiverId = values[colIdx.receiver_id];
+  const amountStr = values[colIdx.amount];
+  let timestamp = values[colIdx.timestamp];
+
+  // Validate transaction_id
+  if (!transactionId) {
+    addError(state, `Row ${lineNum}: Missing transaction_id`);
+    return;
+  }
+
+  // Check duplicates
+  if (state.seenIds.has(transactionId)) {
+    addWarning(state, `Row ${lineNum}: Duplicate transaction_id "${transactionId}"`);
+  }
+  state.seenIds.add(transactionId);
+
+  // Validate sender_id
+  if (!senderId) {
+    addError(state, `Row ${lineNum}: Missing sender_id`);
+    return;
+  }
 
-    // Validate sender_id
-    if (!senderId) {
-      errors.push(`Row ${lineNum}: Missing sender_id`);
-      continue;
+  // Validate receiver_id
+  if (!receiverId) {
+    addError(state, `Row ${lineNum}: Missing receiver_id`);
+    return;
+  }
+
+  // Self-transfer check
+  if (senderId === receiverId) {
+    addWarning(state, `Row ${lineNum}: Self-transfer from ${senderId}`);
+  }
+
+  // Validate amount ("1234,56" is read as 1234.56 when the delimiter is not a comma)
+  const signed = applyAmountSign(
+    parseFloat(state.decimalComma && /^-?\d+,\d+$/.test(amountStr) ? amountStr.replace(',', '.') : amountStr),
+    mapping?.amount_sign,
+  );
+  if (!signed) {
+    const expected = mapping?.amount_sign && mapping.amount_sign !== 'positive'
+      ? 'a non-zero number'
+      : 'a positive number';
+    addError(state, `Row ${lineNum}: Invalid amount "${amountStr}" - must be ${expected}`);
+    return;
+  }
+  const amount = signed.amount;
+  let reversed = signed.reversed;
+
+  // Debit/credit indicator: credit rows flow receiver → sender
+  if (mapping?.direction) {
+    const indicator = values[state.directionIdx];
+    const credit = isCreditIndicator(indicator, mapping.direction);
+    if (credit === null) {
+      addError(state, `Row ${lineNum}: Unrecognised debit/credit indicator "${indicator}"`);
+      return;
     }
+    if (credit) reversed = !reversed;
+  }
+
+  if (reversed) [senderId, receiverId] = [receiverId, senderId];
 
-    // Validate receiver_id
-    if (!receiverId) {
-      errors.push(`Row ${lineNum}: Missing receiver_id`);
-      continue;
+  // Optional currency column (blank means the reporting currency)
+  let currency: string | undefined;
+  if (state.currencyIdx !== -1 && values[state.currencyIdx]) {
+    currency = values[state.currencyIdx].toUpperCase();
+    if (!isCurrencyCode(currency)) {
+      addError(state, `Row ${lineNum}: Invalid currency "${values[state.currencyIdx]}" - expected a 3-letter ISO code`);
+      return;
     }
+  }
 
-    // Self-transfer check
-    if (senderId === receiverId) {
-      warnings.push(`Row ${lineNum}: Self-transfer from ${senderId}`);
+  // Mapped date formats are converted to the canonical timestamp format
+  if (state.parseDate) {
+    const converted = state.parseDate(timestamp);
+    if (!converted) {
+      addError(state, `Row ${lineNum}: Invalid timestamp "${timestamp}" - expected format: ${mapping!.date_format}`);
+      return;
     }
+    timestamp = converted;
+  }
 
-    // Validate amount
-    const amount = parseFloat(amountStr);
-    if (isNaN(amount) || amount <= 0) {
-      errors.push(`Row ${lineNum}: Invalid amount "${amountStr}" - must be a positive number`);
-      continue;
+  // Validate timestamp format
+  if (!TIMESTAMP_REGEX.test(timestamp)) {
+    // Try to parse anyway
+    const parsed = new Date(timestamp);
+    if (isNaN(parsed.getTime())) {
+      addError(state, `Row ${lineNum}: Invalid timestamp "${timestamp}" - expected format: YYYY-MM-DD HH:MM:SS`);
+      return;
     }
+    addWarning(state, `Row ${lineNum}: Timestamp "${timestamp}" not in exact format YYYY-MM-DD HH:MM:SS but was parseable`);
+  }
 
-    // Validate timestamp format
-    if (!TIMESTAMP_REGEX.test(timestamp)) {
-      // Try to parse anyway
-      const parsed = new Date(timestamp);
-      if (isNaN(parsed.getTime())) {
-        errors.push(`Row ${lineNum}: Invalid timestamp "${timestamp}" - expected format: YYYY-MM-DD HH:MM:SS`);
-        continue;
-      }
-      warnings.push(`Row ${lineNum}: Timestamp "${timestamp}" not in exact format YYYY-MM-DD HH:MM:SS but was parseable`);
+  // No point keeping rows once the file has already failed
+  if (state.errorCount > MAX_REPORTED_ERRORS) return;
+
+  state.transactions.push({
+    transaction_id: transactionId,
+    sender_id: senderId,
+    receiver_id: receiverId,
+    amount: Math.round(amount * 100) / 100,
+    timestamp,
+    ...(currency && { currency }),
+  });
+}
+
+// ─── Record consumer shared by both entry points ─────────────────────────────
+
+interface RecordConsumer {
+  state: ParseState | null;
+  sawDataRow: boolean;
+  headerError?: HeaderError;
+}
+
+/** Feed one record; returns false once the header has been rejected. */
+function consumeRecord(
+  consumer: RecordConsumer,
+  record: CsvRecord,
+  maxWarnings: number,
+  delimiter: string,
+  mapping?: ColumnMapping,
+): boolean {
+  if (!consumer.state) {
+    // Leading blank lines are skipped
+    if (isBlankRecord(record)) return true;
+    const header = parseHeader(record.fields, mapping);
+    if ('error' in header) {
+      consumer.headerError = header;
+      return false;
     }
+    consumer.state = createParseState(header, maxWarnings, delimiter, mapping);
+    return true;
+  }
 
-    transactions.push({
-      transaction_id: transactionId,
-      sender_id: senderId,
-      receiver_id: receiverId,
-      amount: Math.round(amount * 100) / 100,
-      timestamp,
-    });
+  if (!isBlankRecord(record)) consumer.sawDataRow = true;
+  parseRow(consumer.state, record);
+  return true;
+}
+
+function finishConsumer(consumer: RecordConsumer, delimiter: string | undefined): ValidationResult {
+  if (consumer.headerError) {
+    const { error, headers, missingColumns } = consumer.headerError;
+    return failure(error, { delimiter, headers, missingColumns });
   }
+  if (!consumer.state) return failure('File is empty');
+  if (!consumer.sawDataRow) return failure('File must have a header row and at least one data row');
+  return { ...finalizeResult(consumer.state), delimiter };
+}
+
+function finalizeResult(state: ParseState): ValidationResult {
+  const { transactions, errors, errorCount } = state;
+  const warnings = state.warnings;
 
   // Max size check
   if (transactions.length > 50000) {
     warnings.push(`Large dataset: ${transactions.length} transactions. Processing may take longer.`);
   }
 
-  if (errors.length > 10) {
+  if (state.omittedWarnings > 0) {
+    warnings.push(`...and ${state.omittedWarnings} more warnings not shown`);
+  }
+
+  if (errorCount > MAX_REPORTED_ERRORS) {
     return {
       success: false,
       transactions: [],
       errors: [
-        `Too many errors (${errors.length}). First 10:`,
-        ...errors.slice(0, 10),
+        `Too many errors (${errorCount}). First ${MAX_REPORTED_ERRORS}:`,
+        ...errors.slice(0, MAX_REPORTED_ERRORS),
       ],
       warnings,
     };
   }
 
   return {
-    success: errors.length === 0,
+    success: errorCount === 0,
     transactions,
     errors,
     warnings,
   };
 }
+
+// ─── In-memory parsing ───────────────────────────────────────────────────────
+
+export function validateAndParseCSV(content: string, options: CsvParseOptions = {}): ValidationResult {
+  // Check for empty file
+  if (!content.replace(/^\uFEFF/, '').trim()) {
+    return failure('File is empty');
+  }
+
+  const tokenizer = createCsvTokenizer(options.delimiter);
+  const consumer: RecordConsumer = { state: null, sawDataRow: false };
+  const records = [...tokenizer.push(content), ...tokenizer.flush()];
+
+  for (const record of records) {
+    if (!consumeRecord(consumer, record, Infinity, tokenizer.delimiter!, options.mapping)) break;
+  }
+
+  return finishConsumer(consumer, tokenizer.delimiter);
+}
+
+// ─── Streaming parsing ───────────────────────────────────────────────────────
+
+/**
+ * Validate and parse a CSV delivered as a Node stream (e.g. an HTTP request
+ * body or fs.createReadStream).  Rows are validated as they arrive with the
+ * same error/warning semantics as validateAndParseCSV; only the parsed
+ * transactions are retained.  Bytes are decoded as UTF-8 across chunk
+ * boundaries before tokenizing.
+ *
+ * Differences forced by bounded memory: at most MAX_STREAM_WARNINGS warnings
+ * are kept (the remainder are summarised), and once more than
+ * MAX_REPORTED_ERRORS errors are seen parsed rows are discarded because the
+ * file can no longer succeed.
+ */
+export async function validateAndParseCSVStream(
+  input: Readable,
+  options: CsvParseOptions = {},
+): Promise<ValidationResult> {
+  const tokenizer = createCsvTokenizer(options.delimiter);
+  const decoder = new StringDecoder('utf8');
+  const consumer: RecordConsumer = { state: null, sawDataRow: false };
+
+  const consumeAll = (records: CsvRecord[]): boolean =>
+    records.every((record) =>
+      consumeRecord(consumer, record, MAX_STREAM_WARNINGS, tokenizer.delimiter!, options.mapping),
+    );
+
+  for await (const chunk of input) {
+    const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    if (!consumeAll(tokenizer.push(text))) {
+      // Header rejected – no point reading the rest of the body
+      input.destroy();
+      return finishConsumer(consumer, tokenizer.delimiter);
+    }
+  }
+
+  consumeAll(tokenizer.push(decoder.end()));
+  consumeAll(tokenizer.flush());
+  return finishConsumer(consumer, tokenizer.delimiter);
+}
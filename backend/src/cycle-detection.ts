@@ -0,0 +1,375 @@
+// ─── TEMPORAL CYCLE DETECTION ────────────────────────────────────────────────
+// Enumerates time-respecting cycles: A → B → C → A is a cycle only when every
+// hop has a transaction at or after the previous hop's, all within
+// max_duration_hours of the first.  The money may start at any member, so
+// B → C → A → B is the same account sequence.  Each cycle names the
+// transactions that form it, listed from the account the money starts at.
+//
+// SEARCH (Johnson's algorithm, bounded by max_length)
+//   1. Tarjan SCC decomposition; accounts outside a non-trivial SCC are on no
+//      cycle and are never searched.
+//   2. Accounts are taken in input order and every cycle is found once, from
+//      its earliest member s, by a DFS that only enters later accounts of
+//      s's SCC.
+//   3. Johnson's blocked sets assume unbounded length.  With max_length they
+//      become length barriers: a backward BFS from s gives each account's hop
+//      distance back to s, and the DFS enters an account only when the path
+//      so far plus that distance fits in max_length.
+//   4. Time pruning: the DFS carries, per first-hop transaction, the earliest
+//      time the money can be at the current account (binary search on each
+//      edge's time-sorted transactions).  Dominated first hops — started no
+//      later, arriving no earlier — are dropped.
+//   5. When the money starts at a later member, the hop times drop once along
+//      the path from s: the hops after the drop happen first and must all
+//      come no later than s's first hop.  These wrapped paths are carried as
+//      a second set of (first-hop time, earliest arrival) pairs, entered from
+//      an unwrapped pair at a hop no earlier than its arrival minus
+//      max_duration_hours.  A branch with neither kind of live pair is
+//      abandoned.
+//
+// INSTANCES
+//   Each account sequence that closes yields its instances greedily in time
+//   order: every transaction of the sequence, taken as a first hop, is
+//   extended with the earliest unused qualifying transaction on each
+//   following hop, and an instance never reuses a transaction of an earlier
+//   one.  Repeated rounds through the same
+//   accounts, and the two directions around one account set, are therefore
+//   separate cycles told apart by their transaction IDs.
+//
+// Complexity: O(V + E) for the SCCs, then per start O(P · F log M) for P
+//   length- and time-feasible paths, F live first hops and M transactions
+//   per edge
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { DetectionConfig, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG, hoursToMs } from './detection-config';
+
+type CycleConfig = DetectionConfig['cycles'];
+
+/** A time-respecting cycle; transaction_ids[i] is the hop members[i] → members[i + 1] */
+export interface TemporalCycle {
+  members: string[];               // Flow order, from the earliest account in input order
+  transaction_ids: string[];
+  transactions: RawTransaction[];  // transactions[i] is the hop members[i] → members[i + 1], in time order
+}
+
+interface Edge {
+  to: number;
+  times: number[];            // Ascending
+  txs: RawTransaction[];      // Parallel to times
+}
+
+interface CycleIndex {
+  nodes: string[];
+  out: Edge[][];
+  preds: number[][];          // Distinct predecessors
+  edgeOf: Map<number, Edge>[];
+}
+
+/** Time-sorted edges over integer account indices, in `allNodes` order */
+function buildIndex(transactions: RawTransaction[], allNodes: string[]): CycleIndex {
+  const position = new Map(allNodes.map((node, idx) => [node, idx]));
+  const out: Edge[][] = allNodes.map(() => []);
+  const preds: number[][] = allNodes.map(() => []);
+  const edgeOf: Map<number, Edge>[] = allNodes.map(() => new Map());
+  const timed = new Map<Edge, { time: number; tx: RawTransaction }[]>();
+
+  for (const tx of transactions) {
+    if (tx.sender_id === tx.receiver_id) continue;
+    const from = position.get(tx.sender_id)!;
+    const to = position.get(tx.receiver_id)!;
+    let edge = edgeOf[from].get(to);
+    if (!edge) {
+      edge = { to, times: [], txs: [] };
+      edgeOf[from].set(to, edge);
+      out[from].push(edge);
+      preds[to].push(from);
+      timed.set(edge, []);
+    }
+    timed.get(edge)!.push({ time: new Date(tx.timestamp).getTime(), tx });
+  }
+  for (const [edge, entries] of timed) {
+    entries.sort((a, b) => a.time - b.time);
+    edge.times = entries.map((e) => e.time);
+    edge.txs = entries.map((e) => e.tx);
+  }
+
+  return { nodes: allNodes, out, preds, edgeOf };
+}
+
+/** Index of the first time ≥ t */
+function lowerBound(times: number[], t: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Iterative Tarjan; returns each account's component and the component sizes */
+function stronglyConnectedComponents(index: CycleIndex): { component: Int32Array; sizes: number[] } {
+  const n = index.nodes.length;
+  const component = new Int32Array(n).fill(-1);
+  const low = new Int32Array(n);
+  const order = new Int32Array(n).fill(-1);
+  const onStack = new Uint8Array(n);
+  const stack: number[] = [];
+  const sizes: number[] = [];
+  let counter = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (order[root] !== -1) continue;
+    const work: { node: number; next: number }[] = [{ node: root, next: 0 }];
+    order[root] = low[root] = counter++;
+    stack.push(root);
+    onStack[root] = 1;
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const edges = index.out[frame.node];
+      if (frame.next < edges.length) {
+        const to = edges[frame.next++].to;
+        if (order[to] === -1) {
+          order[to] = low[to] = counter++;
+          stack.push(to);
+          onStack[to] = 1;
+          work.push({ node: to, next: 0 });
+        } else if (onStack[to]) {
+          low[frame.node] = Math.min(low[frame.node], order[to]);
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        low[parent] = Math.min(low[parent], low[frame.node]);
+      }
+      if (low[frame.node] === order[frame.node]) {
+        let size = 0;
+        let member: number;
+        do {
+          member = stack.pop()!;
+          onStack[member] = 0;
+          component[member] = sizes.length;
+          size++;
+        } while (member !== frame.node);
+        sizes.push(size);
+      }
+    }
+  }
+  return { component, sizes };
+}
+
+/** A wrapped path: s's first-hop time bounds every later hop */
+interface WrappedHop {
+  bound: number;
+  arrival: number;
+}
+
+/** Live first hops of a DFS branch */
+interface LiveHops {
+  starts: number[];           // Unwrapped: first-hop times, ascending
+  arrivals: number[];         // Parallel to starts
+  wrapped: WrappedHop[];
+}
+
+/** Drop wrapped hops bounded no later and arriving no earlier than another */
+function dominantWrappedHops(hops: WrappedHop[]): WrappedHop[] {
+  hops.sort((a, b) => b.bound - a.bound || a.arrival - b.arrival);
+  const kept: WrappedHop[] = [];
+  let bestArrival = Infinity;
+  for (const hop of hops) {
+    if (hop.arrival >= bestArrival) continue;
+    bestArrival = hop.arrival;
+    kept.push(hop);
+  }
+  return kept;
+}
+
+/**
+ * Cycle search with reusable scratch space.  `searchFrom(s)` returns every
+ * temporal cycle whose earliest member is s.
+ */
+function createSearch(
+  index: CycleIndex,
+  config: CycleConfig,
+  component: Int32Array,
+): (start: number) => TemporalCycle[] {
+  const { min_length: minLength, max_length: maxLength } = config;
+  const durationMs = hoursToMs(config.max_duration_hours);
+  const n = index.nodes.length;
+  const distance = new Int32Array(n);
+  const distanceStamp = new Int32Array(n).fill(-1);
+  const onPath = new Uint8Array(n);
+  let stamp = 0;
+
+  const allowed = (start: number, node: number) =>
+    node > start && component[node] === component[start];
+
+  // Length barriers: hop distance back to `start` within the allowed accounts
+  const computeDistances = (start: number) => {
+    stamp++;
+    distance[start] = 0;
+    distanceStamp[start] = stamp;
+    let frontier = [start];
+    for (let d = 1; d < maxLength && frontier.length > 0; d++) {
+      const next: number[] = [];
+      for (const node of frontier) {
+        for (const pred of index.preds[node]) {
+          if (distanceStamp[pred] === stamp || !allowed(start, pred)) continue;
+          distanceStamp[pred] = stamp;
+          distance[pred] = d;
+          next.push(pred);
+        }
+      }
+      frontier = next;
+    }
+  };
+
+  // Extend live first hops across an edge; drops dominated and expired ones
+  const extend = (starts: number[], arrivals: number[], edge: Edge): [number[], number[]] => {
+    const nextStarts: number[] = [];
+    const nextArrivals: number[] = [];
+    let bestArrival = Infinity;
+    // Later starts first: a first hop survives only if it arrives earlier than every later one
+    for (let i = starts.length - 1; i >= 0; i--) {
+      const at = lowerBound(edge.times, arrivals[i]);
+      if (at === edge.times.length) continue;
+      const arrival = edge.times[at];
+      if (arrival - starts[i] > durationMs || arrival >= bestArrival) continue;
+      bestArrival = arrival;
+      nextStarts.push(starts[i]);
+      nextArrivals.push(arrival);
+    }
+    return [nextStarts.reverse(), nextArrivals.reverse()];
+  };
+
+  // Crossing an edge: unwrapped hops extend, wrapped hops stay within their
+  // bound, and unwrapped hops wrap at a hop no earlier than their arrival
+  // minus max_duration_hours
+  const cross = (live: LiveHops, edge: Edge): LiveHops => {
+    const [starts, arrivals] = extend(live.starts, live.arrivals, edge);
+    const wrapped: WrappedHop[] = [];
+    const wrapAt = (bound: number, earliest: number) => {
+      const at = lowerBound(edge.times, earliest);
+      if (at < edge.times.length && edge.times[at] <= bound) wrapped.push({ bound, arrival: edge.times[at] });
+    };
+    for (const hop of live.wrapped) wrapAt(hop.bound, hop.arrival);
+    live.starts.forEach((start, i) => wrapAt(start, live.arrivals[i] - durationMs));
+    return { starts, arrivals, wrapped: dominantWrappedHops(wrapped) };
+  };
+
+  const isLive = (live: LiveHops) => live.starts.length > 0 || live.wrapped.length > 0;
+
+  // Disjoint instances of one closing account sequence, earliest first.  Any
+  // hop can be the first, so members are listed from the instance's first hop.
+  const buildInstances = (path: number[]): TemporalCycle[] => {
+    const edges = path.map((node, i) => index.edgeOf[node].get(path[(i + 1) % path.length])!);
+    const used = edges.map((edge) => new Uint8Array(edge.txs.length));
+    const firstHops: { hop: number; at: number }[] = [];
+    edges.forEach((edge, hop) => edge.times.forEach((_, at) => firstHops.push({ hop, at })));
+    firstHops.sort((a, b) => edges[a.hop].times[a.at] - edges[b.hop].times[b.at] || a.hop - b.hop);
+    const instances: TemporalCycle[] = [];
+
+    for (const first of firstHops) {
+      if (used[first.hop][first.at]) continue;
+      const deadline = edges[first.hop].times[first.at] + durationMs;
+      const picks = [first];
+      let arrival = edges[first.hop].times[first.at];
+      for (let offset = 1; offset < edges.length; offset++) {
+        const hop = (first.hop + offset) % edges.length;
+        const edge = edges[hop];
+        let at = lowerBound(edge.times, arrival);
+        while (at < edge.times.length && used[hop][at]) at++;
+        if (at === edge.times.length || edge.times[at] > deadline) break;
+        picks.push({ hop, at });
+        arrival = edge.times[at];
+      }
+      if (picks.length < edges.length) continue;
+
+      for (const { hop, at } of picks) used[hop][at] = 1;
+      const transactions = picks.map(({ hop, at }) => edges[hop].txs[at]);
+      instances.push({
+        members: picks.map(({ hop }) => index.nodes[path[hop]]),
+        transactions,
+        transaction_ids: transactions.map((tx) => tx.transaction_id),
+      });
+    }
+    return instances;
+  };
+
+  return (start: number) => {
+    const cycles: TemporalCycle[] = [];
+    computeDistances(start);
+    const path = [start];
+    onPath[start] = 1;
+
+    const visit = (node: number, live: LiveHops) => {
+      const closing = index.edgeOf[node].get(start);
+      if (closing && path.length >= minLength && isLive(cross(live, closing))) {
+        for (const cycle of buildInstances(path)) cycles.push(cycle);
+      }
+      if (path.length >= maxLength) return;
+
+      for (const edge of index.out[node]) {
+        const next = edge.to;
+        if (onPath[next] || distanceStamp[next] !== stamp || next === start) continue;
+        if (path.length + distance[next] > maxLength) continue;
+        const nextLive = cross(live, edge);
+        if (!isLive(nextLive)) continue;
+        path.push(next);
+        onPath[next] = 1;
+        visit(next, nextLive);
+        onPath[next] = 0;
+        path.pop();
+      }
+    };
+
+    for (const edge of index.out[start]) {
+      const next = edge.to;
+      if (distanceStamp[next] !== stamp || next === start || 1 + distance[next] > maxLength) continue;
+      path.push(next);
+      onPath[next] = 1;
+      visit(next, { starts: [...edge.times], arrivals: [...edge.times], wrapped: [] });
+      onPath[next] = 0;
+      path.pop();
+    }
+
+    onPath[start] = 0;
+    return cycles;
+  };
+}
+
+/**
+ * Detect every temporal cycle.  Output is grouped by earliest member in
+ * `allNodes` order; each cycle's members are listed from its first hop.
+ */
+export function detectTemporalCycles(
+  transactions: RawTransaction[],
+  allNodes: string[],
+  config: CycleConfig = DEFAULT_DETECTION_CONFIG.cycles,
+): TemporalCycle[] {
+  const index = buildIndex(transactions, allNodes);
+  const { component, sizes } = stronglyConnectedComponents(index);
+  const searchFrom = createSearch(index, config, component);
+
+  const cycles: TemporalCycle[] = [];
+  for (let start = 0; start < allNodes.length; start++) {
+    if (sizes[component[start]] < 2) continue;
+    for (const cycle of searchFrom(start)) cycles.push(cycle);
+  }
+  return cycles;
+}
+
+/** Ring explanation: account sequence, transactions and elapsed time */
+export function describeTemporalCycle(cycle: TemporalCycle): string {
+  const first = new Date(cycle.transactions[0].timestamp).getTime();
+  const last = new Date(cycle.transactions[cycle.transactions.length - 1].timestamp).getTime();
+  return (
+    `Cycle of ${cycle.members.length} accounts: ${cycle.members.join(' -> ')} -> ${cycle.members[0]} ` +
+    `via ${cycle.transaction_ids.join(', ')} within ${((last - first) / 3_600_000).toFixed(1)}h`
+  );
+}
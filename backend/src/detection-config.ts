@@ -0,0 +1,288 @@
+// RIFT 2026 – Detection Configuration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Single source of truth for every threshold and weight used by the
+//   detection pipeline.  Callers supply a (possibly partial) override object;
+//   it is merged over the defaults below and validated before a run starts.
+//   The effective configuration is echoed back in AnalysisResult so every
+//   run can be reproduced exactly.
+//
+// VALIDATION RULES
+//   • Unknown keys are rejected (typos must not silently fall back to defaults)
+//   • Every leaf must be a finite, non-negative number
+//   • Cross-field constraints (e.g. min_length ≤ max_length) are enforced
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DetectionConfig, DetectionConfigInput } from './types';
+
+// ─── Defaults (identical to the original hard-coded pipeline) ────────────────
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  cycles: {
+    min_length: 3,
+    max_length: 5,
+    max_duration_hours: 168,
+  },
+  fan_in: {
+    window_hours: 72,
+    min_unique_senders: 10,
+  },
+  fan_out: {
+    window_hours: 72,
+    min_unique_receivers: 10,
+  },
+  shell_chain: {
+    max_account_transactions: 3,
+    min_hops: 3,
+    max_hops: 5,
+  },
+  structuring: {
+    reporting_threshold: 10000,
+    band_pct: 5,
+    window_hours: 168,
+    min_transactions: 3,
+  },
+  pass_through: {
+    max_dwell_hours: 24,
+    amount_tolerance: 0.1,
+    min_matches: 2,
+    min_ratio: 0.5,
+  },
+  amount_analysis: {
+    min_transactions: 5,
+    round_unit: 100,
+    round_ratio_threshold: 0.8,
+    repeat_min_count: 4,
+    benford_min_transactions: 50,
+    benford_mad_threshold: 0.015,
+  },
+  scoring: {
+    cycle_weight: 40,
+    fan_in_weight: 30,
+    fan_out_weight: 30,
+    shell_weight: 35,
+    structuring_weight: 30,
+    pass_through_weight: 25,
+    amount_weight: 15,
+    velocity_weight: 15,
+    velocity_tx_per_day: 15,
+    centrality_weight: 0,
+    dampening: {
+      min_degree: 100,
+      min_transactions: 10,
+      interval_tolerance: 0.3,
+      consistent_ratio: 0.6,
+      reduction: 30,
+    },
+  },
+  relationship_intelligence: {
+    min_recurring_tx_count: 3,
+    min_recurring_span_days: 30,
+    max_total_reduction: 50,
+    duration_tier_1_days: 60,
+    duration_tier_2_days: 120,
+    cv_threshold: 0.2,
+    periodicity_match_ratio: 0.7,
+    periodicity_tolerance: 0.25,
+  },
+  temporal_validation: {
+    min_amount_ratio: 0.5,
+  },
+  ring_leadership: {
+    orchestrator_boost: 10,
+  },
+  cross_ring: {
+    min_rings: 2,
+    min_ring_members: 2,
+    controller_boost: 15,
+  },
+  multi_stage: {
+    min_pattern_types: 2,
+    boost: 20,
+  },
+  community: {
+    min_evidence: 2,
+    resolution: 1,
+  },
+  graph_metrics: {
+    damping: 0.85,
+    max_iterations: 100,
+    betweenness_samples: 256,
+    top_percentile: 1,
+  },
+  fan_in_validation: {
+    window_hours: 72,
+    min_unique_senders: 3,
+    amount_tolerance: 0.2,
+    rapid_outflow_window_hours: 24,
+    rapid_outflow_ratio: 0.5,
+    low_activity_tx_threshold: 3,
+  },
+  watchlist: {
+    exact_weight: 50,
+    fuzzy_weight: 30,
+    fuzzy_threshold: 0.85,
+  },
+  dispositions: {
+    benign_reduction_pct: 100,
+    confirmed_mule_min_score: 90,
+  },
+};
+
+export interface ConfigResolution {
+  config: DetectionConfig;
+  errors: string[];
+}
+
+// ─── Deep merge with validation ──────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeSection(
+  defaults: Record<string, unknown>,
+  override: unknown,
+  path: string,
+  errors: string[],
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(defaults)) {
+    merged[key] = isPlainObject(value) ? mergeSection(value, undefined, `${path}${key}.`, errors) : value;
+  }
+
+  if (override === undefined) return merged;
+  if (!isPlainObject(override)) {
+    errors.push(`config.${path.slice(0, -1) || '(root)'} must be an object`);
+    return merged;
+  }
+
+  for (const [key, value] of Object.entries(override)) {
+    const fieldPath = `${path}${key}`;
+    if (!(key in defaults)) {
+      errors.push(`Unknown config field: ${fieldPath}`);
+      continue;
+    }
+    const defaultValue = defaults[key];
+    if (isPlainObject(defaultValue)) {
+      merged[key] = mergeSection(defaultValue, value, `${fieldPath}.`, errors);
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`config.${fieldPath} must be a non-negative number`);
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function checkConstraints(config: DetectionConfig, errors: string[]): void {
+  const {
+    cycles, shell_chain, structuring, pass_through, amount_analysis, fan_in, fan_out, community, graph_metrics, cross_ring,
+    watchlist, dispositions,
+  } = config;
+  if (cycles.min_length < 2) {
+    errors.push('config.cycles.min_length must be at least 2');
+  }
+  if (cycles.min_length > cycles.max_length) {
+    errors.push('config.cycles.min_length must not exceed config.cycles.max_length');
+  }
+  if (cycles.max_duration_hours <= 0) {
+    errors.push('config.cycles.max_duration_hours must be greater than 0');
+  }
+  if (shell_chain.min_hops < 2) {
+    errors.push('config.shell_chain.min_hops must be at least 2');
+  }
+  if (shell_chain.min_hops > shell_chain.max_hops) {
+    errors.push('config.shell_chain.min_hops must not exceed config.shell_chain.max_hops');
+  }
+  if (fan_in.min_unique_senders < 1 || fan_out.min_unique_receivers < 1) {
+    errors.push('Fan-in/fan-out counterparty thresholds must be at least 1');
+  }
+  if (structuring.reporting_threshold <= 0) {
+    errors.push('config.structuring.reporting_threshold must be greater than 0');
+  }
+  if (structuring.band_pct <= 0 || structuring.band_pct >= 100) {
+    errors.push('config.structuring.band_pct must be greater than 0 and less than 100');
+  }
+  if (structuring.min_transactions < 2) {
+    errors.push('config.structuring.min_transactions must be at least 2');
+  }
+  if (pass_through.min_matches < 1) {
+    errors.push('config.pass_through.min_matches must be at least 1');
+  }
+  if (pass_through.amount_tolerance >= 1 || pass_through.min_ratio > 1) {
+    errors.push('config.pass_through.amount_tolerance must be less than 1 and min_ratio at most 1');
+  }
+  if (amount_analysis.round_unit <= 0) {
+    errors.push('config.amount_analysis.round_unit must be greater than 0');
+  }
+  if (amount_analysis.round_ratio_threshold > 1) {
+    errors.push('config.amount_analysis.round_ratio_threshold must not exceed 1');
+  }
+  if (amount_analysis.repeat_min_count < 2) {
+    errors.push('config.amount_analysis.repeat_min_count must be at least 2');
+  }
+  if (community.resolution <= 0) {
+    errors.push('config.community.resolution must be greater than 0');
+  }
+  if (graph_metrics.damping >= 1) {
+    errors.push('config.graph_metrics.damping must be less than 1');
+  }
+  if (graph_metrics.max_iterations < 1) {
+    errors.push('config.graph_metrics.max_iterations must be at least 1');
+  }
+  if (graph_metrics.top_percentile > 100) {
+    errors.push('config.graph_metrics.top_percentile must not exceed 100');
+  }
+  if (cross_ring.min_rings < 2 || cross_ring.min_ring_members < 1) {
+    errors.push('config.cross_ring.min_rings must be at least 2 and min_ring_members at least 1');
+  }
+  if (watchlist.fuzzy_threshold <= 0 || watchlist.fuzzy_threshold > 1) {
+    errors.push('config.watchlist.fuzzy_threshold must be greater than 0 and at most 1');
+  }
+  if (dispositions.benign_reduction_pct > 100 || dispositions.confirmed_mule_min_score > 100) {
+    errors.push('config.dispositions values must not exceed 100');
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Merge a user-supplied override over DEFAULT_DETECTION_CONFIG.
+ *
+ * Never throws: problems are collected in `errors` (same convention as
+ * ValidationResult) so the API layer can report them as a 400 response.
+ * When `errors` is non-empty the returned config must not be used.
+ */
+export function resolveDetectionConfig(input?: unknown): ConfigResolution {
+  const errors: string[] = [];
+  const config = mergeSection(
+    DEFAULT_DETECTION_CONFIG as unknown as Record<string, unknown>,
+    input ?? undefined,
+    '',
+    errors,
+  ) as unknown as DetectionConfig;
+
+  if (errors.length === 0) checkConstraints(config, errors);
+  return { config, errors };
+}
+
+/** Convert a DetectionConfigInput into a validated config, throwing on error. */
+export function requireDetectionConfig(input?: DetectionConfigInput): DetectionConfig {
+  const { config, errors } = resolveDetectionConfig(input);
+  if (errors.length > 0) {
+    throw new Error(`Invalid detection config: ${errors.join('; ')}`);
+  }
+  return config;
+}
+
+/** Hours → milliseconds */
+export function hoursToMs(hours: number): number {
+  return hours * 60 * 60 * 1000;
+}
+
+/** Days → milliseconds */
+export function daysToMs(days: number): number {
+  return days * 24 * 60 * 60 * 1000;
+}
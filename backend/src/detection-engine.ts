@@ -13,19 +13,61 @@ import {
   ShellChainPath,
   DetectionMode,
   PatternScores,
+  DetectionConfig,
+  DetectionConfigInput,
+  AnalysisOptions,
+  AnalysisStage,
+  WatchlistHit,
+  AmountProfile,
+  CommunityPartition,
+  CommunitySummary,
+  GraphMetrics,
+  StageSnapshot,
 } from './types';
+import { requireDetectionConfig, hoursToMs } from './detection-config';
+import { DEFAULT_REPORTING_CURRENCY, formatCurrency } from './fx-rates';
 import { adjustScoresUsingRelationshipIntelligence } from './relationship-intelligence';
 import { validateTemporalCycles } from './temporal-cycle-validation';
 import { analyzeRingLeadership } from './centrality-analysis';
+import { detectNetworkControllers } from './cross-ring-analysis';
 import { detectMultiStageFlows } from './multi-stage-flow-analysis';
 import { validateFanInTwoPhase } from './fan-in-validation';
+import { applyAnalystDispositions } from './analyst-dispositions';
+import { describeWatchlistHit, flagWatchlistedRings, screenAccounts } from './watchlist-screening';
+import {
+  StructuringGroup,
+  describeStructuringRing,
+  describeStructuringSender,
+  detectStructuring,
+} from './structuring-detection';
+import { analyzeAmounts, describeAmountAnomalies } from './amount-analysis';
+import {
+  TemporalCycle,
+  describeTemporalCycle,
+  detectTemporalCycles,
+} from './cycle-detection';
+import {
+  PassThroughResult,
+  buildPassThroughRings,
+  describePassThrough,
+  describePassThroughRing,
+  detectPassThrough,
+} from './pass-through-detection';
+import { louvainCommunities, transactionEdgeWeights } from './community-detection';
+import { computeGraphMetrics, describeCentrality, topCentralityAccounts } from './graph-metrics';
+import {
+  ContributionInput,
+  explanationFromContributions,
+  recordFinding,
+  recordScoreChange,
+} from './score-contributions';
 
 // ─── ADJACENCY LIST GRAPH ────────────────────────────────────────────────────
 // Using adjacency list for O(V+E) traversal, optimal for sparse financial graphs
 
-type AdjList = Map<string, Map<string, RawTransaction[]>>;
+export type AdjList = Map<string, Map<string, RawTransaction[]>>;
 
-function buildAdjacencyList(transactions: RawTransaction[]): AdjList {
+export function buildAdjacencyList(transactions: RawTransaction[]): AdjList {
   const graph: AdjList = new Map();
   for (const tx of transactions) {
     if (!graph.has(tx.sender_id)) graph.set(tx.sender_id, new Map());
@@ -38,72 +80,33 @@ function buildAdjacencyList(transactions: RawTransaction[]): AdjList {
 }
 
 // ─── 1. CYCLE DETECTION ──────────────────────────────────────────────────────
-// Uses DFS-based approach similar to Johnson's algorithm
-// Finds simple cycles of length 3-5
-// Time complexity: O(V + E) per DFS, bounded by max cycle length
-// Total: O((V+E) * V) worst case, but pruned heavily by length limit
-
-function detectCycles(
-  graph: AdjList,
-  allNodes: string[]
-): { cycles: string[][]; ringMap: Map<string, string[]> } {
-  const cycles: string[][] = [];
-  const foundCycleSet = new Set<string>();
-
-  for (const startNode of allNodes) {
-    // DFS with depth limit of 5
-    const stack: { node: string; path: string[] }[] = [
-      { node: startNode, path: [startNode] },
-    ];
-
-    while (stack.length > 0) {
-      const { node, path } = stack.pop()!;
-
-      if (path.length > 5) continue; // Max cycle length 5
-
-      const neighbors = graph.get(node);
-      if (!neighbors) continue;
+// Time-respecting cycles via Johnson's algorithm — see cycle-detection.ts
 
-      for (const [neighbor] of neighbors) {
-        if (neighbor === startNode && path.length >= 3) {
-          // Found a cycle of length 3-5
-          const cycle = [...path];
-          const key = [...cycle].sort().join(',');
-          if (!foundCycleSet.has(key)) {
-            foundCycleSet.add(key);
-            cycles.push(cycle);
-          }
-        } else if (!path.includes(neighbor) && path.length < 5) {
-          stack.push({ node: neighbor, path: [...path, neighbor] });
-        }
-      }
-    }
-  }
-
-  // Assign ring IDs and build ring membership map
+// Assign ring IDs and build ring membership map
+function buildCycleRingMap(cycles: TemporalCycle[]): Map<string, string[]> {
   const ringMap = new Map<string, string[]>();
   cycles.forEach((cycle, idx) => {
     const ringId = `RING_${String(idx + 1).padStart(3, '0')}`;
-    for (const node of cycle) {
+    for (const node of cycle.members) {
       if (!ringMap.has(node)) ringMap.set(node, []);
       ringMap.get(node)!.push(ringId);
     }
   });
-
-  return { cycles, ringMap };
+  return ringMap;
 }
 
 // ─── 2. FAN-IN DETECTION (Smurfing) ─────────────────────────────────────────
-// Sliding 72-hour window: >=10 unique senders to same receiver
+// Sliding window (default 72h): >= min_unique_senders (default 10) to same receiver
 // Time complexity: O(T log T) for sort + O(T) for sliding window = O(T log T)
 // where T = number of transactions for a given receiver
 
 function detectFanIn(
   transactions: RawTransaction[],
-  allNodes: string[]
+  allNodes: string[],
+  config: DetectionConfig['fan_in']
 ): Map<string, { senders: Set<string>; windowStart: string; windowEnd: string }> {
   const fanInMap = new Map<string, { senders: Set<string>; windowStart: string; windowEnd: string }>();
-  const window72h = 72 * 60 * 60 * 1000;
+  const windowMs = hoursToMs(config.window_hours);
 
   // Group transactions by receiver
   const byReceiver = new Map<string, RawTransaction[]>();
@@ -122,10 +125,10 @@ function detectFanIn(
     for (let right = 0; right < sorted.length; right++) {
       const rightTime = new Date(sorted[right].timestamp).getTime();
 
-      // Slide left pointer to maintain 72h window
+      // Slide left pointer to maintain the window
       while (
         left < right &&
-        rightTime - new Date(sorted[left].timestamp).getTime() > window72h
+        rightTime - new Date(sorted[left].timestamp).getTime() > windowMs
       ) {
         left++;
       }
@@ -136,7 +139,7 @@ function detectFanIn(
         sendersInWindow.add(sorted[i].sender_id);
       }
 
-      if (sendersInWindow.size >= 10) {
+      if (sendersInWindow.size >= config.min_unique_senders) {
         fanInMap.set(receiver, {
           senders: sendersInWindow,
           windowStart: sorted[left].timestamp,
@@ -151,15 +154,16 @@ function detectFanIn(
 }
 
 // ─── 3. FAN-OUT DETECTION ────────────────────────────────────────────────────
-// Sliding 72-hour window: >=10 unique receivers from same sender
+// Sliding window (default 72h): >= min_unique_receivers (default 10) from same sender
 // Time complexity: O(T log T) per sender group
 
 function detectFanOut(
   transactions: RawTransaction[],
-  allNodes: string[]
+  allNodes: string[],
+  config: DetectionConfig['fan_out']
 ): Map<string, { receivers: Set<string>; windowStart: string; windowEnd: string }> {
   const fanOutMap = new Map<string, { receivers: Set<string>; windowStart: string; windowEnd: string }>();
-  const window72h = 72 * 60 * 60 * 1000;
+  const windowMs = hoursToMs(config.window_hours);
 
   // Group transactions by sender
   const bySender = new Map<string, RawTransaction[]>();
@@ -179,7 +183,7 @@ function detectFanOut(
 
       while (
         left < right &&
-        rightTime - new Date(sorted[left].timestamp).getTime() > window72h
+        rightTime - new Date(sorted[left].timestamp).getTime() > windowMs
       ) {
         left++;
       }
@@ -189,7 +193,7 @@ function detectFanOut(
         receiversInWindow.add(sorted[i].receiver_id);
       }
 
-      if (receiversInWindow.size >= 10) {
+      if (receiversInWindow.size >= config.min_unique_receivers) {
         fanOutMap.set(sender, {
           receivers: receiversInWindow,
           windowStart: sorted[left].timestamp,
@@ -204,21 +208,26 @@ function detectFanOut(
 }
 
 // ─── 4. SHELL CHAIN DETECTION ────────────────────────────────────────────────
-// BFS-based: path length >= 3 hops, intermediate nodes have <= 3 total transactions
+// BFS-based: path length >= min_hops (default 3), intermediate nodes have
+// <= max_account_transactions (default 3) total transactions
 // Time complexity: O(V + E) BFS from each low-activity node
 
 function detectShellChains(
   graph: AdjList,
   accountMap: Map<string, AccountNode>,
-  transactions: RawTransaction[]
+  transactions: RawTransaction[],
+  config: DetectionConfig['shell_chain']
 ): { chains: string[][]; shellNodes: Set<string> } {
   const chains: string[][] = [];
   const shellNodes = new Set<string>();
+  // Paths are node lists, so N hops = N + 1 nodes
+  const minPathNodes = config.min_hops + 1;
+  const maxPathNodes = config.max_hops + 1;
 
   // Identify potential shell accounts (low transaction count)
   const lowActivityNodes = new Set<string>();
   for (const [id, account] of accountMap) {
-    if (account.total_transactions <= 3) {
+    if (account.total_transactions <= config.max_account_transactions) {
       lowActivityNodes.add(id);
     }
   }
@@ -233,7 +242,7 @@ function detectShellChains(
     while (queue.length > 0) {
       const { node, path } = queue.shift()!;
 
-      if (path.length > 6) continue; // Limit chain length
+      if (path.length > maxPathNodes) continue; // Limit chain length
 
       const neighbors = graph.get(node);
       if (!neighbors) continue;
@@ -244,9 +253,8 @@ function detectShellChains(
 
         const newPath = [...path, neighbor];
 
-        // Check if this forms a shell chain (>=3 hops with shell intermediaries)
-        if (newPath.length >= 4) {
-          // path length 4 = 3 hops
+        // Check if this forms a shell chain (>= min_hops with shell intermediaries)
+        if (newPath.length >= minPathNodes) {
           const intermediates = newPath.slice(1, -1);
           const allShell = intermediates.every((n) => lowActivityNodes.has(n));
 
@@ -257,7 +265,7 @@ function detectShellChains(
         }
 
         // Continue BFS if next node is low-activity
-        if (lowActivityNodes.has(neighbor) && newPath.length < 6) {
+        if (lowActivityNodes.has(neighbor) && newPath.length < maxPathNodes) {
           queue.push({ node: neighbor, path: newPath });
         }
       }
@@ -268,92 +276,259 @@ function detectShellChains(
 }
 
 // ─── 5. SUSPICION SCORING ENGINE ─────────────────────────────────────────────
-// Weighted: Cycle=+40, Fan-in=+30, Fan-out=+30, Shell chain=+35, High velocity=+15
+// Weighted (defaults): Cycle=+40, Fan-in=+30, Fan-out=+30, Shell chain=+35,
+// Structuring=+30, Pass-through=+25, Amount anomaly=+15, High velocity=+15.
+// Weights come from DetectionConfig.scoring.
+// Watchlist hits add DetectionConfig.watchlist exact/fuzzy weight (+50/+30).
+// Top global centrality adds centrality_weight (0 by default, so opt-in).
 // Cap at 100. False positive reduction for high-degree legitimate accounts.
+// Each weight, the dampening and the cap are recorded as score contributions.
 
 function calculateSuspicionScores(
   accountMap: Map<string, AccountNode>,
   ringMap: Map<string, string[]>,
-  fanInMap: Map<string, { senders: Set<string> }>,
-  fanOutMap: Map<string, { receivers: Set<string> }>,
+  cycles: TemporalCycle[],
+  fanInMap: Map<string, { senders: Set<string>; windowStart: string; windowEnd: string }>,
+  fanOutMap: Map<string, { receivers: Set<string>; windowStart: string; windowEnd: string }>,
   shellNodes: Set<string>,
-  transactions: RawTransaction[]
+  structuringMap: Map<string, StructuringGroup>,
+  passThroughMap: Map<string, PassThroughResult>,
+  amountProfiles: Map<string, AmountProfile>,
+  watchlistHits: Map<string, WatchlistHit[]>,
+  graphMetrics: Map<string, GraphMetrics>,
+  transactions: RawTransaction[],
+  config: DetectionConfig,
+  currency: string
 ): void {
+  const weights = config.scoring;
+  const dampening = config.scoring.dampening;
+  const centralAccounts = weights.centrality_weight > 0
+    ? topCentralityAccounts(graphMetrics, config.graph_metrics.top_percentile)
+    : new Set<string>();
+
+  // Sender → receivers it structured into
+  const structuredReceivers = new Map<string, string[]>();
+  for (const [receiver, group] of structuringMap) {
+    for (const sender of group.senders) {
+      const list = structuredReceivers.get(sender);
+      if (list) list.push(receiver);
+      else structuredReceivers.set(sender, [receiver]);
+    }
+  }
+
+  // Group once instead of filtering the full list per account (O(V·T))
+  const txsByAccount = new Map<string, RawTransaction[]>();
+  const addTx = (accountId: string, tx: RawTransaction) => {
+    const list = txsByAccount.get(accountId);
+    if (list) list.push(tx);
+    else txsByAccount.set(accountId, [tx]);
+  };
+  for (const tx of transactions) {
+    addTx(tx.sender_id, tx);
+    if (tx.receiver_id !== tx.sender_id) addTx(tx.receiver_id, tx);
+  }
+
+  const cyclesByAccount = new Map<string, TemporalCycle[]>();
+  for (const cycle of cycles) {
+    for (const member of cycle.members) {
+      const list = cyclesByAccount.get(member);
+      if (list) list.push(cycle);
+      else cyclesByAccount.set(member, [cycle]);
+    }
+  }
+
+  // Transactions inside [start, end] between the account and the given counterparties
+  const windowTransactionIds = (
+    accountTxs: RawTransaction[],
+    counterpartKey: 'sender_id' | 'receiver_id',
+    counterparts: Set<string>,
+    windowStart: string,
+    windowEnd: string
+  ) => {
+    const start = new Date(windowStart).getTime();
+    const end = new Date(windowEnd).getTime();
+    return accountTxs
+      .filter((tx) => {
+        const t = new Date(tx.timestamp).getTime();
+        return counterparts.has(tx[counterpartKey]) && t >= start && t <= end;
+      })
+      .map((tx) => tx.transaction_id);
+  };
+
   for (const [id, account] of accountMap) {
-    const scores: PatternScores = { fan_in: 0, fan_out: 0, cycle: 0, shell: 0, velocity: 0 };
+    const scores: PatternScores = { fan_in: 0, fan_out: 0, cycle: 0, shell: 0, structuring: 0, pass_through: 0, amount: 0, velocity: 0, watchlist: 0, centrality: 0 };
     const patterns: string[] = [];
     const algorithms: string[] = [];
-    const explanations: string[] = [];
+    const accountTxs = txsByAccount.get(id) ?? [];
+
+    // Every triggered pattern adds its weight as one contribution
+    account.suspicion_score = 0;
+    account.score_contributions = [];
+    const contribute = (weight: number, input: Omit<ContributionInput, 'stage'>) => {
+      algorithms.push(input.algorithm);
+      recordScoreChange(account, account.suspicion_score + weight, { stage: 'scoring', ...input });
+    };
 
-    // Cycle participation: +40
+    // Cycle participation: +cycle_weight
     if (ringMap.has(id)) {
-      scores.cycle += 40;
+      scores.cycle += weights.cycle_weight;
       patterns.push('cycle');
-      algorithms.push('DFS Cycle Detection (Johnson variant)');
-      explanations.push(
-        `Part of ${ringMap.get(id)!.length} fraud ring(s): ${ringMap.get(id)!.join(', ')}`
-      );
+      const accountCycles = cyclesByAccount.get(id) ?? [];
+      contribute(weights.cycle_weight, {
+        algorithm: `Johnson's Temporal Cycle Detection (${config.cycles.max_duration_hours}h)`,
+        reason: `Part of ${ringMap.get(id)!.length} fraud ring(s): ${ringMap.get(id)!.join(', ')}`,
+        transaction_ids: accountCycles.flatMap((cycle) => cycle.transaction_ids),
+        counterparties: accountCycles.flatMap((cycle) => cycle.members),
+      });
       account.ring_ids = ringMap.get(id)!;
     }
 
-    // Fan-in: +30
-    if (fanInMap.has(id)) {
-      scores.fan_in += 30;
+    // Fan-in: +fan_in_weight
+    const fanIn = fanInMap.get(id);
+    if (fanIn) {
+      scores.fan_in += weights.fan_in_weight;
       patterns.push('fan_in');
-      algorithms.push('72h Sliding Window Fan-In');
-      explanations.push(
-        `Received from ${fanInMap.get(id)!.senders.size} unique senders within 72h`
-      );
+      contribute(weights.fan_in_weight, {
+        algorithm: `${config.fan_in.window_hours}h Sliding Window Fan-In`,
+        reason: `Received from ${fanIn.senders.size} unique senders within ${config.fan_in.window_hours}h`,
+        transaction_ids: windowTransactionIds(
+          accountTxs.filter((tx) => tx.receiver_id === id), 'sender_id', fanIn.senders, fanIn.windowStart, fanIn.windowEnd
+        ),
+        counterparties: [...fanIn.senders],
+      });
     }
 
-    // Fan-out: +30
-    if (fanOutMap.has(id)) {
-      scores.fan_out += 30;
+    // Fan-out: +fan_out_weight
+    const fanOut = fanOutMap.get(id);
+    if (fanOut) {
+      scores.fan_out += weights.fan_out_weight;
       patterns.push('fan_out');
-      algorithms.push('72h Sliding Window Fan-Out');
-      explanations.push(
-        `Sent to ${fanOutMap.get(id)!.receivers.size} unique receivers within 72h`
-      );
+      contribute(weights.fan_out_weight, {
+        algorithm: `${config.fan_out.window_hours}h Sliding Window Fan-Out`,
+        reason: `Sent to ${fanOut.receivers.size} unique receivers within ${config.fan_out.window_hours}h`,
+        transaction_ids: windowTransactionIds(
+          accountTxs.filter((tx) => tx.sender_id === id), 'receiver_id', fanOut.receivers, fanOut.windowStart, fanOut.windowEnd
+        ),
+        counterparties: [...fanOut.receivers],
+      });
     }
 
-    // Shell chain: +35
+    // Shell chain: +shell_weight
     if (shellNodes.has(id)) {
-      scores.shell += 35;
+      scores.shell += weights.shell_weight;
       patterns.push('shell_chain');
-      algorithms.push('BFS Shell Chain Detection');
-      explanations.push(
-        `Intermediate node in shell chain with only ${account.total_transactions} total transactions`
-      );
+      contribute(weights.shell_weight, {
+        algorithm: 'BFS Shell Chain Detection',
+        reason: `Intermediate node in shell chain with only ${account.total_transactions} total transactions`,
+        transaction_ids: accountTxs.map((tx) => tx.transaction_id),
+        counterparties: accountTxs.map((tx) => (tx.sender_id === id ? tx.receiver_id : tx.sender_id)),
+      });
     }
 
-    // High velocity: +15
-    const accountTxs = transactions.filter(
-      (tx) => tx.sender_id === id || tx.receiver_id === id
-    );
+    // Structuring: +structuring_weight
+    const receivers = structuredReceivers.get(id);
+    if (receivers) {
+      scores.structuring += weights.structuring_weight;
+      patterns.push('structuring');
+      contribute(weights.structuring_weight, {
+        algorithm: `${config.structuring.window_hours}h Sliding Window Structuring`,
+        reason: receivers
+          .map((receiver) =>
+            describeStructuringSender(id, receiver, structuringMap.get(receiver)!, config.structuring, currency)
+          )
+          .join('. '),
+        transaction_ids: receivers.flatMap((receiver) =>
+          structuringMap.get(receiver)!.transactions.filter((tx) => tx.sender_id === id).map((tx) => tx.transaction_id)
+        ),
+        counterparties: receivers,
+      });
+    }
+
+    // Pass-through relay: +pass_through_weight
+    const passThrough = passThroughMap.get(id);
+    if (passThrough) {
+      scores.pass_through += weights.pass_through_weight;
+      patterns.push('pass_through');
+      contribute(weights.pass_through_weight, {
+        algorithm: `${config.pass_through.max_dwell_hours}h Pass-Through Matching`,
+        reason: describePassThrough(passThrough, config.pass_through, currency),
+        transaction_ids: passThrough.matches.flatMap((m) => [m.inbound.transaction_id, m.outbound.transaction_id]),
+        counterparties: passThrough.matches.flatMap((m) => [m.inbound.sender_id, m.outbound.receiver_id]),
+      });
+      account.pass_through = passThrough.summary;
+    }
+
+    // Amount anomalies (Benford / round / repeated): +amount_weight once
+    const profile = amountProfiles.get(id);
+    if (profile) {
+      account.amount_profile = profile;
+      if (profile.anomalies.length > 0) {
+        scores.amount += weights.amount_weight;
+        patterns.push('amount_anomaly');
+        contribute(weights.amount_weight, {
+          algorithm: 'Amount Distribution Analysis',
+          reason: describeAmountAnomalies(profile, config.amount_analysis, currency).join('. '),
+        });
+      }
+    }
+
+    // High velocity: +velocity_weight
     if (accountTxs.length > 0) {
-      const timestamps = accountTxs.map((tx) => new Date(tx.timestamp).getTime());
-      const timeSpan = Math.max(...timestamps) - Math.min(...timestamps);
+      let first = Infinity;
+      let last = -Infinity;
+      for (const tx of accountTxs) {
+        const time = new Date(tx.timestamp).getTime();
+        if (time < first) first = time;
+        if (time > last) last = time;
+      }
+      const timeSpan = last - first;
       const days = Math.max(timeSpan / (1000 * 60 * 60 * 24), 1);
       const txPerDay = accountTxs.length / days;
-      if (txPerDay > 15) {
-        scores.velocity += 15;
+      if (txPerDay > weights.velocity_tx_per_day) {
+        scores.velocity += weights.velocity_weight;
         patterns.push('high_velocity');
-        algorithms.push('Transaction Velocity Analysis');
-        explanations.push(
-          `High velocity: ${txPerDay.toFixed(1)} transactions/day`
-        );
+        contribute(weights.velocity_weight, {
+          algorithm: 'Transaction Velocity Analysis',
+          reason: `High velocity: ${txPerDay.toFixed(1)} transactions/day`,
+        });
       }
     }
 
-    // Compute total from individual pattern scores
-    let score = scores.fan_in + scores.fan_out + scores.cycle + scores.shell + scores.velocity;
+    // Watchlist hit: strongest hit's weight (exact or fuzzy)
+    const hits = watchlistHits.get(id);
+    if (hits) {
+      const weight = hits.some((h) => h.match_type !== 'fuzzy')
+        ? config.watchlist.exact_weight
+        : config.watchlist.fuzzy_weight;
+      scores.watchlist += weight;
+      patterns.push('watchlist');
+      contribute(weight, {
+        algorithm: 'Watchlist Screening',
+        reason: hits.map(describeWatchlistHit).join('. '),
+      });
+      account.watchlist_hits = hits;
+    }
+
+    // Top global centrality: +centrality_weight
+    const metrics = graphMetrics.get(id);
+    if (metrics) {
+      account.graph_metrics = metrics;
+      if (centralAccounts.has(id)) {
+        scores.centrality += weights.centrality_weight;
+        patterns.push('high_centrality');
+        contribute(weights.centrality_weight, {
+          algorithm: 'Global Graph Centrality',
+          reason: describeCentrality(metrics, config.graph_metrics.top_percentile),
+        });
+      }
+    }
 
     // FALSE POSITIVE REDUCTION
-    // If degree > 100, no cycles, consistent intervals -> reduce by 30
+    // If degree > min_degree, no cycles, consistent intervals -> reduce
     const totalDegree = account.in_degree + account.out_degree;
-    if (totalDegree > 100 && !ringMap.has(id)) {
+    if (totalDegree > dampening.min_degree && !ringMap.has(id)) {
       // Check consistent intervals
-      if (accountTxs.length > 10) {
+      if (accountTxs.length > dampening.min_transactions) {
         const sorted = accountTxs
           .map((tx) => new Date(tx.timestamp).getTime())
           .sort((a, b) => a - b);
@@ -364,37 +539,43 @@ function calculateSuspicionScores(
         const avgInterval =
           intervals.reduce((a, b) => a + b, 0) / intervals.length;
         const consistent = intervals.filter(
-          (i) => Math.abs(i - avgInterval) / avgInterval < 0.3
+          (i) => Math.abs(i - avgInterval) / avgInterval < dampening.interval_tolerance
         );
-        if (consistent.length / intervals.length > 0.6) {
-          score = Math.max(0, score - 30);
+        if (consistent.length / intervals.length > dampening.consistent_ratio) {
           algorithms.push('False Positive Dampening');
-          explanations.push(
-            `Score reduced by 30: High-degree node (${totalDegree}) with consistent transaction intervals (likely merchant)`
-          );
+          recordScoreChange(account, Math.max(0, account.suspicion_score - dampening.reduction), {
+            stage: 'scoring',
+            algorithm: 'False Positive Dampening',
+            reason: `Score reduced by ${dampening.reduction}: High-degree node (${totalDegree}) with consistent transaction intervals (likely merchant)`,
+          });
         }
       }
     }
 
     // Cap at 100
-    score = Math.min(score, 100);
+    if (account.suspicion_score > 100) {
+      recordScoreChange(account, 100, {
+        stage: 'scoring',
+        algorithm: 'Score Cap',
+        reason: `Score capped at 100 (patterns total ${account.suspicion_score})`,
+      });
+    }
 
     account.pattern_scores = scores;
-    account.suspicion_score = score;
     account.detected_patterns = patterns;
     account.triggered_algorithms = algorithms;
-    account.explanation = explanations.join('. ');
-    account.is_suspicious = score > 0;
+    account.is_suspicious = account.suspicion_score > 0;
   }
 }
 
 // ─── 7. INTERCONNECTED MULE COMMUNITY DETECTION ─────────────────────────────
-// Network-level money laundering detection via connected components on the
-// suspicious subgraph.  Validates communities using multi-signal criteria
-// (at least 2 INDEPENDENT fraud evidences) and promotes them into unified
-// laundering rings.  Overlapping pattern-level rings within the same connected
-// component are merged under a single community ring ID.
-// Time complexity: O(V + E) over the suspicious subgraph (BFS)
+// Network-level money laundering detection via Louvain communities on the
+// amount- and frequency-weighted suspicious subgraph (community-detection.ts).
+// Validates communities using multi-signal criteria (at least 2 INDEPENDENT
+// fraud evidences) and promotes them into unified laundering rings.
+// Overlapping pattern-level rings within the same community are merged under
+// a single community ring ID.
+// Time complexity: near-linear in the suspicious subgraph (Louvain)
 
 interface CommunityResult {
   rings: FraudRing[];
@@ -402,6 +583,7 @@ interface CommunityResult {
   membershipMap: Map<string, string[]>;
   /** Pattern-level ring IDs that were subsumed by each community ring */
   mergedRingMap: Map<string, string[]>;
+  partition: CommunityPartition;
 }
 
 function detectMuleCommunities(
@@ -412,59 +594,36 @@ function detectMuleCommunities(
   fanOutMap: Map<string, { receivers: Set<string> }>,
   shellChains: string[][],
   patternRings: FraudRing[],
+  config: DetectionConfig['community'],
+  currency: string,
 ): CommunityResult {
   // ── Step 1: Build suspicious subgraph ─────────────────────────────────
-  // Nodes: accounts with suspicion_score > 0
-  // Edges: directed edges where BOTH endpoints are suspicious
-
-  const suspiciousIds = new Set<string>();
-  for (const [id, account] of accountMap) {
-    if (account.suspicion_score > 0) suspiciousIds.add(id);
-  }
+  // Nodes: accounts with suspicion_score > 0, in ID order so the partition
+  // does not depend on input order
+  // Edges: transfers where BOTH endpoints are suspicious, weighted by
+  // amount and frequency
+
+  const suspiciousIds = new Set(
+    Array.from(accountMap.values())
+      .filter((account) => account.suspicion_score > 0)
+      .map((account) => account.account_id)
+      .sort(),
+  );
+  const weightedEdges = transactionEdgeWeights(graph, suspiciousIds);
 
-  // Undirected adjacency for the suspicious subgraph (for BFS)
+  // Undirected adjacency for the suspicious subgraph (bridge evidence)
   const suspAdj = new Map<string, Set<string>>();
-
-  for (const nodeId of suspiciousIds) {
-    if (!suspAdj.has(nodeId)) suspAdj.set(nodeId, new Set());
-    const neighbors = graph.get(nodeId);
-    if (!neighbors) continue;
-    for (const [neighbor] of neighbors) {
-      if (!suspiciousIds.has(neighbor)) continue;
-      // Add undirected edge
-      if (!suspAdj.has(neighbor)) suspAdj.set(neighbor, new Set());
-      suspAdj.get(nodeId)!.add(neighbor);
-      suspAdj.get(neighbor)!.add(nodeId);
-    }
+  for (const { a, b } of weightedEdges) {
+    if (!suspAdj.has(a)) suspAdj.set(a, new Set());
+    if (!suspAdj.has(b)) suspAdj.set(b, new Set());
+    suspAdj.get(a)!.add(b);
+    suspAdj.get(b)!.add(a);
   }
 
-  // ── Step 2: Find connected components via BFS ────────────────────────
-  const visited = new Set<string>();
-  const components: string[][] = [];
-
-  for (const nodeId of suspiciousIds) {
-    if (visited.has(nodeId)) continue;
-
-    const component: string[] = [];
-    const queue: string[] = [nodeId];
-    visited.add(nodeId);
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      component.push(current);
-      const adj = suspAdj.get(current);
-      if (!adj) continue;
-      for (const neighbor of adj) {
-        if (!visited.has(neighbor)) {
-          visited.add(neighbor);
-          queue.push(neighbor);
-        }
-      }
-    }
-
-    // Only consider components with ≥ 2 members
-    if (component.length >= 2) components.push(component);
-  }
+  // ── Step 2: Partition into Louvain communities ───────────────────────
+  const louvain = louvainCommunities(Array.from(suspiciousIds), weightedEdges, config.resolution);
+  // Only consider communities with ≥ 2 members
+  const communities = louvain.communities.filter((c) => c.members.length >= 2);
 
   // ── Pre-compute pattern membership sets for fast lookup ──────────────
   const cycleNodes = new Set<string>();
@@ -496,9 +655,11 @@ function detectMuleCommunities(
   const communityRings: FraudRing[] = [];
   const membershipMap = new Map<string, string[]>();
   const mergedRingMap = new Map<string, string[]>();
+  const summaries: CommunitySummary[] = [];
   let commIdx = 0;
 
-  for (const component of components) {
+  for (const [communityIdx, community] of communities.entries()) {
+    const component = community.members;
     const compSet = new Set(component);
 
     // Count directed edges within this component
@@ -514,7 +675,7 @@ function detectMuleCommunities(
     // ── Independent fraud evidence validation ──────────────────────────
     // Each evidence type is counted as ONE independent signal regardless
     // of how many nodes satisfy it.  A component is valid only when at
-    // least TWO distinct evidence categories are present.
+    // least min_evidence (default TWO) distinct categories are present.
 
     const evidences: string[] = [];
 
@@ -534,25 +695,20 @@ function detectMuleCommunities(
     const shellChainCount = component.filter(n => shellNodeSet.has(n)).length;
     if (shellChainCount >= 1) evidences.push('shell_chain');
 
-    // Evidence 5: Contains ≥ 1 bridge node (connected to ≥ 2 suspicious neighbors)
+    // Evidence 5: Contains ≥ 1 bridge node (connected to ≥ 2 suspicious neighbors in the community)
     const bridgeCount = component.filter(n => {
-      const adj = suspAdj.get(n);
-      return adj !== undefined && adj.size >= 2;
+      let neighbors = 0;
+      for (const adj of suspAdj.get(n) ?? []) if (compSet.has(adj)) neighbors++;
+      return neighbors >= 2;
     }).length;
     if (bridgeCount >= 1) evidences.push('bridge');
 
     // Evidence 6: Edge density ≥ 1 (directed edges >= nodes)
     if (internalEdges >= component.length) evidences.push('density');
 
-    // ── Require at least 2 INDEPENDENT evidence categories ─────────────
-    if (evidences.length < 2) continue;
-
-    commIdx++;
-    const ringId = `RING_COMM_${String(commIdx).padStart(3, '0')}`;
-
     // ── Merge overlapping pattern-level rings ──────────────────────────
     // Collect ALL pattern-level ring IDs whose members fall into this
-    // connected component.  They are subsumed under the community ring.
+    // community.  A validated community ring subsumes them.
     const subsumedRingIds = new Set<string>();
     for (const memberId of component) {
       const pRings = accountToPatternRings.get(memberId);
@@ -560,7 +716,25 @@ function detectMuleCommunities(
         for (const pRingId of pRings) subsumedRingIds.add(pRingId);
       }
     }
-    mergedRingMap.set(ringId, Array.from(subsumedRingIds));
+
+    const summary: CommunitySummary = {
+      community_id: `COMM_${String(communityIdx + 1).padStart(3, '0')}`,
+      members: component,
+      modularity: Math.round(community.modularity * 10000) / 10000,
+      internal_weight: Math.round(community.internal_weight * 100) / 100,
+      evidence: evidences,
+      ring_id: null,
+      subsumed_ring_ids: Array.from(subsumedRingIds),
+    };
+    summaries.push(summary);
+
+    // ── Require at least min_evidence INDEPENDENT evidence categories ──
+    if (evidences.length < config.min_evidence) continue;
+
+    commIdx++;
+    const ringId = `RING_COMM_${String(commIdx).padStart(3, '0')}`;
+    summary.ring_id = ringId;
+    mergedRingMap.set(ringId, summary.subsumed_ring_ids);
 
     // ── Step 5: Compute community risk score ───────────────────────────
     // Deterministic formula: min(100, round(avg(member_scores) + log2(member_count + 1) * 10))
@@ -588,6 +762,7 @@ function detectMuleCommunities(
     const explanationParts: string[] = [
       `Interconnected mule community of ${component.length} suspicious accounts`,
       `${internalEdges} internal edges`,
+      `Modularity ${summary.modularity.toFixed(3)}`,
       `Evidence: ${evidences.join(', ')}`,
     ];
     if (cycleCount > 0) explanationParts.push(`${cycleCount} cycle member(s)`);
@@ -600,7 +775,7 @@ function detectMuleCommunities(
         `Merges pattern-level rings: ${Array.from(subsumedRingIds).join(', ')}`
       );
     }
-    explanationParts.push(`Total internal value: $${Math.round(totalValue).toLocaleString()}`);
+    explanationParts.push(`Total internal value: ${formatCurrency(Math.round(totalValue), currency)}`);
 
     communityRings.push({
       ring_id: ringId,
@@ -609,7 +784,9 @@ function detectMuleCommunities(
       member_count: component.length,
       risk_score: Math.round(riskScore),
       total_value: Math.round(totalValue * 100) / 100,
+      currency,
       explanation: explanationParts.join('. ') + '.',
+      modularity: summary.modularity,
     });
 
     // Record membership for account updates
@@ -619,50 +796,52 @@ function detectMuleCommunities(
     }
   }
 
-  return { rings: communityRings, membershipMap, mergedRingMap };
+  const partition: CommunityPartition = {
+    resolution: config.resolution,
+    modularity: Math.round(louvain.modularity * 10000) / 10000,
+    communities: summaries,
+  };
+  return { rings: communityRings, membershipMap, mergedRingMap, partition };
 }
 
 // ─── BUILD FRAUD RINGS ───────────────────────────────────────────────────────
 
 function buildFraudRings(
-  cycles: string[][],
+  cycles: TemporalCycle[],
   fanInMap: Map<string, { senders: Set<string> }>,
   fanOutMap: Map<string, { receivers: Set<string> }>,
   shellChains: string[][],
+  structuringMap: Map<string, StructuringGroup>,
+  passThroughMap: Map<string, PassThroughResult>,
   accountMap: Map<string, AccountNode>,
-  transactions: RawTransaction[]
+  transactions: RawTransaction[],
+  config: DetectionConfig,
+  currency: string
 ): FraudRing[] {
   const rings: FraudRing[] = [];
   let ringCounter = 0;
 
-  // Cycle rings
+  // Cycle rings: one per instance, valued by its own hop transactions
   for (const cycle of cycles) {
     ringCounter++;
     const ringId = `RING_${String(ringCounter).padStart(3, '0')}`;
-    const txsInCycle: RawTransaction[] = [];
-    for (let i = 0; i < cycle.length; i++) {
-      const from = cycle[i];
-      const to = cycle[(i + 1) % cycle.length];
-      const matching = transactions.filter(
-        (tx) => tx.sender_id === from && tx.receiver_id === to
-      );
-      txsInCycle.push(...matching);
-    }
-    const totalValue = txsInCycle.reduce((sum, tx) => sum + tx.amount, 0);
+    const totalValue = cycle.transactions.reduce((sum, tx) => sum + tx.amount, 0);
     const avgScore =
-      cycle.reduce(
+      cycle.members.reduce(
         (sum, id) => sum + (accountMap.get(id)?.suspicion_score || 0),
         0
-      ) / cycle.length;
+      ) / cycle.members.length;
 
     rings.push({
       ring_id: ringId,
       pattern_type: 'cycle',
-      members: cycle,
-      member_count: cycle.length,
+      members: cycle.members,
+      member_count: cycle.members.length,
       risk_score: Math.round(avgScore),
       total_value: totalValue,
-      explanation: `Cycle of ${cycle.length} accounts: ${cycle.join(' -> ')} -> ${cycle[0]}. Total value: $${totalValue.toLocaleString()}.`,
+      currency,
+      explanation: `${describeTemporalCycle(cycle)}. Total value: ${formatCurrency(totalValue, currency)}.`,
+      transaction_ids: cycle.transaction_ids,
     });
   }
 
@@ -684,7 +863,8 @@ function buildFraudRings(
       member_count: members.length,
       risk_score: Math.round(avgScore),
       total_value: 0,
-      explanation: `Fan-in: ${data.senders.size} unique senders to ${receiver} within 72h.`,
+      currency,
+      explanation: `Fan-in: ${data.senders.size} unique senders to ${receiver} within ${config.fan_in.window_hours}h.`,
     });
   }
 
@@ -706,7 +886,8 @@ function buildFraudRings(
       member_count: members.length,
       risk_score: Math.round(avgScore),
       total_value: 0,
-      explanation: `Fan-out: ${sender} sent to ${data.receivers.size} unique receivers within 72h.`,
+      currency,
+      explanation: `Fan-out: ${sender} sent to ${data.receivers.size} unique receivers within ${config.fan_out.window_hours}h.`,
     });
   }
 
@@ -791,11 +972,58 @@ function buildFraudRings(
         member_count: best.length,
         risk_score: Math.round(avgScore),
         total_value: 0,
-        explanation: `Shell chain: ${best.join(' -> ')}. Intermediate nodes have <= 3 total transactions.`,
+        currency,
+        explanation: `Shell chain: ${best.join(' -> ')}. Intermediate nodes have <= ${config.shell_chain.max_account_transactions} total transactions.`,
       });
     }
   }
 
+  // Structuring rings — the senders plus the receiver they structured into
+  for (const [receiver, group] of structuringMap) {
+    ringCounter++;
+    const ringId = `RING_${String(ringCounter).padStart(3, '0')}`;
+    const members = [...group.senders].filter((id) => id !== receiver);
+    members.push(receiver);
+    const avgScore =
+      members.reduce(
+        (sum, id) => sum + (accountMap.get(id)?.suspicion_score || 0),
+        0
+      ) / members.length;
+
+    rings.push({
+      ring_id: ringId,
+      pattern_type: 'structuring',
+      members,
+      member_count: members.length,
+      risk_score: Math.round(avgScore),
+      total_value: group.transactions.reduce((sum, tx) => sum + tx.amount, 0),
+      currency,
+      explanation: describeStructuringRing(receiver, group, config.structuring, currency),
+    });
+  }
+
+  // Pass-through rings — one per connected component of matched relay flows
+  for (const ring of buildPassThroughRings(passThroughMap)) {
+    ringCounter++;
+    const ringId = `RING_${String(ringCounter).padStart(3, '0')}`;
+    const avgScore =
+      ring.members.reduce(
+        (sum, id) => sum + (accountMap.get(id)?.suspicion_score || 0),
+        0
+      ) / ring.members.length;
+
+    rings.push({
+      ring_id: ringId,
+      pattern_type: 'pass_through',
+      members: ring.members,
+      member_count: ring.members.length,
+      risk_score: Math.round(avgScore),
+      total_value: ring.forwardedValue,
+      currency,
+      explanation: describePassThroughRing(ring, config.pass_through, currency),
+    });
+  }
+
   // Sort by risk_score descending
   return rings.sort((a, b) => b.risk_score - a.risk_score);
 }
@@ -808,8 +1036,11 @@ function buildCytoscapeData(
   fanInMap: Map<string, { senders: Set<string>; windowStart: string; windowEnd: string }>,
   fanOutMap: Map<string, { receivers: Set<string>; windowStart: string; windowEnd: string }>,
   shellChains: string[][],
+  structuringMap: Map<string, StructuringGroup>,
+  passThroughMap: Map<string, PassThroughResult>,
   cycles: string[][],
-  ringMap: Map<string, string[]>
+  ringMap: Map<string, string[]>,
+  currency: string
 ): CytoscapeGraphData {
   // Build per-node fan-in transactions (latest 10)
   const nodeFanInTxs = new Map<string, FanInTransaction[]>();
@@ -874,6 +1105,19 @@ function buildCytoscapeData(
       shellEdges.add(`${chain[i]}->${chain[i + 1]}`);
     }
   }
+  const structuringEdges = new Set<string>();
+  for (const group of structuringMap.values()) {
+    for (const tx of group.transactions) {
+      structuringEdges.add(`${tx.sender_id}->${tx.receiver_id}`);
+    }
+  }
+  const passThroughEdges = new Set<string>();
+  for (const result of passThroughMap.values()) {
+    for (const { inbound, outbound } of result.matches) {
+      passThroughEdges.add(`${inbound.sender_id}->${inbound.receiver_id}`);
+      passThroughEdges.add(`${outbound.sender_id}->${outbound.receiver_id}`);
+    }
+  }
 
   const nodes = Array.from(accountMap.values()).map((account) => ({
     data: {
@@ -891,6 +1135,7 @@ function buildCytoscapeData(
       explanation: account.explanation,
       fan_in_transactions: nodeFanInTxs.get(account.account_id) || [],
       shell_chain_paths: nodeShellPaths.get(account.account_id) || [],
+      amount_profile: account.amount_profile,
     },
   }));
 
@@ -923,6 +1168,8 @@ function buildCytoscapeData(
     if (fanInEdges.has(key)) edge.patternTypes.add('fan_in');
     if (fanOutEdges.has(key)) edge.patternTypes.add('fan_out');
     if (shellEdges.has(key)) edge.patternTypes.add('shell_chain');
+    if (structuringEdges.has(key)) edge.patternTypes.add('structuring');
+    if (passThroughEdges.has(key)) edge.patternTypes.add('pass_through');
   }
 
   const edges = Array.from(edgeMap.entries()).map(([key, data]) => ({
@@ -932,7 +1179,7 @@ function buildCytoscapeData(
       target: data.target,
       amount: Math.round(data.amount * 100) / 100,
       transaction_count: data.count,
-      label: `$${data.amount.toLocaleString()} (${data.count}x)`,
+      label: `${formatCurrency(data.amount, currency)} (${data.count}x)`,
       timestamp: data.latestTs,
       pattern_types: Array.from(data.patternTypes),
     },
@@ -943,18 +1190,75 @@ function buildCytoscapeData(
 
 // ─── MAIN ANALYSIS FUNCTION ──────────────────────────────────────────────────
 
+/** Stages analyzeTransactions reports through onProgress, in order */
+export const ANALYSIS_STAGES: AnalysisStage[] = [
+  'graph',
+  'cycles',
+  'fan_in',
+  'fan_out',
+  'shell_chains',
+  'structuring',
+  'pass_through',
+  'amount_analysis',
+  'watchlist',
+  'graph_metrics',
+  'scoring',
+  'fraud_rings',
+  'relationship_intelligence',
+  'temporal_validation',
+  'ring_leadership',
+  'cross_ring',
+  'multi_stage',
+  'community',
+  'fan_in_validation',
+  'dispositions',
+  'graph_data',
+];
+
+/** Debug mode: every account's score, patterns and rings as `stage` ends */
+function snapshotAccounts(stage: AnalysisStage, accounts: Iterable<AccountNode>): StageSnapshot {
+  return {
+    stage,
+    accounts: Array.from(accounts, (a) => ({
+      account_id: a.account_id,
+      suspicion_score: a.suspicion_score,
+      detected_patterns: [...a.detected_patterns],
+      ring_ids: [...a.ring_ids],
+    })),
+  };
+}
+
 export function analyzeTransactions(
   transactions: RawTransaction[],
-  mode: DetectionMode = 'all'
+  mode: DetectionMode = 'all',
+  configInput: DetectionConfigInput = {},
+  options: AnalysisOptions = {}
 ): AnalysisResult {
   const startTime = performance.now();
+  const config = requireDetectionConfig(configInput);
+  // Amounts are expected to be normalized already (see fx-rates normalizeCurrencies)
+  const currency = options.reportingCurrency ?? DEFAULT_REPORTING_CURRENCY;
+  const accountMap = new Map<string, AccountNode>();
+
+  // Each stage starts with a progress report; in debug mode the stage before
+  // it ends with a snapshot of every account
+  const stageSnapshots: StageSnapshot[] | undefined = options.debug ? [] : undefined;
+  let currentStage: AnalysisStage | undefined;
+  const endStage = () => {
+    if (stageSnapshots && currentStage) stageSnapshots.push(snapshotAccounts(currentStage, accountMap.values()));
+  };
+  const progress = (stage: AnalysisStage) => {
+    endStage();
+    currentStage = stage;
+    options.onProgress?.(stage);
+  };
 
   // Build adjacency list - O(T)
+  progress('graph');
   const graph = buildAdjacencyList(transactions);
   const allNodes = Array.from(graph.keys());
 
   // Build account map - O(T)
-  const accountMap = new Map<string, AccountNode>();
   for (const nodeId of allNodes) {
     accountMap.set(nodeId, {
       account_id: nodeId,
@@ -964,12 +1268,13 @@ export function analyzeTransactions(
       total_amount_sent: 0,
       total_amount_received: 0,
       suspicion_score: 0,
-      pattern_scores: { fan_in: 0, fan_out: 0, cycle: 0, shell: 0, velocity: 0 },
+      pattern_scores: { fan_in: 0, fan_out: 0, cycle: 0, shell: 0, structuring: 0, pass_through: 0, amount: 0, velocity: 0, watchlist: 0, centrality: 0 },
       detected_patterns: [],
       ring_ids: [],
       triggered_algorithms: [],
       explanation: '',
       is_suspicious: false,
+      score_contributions: [],
     });
   }
 
@@ -997,45 +1302,91 @@ export function analyzeTransactions(
   }
 
   // Run detection algorithms — skip expensive ones when mode targets a single pattern
-  const runCycles   = mode === 'all' || mode === 'cycles';
-  const runFanIn    = mode === 'all' || mode === 'fan-in';
-  const runFanOut   = mode === 'all' || mode === 'fan-out';
-  const runShell    = mode === 'all' || mode === 'shell';
-
-  const { cycles, ringMap } = runCycles
-    ? detectCycles(graph, allNodes)
-    : { cycles: [] as string[][], ringMap: new Map<string, string[]>() };
-
+  const runCycles      = mode === 'all' || mode === 'cycles';
+  const runFanIn       = mode === 'all' || mode === 'fan-in';
+  const runFanOut      = mode === 'all' || mode === 'fan-out';
+  const runShell       = mode === 'all' || mode === 'shell';
+  const runStructuring = mode === 'all' || mode === 'structuring';
+  const runPassThrough = mode === 'all';
+  const runAmounts     = mode === 'all';
+  const runWatchlist   = mode === 'all';
+
+  progress('cycles');
+  const cycles = runCycles ? detectTemporalCycles(transactions, allNodes, config.cycles) : [];
+  const ringMap = buildCycleRingMap(cycles);
+  const cyclePaths = cycles.map((cycle) => cycle.members);
+
+  progress('fan_in');
   const fanInMap = runFanIn
-    ? detectFanIn(transactions, allNodes)
+    ? detectFanIn(transactions, allNodes, config.fan_in)
     : new Map<string, { senders: Set<string>; windowStart: string; windowEnd: string }>();
 
+  progress('fan_out');
   const fanOutMap = runFanOut
-    ? detectFanOut(transactions, allNodes)
+    ? detectFanOut(transactions, allNodes, config.fan_out)
     : new Map<string, { receivers: Set<string>; windowStart: string; windowEnd: string }>();
 
+  progress('shell_chains');
   const { chains: shellChains, shellNodes } = runShell
-    ? detectShellChains(graph, accountMap, transactions)
+    ? detectShellChains(graph, accountMap, transactions, config.shell_chain)
     : { chains: [] as string[][], shellNodes: new Set<string>() };
 
+  progress('structuring');
+  const structuringMap = runStructuring
+    ? detectStructuring(transactions, config.structuring)
+    : new Map<string, StructuringGroup>();
+
+  progress('pass_through');
+  const passThroughMap = runPassThrough
+    ? detectPassThrough(transactions, config.pass_through)
+    : new Map<string, PassThroughResult>();
+
+  progress('amount_analysis');
+  const amountProfiles = runAmounts
+    ? analyzeAmounts(transactions, config.amount_analysis)
+    : new Map<string, AmountProfile>();
+
+  progress('watchlist');
+  const watchlistHits = runWatchlist
+    ? screenAccounts(allNodes, options.watchlists ?? [], config.watchlist)
+    : new Map<string, WatchlistHit[]>();
+
+  // Whole-graph centrality, computed for every mode
+  progress('graph_metrics');
+  const graphMetrics = computeGraphMetrics(graph, config.graph_metrics);
+
   // Calculate suspicion scores
+  progress('scoring');
   calculateSuspicionScores(
     accountMap,
     ringMap,
+    cycles,
     fanInMap,
     fanOutMap,
     shellNodes,
-    transactions
+    structuringMap,
+    passThroughMap,
+    amountProfiles,
+    watchlistHits,
+    graphMetrics,
+    transactions,
+    config,
+    currency
   );
 
   // Build fraud rings
+  progress('fraud_rings');
   const fraudRings = buildFraudRings(
     cycles,
     fanInMap,
     fanOutMap,
     shellChains,
+    structuringMap,
+    passThroughMap,
     accountMap,
-    transactions
+    transactions,
+    config,
+    currency
   );
 
   // Update ring_ids on accounts from fraudRings
@@ -1052,8 +1403,9 @@ export function analyzeTransactions(
   // Final adjustment: reduce false positives for legitimate recurring
   // relationships (rent, payroll, subscriptions).  Runs AFTER all pattern
   // detection and scoring.  Never modifies accounts in fraud cycles.
+  progress('relationship_intelligence');
   const cycleMembers = new Set<string>();
-  for (const cycle of cycles) {
+  for (const cycle of cyclePaths) {
     for (const nodeId of cycle) {
       cycleMembers.add(nodeId);
     }
@@ -1062,53 +1414,75 @@ export function analyzeTransactions(
     Array.from(accountMap.values()),
     transactions,
     cycleMembers,
+    config.relationship_intelligence,
   );
 
   // ── Temporal Cycle Validation ──────────────────────────────────────────
   // Verify chronological ordering and amount continuity for cycle-type
   // rings.  Invalid cycles are removed and member scores adjusted.
+  progress('temporal_validation');
   validateTemporalCycles(
     Array.from(accountMap.values()),
     fraudRings,
     cycles,
-    transactions,
+    config.temporal_validation,
+    currency,
   );
 
   // ── Ring Leadership Detection (Betweenness Centrality) ─────────────────
   // Assigns ORCHESTRATOR / INTERMEDIARY / PERIPHERAL roles within each
-  // remaining fraud ring.  Orchestrators receive a +10 score boost.
+  // remaining fraud ring.  Orchestrators receive a score boost (default +10).
+  progress('ring_leadership');
   analyzeRingLeadership(
     Array.from(accountMap.values()),
     fraudRings,
     transactions,
+    config.ring_leadership,
+  );
+
+  // ── Cross-Ring Network Controllers ─────────────────────────────────────
+  // Links rings that share members or money and tags accounts connected to
+  // several rings as NETWORK CONTROLLERS (default +15).
+  progress('cross_ring');
+  detectNetworkControllers(
+    Array.from(accountMap.values()),
+    fraudRings,
+    transactions,
+    config.cross_ring,
+    currency,
   );
 
   // ── Multi-Stage Laundering Flow Detection ──────────────────────────────
-  // Flags accounts that span ≥2 distinct pattern types with +20 boost.
+  // Flags accounts that span ≥2 distinct pattern types (default +20 boost).
+  progress('multi_stage');
   detectMultiStageFlows(
     Array.from(accountMap.values()),
     fraudRings,
     transactions,
+    config.multi_stage,
   );
 
   // ── Algorithm 7: Interconnected Mule Community Detection ───────────────
   // Runs after all scoring so it can inspect final suspicion_score.
-  // Detects coordinated laundering networks via connected components on the
-  // suspicious subgraph.  Validates with ≥ 2 independent evidence categories.
+  // Detects coordinated laundering networks via Louvain communities on the
+  // weighted suspicious subgraph.  Validates with ≥ 2 independent evidence categories.
   // Merges overlapping pattern-level rings under a single community ring ID.
-  const { rings: communityRings, membershipMap: communityMembership, mergedRingMap } =
+  progress('community');
+  const { rings: communityRings, membershipMap: communityMembership, mergedRingMap, partition: communities } =
     detectMuleCommunities(
       graph,
       accountMap,
-      cycles,
+      cyclePaths,
       fanInMap,
       fanOutMap,
       shellChains,
       fraudRings,
+      config.community,
+      currency,
     );
 
   // Append community rings to the existing fraud rings list
-  fraudRings.push(...communityRings);
+  for (const ring of communityRings) fraudRings.push(ring);
 
   // Update account metadata with community ring IDs and algorithm tag.
   // Replace subsumed pattern-level ring IDs with the community ring ID
@@ -1135,39 +1509,71 @@ export function analyzeTransactions(
     if (!account.detected_patterns.includes('community')) {
       account.detected_patterns.push('community');
     }
-    if (!account.triggered_algorithms.includes('Mule Community Detection (BFS Components)')) {
-      account.triggered_algorithms.push('Mule Community Detection (BFS Components)');
+    if (!account.triggered_algorithms.includes('Mule Community Detection (Louvain)')) {
+      account.triggered_algorithms.push('Mule Community Detection (Louvain)');
     }
-    account.explanation += ` | Community member: ${commRingIds.join(', ')}`;
+    recordFinding(account, {
+      stage: 'community',
+      algorithm: 'Mule Community Detection (Louvain)',
+      reason: `Community member: ${commRingIds.join(', ')}`,
+      counterparties: communityRings.filter((r) => commRingIds.includes(r.ring_id)).flatMap((r) => r.members),
+    });
   }
 
   // Re-sort fraud rings by risk_score descending after adding community rings
   fraudRings.sort((a, b) => b.risk_score - a.risk_score);
 
+  // Flag every ring (pattern or community) that contains a listed account
+  flagWatchlistedRings(fraudRings, accountMap);
+
   // ── Two-Phase Fan-In Validation ──────────────────────────────────────────────────────
   // Phase 1: Identify aggregation candidates (fan-in without fraud flag).
   // Phase 2: Upgrade to confirmed_money_laundering only if corroborated by
   //   shell chain involvement, cycle participation, rapid outflow, or role
   //   conflict.  Does not modify existing scores or detection outputs.
+  progress('fan_in_validation');
   validateFanInTwoPhase(
     Array.from(accountMap.values()),
     transactions,
     graph,
-    cycles,
+    cyclePaths,
     shellChains,
     fanOutMap,
+    config.fan_in_validation,
+  );
+
+  // ── Analyst Dispositions ─────────────────────────────────────────────────
+  // Final adjustment: recorded analyst verdicts (disposition-store) suppress
+  // benign accounts/pairs and hold confirmed mules at a score floor.  Each
+  // change is explained with the disposition, its author and date.
+  progress('dispositions');
+  applyAnalystDispositions(
+    Array.from(accountMap.values()),
+    transactions,
+    options.dispositions ?? [],
+    config.dispositions,
   );
 
+  // The legacy explanation string, now that every stage has recorded its part
+  for (const account of accountMap.values()) {
+    account.explanation = explanationFromContributions(account.score_contributions ?? []);
+  }
+
   // Build Cytoscape data with detection results
+  progress('graph_data');
   const graphData = buildCytoscapeData(
     accountMap,
     transactions,
     fanInMap,
     fanOutMap,
     shellChains,
-    cycles,
-    ringMap
+    structuringMap,
+    passThroughMap,
+    cyclePaths,
+    ringMap,
+    currency
   );
+  endStage();
 
   const endTime = performance.now();
   const processingTime =
@@ -1215,5 +1621,9 @@ export function analyzeTransactions(
     summary: hackathonOutput.summary,
     hackathonOutput,
     graphData,
+    config,
+    reporting_currency: currency,
+    communities,
+    stage_snapshots: stageSnapshots,
   };
 }
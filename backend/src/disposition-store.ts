@@ -0,0 +1,131 @@
+// RIFT 2026 – Analyst Dispositions
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Persistent analyst verdicts fed back into detection.  An analyst marks an
+//   account, or one sender→receiver pair, as a benign merchant, payroll or a
+//   confirmed mule; every later analysis applies the verdicts in its
+//   `dispositions` stage (analyst-dispositions).
+//
+// SUBJECTS
+//   Each account and each directed pair carries at most one disposition.
+//   Recording another label on the same subject replaces it (keeping the
+//   disposition_id), so recorded_by / recorded_at always name the analyst
+//   behind the verdict currently in force.
+//
+// STORAGE
+//   A single JSON object keyed by disposition ID in DATA_DIR/dispositions.json
+//   (file-store).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { randomUUID } from 'crypto';
+import { Disposition, DispositionLabel } from './types';
+import { readJsonRecord, writeJsonFile } from './file-store';
+
+const DISPOSITIONS_FILE = 'dispositions.json';
+const MAX_ID_LENGTH = 128;
+const MAX_NOTE_LENGTH = 1000;
+
+export const DISPOSITION_LABELS: DispositionLabel[] = ['benign_merchant', 'payroll', 'confirmed_mule'];
+
+type DispositionMap = Record<string, Disposition>;
+
+function loadDispositions(): DispositionMap {
+  return readJsonRecord<Disposition>(DISPOSITIONS_FILE);
+}
+
+function subjectKey(d: Pick<Disposition, 'subject_type' | 'account_id' | 'sender_id' | 'receiver_id'>): string {
+  return d.subject_type === 'account' ? `account:${d.account_id}` : `pair:${d.sender_id}|${d.receiver_id}`;
+}
+
+function readId(value: unknown, field: string, errors: string[]): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${field} must be a non-empty string`);
+    return undefined;
+  }
+  if (value.trim().length > MAX_ID_LENGTH) {
+    errors.push(`${field} must be at most ${MAX_ID_LENGTH} characters`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+export function isDispositionLabel(value: unknown): value is DispositionLabel {
+  return DISPOSITION_LABELS.includes(value as DispositionLabel);
+}
+
+/** Dispositions, most recent first; `accountId` matches accounts and either end of a pair. */
+export function listDispositions(filter: { accountId?: string } = {}): Disposition[] {
+  const { accountId } = filter;
+  return Object.values(loadDispositions())
+    .filter((d) => !accountId || [d.account_id, d.sender_id, d.receiver_id].includes(accountId))
+    .sort((a, b) => b.recorded_at.localeCompare(a.recorded_at));
+}
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+/**
+ * Record a disposition from a request body: `{ accountId }` or
+ * `{ senderId, receiverId }`, plus `label` and an optional `note`.
+ * Returns validation errors instead of throwing; `replaced` is true when the
+ * subject already had a disposition.
+ */
+export function recordDisposition(
+  input: unknown,
+  actor: string,
+): { disposition?: Disposition; replaced?: boolean; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: ['Request body must be an object'] };
+  }
+  const { accountId, senderId, receiverId, label, note } = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const isPair = senderId !== undefined || receiverId !== undefined;
+  if (isPair === (accountId !== undefined)) {
+    errors.push('Provide either accountId or senderId and receiverId');
+  }
+  const subject = isPair
+    ? {
+      subject_type: 'pair' as const,
+      sender_id: readId(senderId, 'senderId', errors),
+      receiver_id: readId(receiverId, 'receiverId', errors),
+    }
+    : { subject_type: 'account' as const, account_id: readId(accountId, 'accountId', errors) };
+  if (isPair && senderId === receiverId && typeof senderId === 'string') {
+    errors.push('senderId and receiverId must differ');
+  }
+  if (!isDispositionLabel(label)) {
+    errors.push(`label must be one of: ${DISPOSITION_LABELS.join(', ')}`);
+  }
+  if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+    errors.push(`note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  if (errors.length > 0) return { errors };
+
+  const dispositions = loadDispositions();
+  const key = subjectKey(subject);
+  const existing = Object.values(dispositions).find((d) => subjectKey(d) === key);
+  const disposition: Disposition = {
+    disposition_id: existing?.disposition_id ?? randomUUID(),
+    ...subject,
+    label: label as DispositionLabel,
+    ...(typeof note === 'string' && note.trim() && { note: note.trim() }),
+    recorded_by: actor,
+    recorded_at: new Date().toISOString(),
+  };
+
+  dispositions[disposition.disposition_id] = disposition;
+  writeJsonFile(DISPOSITIONS_FILE, dispositions);
+  return { disposition, replaced: existing !== undefined, errors: [] };
+}
+
+/** Delete a disposition; returns false when it did not exist. */
+export function deleteDisposition(dispositionId: string): boolean {
+  const dispositions = loadDispositions();
+  if (!dispositions[dispositionId]) return false;
+  delete dispositions[dispositionId];
+  writeJsonFile(DISPOSITIONS_FILE, dispositions);
+  return true;
+}
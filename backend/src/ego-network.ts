@@ -0,0 +1,94 @@
+// ─── EGO NETWORKS ────────────────────────────────────────────────────────────
+// Cuts the k-hop neighborhood of an account out of a run's graph, so runs too
+// large to draw whole can be explored one neighborhood at a time.
+//
+// Breadth-first search from the center over the aggregated edges, following
+// them backwards (in), forwards (out) or either way (both).  The result is
+// the subgraph induced by the accounts reached: every edge between two of
+// them is kept, whichever way it points.  Accounts with a neighbor outside
+// the result in the search direction form the frontier; expanding one loads
+// its own neighborhood.
+//
+// Complexity: O(V+E) to index the graph, then O(V'+E') for the neighborhood
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { CytoscapeGraphData, EgoDirection, EgoNetwork } from './types';
+
+export const DEFAULT_EGO_HOPS = 1;
+export const MAX_EGO_HOPS = 5;
+
+/** Node cap, keeping a neighborhood small enough to lay out in the browser */
+export const MAX_EGO_NODES = 500;
+
+/** The k-hop neighborhood of `accountId`, which must be a node of `graph` */
+export function extractEgoNetwork(
+  graph: CytoscapeGraphData,
+  accountId: string,
+  hops: number,
+  direction: EgoDirection,
+): EgoNetwork {
+  const neighbors = new Map<string, Set<string>>();
+  const link = (from: string, to: string) => {
+    if (!neighbors.has(from)) neighbors.set(from, new Set());
+    neighbors.get(from)!.add(to);
+  };
+  for (const edge of graph.edges) {
+    const { source, target } = edge.data;
+    if (source === target) continue;
+    if (direction !== 'in') link(source, target);
+    if (direction !== 'out') link(target, source);
+  }
+
+  const depth = new Map<string, number>([[accountId, 0]]);
+  const queue = [accountId];
+  let truncated = false;
+  for (let head = 0; head < queue.length && !truncated; head++) {
+    const node = queue[head];
+    const d = depth.get(node)!;
+    if (d === hops) continue;
+    for (const next of neighbors.get(node) ?? []) {
+      if (depth.has(next)) continue;
+      if (depth.size === MAX_EGO_NODES) {
+        truncated = true;
+        break;
+      }
+      depth.set(next, d + 1);
+      queue.push(next);
+    }
+  }
+
+  return {
+    account_id: accountId,
+    hops,
+    direction,
+    nodes: graph.nodes.filter((node) => depth.has(node.data.id)),
+    edges: graph.edges.filter((edge) => depth.has(edge.data.source) && depth.has(edge.data.target)),
+    frontier: [...depth.keys()].filter((id) => [...(neighbors.get(id) ?? [])].some((next) => !depth.has(next))),
+    truncated,
+  };
+}
+
+/**
+ * Read `hops` and `direction` from a query string (both optional), falling
+ * back to DEFAULT_EGO_HOPS and both.  Problems are collected in `errors`.
+ */
+export function parseEgoQuery(query: Record<string, unknown>): {
+  hops: number;
+  direction: EgoDirection;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  let hops = DEFAULT_EGO_HOPS;
+  let direction: EgoDirection = 'both';
+
+  if (query.hops !== undefined) {
+    const value = typeof query.hops === 'string' && /^\d+$/.test(query.hops) ? Number(query.hops) : NaN;
+    if (value >= 1 && value <= MAX_EGO_HOPS) hops = value;
+    else errors.push(`hops must be an integer from 1 to ${MAX_EGO_HOPS}`);
+  }
+  if (query.direction !== undefined) {
+    if (query.direction === 'in' || query.direction === 'out' || query.direction === 'both') direction = query.direction;
+    else errors.push('direction must be in, out or both');
+  }
+  return { hops, direction, errors };
+}
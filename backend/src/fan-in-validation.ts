@@ -46,28 +46,24 @@
 //   corroboration lookups.
 // ════════════════════════════════════════════════════════════════════════════════
 
-import { AccountNode, RawTransaction } from './types';
+import { AccountNode, DetectionConfig, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG, hoursToMs } from './detection-config';
+import { recordFinding } from './score-contributions';
 
 // ─── Configurable thresholds ────────────────────────────────────────────────
+// Supplied via DetectionConfig.fan_in_validation:
+//
+//   window_hours                Window within which fan-in senders are counted (72h)
+//   min_unique_senders          Unique senders to qualify as aggregation candidate (3)
+//   amount_tolerance            Shell chain amount preservation tolerance (± 20%)
+//   rapid_outflow_window_hours  Window in which outward flow must occur (24h)
+//   rapid_outflow_ratio         Fraction of received amount that must be forwarded (50%)
+//   low_activity_tx_threshold   Max transactions for a low-activity intermediary (3)
+//
+// Amount comparisons use tx.amount, which is in the reporting currency once
+// fx-rates normalizeCurrencies has run.
 
-/** Time window (ms) within which fan-in senders are counted (Phase 1) */
-const FAN_IN_WINDOW_MS = 72 * 60 * 60 * 1000; // 72 hours
-
-/** Minimum unique senders in the window to qualify as aggregation candidate */
-const MIN_UNIQUE_SENDERS = 3;
-
-/** Amount preservation tolerance for shell chain hop comparison (± 20%) */
-const AMOUNT_TOLERANCE = 0.20;
-
-/** Rapid outflow: maximum time window (ms) in which outward flow must occur */
-const RAPID_OUTFLOW_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-/** Rapid outflow: minimum fraction of received amount that must be forwarded */
-const RAPID_OUTFLOW_RATIO = 0.50; // 50%
-
-/** Maximum total transactions for an account to be considered a low-activity
- *  intermediary in the shell chain involvement check */
-const LOW_ACTIVITY_TX_THRESHOLD = 3;
+type FanInValidationConfig = DetectionConfig['fan_in_validation'];
 
 // ─── Internal types ─────────────────────────────────────────────────────────
 
@@ -84,9 +80,11 @@ interface AggregationCandidate {
 // ─── Phase 1: Identify aggregation candidates ───────────────────────────────
 
 function identifyAggregationCandidates(
-  transactions: RawTransaction[]
+  transactions: RawTransaction[],
+  config: FanInValidationConfig
 ): AggregationCandidate[] {
   const candidates: AggregationCandidate[] = [];
+  const windowMs = hoursToMs(config.window_hours);
 
   // Group transactions by receiver
   const byReceiver = new Map<string, RawTransaction[]>();
@@ -101,7 +99,7 @@ function identifyAggregationCandidates(
       (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
 
-    // Sliding window: find any window with >= MIN_UNIQUE_SENDERS unique senders
+    // Sliding window: find any window with >= min_unique_senders unique senders
     let left = 0;
     let bestSenders: Set<string> | null = null;
     let bestLeft = 0;
@@ -113,7 +111,7 @@ function identifyAggregationCandidates(
       // Slide left pointer to maintain window
       while (
         left < right &&
-        rightTime - new Date(sorted[left].timestamp).getTime() > FAN_IN_WINDOW_MS
+        rightTime - new Date(sorted[left].timestamp).getTime() > windowMs
       ) {
         left++;
       }
@@ -124,7 +122,7 @@ function identifyAggregationCandidates(
         sendersInWindow.add(sorted[i].sender_id);
       }
 
-      if (sendersInWindow.size >= MIN_UNIQUE_SENDERS) {
+      if (sendersInWindow.size >= config.min_unique_senders) {
         if (!bestSenders || sendersInWindow.size > bestSenders.size) {
           bestSenders = sendersInWindow;
           bestLeft = left;
@@ -158,13 +156,14 @@ function identifyAggregationCandidates(
 // ─── Corroboration Check 1: Shell Chain Involvement ─────────────────────────
 //   The candidate forwards aggregated funds through one or more low-activity
 //   intermediary accounts.  Amount preservation across hops is checked
-//   (± AMOUNT_TOLERANCE).  Directional flow must be outward from the candidate.
+//   (± amount_tolerance).  Directional flow must be outward from the candidate.
 
 function checkShellChainInvolvement(
   candidateId: string,
   totalReceived: number,
   graph: AdjList,
   accountMap: Map<string, AccountNode>,
+  config: FanInValidationConfig,
 ): boolean {
   const outNeighbors = graph.get(candidateId);
   if (!outNeighbors) return false;
@@ -174,12 +173,12 @@ function checkShellChainInvolvement(
     if (!neighbor) continue;
 
     // Neighbor must be a low-activity intermediary
-    if (neighbor.total_transactions > LOW_ACTIVITY_TX_THRESHOLD) continue;
+    if (neighbor.total_transactions > config.low_activity_tx_threshold) continue;
 
     // Check amount preservation: sum of outgoing txs to this neighbor
     const outAmount = txs.reduce((sum, tx) => sum + tx.amount, 0);
-    const lowerBound = totalReceived * (1 - AMOUNT_TOLERANCE);
-    const upperBound = totalReceived * (1 + AMOUNT_TOLERANCE);
+    const lowerBound = totalReceived * (1 - config.amount_tolerance);
+    const upperBound = totalReceived * (1 + config.amount_tolerance);
 
     // At least partial preservation: outgoing must be ≥ 50% of received
     // AND within tolerance range OR exceeds lower bound
@@ -229,13 +228,16 @@ function checkRapidLayeredOutflow(
   candidateId: string,
   candidate: AggregationCandidate,
   transactions: RawTransaction[],
+  config: FanInValidationConfig,
 ): boolean {
+  const rapidOutflowWindowMs = hoursToMs(config.rapid_outflow_window_hours);
+
   // Find all outgoing transactions from the candidate AFTER the fan-in window starts
   const outgoingAfterAggregation = transactions.filter(
     tx =>
       tx.sender_id === candidateId &&
       new Date(tx.timestamp).getTime() >= candidate.windowStart &&
-      new Date(tx.timestamp).getTime() <= candidate.windowEnd + RAPID_OUTFLOW_WINDOW_MS
+      new Date(tx.timestamp).getTime() <= candidate.windowEnd + rapidOutflowWindowMs
   );
 
   if (outgoingAfterAggregation.length === 0) return false;
@@ -251,7 +253,7 @@ function checkRapidLayeredOutflow(
     totalOutflow += tx.amount;
   }
 
-  return totalOutflow >= candidate.totalReceived * RAPID_OUTFLOW_RATIO;
+  return totalOutflow >= candidate.totalReceived * config.rapid_outflow_ratio;
 }
 
 // ─── Corroboration Check 4: Role Conflict ───────────────────────────────────
@@ -287,8 +289,9 @@ function checkRoleConflict(
  *   - fan_in_classification: 'aggregation_candidate' | 'confirmed_money_laundering'
  *   - corroboration_checks: string[]   (names of triggered checks)
  *
- * Does NOT modify suspicion_score, detected_patterns, or any other
- * existing detection output.
+ * Records the classification as a zero-delta score contribution; does NOT
+ * modify suspicion_score, detected_patterns, or any other existing
+ * detection output.
  */
 export function validateFanInTwoPhase(
   accounts: AccountNode[],
@@ -297,6 +300,7 @@ export function validateFanInTwoPhase(
   cycles: string[][],
   shellChains: string[][],
   fanOutMap: Map<string, { receivers: Set<string> }>,
+  config: FanInValidationConfig = DEFAULT_DETECTION_CONFIG.fan_in_validation,
 ): void {
   // Build lookup structures
   const accountMap = new Map<string, AccountNode>();
@@ -315,7 +319,7 @@ export function validateFanInTwoPhase(
   const fanOutNodes = new Set<string>(fanOutMap.keys());
 
   // ── Phase 1: Identify aggregation candidates ──────────────────────────
-  const candidates = identifyAggregationCandidates(transactions);
+  const candidates = identifyAggregationCandidates(transactions, config);
 
   // ── Phase 2: Corroboration ────────────────────────────────────────────
   for (const candidate of candidates) {
@@ -330,6 +334,7 @@ export function validateFanInTwoPhase(
       candidate.totalReceived,
       graph,
       accountMap,
+      config,
     )) {
       triggeredChecks.push('shell_chain_involvement');
     }
@@ -344,6 +349,7 @@ export function validateFanInTwoPhase(
       candidate.accountId,
       candidate,
       transactions,
+      config,
     )) {
       triggeredChecks.push('rapid_layered_outflow');
     }
@@ -372,13 +378,18 @@ export function validateFanInTwoPhase(
       account.triggered_algorithms.push('Two-Phase Fan-In Validation');
     }
 
-    // Append classification to explanation (additive only)
+    // Record the classification as a finding (additive only)
     const classLabel = account.fan_in_classification === 'confirmed_money_laundering'
       ? 'CONFIRMED MONEY LAUNDERING'
       : 'AGGREGATION CANDIDATE (unconfirmed)';
     const checksStr = triggeredChecks.length > 0
       ? `Corroboration: ${triggeredChecks.join(', ')}`
       : 'No corroboration evidence found';
-    account.explanation += `. Fan-In Validation: ${classLabel}. ${checksStr}`;
+    recordFinding(account, {
+      stage: 'fan_in_validation',
+      algorithm: 'Two-Phase Fan-In Validation',
+      reason: `Fan-In Validation: ${classLabel}. ${checksStr}`,
+      counterparties: candidate.senders,
+    });
   }
 }
@@ -0,0 +1,63 @@
+// RIFT 2026 – File Store
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Minimal JSON persistence for server-side state (saved column-mapping
+//   profiles, analysis runs).  Everything lives under DATA_DIR as plain JSON
+//   files, so a deployment needs no database.
+//
+// GUARANTEES
+//   • Writes are atomic: data is written to a temp file and renamed over
+//     the target, so a crash never leaves a half-written file
+//   • Missing files read as the supplied fallback
+//   • Records keyed by user-supplied names have no prototype, so a name like
+//     "constructor" or "__proto__" is just another key
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import fs from 'fs';
+import path from 'path';
+
+/** Root directory for persisted data (env DATA_DIR, default ./data) */
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+
+function resolveDataPath(name: string): string {
+  return path.join(DATA_DIR, name);
+}
+
+/** Read a JSON file under DATA_DIR, returning `fallback` when it does not exist. */
+export function readJsonFile<T>(name: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(resolveDataPath(name), 'utf-8')) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Read a JSON object keyed by user-supplied names (profiles, cases, ...).
+ * Missing files read as an empty record.
+ */
+export function readJsonRecord<T>(name: string): Record<string, T> {
+  return Object.assign(Object.create(null) as Record<string, T>, readJsonFile<Record<string, T>>(name, {}));
+}
+
+/** Atomically write `data` as JSON to a file under DATA_DIR. */
+export function writeJsonFile(name: string, data: unknown): void {
+  const target = resolveDataPath(name);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data, null, 2));
+  fs.renameSync(temp, target);
+}
+
+/** Delete a file under DATA_DIR; returns false when it did not exist. */
+export function deleteJsonFile(name: string): boolean {
+  try {
+    fs.unlinkSync(resolveDataPath(name));
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+}
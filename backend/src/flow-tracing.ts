@@ -0,0 +1,354 @@
+// ─── FLOW TRACING ────────────────────────────────────────────────────────────
+// Answers "where did the money from account X go?" (forward) and "where did
+// it come from?" (backward) by following funds hop by hop along
+// time-respecting paths.
+//
+// LEDGER (per account, built on first visit)
+//   The account's transactions in time order, inflows before outflows at the
+//   same timestamp.  Every inflow is a lot; every outflow draws on the lots
+//   that arrived before it by the allocation rule:
+//     fifo          oldest lots first
+//     lifo          newest lots first
+//     proportional  every open lot in proportion to what is left of it
+//   An outflow larger than the balance from inflows in the data draws the
+//   excess from funds held before the data starts, which are untraced.
+//
+// TRACE
+//   Forward, funds that arrived by transaction t follow the outflows that
+//   drew on t's lot, scaled by the traced share of t; what is never spent
+//   stays at the account as untraced_amount.  Backward mirrors this: the
+//   traced part of an outflow is split over the lots it drew on.  Without a
+//   starting transaction the root is the account's whole outflow (forward)
+//   or inflow (backward).  Branches under min_amount, past max_hops or past
+//   MAX_TRACE_NODES are cut off and their amount kept on the parent as
+//   cutoff_amount.
+//
+// Complexity: O(T) to group transactions, O(k log k) per visited account
+//   with k transactions, then per traced node O(draws) for fifo / lifo and
+//   O(k) for proportional
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { FlowTrace, FlowTraceLink, FlowTraceNode, RawTransaction, TraceOptions } from './types';
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+  direction: 'forward',
+  allocation: 'fifo',
+  max_hops: 5,
+  min_amount: 0,
+};
+
+export const MAX_TRACE_HOPS = 10;
+
+/** Tree size limit, keeping responses small enough to render */
+export const MAX_TRACE_NODES = 500;
+
+const EPSILON = 1e-6;
+
+interface Draw {
+  event: number;
+  amount: number;
+}
+
+interface Ledger {
+  events: { tx: RawTransaction; inflow: boolean }[];
+  position: Map<RawTransaction, number>;
+  drawsByLot: Map<number, Draw[]>;      // fifo / lifo: inflow event → outflows drawing on it
+  drawsByOutflow: Map<number, Draw[]>;  // fifo / lifo: outflow event → lots it drew on
+  fraction: Float64Array;               // proportional: share of the balance each outflow took
+  untraced: Float64Array;               // Part of each outflow drawn from funds held before the data
+}
+
+function buildLedger(accountId: string, transactions: RawTransaction[], allocation: TraceOptions['allocation']): Ledger {
+  const timed = transactions
+    .filter((tx) => tx.sender_id !== tx.receiver_id)
+    .map((tx) => ({ tx, inflow: tx.receiver_id === accountId, time: new Date(tx.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time || Number(b.inflow) - Number(a.inflow));
+
+  const events = timed.map(({ tx, inflow }) => ({ tx, inflow }));
+  const ledger: Ledger = {
+    events,
+    position: new Map(events.map((e, i) => [e.tx, i])),
+    drawsByLot: new Map(),
+    drawsByOutflow: new Map(),
+    fraction: new Float64Array(events.length),
+    untraced: new Float64Array(events.length),
+  };
+
+  if (allocation === 'proportional') {
+    let balance = 0;
+    events.forEach((e, i) => {
+      if (e.inflow) {
+        balance += e.tx.amount;
+        return;
+      }
+      const drawn = Math.min(balance, e.tx.amount);
+      ledger.fraction[i] = balance > 0 ? drawn / balance : 0;
+      ledger.untraced[i] = e.tx.amount - drawn;
+      balance -= drawn;
+    });
+    return ledger;
+  }
+
+  // Open lots; fifo consumes from `head`, lifo from the end
+  const lots: { event: number; remaining: number }[] = [];
+  let head = 0;
+  const record = (map: Map<number, Draw[]>, key: number, draw: Draw) => {
+    const list = map.get(key);
+    if (list) list.push(draw);
+    else map.set(key, [draw]);
+  };
+  events.forEach((e, i) => {
+    if (e.inflow) {
+      lots.push({ event: i, remaining: e.tx.amount });
+      return;
+    }
+    let need = e.tx.amount;
+    while (need > EPSILON && lots.length > head) {
+      const lot = allocation === 'fifo' ? lots[head] : lots[lots.length - 1];
+      const amount = Math.min(need, lot.remaining);
+      if (amount > 0) {
+        record(ledger.drawsByLot, lot.event, { event: i, amount });
+        record(ledger.drawsByOutflow, i, { event: lot.event, amount });
+      }
+      lot.remaining -= amount;
+      need -= amount;
+      if (lot.remaining <= EPSILON) {
+        if (allocation === 'fifo') head++;
+        else lots.pop();
+      }
+    }
+    ledger.untraced[i] = Math.max(0, need);
+  });
+  return ledger;
+}
+
+/** Forward: the outflows that spent `amount` of lot `event`, and what stays unspent */
+function spend(ledger: Ledger, event: number, amount: number, allocation: TraceOptions['allocation']) {
+  const lotAmount = ledger.events[event].tx.amount;
+  const share = lotAmount > 0 ? amount / lotAmount : 0;
+  const draws: Draw[] = [];
+
+  if (allocation === 'proportional') {
+    let remaining = lotAmount;
+    for (let i = event + 1; i < ledger.events.length && remaining > EPSILON; i++) {
+      if (ledger.events[i].inflow) continue;
+      const drawn = remaining * ledger.fraction[i];
+      if (drawn <= 0) continue;
+      draws.push({ event: i, amount: drawn * share });
+      remaining -= drawn;
+    }
+  } else {
+    for (const draw of ledger.drawsByLot.get(event) ?? []) {
+      draws.push({ event: draw.event, amount: draw.amount * share });
+    }
+  }
+
+  const spent = draws.reduce((sum, d) => sum + d.amount, 0);
+  return { draws, untraced: Math.max(0, amount - spent) };
+}
+
+/** Backward: the lots `amount` of outflow `event` drew on, and the part from before the data */
+function source(ledger: Ledger, event: number, amount: number, allocation: TraceOptions['allocation']) {
+  const outAmount = ledger.events[event].tx.amount;
+  const share = outAmount > 0 ? amount / outAmount : 0;
+  const draws: Draw[] = [];
+
+  if (allocation === 'proportional') {
+    // Lot i gave amount_i × Π(1 − fraction) over the outflows between it and this one, × this fraction
+    let factor = ledger.fraction[event];
+    for (let i = event - 1; i >= 0 && factor > 0; i--) {
+      if (!ledger.events[i].inflow) {
+        factor *= 1 - ledger.fraction[i];
+        continue;
+      }
+      const drawn = ledger.events[i].tx.amount * factor;
+      if (drawn > 0) draws.push({ event: i, amount: drawn * share });
+    }
+    draws.reverse();
+  } else {
+    for (const draw of ledger.drawsByOutflow.get(event) ?? []) {
+      draws.push({ event: draw.event, amount: draw.amount * share });
+    }
+  }
+
+  return { draws, untraced: ledger.untraced[event] * share };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function roundNode(node: FlowTraceNode): void {
+  node.amount = round2(node.amount);
+  node.untraced_amount = round2(node.untraced_amount);
+  node.cutoff_amount = round2(node.cutoff_amount);
+  node.children.forEach(roundNode);
+}
+
+/**
+ * Trace funds from `accountId`.  With `start`, only that transaction's funds
+ * are traced: forward from an inflow (or along an outflow), backward from an
+ * outflow (or along an inflow).  `start` must involve the account.
+ */
+export function traceFunds(
+  transactions: RawTransaction[],
+  accountId: string,
+  start: RawTransaction | null,
+  options: TraceOptions,
+  currency: string,
+): FlowTrace {
+  const { direction, allocation, max_hops: maxHops, min_amount: minAmount } = options;
+  const forward = direction === 'forward';
+
+  const byAccount = new Map<string, RawTransaction[]>();
+  const add = (id: string, tx: RawTransaction) => {
+    const list = byAccount.get(id);
+    if (list) list.push(tx);
+    else byAccount.set(id, [tx]);
+  };
+  for (const tx of transactions) {
+    add(tx.sender_id, tx);
+    if (tx.receiver_id !== tx.sender_id) add(tx.receiver_id, tx);
+  }
+  const ledgers = new Map<string, Ledger>();
+  const ledgerFor = (id: string) => {
+    let ledger = ledgers.get(id);
+    if (!ledger) {
+      ledger = buildLedger(id, byAccount.get(id) ?? [], allocation);
+      ledgers.set(id, ledger);
+    }
+    return ledger;
+  };
+
+  const links = new Map<string, { link: FlowTraceLink; txIds: Set<string> }>();
+  const queue: { node: FlowTraceNode; tx: RawTransaction }[] = [];
+  let nodeCount = 1;
+  let truncated = false;
+
+  const makeNode = (tx: RawTransaction, amount: number, hop: number): FlowTraceNode => ({
+    account_id: forward ? tx.receiver_id : tx.sender_id,
+    transaction_id: tx.transaction_id,
+    timestamp: tx.timestamp,
+    amount,
+    hop,
+    untraced_amount: 0,
+    cutoff_amount: 0,
+    children: [],
+  });
+
+  // Attach a child unless a cut-off applies; its amount then counts as cut off
+  const attach = (parent: FlowTraceNode, tx: RawTransaction, amount: number) => {
+    if (amount < minAmount || amount <= EPSILON) {
+      parent.cutoff_amount += amount;
+      return;
+    }
+    if (nodeCount >= MAX_TRACE_NODES) {
+      parent.cutoff_amount += amount;
+      truncated = true;
+      return;
+    }
+    nodeCount++;
+    const child = makeNode(tx, amount, parent.hop + 1);
+    parent.children.push(child);
+    queue.push({ node: child, tx });
+
+    const key = `${tx.sender_id}\u0000${tx.receiver_id}`;
+    const entry = links.get(key);
+    if (entry) {
+      entry.link.amount += amount;
+      entry.link.hop = Math.min(entry.link.hop, child.hop);
+      entry.txIds.add(tx.transaction_id);
+    } else {
+      links.set(key, {
+        link: { source: tx.sender_id, target: tx.receiver_id, amount, hop: child.hop, transaction_ids: [] },
+        txIds: new Set([tx.transaction_id]),
+      });
+    }
+  };
+
+  // Roots tied to a transaction are expanded from it; otherwise they fan out
+  // over the starting transaction or every outflow (forward) / inflow (backward)
+  const tiedToStart = start !== null && (forward ? start.receiver_id : start.sender_id) === accountId;
+  const root: FlowTraceNode = {
+    account_id: accountId,
+    transaction_id: tiedToStart ? start!.transaction_id : null,
+    timestamp: tiedToStart ? start!.timestamp : null,
+    amount: tiedToStart ? start!.amount : 0,
+    hop: 0,
+    untraced_amount: 0,
+    cutoff_amount: 0,
+    children: [],
+  };
+  if (tiedToStart) {
+    queue.push({ node: root, tx: start! });
+  } else {
+    const firstHops = start
+      ? [start]
+      : ledgerFor(accountId).events.filter((e) => e.inflow !== forward).map((e) => e.tx);
+    for (const tx of firstHops) {
+      root.amount += tx.amount;
+      attach(root, tx, tx.amount);
+    }
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const { node, tx } = queue[i];
+    const ledger = ledgerFor(node.account_id);
+    const event = ledger.position.get(tx)!;
+    const { draws, untraced } = forward
+      ? spend(ledger, event, node.amount, allocation)
+      : source(ledger, event, node.amount, allocation);
+    node.untraced_amount = untraced;
+
+    if (node.hop >= maxHops) {
+      node.cutoff_amount = Math.max(0, node.amount - untraced);
+      continue;
+    }
+    for (const draw of draws) attach(node, ledger.events[draw.event].tx, draw.amount);
+  }
+
+  roundNode(root);
+  return {
+    account_id: accountId,
+    transaction_id: start?.transaction_id ?? null,
+    ...options,
+    currency,
+    root,
+    links: [...links.values()].map(({ link, txIds }) => ({
+      ...link,
+      amount: round2(link.amount),
+      transaction_ids: [...txIds],
+    })),
+    node_count: nodeCount,
+    truncated,
+  };
+}
+
+/**
+ * Read trace options from a request body (camelCase, all optional), falling
+ * back to DEFAULT_TRACE_OPTIONS.  Problems are collected in `errors`.
+ */
+export function parseTraceOptions(body: Record<string, unknown>): { options: TraceOptions; errors: string[] } {
+  const errors: string[] = [];
+  const options: TraceOptions = { ...DEFAULT_TRACE_OPTIONS };
+  const { direction, allocation, maxHops, minAmount } = body;
+
+  if (direction !== undefined) {
+    if (direction === 'forward' || direction === 'backward') options.direction = direction;
+    else errors.push('direction must be forward or backward');
+  }
+  if (allocation !== undefined) {
+    if (allocation === 'fifo' || allocation === 'lifo' || allocation === 'proportional') options.allocation = allocation;
+    else errors.push('allocation must be fifo, lifo or proportional');
+  }
+  if (maxHops !== undefined) {
+    if (Number.isInteger(maxHops) && (maxHops as number) >= 1 && (maxHops as number) <= MAX_TRACE_HOPS) {
+      options.max_hops = maxHops as number;
+    } else {
+      errors.push(`maxHops must be an integer from 1 to ${MAX_TRACE_HOPS}`);
+    }
+  }
+  if (minAmount !== undefined) {
+    if (typeof minAmount === 'number' && Number.isFinite(minAmount) && minAmount >= 0) options.min_amount = minAmount;
+    else errors.push('minAmount must be a number of at least 0');
+  }
+  return { options, errors };
+}
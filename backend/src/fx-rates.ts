@@ -0,0 +1,284 @@
+// RIFT 2026 – FX Rates & Currency Normalization
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Transactions may arrive in several currencies.  Every amount-sensitive
+//   check (cycle amount continuity, rapid-outflow ratios, ring totals) must
+//   compare like with like, so amounts are converted to a single reporting
+//   currency BEFORE detection runs.  The original amount and currency are
+//   preserved on each transaction.
+//
+// RATE TABLE
+//   A local file of dated rates against one base currency, loaded from
+//   FX_RATES_PATH (or passed in directly):
+//     CSV   date,base,currency,rate        1 base = rate × currency
+//     JSON  { "base": "EUR", "rates": { "2024-01-02": { "USD": 1.0956 } } }
+//   A conversion on date D uses the most recent rate on or before D.
+//   Cross rates go through the base: amount / rate(from) × rate(to).
+//
+// INTEGRATION
+//   normalizeCurrencies() runs between CSV validation and analyzeTransactions.
+//   formatCurrency() replaces hard-coded "$" in explanations and labels.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import fs from 'fs';
+import path from 'path';
+import { RawTransaction } from './types';
+import { createCsvTokenizer } from './csv-tokenizer';
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Normalization problems beyond this count are summarised */
+const MAX_REPORTED_ERRORS = 10;
+
+export interface FxRateTable {
+  base: string;
+  /** Per currency, rates sorted by date ascending (1 base = rate × currency) */
+  rates: Map<string, { date: string; rate: number }[]>;
+}
+
+export function isCurrencyCode(code: string): boolean {
+  return CURRENCY_REGEX.test(code);
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+function addRate(table: FxRateTable, date: string, currency: string, rate: number, where: string): void {
+  if (!DATE_REGEX.test(date)) throw new Error(`${where}: invalid date "${date}" (expected YYYY-MM-DD)`);
+  if (!isCurrencyCode(currency)) throw new Error(`${where}: invalid currency "${currency}"`);
+  if (!Number.isFinite(rate) || rate <= 0) throw new Error(`${where}: rate must be a positive number`);
+
+  if (!table.rates.has(currency)) table.rates.set(currency, []);
+  table.rates.get(currency)!.push({ date, rate });
+}
+
+function finishTable(table: FxRateTable): FxRateTable {
+  if (!isCurrencyCode(table.base)) throw new Error(`FX rates: invalid base currency "${table.base}"`);
+  for (const series of table.rates.values()) {
+    series.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return table;
+}
+
+/** Parse a CSV rate file with columns date, base, currency, rate. */
+export function parseFxRatesCsv(content: string): FxRateTable {
+  const tokenizer = createCsvTokenizer();
+  const records = [...tokenizer.push(content), ...tokenizer.flush()]
+    .filter((r) => !(r.fields.length === 1 && !r.fields[0].trim()));
+  if (records.length < 2) throw new Error('FX rates CSV must have a header row and at least one rate');
+
+  const headers = records[0].fields.map((h) => h.trim().toLowerCase());
+  const idx = {
+    date: headers.indexOf('date'),
+    base: headers.indexOf('base'),
+    currency: headers.indexOf('currency'),
+    rate: headers.indexOf('rate'),
+  };
+  const missing = Object.entries(idx).filter(([, i]) => i === -1).map(([name]) => name);
+  if (missing.length > 0) throw new Error(`FX rates CSV missing columns: ${missing.join(', ')}`);
+
+  let base = '';
+  const table: FxRateTable = { base: '', rates: new Map() };
+  for (const record of records.slice(1)) {
+    const where = `FX rates row ${record.line}`;
+    const values = record.fields.map((v) => v.trim());
+    const rowBase = values[idx.base]?.toUpperCase() ?? '';
+    if (!base) base = rowBase;
+    if (rowBase !== base) throw new Error(`${where}: all rates must share one base currency (${base})`);
+    addRate(table, values[idx.date], values[idx.currency]?.toUpperCase() ?? '', parseFloat(values[idx.rate]), where);
+  }
+
+  table.base = base;
+  return finishTable(table);
+}
+
+/** Parse a JSON rate file: { base, rates: { "YYYY-MM-DD": { CUR: rate } } }. */
+export function parseFxRatesJson(content: string): FxRateTable {
+  const parsed = JSON.parse(content);
+  if (typeof parsed?.base !== 'string' || typeof parsed?.rates !== 'object' || parsed.rates === null) {
+    throw new Error('FX rates JSON must have "base" and "rates" fields');
+  }
+
+  const table: FxRateTable = { base: parsed.base.toUpperCase(), rates: new Map() };
+  for (const [date, byCurrency] of Object.entries(parsed.rates as Record<string, Record<string, number>>)) {
+    for (const [currency, rate] of Object.entries(byCurrency ?? {})) {
+      addRate(table, date, currency.toUpperCase(), rate, `FX rates ${date}`);
+    }
+  }
+  return finishTable(table);
+}
+
+/** Load a rate table from a .csv or .json file. */
+export function loadFxRateTable(filePath: string): FxRateTable {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return path.extname(filePath).toLowerCase() === '.json'
+    ? parseFxRatesJson(content)
+    : parseFxRatesCsv(content);
+}
+
+let cachedTable: FxRateTable | null | undefined;
+
+/**
+ * Rate table configured through FX_RATES_PATH, loaded once and cached.
+ * Returns null when no rate file is configured.
+ */
+export function getConfiguredFxRates(): FxRateTable | null {
+  if (cachedTable === undefined) {
+    const filePath = process.env.FX_RATES_PATH;
+    cachedTable = filePath ? loadFxRateTable(filePath) : null;
+  }
+  return cachedTable;
+}
+
+// ─── Conversion ──────────────────────────────────────────────────────────────
+
+/** Most recent rate for `currency` on or before `date` (binary search). */
+function lookupRate(table: FxRateTable, currency: string, date: string): number | null {
+  if (currency === table.base) return 1;
+  const series = table.rates.get(currency);
+  if (!series) return null;
+
+  let lo = 0;
+  let hi = series.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].date <= date) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found === -1 ? null : series[found].rate;
+}
+
+/**
+ * Convert `amount` between currencies at the rate in force on `date`
+ * (YYYY-MM-DD).  Returns null when either rate is unavailable.
+ */
+export function convertAmount(
+  table: FxRateTable,
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+): number | null {
+  if (from === to) return amount;
+  const fromRate = lookupRate(table, from, date);
+  const toRate = lookupRate(table, to, date);
+  if (fromRate === null || toRate === null) return null;
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) rates are looked up on.  Timestamps the
+ * validator only accepted as parseable (e.g. 01/15/2024 10:00) are read the
+ * way new Date() reads them, as local wall-clock time.
+ */
+function rateDate(timestamp: string): string {
+  if (/^\d{4}-\d{2}-\d{2}/.test(timestamp)) return timestamp.slice(0, 10);
+  const parsed = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Convert every transaction to the reporting currency.  Transactions without
+ * a currency are assumed to already be in it.  Converted transactions keep
+ * original_amount / original_currency; amounts are rounded to cents.
+ *
+ * Never throws: missing rates and amounts that round to 0.00 are collected in
+ * `errors` (one message per currency/date problem) and the returned transactions must not be used
+ * when it is non-empty.
+ */
+export function normalizeCurrencies(
+  transactions: RawTransaction[],
+  reportingCurrency: string,
+  table: FxRateTable | null,
+): { transactions: RawTransaction[]; errors: string[] } {
+  const problems = new Map<string, number>();
+  const normalized: RawTransaction[] = [];
+
+  for (const tx of transactions) {
+    if (!tx.currency) {
+      normalized.push(tx);
+      continue;
+    }
+
+    const date = rateDate(tx.timestamp);
+    let converted: number | null;
+    if (tx.currency === reportingCurrency) {
+      converted = tx.amount;
+    } else if (!table) {
+      converted = null;
+    } else {
+      converted = convertAmount(table, tx.amount, tx.currency, reportingCurrency, date);
+    }
+
+    if (converted === null) {
+      const key = table
+        ? `No FX rate from ${tx.currency} to ${reportingCurrency} on or before ${date}`
+        : `Transactions in ${tx.currency} require an FX rate table (FX_RATES_PATH) to convert to ${reportingCurrency}`;
+      problems.set(key, (problems.get(key) ?? 0) + 1);
+      continue;
+    }
+
+    const amount = Math.round(converted * 100) / 100;
+    if (amount <= 0) {
+      const key = `Amounts in ${tx.currency} round to 0.00 ${reportingCurrency} after conversion`;
+      problems.set(key, (problems.get(key) ?? 0) + 1);
+      continue;
+    }
+
+    normalized.push({
+      ...tx,
+      amount,
+      currency: reportingCurrency,
+      original_amount: tx.amount,
+      original_currency: tx.currency,
+    });
+  }
+
+  const errors = Array.from(problems.entries())
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map(([message, count]) => `${message} (${count} transaction${count === 1 ? '' : 's'})`);
+  if (problems.size > MAX_REPORTED_ERRORS) {
+    errors.push(`...and ${problems.size - MAX_REPORTED_ERRORS} more FX problems`);
+  }
+
+  return { transactions: errors.length > 0 ? [] : normalized, errors };
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────────
+
+const symbolCache = new Map<string, string>();
+
+function currencySymbol(currency: string): string {
+  if (!symbolCache.has(currency)) {
+    let symbol = currency;
+    try {
+      const part = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+        .formatToParts(0)
+        .find((p) => p.type === 'currency');
+      if (part) symbol = part.value;
+    } catch {
+      // Unknown to Intl: fall back to the ISO code
+    }
+    symbolCache.set(currency, symbol);
+  }
+  return symbolCache.get(currency)!;
+}
+
+/**
+ * Format an amount for explanation text: "$1,234.5", "€980", "CHF 12,000".
+ * Number formatting matches the toLocaleString() output used previously.
+ */
+export function formatCurrency(amount: number, currency: string = DEFAULT_REPORTING_CURRENCY): string {
+  const symbol = currencySymbol(currency);
+  const separator = /^[A-Za-z]/.test(symbol.slice(-1)) ? ' ' : '';
+  return `${symbol}${separator}${amount.toLocaleString()}`;
+}
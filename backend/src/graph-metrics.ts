@@ -0,0 +1,316 @@
+// ─── GLOBAL GRAPH METRICS ────────────────────────────────────────────────────
+// Whole-graph centrality for every account, computed once per analysis.
+// Ring leadership only ranks members inside their own ring; these metrics
+// also see an account that coordinates several rings from outside them.
+//
+// PAGERANK     Power iteration with damping d.  A walker leaves an account
+//              along each outgoing edge in proportion to the amount sent on
+//              it; accounts that send nothing spread their rank evenly.
+//              Scores sum to 1 over the graph.
+// BETWEENNESS  Brandes' algorithm with Dijkstra shortest paths.  An edge
+//              carrying amount a has length 1 / (1 + log2(1 + a / mean)), so
+//              large flows are short but a path's hop count still matters.
+//              Sources are betweenness_samples accounts spread evenly over
+//              the sorted account IDs (every account when the graph is
+//              smaller).  Scaled so the top account is 1.
+// HITS         Hubs send to good authorities, authorities receive from good
+//              hubs; amount-weighted, scaled so the top account is 1.
+// K-CORE       Batagelj–Zaversnik peeling over distinct counterparties,
+//              ignoring direction: the largest k for which the account
+//              stays in a subgraph where every account has ≥ k neighbors.
+//
+// Complexity: PageRank and HITS O(I·E) for I iterations; betweenness
+//   O(S·(V+E)·log V) for S sampled sources; k-core O(V+E)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AdjList } from './detection-engine';
+import { DetectionConfig, GraphMetrics } from './types';
+
+type GraphMetricsConfig = DetectionConfig['graph_metrics'];
+
+/** Iterations stop once scores change by less than this in total */
+const CONVERGENCE_TOLERANCE = 1e-10;
+/** Relative slack when comparing path lengths, so float sums still tie */
+const LENGTH_EPSILON = 1e-9;
+
+interface IndexedGraph {
+  ids: string[];
+  /** Outgoing neighbors and amounts per account, self-transfers dropped */
+  targets: number[][];
+  amounts: number[][];
+}
+
+function indexGraph(graph: AdjList): IndexedGraph {
+  const ids = Array.from(graph.keys()).sort();
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const targets: number[][] = ids.map(() => []);
+  const amounts: number[][] = ids.map(() => []);
+  ids.forEach((id, i) => {
+    for (const [to, txs] of graph.get(id)!) {
+      if (to === id) continue;
+      targets[i].push(index.get(to)!);
+      amounts[i].push(txs.reduce((sum, tx) => sum + tx.amount, 0));
+    }
+  });
+  return { ids, targets, amounts };
+}
+
+function pageRank({ ids, targets, amounts }: IndexedGraph, damping: number, maxIterations: number): Float64Array {
+  const n = ids.length;
+  const sent = amounts.map((list) => list.reduce((sum, a) => sum + a, 0));
+  let rank = new Float64Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let dangling = 0;
+    for (let i = 0; i < n; i++) if (sent[i] === 0) dangling += rank[i];
+    const next = new Float64Array(n).fill((1 - damping + damping * dangling) / n);
+    for (let i = 0; i < n; i++) {
+      if (sent[i] === 0) continue;
+      const share = (damping * rank[i]) / sent[i];
+      for (let e = 0; e < targets[i].length; e++) next[targets[i][e]] += share * amounts[i][e];
+    }
+    let change = 0;
+    for (let i = 0; i < n; i++) change += Math.abs(next[i] - rank[i]);
+    rank = next;
+    if (change < CONVERGENCE_TOLERANCE) break;
+  }
+  return rank;
+}
+
+/** Scale so the largest value is 1 (all zeros stay zero) */
+function scaleToMax(values: Float64Array): void {
+  let max = 0;
+  for (const v of values) max = Math.max(max, v);
+  if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max;
+}
+
+function hits({ ids, targets, amounts }: IndexedGraph, maxIterations: number): { hub: Float64Array; authority: Float64Array } {
+  const n = ids.length;
+  let hub = new Float64Array(n).fill(1);
+  let authority = new Float64Array(n);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const nextAuthority = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      for (let e = 0; e < targets[i].length; e++) nextAuthority[targets[i][e]] += amounts[i][e] * hub[i];
+    }
+    scaleToMax(nextAuthority);
+    const nextHub = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      for (let e = 0; e < targets[i].length; e++) nextHub[i] += amounts[i][e] * nextAuthority[targets[i][e]];
+    }
+    scaleToMax(nextHub);
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change += Math.abs(nextHub[i] - hub[i]) + Math.abs(nextAuthority[i] - authority[i]);
+    hub = nextHub;
+    authority = nextAuthority;
+    if (change < CONVERGENCE_TOLERANCE) break;
+  }
+  return { hub, authority };
+}
+
+/** Binary min-heap of (length, account) entries; stale entries are skipped by the caller */
+function createHeap() {
+  const lengths: number[] = [];
+  const nodes: number[] = [];
+  const swap = (a: number, b: number) => {
+    [lengths[a], lengths[b]] = [lengths[b], lengths[a]];
+    [nodes[a], nodes[b]] = [nodes[b], nodes[a]];
+  };
+  return {
+    get size() {
+      return nodes.length;
+    },
+    push(length: number, node: number) {
+      lengths.push(length);
+      nodes.push(node);
+      for (let i = nodes.length - 1; i > 0; ) {
+        const parent = (i - 1) >> 1;
+        if (lengths[parent] <= lengths[i]) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop(): [number, number] {
+      const top: [number, number] = [lengths[0], nodes[0]];
+      const lastLength = lengths.pop()!;
+      const lastNode = nodes.pop()!;
+      if (nodes.length > 0) {
+        lengths[0] = lastLength;
+        nodes[0] = lastNode;
+        for (let i = 0; ; ) {
+          const left = 2 * i + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < nodes.length && lengths[left] < lengths[smallest]) smallest = left;
+          if (right < nodes.length && lengths[right] < lengths[smallest]) smallest = right;
+          if (smallest === i) break;
+          swap(i, smallest);
+          i = smallest;
+        }
+      }
+      return top;
+    },
+  };
+}
+
+function weightedBetweenness({ ids, targets, amounts }: IndexedGraph, samples: number): Float64Array {
+  const n = ids.length;
+  const edgeCount = amounts.reduce((sum, list) => sum + list.length, 0);
+  const meanAmount = amounts.reduce((sum, list) => sum + list.reduce((s, a) => s + a, 0), 0) / (edgeCount || 1);
+  const lengths = amounts.map((list) =>
+    list.map((a) => 1 / (1 + (meanAmount > 0 ? Math.log2(1 + a / meanAmount) : 0))),
+  );
+
+  const sourceCount = samples === 0 || samples >= n ? n : samples;
+  const centrality = new Float64Array(n);
+  const distance = new Float64Array(n).fill(Infinity);
+  const paths = new Float64Array(n);
+  const dependency = new Float64Array(n);
+  const settled = new Uint8Array(n);
+  const predecessors: number[][] = ids.map(() => []);
+
+  for (let s = 0; s < sourceCount; s++) {
+    const source = Math.floor((s * n) / sourceCount);
+    const order: number[] = [];
+    const heap = createHeap();
+    distance[source] = 0;
+    paths[source] = 1;
+    heap.push(0, source);
+
+    while (heap.size > 0) {
+      const [length, v] = heap.pop();
+      if (settled[v] || length > distance[v]) continue;
+      settled[v] = 1;
+      order.push(v);
+      for (let e = 0; e < targets[v].length; e++) {
+        const w = targets[v][e];
+        if (settled[w]) continue;
+        const alt = distance[v] + lengths[v][e];
+        const slack = LENGTH_EPSILON * Math.max(1, alt);
+        if (alt < distance[w] - slack) {
+          distance[w] = alt;
+          paths[w] = paths[v];
+          predecessors[w].length = 0;
+          predecessors[w].push(v);
+          heap.push(alt, w);
+        } else if (alt <= distance[w] + slack) {
+          paths[w] += paths[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+
+    // Accumulate dependencies in reverse settling order, then reset what was
+    // touched (every account reached is settled before the heap empties)
+    for (let k = order.length - 1; k >= 0; k--) {
+      const w = order[k];
+      for (const v of predecessors[w]) dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      if (w !== source) centrality[w] += dependency[w];
+    }
+    for (const v of order) {
+      distance[v] = Infinity;
+      paths[v] = 0;
+      dependency[v] = 0;
+      settled[v] = 0;
+      predecessors[v].length = 0;
+    }
+  }
+
+  scaleToMax(centrality);
+  return centrality;
+}
+
+function coreNumbers({ ids, targets }: IndexedGraph): Int32Array {
+  const n = ids.length;
+  const neighbors: Set<number>[] = ids.map(() => new Set());
+  targets.forEach((list, i) => {
+    for (const j of list) {
+      neighbors[i].add(j);
+      neighbors[j].add(i);
+    }
+  });
+
+  // Bucket accounts by degree, then peel from the lowest degree up
+  const degree = Int32Array.from(neighbors, (set) => set.size);
+  const maxDegree = degree.reduce((max, d) => Math.max(max, d), 0);
+  const bucketStart = new Int32Array(maxDegree + 2);
+  for (const d of degree) bucketStart[d + 1]++;
+  for (let d = 1; d <= maxDegree + 1; d++) bucketStart[d] += bucketStart[d - 1];
+  const order = new Int32Array(n);
+  const position = new Int32Array(n);
+  const fill = bucketStart.slice();
+  for (let v = 0; v < n; v++) {
+    position[v] = fill[degree[v]]++;
+    order[position[v]] = v;
+  }
+
+  for (let k = 0; k < n; k++) {
+    const v = order[k];
+    for (const u of neighbors[v]) {
+      if (degree[u] <= degree[v]) continue;
+      // Move u to the front of its bucket, then shrink the bucket by one
+      const du = degree[u];
+      const first = order[bucketStart[du]];
+      if (first !== u) {
+        const pu = position[u];
+        order[pu] = first;
+        position[first] = pu;
+        order[bucketStart[du]] = u;
+        position[u] = bucketStart[du];
+      }
+      bucketStart[du]++;
+      degree[u]--;
+    }
+  }
+  return degree;
+}
+
+const roundTo = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/** PageRank, betweenness, HITS and core number of every account in the graph */
+export function computeGraphMetrics(graph: AdjList, config: GraphMetricsConfig): Map<string, GraphMetrics> {
+  const indexed = indexGraph(graph);
+  if (indexed.ids.length === 0) return new Map();
+
+  const rank = pageRank(indexed, config.damping, config.max_iterations);
+  const betweenness = weightedBetweenness(indexed, config.betweenness_samples);
+  const { hub, authority } = hits(indexed, config.max_iterations);
+  const core = coreNumbers(indexed);
+
+  return new Map(
+    indexed.ids.map((id, i) => [
+      id,
+      {
+        pagerank: Number(rank[i].toPrecision(4)),
+        betweenness: roundTo(betweenness[i], 4),
+        hub: roundTo(hub[i], 4),
+        authority: roundTo(authority[i], 4),
+        k_core: core[i],
+      },
+    ]),
+  );
+}
+
+/**
+ * Accounts in the top `topPercentile` % of the graph by PageRank or by
+ * betweenness.  Graphs too small for the percentile to cover one account
+ * yield none.
+ */
+export function topCentralityAccounts(metrics: Map<string, GraphMetrics>, topPercentile: number): Set<string> {
+  const count = Math.floor((metrics.size * topPercentile) / 100);
+  const top = new Set<string>();
+  if (count === 0) return top;
+  for (const key of ['pagerank', 'betweenness'] as const) {
+    const ranked = [...metrics].filter(([, m]) => m[key] > 0).sort((a, b) => b[1][key] - a[1][key]);
+    for (const [id] of ranked.slice(0, count)) top.add(id);
+  }
+  return top;
+}
+
+/** Explanation fragment for an account flagged by topCentralityAccounts */
+export function describeCentrality(metrics: GraphMetrics, topPercentile: number): string {
+  return (
+    `Top ${topPercentile}% global centrality: PageRank ${metrics.pagerank}, ` +
+    `betweenness ${metrics.betweenness}, k-core ${metrics.k_core}`
+  );
+}
@@ -1,10 +1,61 @@
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import { validateAndParseCSV } from './csv-validator';
-import { analyzeTransactions } from './detection-engine';
+import { pipeline } from 'stream';
+import { validateAndParseCSV, validateAndParseCSVStream, ValidationResult } from './csv-validator';
+import { normalizeDelimiter } from './csv-tokenizer';
+import { validateColumnMapping } from './column-mapping';
+import {
+  deleteColumnProfile,
+  getColumnProfile,
+  listColumnProfiles,
+  saveColumnProfile,
+} from './column-profiles';
+import { buildAdjacencyList } from './detection-engine';
+import { getAnalysisJob, submitAnalysisJob } from './job-queue';
+import { findPendingAppend, splitBatch, submitAppendJob } from './run-append';
 import { generateSampleData } from './sample-data';
-import { DetectionMode } from './types';
+import { resolveDetectionConfig } from './detection-config';
+import {
+  DEFAULT_REPORTING_CURRENCY,
+  getConfiguredFxRates,
+  isCurrencyCode,
+  normalizeCurrencies,
+} from './fx-rates';
+import { createHashingStream, deleteRun, getRun, hashContent, listRuns, saveRun } from './run-store';
+import { createStreamDetector, parseStreamTransaction } from './stream-detection';
+import {
+  addCaseEvidence,
+  addCaseNote,
+  assignCase,
+  CASE_STATUSES,
+  CASE_TRANSITIONS,
+  collectCaseEvidence,
+  createCase,
+  findActiveCase,
+  getCase,
+  isCaseStatus,
+  linkCaseToRun,
+  listCases,
+  NewCase,
+  setCaseStatus,
+} from './case-store';
+import { deleteDisposition, listDispositions, recordDisposition } from './disposition-store';
+import { deleteWatchlist, getWatchlist, listWatchlists, loadAllWatchlists, saveWatchlist } from './watchlist-store';
+import { screenAccounts } from './watchlist-screening';
+import { parseTraceOptions, traceFunds } from './flow-tracing';
+import { parsePathOptions, queryPaths } from './path-query';
+import { extractEgoNetwork, parseEgoQuery } from './ego-network';
+import { REPORT_FORMATS, ReportFormat, renderInvestigationReport } from './investigation-report';
+import {
+  AnalysisRun,
+  ColumnMapping,
+  DetectionMode,
+  InvestigationCase,
+  LinkedCase,
+  RawTransaction,
+  StreamAlert,
+} from './types';
 
 const app = express();
 const PORT = process.env.PORT || 8080;
@@ -19,6 +70,78 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
 });
 
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+// Detection config arrives as an object in JSON bodies, or as a JSON string
+// when sent as a multipart form field alongside the file.
+function parseConfigField(raw: unknown): { value?: unknown; error?: string } {
+  if (raw === undefined || raw === null || raw === '') return {};
+  if (typeof raw !== 'string') return { value: raw };
+  try {
+    return { value: JSON.parse(raw) };
+  } catch {
+    return { error: 'config field must be valid JSON' };
+  }
+}
+
+// CSV delimiter from the query string or body (",", ";", "tab", "|" ...).
+// Omitted means auto-detect from the header row.
+function parseDelimiterField(req: express.Request): { value?: string; error?: string } {
+  const raw = req.query.delimiter ?? req.body?.delimiter;
+  if (raw === undefined || raw === '') return {};
+  const delimiter = typeof raw === 'string' ? normalizeDelimiter(raw) : null;
+  if (!delimiter) {
+    return { error: 'delimiter must be a single character (or comma, semicolon, tab, pipe)' };
+  }
+  return { value: delimiter };
+}
+
+// Column mapping for non-standard exports: either a saved profile name
+// (`profile`) or an inline mapping (`columnMapping`, object or JSON string).
+// Read from the query string or body so it works in every upload mode.
+function parseMappingField(req: express.Request): { value?: ColumnMapping; errors: string[] } {
+  const profileName = req.query.profile ?? req.body?.profile;
+  const inline = parseConfigField(req.query.columnMapping ?? req.body?.columnMapping);
+
+  if (profileName && inline.value !== undefined) {
+    return { errors: ['Provide either profile or columnMapping, not both'] };
+  }
+  if (profileName) {
+    const profile = typeof profileName === 'string' ? getColumnProfile(profileName) : undefined;
+    if (!profile) return { errors: [`Unknown column mapping profile: ${profileName}`] };
+    return { value: profile, errors: [] };
+  }
+  if (inline.error) return { errors: ['columnMapping field must be valid JSON'] };
+  if (inline.value === undefined) return { errors: [] };
+
+  const { mapping, errors } = validateColumnMapping(inline.value);
+  return errors.length > 0 ? { errors } : { value: mapping, errors: [] };
+}
+
+// Reporting currency all amounts are normalized to (ISO code, default USD)
+function parseReportingCurrency(req: express.Request): { value: string; error?: string } {
+  const raw = req.query.reportingCurrency ?? req.body?.reportingCurrency;
+  if (raw === undefined || raw === '') return { value: DEFAULT_REPORTING_CURRENCY };
+  const value = typeof raw === 'string' ? raw.toUpperCase() : '';
+  if (!isCurrencyCode(value)) {
+    return { value, error: 'reportingCurrency must be a 3-letter ISO currency code' };
+  }
+  return { value };
+}
+
+// Debug mode (?debug=true or body `debug`): per-stage account snapshots in the result
+function parseDebugFlag(req: express.Request, fallback = false): boolean {
+  const raw = req.query.debug ?? req.body?.debug;
+  if (raw === undefined) return fallback;
+  return raw === true || raw === 'true';
+}
+
+// Analyst name recorded in case audit trails (no authentication yet)
+function parseActor(req: express.Request): string {
+  const raw = req.body?.actor;
+  return typeof raw === 'string' && raw.trim() ? raw.trim().slice(0, 64) : 'analyst';
+}
+
 // ─── ROUTES ──────────────────────────────────────────────────────────────────
 
 // Health check
@@ -26,32 +149,101 @@ app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// POST /api/analyze - Upload CSV file and get analysis results
-app.post('/api/analyze', upload.single('file'), (req, res) => {
+// POST /api/analyze - Upload CSV file and queue its analysis
+//
+// The upload is validated in the handler (errors still come back as 400), but
+// detection runs asynchronously on a worker thread: the response is 202 with
+// a job_id to poll via GET /api/jobs/:id.
+//
+// Streaming mode (?stream=true): the raw request body IS the CSV
+// (Content-Type: text/csv), parsed incrementally without buffering the file.
+// Use it for exports beyond the 50MB multipart/JSON limit.  Config overrides
+// are passed as a URL-encoded JSON `config` query parameter in this mode.
+//
+// Every successful analysis is persisted as a run (see run-store); the
+// completed job carries its run_id.
+//
+// Debug mode (?debug=true, or `debug: true` in a JSON body) adds
+// stage_snapshots to the result: every account's score, patterns and ring IDs
+// as each pipeline stage ends.
+app.post('/api/analyze', upload.single('file'), async (req, res) => {
   try {
+    const createdAt = new Date().toISOString();
     // Parse optional detection mode from query string (?mode=fan-in etc.)
-    const VALID_MODES: DetectionMode[] = ['all', 'fan-in', 'fan-out', 'cycles', 'shell'];
+    const VALID_MODES: DetectionMode[] = ['all', 'fan-in', 'fan-out', 'cycles', 'shell', 'structuring'];
     const modeParam = (req.query.mode as string || 'all').toLowerCase() as DetectionMode;
     const mode: DetectionMode = VALID_MODES.includes(modeParam) ? modeParam : 'all';
+    const streaming = req.query.stream === 'true';
 
-    let csvContent: string;
+    // Optional detection config overrides (JSON `config` field)
+    const configField = parseConfigField(streaming ? req.query.config : req.body?.config);
+    const { config, errors: configErrors } = configField.error
+      ? { config: undefined, errors: [configField.error] }
+      : resolveDetectionConfig(configField.value);
 
-    if (req.file) {
-      // File uploaded via multipart form
-      csvContent = req.file.buffer.toString('utf-8');
-    } else if (req.body?.csvContent) {
-      // CSV content sent as JSON body
-      csvContent = req.body.csvContent;
-    } else {
+    if (configErrors.length > 0) {
       res.status(400).json({
         success: false,
-        error: 'No CSV file or content provided. Send a file via multipart form or csvContent in JSON body.',
+        error: 'Invalid detection config',
+        configErrors,
+      });
+      return;
+    }
+
+    const delimiterField = parseDelimiterField(req);
+    if (delimiterField.error) {
+      res.status(400).json({ success: false, error: delimiterField.error });
+      return;
+    }
+    const mappingField = parseMappingField(req);
+    if (mappingField.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid column mapping',
+        mappingErrors: mappingField.errors,
       });
       return;
     }
+    const csvOptions = { delimiter: delimiterField.value, mapping: mappingField.value };
+
+    const reportingCurrency = parseReportingCurrency(req);
+    if (reportingCurrency.error) {
+      res.status(400).json({ success: false, error: reportingCurrency.error });
+      return;
+    }
+
+    let validation: ValidationResult;
+    let fileHash: string;
 
-    // Validate and parse CSV
-    const validation = validateAndParseCSV(csvContent);
+    if (streaming) {
+      // Raw CSV request body, validated row by row as it arrives
+      // pipeline (not pipe) so an aborted upload destroys the hasher and the
+      // validator rejects instead of waiting forever for the end of the body
+      const hasher = createHashingStream();
+      pipeline(req, hasher.stream, () => {});
+      validation = await validateAndParseCSVStream(hasher.stream, csvOptions);
+      fileHash = hasher.digest();
+    } else {
+      let csvContent: string;
+
+      if (req.file) {
+        // File uploaded via multipart form
+        csvContent = req.file.buffer.toString('utf-8');
+      } else if (req.body?.csvContent) {
+        // CSV content sent as JSON body
+        csvContent = req.body.csvContent;
+      } else {
+        res.status(400).json({
+          success: false,
+          error: 'No CSV file or content provided. Send a file via multipart form or csvContent in JSON body.',
+        });
+        return;
+      }
+
+      // Validate and parse CSV
+      fileHash = hashContent(req.file ? req.file.buffer : csvContent);
+      validation = validateAndParseCSV(csvContent, csvOptions);
+    }
 
     if (!validation.success || validation.transactions.length === 0) {
       res.status(400).json({
@@ -59,22 +251,66 @@ app.post('/api/analyze', upload.single('file'), (req, res) => {
         validation: {
           errors: validation.errors,
           warnings: validation.warnings,
+          headers: validation.headers,
+          missingColumns: validation.missingColumns,
         },
       });
       return;
     }
 
-    // Run detection engine with selected mode
-    const result = analyzeTransactions(validation.transactions, mode);
+    // Convert every amount to the reporting currency before detection
+    const normalized = normalizeCurrencies(
+      validation.transactions,
+      reportingCurrency.value,
+      getConfiguredFxRates(),
+    );
+    if (normalized.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Currency normalization failed',
+        fxErrors: normalized.errors,
+      });
+      return;
+    }
 
-    res.json({
+    // Queue the detection engine with selected mode and config
+    const fileName = req.file?.originalname ?? req.query.fileName ?? req.body?.fileName;
+    const job = submitAnalysisJob({
+      transactions: normalized.transactions,
+      mode,
+      config,
+      reportingCurrency: reportingCurrency.value,
+      dispositions: listDispositions(),
+      watchlists: loadAllWatchlists(),
+      debug: parseDebugFlag(req),
+      // Persist the run; a storage failure must not lose the computed result
+      onComplete: (result) => {
+        try {
+          const run = saveRun({
+            created_at: createdAt,
+            file_name: typeof fileName === 'string' ? fileName : undefined,
+            file_hash: fileHash,
+            mode,
+            result,
+          });
+          return { run_id: run.run_id };
+        } catch (error) {
+          console.error('Failed to persist analysis run:', error);
+          return undefined;
+        }
+      },
+    });
+
+    res.status(202).json({
       success: true,
+      job_id: job.job_id,
+      status: job.status,
       validation: {
         errors: validation.errors,
         warnings: validation.warnings,
         transactionCount: validation.transactions.length,
+        delimiter: validation.delimiter,
       },
-      analysis: result,
     });
   } catch (error: any) {
     console.error('Analysis error:', error);
@@ -103,11 +339,33 @@ app.post('/api/validate', upload.single('file'), (req, res) => {
       return;
     }
 
-    const validation = validateAndParseCSV(csvContent);
+    const delimiterField = parseDelimiterField(req);
+    if (delimiterField.error) {
+      res.status(400).json({ success: false, error: delimiterField.error });
+      return;
+    }
+
+    const mappingField = parseMappingField(req);
+    if (mappingField.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid column mapping',
+        mappingErrors: mappingField.errors,
+      });
+      return;
+    }
+
+    const validation = validateAndParseCSV(csvContent, {
+      delimiter: delimiterField.value,
+      mapping: mappingField.value,
+    });
 
     res.json({
       success: validation.success,
       transactionCount: validation.transactions.length,
+      delimiter: validation.delimiter,
+      headers: validation.headers,
+      missingColumns: validation.missingColumns,
       errors: validation.errors,
       warnings: validation.warnings,
     });
@@ -121,20 +379,29 @@ app.post('/api/validate', upload.single('file'), (req, res) => {
   }
 });
 
-// GET /api/sample-data - Generate sample data and return analysis
+// GET /api/sample-data - Generate sample data and queue its analysis
+//
+// Returns 202 with a job_id like /api/analyze.  Sample runs are not saved.
 app.get('/api/sample-data', (_req, res) => {
   try {
     // Parse optional detection mode from query string
-    const VALID_MODES: DetectionMode[] = ['all', 'fan-in', 'fan-out', 'cycles', 'shell'];
+    const VALID_MODES: DetectionMode[] = ['all', 'fan-in', 'fan-out', 'cycles', 'shell', 'structuring'];
     const modeParam = (_req.query.mode as string || 'all').toLowerCase() as DetectionMode;
     const mode: DetectionMode = VALID_MODES.includes(modeParam) ? modeParam : 'all';
 
-    const sampleData = generateSampleData();
-    const result = analyzeTransactions(sampleData, mode);
+    const job = submitAnalysisJob({
+      transactions: generateSampleData(),
+      mode,
+      reportingCurrency: DEFAULT_REPORTING_CURRENCY,
+      dispositions: listDispositions(),
+      watchlists: loadAllWatchlists(),
+      debug: parseDebugFlag(_req),
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      analysis: result,
+      job_id: job.job_id,
+      status: job.status,
     });
   } catch (error: any) {
     console.error('Sample data error:', error);
@@ -146,6 +413,911 @@ app.get('/api/sample-data', (_req, res) => {
   }
 });
 
+// GET /api/fx-rates - Summary of the configured FX rate table (FX_RATES_PATH)
+app.get('/api/fx-rates', (_req, res) => {
+  try {
+    const table = getConfiguredFxRates();
+    if (!table) {
+      res.json({ success: true, configured: false, currencies: [] });
+      return;
+    }
+    res.json({
+      success: true,
+      configured: true,
+      base: table.base,
+      currencies: Array.from(table.rates.entries()).map(([currency, series]) => ({
+        currency,
+        rate_count: series.length,
+        first_date: series[0].date,
+        last_date: series[series.length - 1].date,
+      })),
+    });
+  } catch (error: any) {
+    console.error('FX rates error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load FX rates', message: error.message });
+  }
+});
+
+// ─── ANALYSIS JOBS ───────────────────────────────────────────────────────────
+
+// GET /api/jobs/:id - Job status and stage progress; includes the result once completed
+app.get('/api/jobs/:id', (req, res) => {
+  try {
+    const job = getAnalysisJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ success: false, error: `Unknown job: ${req.params.id}` });
+      return;
+    }
+    res.json({ success: true, job });
+  } catch (error: any) {
+    console.error('Job queue error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load job', message: error.message });
+  }
+});
+
+// ─── ANALYSIS RUNS ───────────────────────────────────────────────────────────
+
+// GET /api/runs - List persisted runs (summaries, newest first)
+app.get('/api/runs', (_req, res) => {
+  try {
+    res.json({ success: true, runs: listRuns() });
+  } catch (error: any) {
+    console.error('Run store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load runs', message: error.message });
+  }
+});
+
+// GET /api/runs/:id - Full run including its AnalysisResult
+app.get('/api/runs/:id', (req, res) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ success: false, error: `Unknown run: ${req.params.id}` });
+      return;
+    }
+    res.json({ success: true, run });
+  } catch (error: any) {
+    console.error('Run store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load run', message: error.message });
+  }
+});
+
+// GET /api/runs/:id/report - Printable investigation report of a saved run
+//
+// Query: format (html | pdf, default html).  Sent as an attachment; the HTML
+// is self-contained and the PDF is rendered server-side without a browser.
+app.get('/api/runs/:id/report', (req, res) => {
+  try {
+    const format = (req.query.format ?? 'html') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+      res.status(400).json({ success: false, error: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ success: false, error: `Unknown run: ${req.params.id}` });
+      return;
+    }
+    const report = renderInvestigationReport(run, format);
+    res.setHeader('Content-Type', report.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`);
+    res.send(report.body);
+  } catch (error: any) {
+    console.error('Report error:', error);
+    res.status(500).json({ success: false, error: 'Failed to generate report', message: error.message });
+  }
+});
+
+// GET /api/runs/:id/ego/:accountId - k-hop neighborhood of an account
+//
+// Query: hops (1-5, default 1) and direction (in | out | both, default both).
+// Returns the run's graph data restricted to the neighborhood, plus the
+// frontier accounts that have more neighbors to expand.
+app.get('/api/runs/:id/ego/:accountId', (req, res) => {
+  try {
+    const { hops, direction, errors: optionErrors } = parseEgoQuery(req.query);
+    if (optionErrors.length > 0) {
+      res.status(400).json({ success: false, error: 'Invalid ego network query', optionErrors });
+      return;
+    }
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ success: false, error: `Unknown run: ${req.params.id}` });
+      return;
+    }
+    const { graphData } = run.result;
+    const { accountId } = req.params;
+    if (!graphData.nodes.some((node) => node.data.id === accountId)) {
+      res.status(404).json({ success: false, error: `Unknown account ${accountId} in run ${req.params.id}` });
+      return;
+    }
+    res.json({ success: true, ego: extractEgoNetwork(graphData, accountId, hops, direction) });
+  } catch (error: any) {
+    console.error('Ego network error:', error);
+    res.status(500).json({ success: false, error: 'Failed to extract ego network', message: error.message });
+  }
+});
+
+// POST /api/runs/:id/transactions - Append a batch of transactions to a run
+//
+// The batch is a CSV (multipart `file` or JSON `csvContent`, same delimiter
+// and column mapping options as /api/analyze), normalized to the run's
+// reporting currency, and the run's transactions plus the batch are
+// re-analysed in full with the run's mode and config.  IDs already in the
+// run are skipped with a warning.  Like /api/analyze this
+// returns 202 with a job_id; the completed job carries the updated result
+// and a `delta` of what changed, and the run is updated in place.  A run
+// analysed in debug mode keeps recording stage snapshots unless ?debug=false.
+app.post('/api/runs/:id/transactions', upload.single('file'), (req, res) => {
+  try {
+    const run = getRun(req.params.id);
+    if (!run) {
+      res.status(404).json({ success: false, error: `Unknown run: ${req.params.id}` });
+      return;
+    }
+
+    const pendingJob = findPendingAppend(run.run_id);
+    if (pendingJob) {
+      res.status(409).json({
+        success: false,
+        error: 'Another batch is still being appended to this run',
+        job_id: pendingJob,
+      });
+      return;
+    }
+
+    let csvContent: string;
+    if (req.file) {
+      csvContent = req.file.buffer.toString('utf-8');
+    } else if (req.body?.csvContent) {
+      csvContent = req.body.csvContent;
+    } else {
+      res.status(400).json({
+        success: false,
+        error: 'No CSV file or content provided. Send a file via multipart form or csvContent in JSON body.',
+      });
+      return;
+    }
+
+    const delimiterField = parseDelimiterField(req);
+    if (delimiterField.error) {
+      res.status(400).json({ success: false, error: delimiterField.error });
+      return;
+    }
+    const mappingField = parseMappingField(req);
+    if (mappingField.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid column mapping',
+        mappingErrors: mappingField.errors,
+      });
+      return;
+    }
+
+    const validation = validateAndParseCSV(csvContent, {
+      delimiter: delimiterField.value,
+      mapping: mappingField.value,
+    });
+    if (!validation.success || validation.transactions.length === 0) {
+      res.status(400).json({
+        success: false,
+        validation: {
+          errors: validation.errors,
+          warnings: validation.warnings,
+          headers: validation.headers,
+          missingColumns: validation.missingColumns,
+        },
+      });
+      return;
+    }
+
+    const normalized = normalizeCurrencies(
+      validation.transactions,
+      run.reporting_currency,
+      getConfiguredFxRates(),
+    );
+    if (normalized.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Currency normalization failed',
+        fxErrors: normalized.errors,
+      });
+      return;
+    }
+
+    const { transactions: batch, duplicates } = splitBatch(run.result.transactions, normalized.transactions);
+    const warnings = [
+      ...validation.warnings,
+      ...duplicates.map((id) => `Transaction ${id} is already in the run - skipped`),
+    ];
+    if (batch.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'No new transactions to append',
+        validation: { errors: [], warnings },
+      });
+      return;
+    }
+
+    const job = submitAppendJob(
+      run,
+      batch,
+      hashContent(req.file ? req.file.buffer : csvContent),
+      parseDebugFlag(req, run.result.stage_snapshots !== undefined),
+    );
+
+    res.status(202).json({
+      success: true,
+      job_id: job.job_id,
+      status: job.status,
+      run_id: run.run_id,
+      validation: {
+        errors: validation.errors,
+        warnings,
+        transactionCount: batch.length,
+        skipped: duplicates.length,
+        delimiter: validation.delimiter,
+      },
+    });
+  } catch (error: any) {
+    console.error('Append error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error appending transactions',
+      message: error.message,
+    });
+  }
+});
+
+// DELETE /api/runs/:id - Remove a run
+app.delete('/api/runs/:id', (req, res) => {
+  try {
+    if (!deleteRun(req.params.id)) {
+      res.status(404).json({ success: false, error: `Unknown run: ${req.params.id}` });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Run store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete run', message: error.message });
+  }
+});
+
+// ─── CASES ───────────────────────────────────────────────────────────────────
+
+// Resolve an optional runId (query or body) for linking and evidence
+function loadRunParam(raw: unknown): { run?: AnalysisRun; error?: string } {
+  if (raw === undefined || raw === '') return {};
+  const run = typeof raw === 'string' ? getRun(raw) : undefined;
+  return run ? { run } : { error: `Unknown run: ${raw}` };
+}
+
+function withLink(c: InvestigationCase, run?: AnalysisRun): LinkedCase {
+  return run ? { ...c, link: linkCaseToRun(c, run.run_id, run.result) } : c;
+}
+
+// GET /api/cases - List cases (?status=, ?accountId=); ?runId= links each case to that run
+app.get('/api/cases', (req, res) => {
+  try {
+    const { status, accountId } = req.query;
+    if (status !== undefined && !isCaseStatus(status)) {
+      res.status(400).json({ success: false, error: `status must be one of: ${CASE_STATUSES.join(', ')}` });
+      return;
+    }
+    const { run, error } = loadRunParam(req.query.runId);
+    if (error) {
+      res.status(404).json({ success: false, error });
+      return;
+    }
+
+    const cases = listCases({
+      status,
+      accountId: typeof accountId === 'string' ? accountId : undefined,
+    });
+    res.json({ success: true, cases: cases.map((c) => withLink(c, run)) });
+  } catch (error: any) {
+    console.error('Case store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list cases', message: error.message });
+  }
+});
+
+// POST /api/cases - Open a case on an account ({ accountId, runId? }) or a ring ({ ringId, runId })
+app.post('/api/cases', (req, res) => {
+  try {
+    const { accountId, ringId, title, assignee } = req.body ?? {};
+    if (!accountId === !ringId || (accountId && typeof accountId !== 'string') || (ringId && typeof ringId !== 'string')) {
+      res.status(400).json({ success: false, error: 'Provide either accountId or ringId' });
+      return;
+    }
+    if (ringId && !req.body.runId) {
+      res.status(400).json({ success: false, error: 'ringId requires the runId it belongs to' });
+      return;
+    }
+    const { run, error } = loadRunParam(req.body.runId);
+    if (error) {
+      res.status(404).json({ success: false, error });
+      return;
+    }
+
+    let input: NewCase;
+    if (ringId) {
+      const ring = run!.result.fraudRings.find((r) => r.ring_id === ringId);
+      if (!ring) {
+        res.status(404).json({ success: false, error: `Unknown ring ${ringId} in run ${run!.run_id}` });
+        return;
+      }
+      input = {
+        title: `${ring.pattern_type.replace('_', ' ')} ring ${ring.ring_id} (${ring.member_count} accounts)`,
+        subject_type: 'ring',
+        account_ids: ring.members,
+        pattern_type: ring.pattern_type,
+        origin_ring_id: ring.ring_id,
+        risk_score_at_creation: ring.risk_score,
+      };
+    } else {
+      const account = run?.result.accounts.find((a) => a.account_id === accountId);
+      if (run && !account) {
+        res.status(404).json({ success: false, error: `Unknown account ${accountId} in run ${run.run_id}` });
+        return;
+      }
+      input = {
+        title: `Account ${accountId}`,
+        subject_type: 'account',
+        account_ids: [accountId],
+        risk_score_at_creation: account?.suspicion_score,
+      };
+    }
+
+    const existing = findActiveCase(input.subject_type, input.account_ids);
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: `${existing.case_id} is already open for these accounts`,
+        case_id: existing.case_id,
+      });
+      return;
+    }
+
+    const created = createCase({
+      ...input,
+      title: typeof title === 'string' && title.trim() ? title.trim() : input.title,
+      assignee: typeof assignee === 'string' && assignee.trim() ? assignee.trim() : null,
+      origin_run_id: run?.run_id,
+    }, parseActor(req));
+    res.status(201).json({ success: true, case: withLink(created, run) });
+  } catch (error: any) {
+    console.error('Case store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to create case', message: error.message });
+  }
+});
+
+// GET /api/cases/:id - Full case with notes, evidence and audit trail (?runId= to link)
+app.get('/api/cases/:id', (req, res) => {
+  try {
+    const c = getCase(req.params.id);
+    if (!c) {
+      res.status(404).json({ success: false, error: `Unknown case: ${req.params.id}` });
+      return;
+    }
+    const { run, error } = loadRunParam(req.query.runId);
+    if (error) {
+      res.status(404).json({ success: false, error });
+      return;
+    }
+    res.json({ success: true, case: withLink(c, run) });
+  } catch (error: any) {
+    console.error('Case store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load case', message: error.message });
+  }
+});
+
+// PATCH /api/cases/:id - Change status ({ status, reason? }) and/or assignee ({ assignee })
+app.patch('/api/cases/:id', (req, res) => {
+  try {
+    const c = getCase(req.params.id);
+    if (!c) {
+      res.status(404).json({ success: false, error: `Unknown case: ${req.params.id}` });
+      return;
+    }
+    const { status, assignee, reason } = req.body ?? {};
+    if (status === undefined && assignee === undefined) {
+      res.status(400).json({ success: false, error: 'Provide status and/or assignee' });
+      return;
+    }
+    if (status !== undefined && !isCaseStatus(status)) {
+      res.status(400).json({ success: false, error: `status must be one of: ${CASE_STATUSES.join(', ')}` });
+      return;
+    }
+    if (assignee !== undefined && assignee !== null && typeof assignee !== 'string') {
+      res.status(400).json({ success: false, error: 'assignee must be a string or null' });
+      return;
+    }
+    if (status !== undefined && status !== c.status && !CASE_TRANSITIONS[c.status].includes(status)) {
+      res.status(409).json({
+        success: false,
+        error: `Cannot move a case from ${c.status} to ${status}`,
+        allowed_transitions: CASE_TRANSITIONS[c.status],
+      });
+      return;
+    }
+
+    const actor = parseActor(req);
+    let updated = c;
+    if (status !== undefined && status !== c.status) {
+      updated = setCaseStatus(c.case_id, status, actor, typeof reason === 'string' ? reason.trim() : undefined)!;
+    }
+    if (assignee !== undefined) {
+      updated = assignCase(c.case_id, assignee?.trim() || null, actor)!;
+    }
+    res.json({ success: true, case: updated });
+  } catch (error: any) {
+    console.error('Case store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to update case', message: error.message });
+  }
+});
+
+// POST /api/cases/:id/notes - Add an analyst note ({ text })
+app.post('/api/cases/:id/notes', (req, res) => {
+  try {
+    const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+    if (!text) {
+      res.status(400).json({ success: false, error: 'Note text is required' });
+      return;
+    }
+    const updated = addCaseNote(req.params.id, text, parseActor(req));
+    if (!updated) {
+      res.status(404).json({ success: false, error: `Unknown case: ${req.params.id}` });
+      return;
+    }
+    res.status(201).json({ success: true, case: updated });
+  } catch (error: any) {
+    console.error('Case store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to add note', message: error.message });
+  }
+});
+
+// POST /api/cases/:id/evidence - Attach transactions or a graph snapshot from a run
+// ({ type: 'transactions' | 'graph_snapshot', runId, transactionIds?, description? })
+app.post('/api/cases/:id/evidence', (req, res) => {
+  try {
+    const c = getCase(req.params.id);
+    if (!c) {
+      res.status(404).json({ success: false, error: `Unknown case: ${req.params.id}` });
+      return;
+    }
+    const { type, runId, transactionIds, description } = req.body ?? {};
+    if (type !== 'transactions' && type !== 'graph_snapshot') {
+      res.status(400).json({ success: false, error: 'type must be transactions or graph_snapshot' });
+      return;
+    }
+    if (transactionIds !== undefined
+      && (!Array.isArray(transactionIds) || !transactionIds.every((id) => typeof id === 'string'))) {
+      res.status(400).json({ success: false, error: 'transactionIds must be an array of strings' });
+      return;
+    }
+    if (!runId) {
+      res.status(400).json({ success: false, error: 'runId is required' });
+      return;
+    }
+    const { run, error } = loadRunParam(runId);
+    if (error) {
+      res.status(404).json({ success: false, error });
+      return;
+    }
+
+    const evidence = collectCaseEvidence(c, type, run!.result, transactionIds);
+    if (evidence.transactions?.length === 0 || evidence.graph?.nodes.length === 0) {
+      res.status(400).json({ success: false, error: `Run ${run!.run_id} has no ${type === 'transactions' ? 'matching transactions' : 'accounts'} for this case` });
+      return;
+    }
+
+    const updated = addCaseEvidence(c.case_id, {
+      type,
+      run_id: run!.run_id,
+      ...(typeof description === 'string' && description.trim() && { description: description.trim() }),
+      ...evidence,
+    }, parseActor(req));
+    res.status(201).json({ success: true, case: updated });
+  } catch (error: any) {
+    console.error('Case store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to attach evidence', message: error.message });
+  }
+});
+
+// ─── ANALYST DISPOSITIONS ───────────────────────────────────────────────────
+
+// GET /api/dispositions - List dispositions (?accountId= matches accounts and pair endpoints)
+app.get('/api/dispositions', (req, res) => {
+  try {
+    const { accountId } = req.query;
+    const dispositions = listDispositions({ accountId: typeof accountId === 'string' ? accountId : undefined });
+    res.json({ success: true, dispositions });
+  } catch (error: any) {
+    console.error('Disposition store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list dispositions', message: error.message });
+  }
+});
+
+// POST /api/dispositions - Record a disposition ({ accountId } or { senderId, receiverId }, label, note?)
+// Replaces the subject's previous disposition; applied from the next analysis on
+app.post('/api/dispositions', (req, res) => {
+  try {
+    const { disposition, replaced, errors } = recordDisposition(req.body, parseActor(req));
+    if (!disposition) {
+      res.status(400).json({ success: false, error: 'Invalid disposition', dispositionErrors: errors });
+      return;
+    }
+    res.status(replaced ? 200 : 201).json({ success: true, disposition, replaced });
+  } catch (error: any) {
+    console.error('Disposition store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to record disposition', message: error.message });
+  }
+});
+
+// DELETE /api/dispositions/:id - Withdraw a disposition
+app.delete('/api/dispositions/:id', (req, res) => {
+  try {
+    if (!deleteDisposition(req.params.id)) {
+      res.status(404).json({ success: false, error: `Unknown disposition: ${req.params.id}` });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Disposition store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete disposition', message: error.message });
+  }
+});
+
+// ─── WATCHLISTS ──────────────────────────────────────────────────────────────
+
+// GET /api/watchlists - List watchlists (without their entries)
+app.get('/api/watchlists', (_req, res) => {
+  try {
+    res.json({ success: true, watchlists: listWatchlists() });
+  } catch (error: any) {
+    console.error('Watchlist store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to list watchlists', message: error.message });
+  }
+});
+
+// POST /api/watchlists/screen - Screen account IDs against every list ({ accountIds, config? })
+app.post('/api/watchlists/screen', (req, res) => {
+  try {
+    const { accountIds } = req.body ?? {};
+    if (!Array.isArray(accountIds) || !accountIds.every((id) => typeof id === 'string')) {
+      res.status(400).json({ success: false, error: 'accountIds must be an array of strings' });
+      return;
+    }
+    const { config, errors: configErrors } = resolveDetectionConfig(req.body.config);
+    if (configErrors.length > 0) {
+      res.status(400).json({ success: false, error: 'Invalid detection config', configErrors });
+      return;
+    }
+    const hits = screenAccounts(accountIds, loadAllWatchlists(), config.watchlist);
+    res.json({ success: true, hits: Object.fromEntries(hits) });
+  } catch (error: any) {
+    console.error('Watchlist screening error:', error);
+    res.status(500).json({ success: false, error: 'Failed to screen accounts', message: error.message });
+  }
+});
+
+// GET /api/watchlists/:name - Fetch one list with its entries
+app.get('/api/watchlists/:name', (req, res) => {
+  try {
+    const watchlist = getWatchlist(req.params.name);
+    if (!watchlist) {
+      res.status(404).json({ success: false, error: `Unknown watchlist: ${req.params.name}` });
+      return;
+    }
+    res.json({ success: true, watchlist });
+  } catch (error: any) {
+    console.error('Watchlist store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load watchlist', message: error.message });
+  }
+});
+
+// PUT /api/watchlists/:name - Create or replace a list from a CSV/JSON file, a text/csv
+// body or a JSON body ({ description?, entries }); ?description= sets the description
+app.put(
+  '/api/watchlists/:name',
+  upload.single('file'),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '50mb' }),
+  (req, res) => {
+    try {
+      const input = req.file ? req.file.buffer.toString('utf-8') : req.body;
+      const rawDescription = req.query.description ?? (req.file ? req.body?.description : undefined);
+      const description = typeof rawDescription === 'string' ? rawDescription : undefined;
+
+      const { watchlist, errors } = saveWatchlist(req.params.name, input, description);
+      if (!watchlist) {
+        res.status(400).json({ success: false, error: 'Invalid watchlist', watchlistErrors: errors });
+        return;
+      }
+      const { entries, ...summary } = watchlist;
+      res.json({ success: true, watchlist: { ...summary, entry_count: entries.length } });
+    } catch (error: any) {
+      console.error('Watchlist store error:', error);
+      res.status(500).json({ success: false, error: 'Failed to save watchlist', message: error.message });
+    }
+  },
+);
+
+// DELETE /api/watchlists/:name - Remove a list
+app.delete('/api/watchlists/:name', (req, res) => {
+  try {
+    if (!deleteWatchlist(req.params.name)) {
+      res.status(404).json({ success: false, error: `Unknown watchlist: ${req.params.name}` });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Watchlist store error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete watchlist', message: error.message });
+  }
+});
+
+// ─── COLUMN MAPPING PROFILES ─────────────────────────────────────────────────
+
+// GET /api/column-profiles - List saved column mapping profiles
+app.get('/api/column-profiles', (_req, res) => {
+  try {
+    res.json({ success: true, profiles: listColumnProfiles() });
+  } catch (error: any) {
+    console.error('Column profile error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load column profiles', message: error.message });
+  }
+});
+
+// GET /api/column-profiles/:name - Fetch one profile
+app.get('/api/column-profiles/:name', (req, res) => {
+  try {
+    const profile = getColumnProfile(req.params.name);
+    if (!profile) {
+      res.status(404).json({ success: false, error: `Unknown column mapping profile: ${req.params.name}` });
+      return;
+    }
+    res.json({ success: true, profile });
+  } catch (error: any) {
+    console.error('Column profile error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load column profile', message: error.message });
+  }
+});
+
+// PUT /api/column-profiles/:name - Create or replace a profile (body = ColumnMapping)
+app.put('/api/column-profiles/:name', (req, res) => {
+  try {
+    const { profile, errors } = saveColumnProfile(req.params.name, req.body);
+    if (!profile) {
+      res.status(400).json({ success: false, error: 'Invalid column mapping', mappingErrors: errors });
+      return;
+    }
+    res.json({ success: true, profile });
+  } catch (error: any) {
+    console.error('Column profile error:', error);
+    res.status(500).json({ success: false, error: 'Failed to save column profile', message: error.message });
+  }
+});
+
+// DELETE /api/column-profiles/:name - Remove a profile
+app.delete('/api/column-profiles/:name', (req, res) => {
+  try {
+    if (!deleteColumnProfile(req.params.name)) {
+      res.status(404).json({ success: false, error: `Unknown column mapping profile: ${req.params.name}` });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Column profile error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete column profile', message: error.message });
+  }
+});
+
+// ─── FLOW TRACING ────────────────────────────────────────────────────────────
+
+// POST /api/trace - Follow funds from an account through a saved run
+//
+// Body: { runId, accountId, transactionId?, direction?, allocation?,
+// maxHops?, minAmount? }.  A transactionId limits the trace to that
+// transaction's funds and must involve the account.  Returns the flow tree
+// with the amount per hop and the traced amount per sender → receiver pair.
+app.post('/api/trace', (req, res) => {
+  try {
+    const { runId, accountId, transactionId } = req.body ?? {};
+    if (typeof runId !== 'string' || typeof accountId !== 'string' || !accountId) {
+      res.status(400).json({ success: false, error: 'runId and accountId are required' });
+      return;
+    }
+    if (transactionId !== undefined && typeof transactionId !== 'string') {
+      res.status(400).json({ success: false, error: 'transactionId must be a string' });
+      return;
+    }
+    const { options, errors: optionErrors } = parseTraceOptions(req.body);
+    if (optionErrors.length > 0) {
+      res.status(400).json({ success: false, error: 'Invalid trace options', optionErrors });
+      return;
+    }
+    const run = getRun(runId);
+    if (!run) {
+      res.status(404).json({ success: false, error: `Unknown run: ${runId}` });
+      return;
+    }
+    const { transactions } = run.result;
+    if (!transactions.some((tx) => tx.sender_id === accountId || tx.receiver_id === accountId)) {
+      res.status(404).json({ success: false, error: `Unknown account ${accountId} in run ${runId}` });
+      return;
+    }
+    let start = null;
+    if (transactionId) {
+      start = transactions.find((tx) => tx.transaction_id === transactionId
+        && (tx.sender_id === accountId || tx.receiver_id === accountId)) ?? null;
+      if (!start) {
+        res.status(404).json({ success: false, error: `No transaction ${transactionId} of account ${accountId} in run ${runId}` });
+        return;
+      }
+    }
+
+    const trace = traceFunds(transactions, accountId, start, options, run.result.reporting_currency);
+    res.json({ success: true, trace });
+  } catch (error: any) {
+    console.error('Flow tracing error:', error);
+    res.status(500).json({ success: false, error: 'Failed to trace funds', message: error.message });
+  }
+});
+
+// ─── PATH QUERIES ────────────────────────────────────────────────────────────
+
+// POST /api/paths - How two accounts of a saved run are linked
+//
+// Body: { runId, sourceId, targetId, k?, allPaths?, maxHops? }.  Returns the
+// shortest directed path, the k shortest loopless paths and, with allPaths,
+// every time-respecting path of up to maxHops, with the transactions per hop.
+app.post('/api/paths', (req, res) => {
+  try {
+    const { runId, sourceId, targetId } = req.body ?? {};
+    if (typeof runId !== 'string' || typeof sourceId !== 'string' || !sourceId
+      || typeof targetId !== 'string' || !targetId) {
+      res.status(400).json({ success: false, error: 'runId, sourceId and targetId are required' });
+      return;
+    }
+    if (sourceId === targetId) {
+      res.status(400).json({ success: false, error: 'sourceId and targetId must be different accounts' });
+      return;
+    }
+    const { options, errors: optionErrors } = parsePathOptions(req.body);
+    if (optionErrors.length > 0) {
+      res.status(400).json({ success: false, error: 'Invalid path options', optionErrors });
+      return;
+    }
+    const run = getRun(runId);
+    if (!run) {
+      res.status(404).json({ success: false, error: `Unknown run: ${runId}` });
+      return;
+    }
+    const graph = buildAdjacencyList(run.result.transactions);
+    const missing = [sourceId, targetId].filter((id) => !graph.has(id));
+    if (missing.length > 0) {
+      res.status(404).json({ success: false, error: `Unknown account ${missing.join(', ')} in run ${runId}` });
+      return;
+    }
+
+    const paths = queryPaths(graph, sourceId, targetId, options, run.result.reporting_currency);
+    res.json({ success: true, paths });
+  } catch (error: any) {
+    console.error('Path query error:', error);
+    res.status(500).json({ success: false, error: 'Failed to query paths', message: error.message });
+  }
+});
+
+// ─── STREAMING DETECTION ─────────────────────────────────────────────────────
+
+// One live detector per server; transactions pushed to it raise alerts that
+// are fanned out to every SSE subscriber.
+const liveDetector = createStreamDetector();
+const SSE_HEARTBEAT_MS = 15_000;
+
+// GET /api/stream - Live detector statistics, config and recent alerts
+app.get('/api/stream', (_req, res) => {
+  try {
+    res.json({
+      success: true,
+      stats: liveDetector.stats(),
+      config: liveDetector.getConfig(),
+      recent_alerts: liveDetector.recentAlerts(),
+    });
+  } catch (error: any) {
+    console.error('Stream error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load stream status', message: error.message });
+  }
+});
+
+// POST /api/stream/transactions - Push one transaction, an array, or { transactions: [...] }
+app.post('/api/stream/transactions', (req, res) => {
+  try {
+    const body = req.body;
+    const items: unknown[] = Array.isArray(body)
+      ? body
+      : Array.isArray(body?.transactions) ? body.transactions : [body];
+
+    const errors: string[] = [];
+    const transactions: RawTransaction[] = [];
+    items.forEach((item, index) => {
+      const { transaction, error } = parseStreamTransaction(item);
+      if (error) errors.push(`Transaction ${index + 1}: ${error}`);
+      else transactions.push(transaction!);
+    });
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, error: 'Invalid transactions', errors });
+      return;
+    }
+
+    const duplicatesBefore = liveDetector.stats().duplicates_skipped;
+    const alerts = transactions.flatMap((tx) => liveDetector.push(tx));
+    const duplicates = liveDetector.stats().duplicates_skipped - duplicatesBefore;
+
+    res.json({
+      success: true,
+      accepted: transactions.length - duplicates,
+      duplicates,
+      alerts,
+    });
+  } catch (error: any) {
+    console.error('Stream error:', error);
+    res.status(500).json({ success: false, error: 'Failed to process transactions', message: error.message });
+  }
+});
+
+// GET /api/stream/alerts - Server-Sent Events feed of live alerts (?replay=true
+// first sends the recent alerts)
+app.get('/api/stream/alerts', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const sendAlert = (alert: StreamAlert) => {
+    res.write(`id: ${alert.alert_id}\nevent: alert\ndata: ${JSON.stringify(alert)}\n\n`);
+  };
+  const sendReset = () => res.write('event: reset\ndata: {}\n\n');
+
+  if (req.query.replay === 'true') liveDetector.recentAlerts().forEach(sendAlert);
+  liveDetector.on('alert', sendAlert);
+  liveDetector.on('reset', sendReset);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    liveDetector.off('alert', sendAlert);
+    liveDetector.off('reset', sendReset);
+  });
+});
+
+// POST /api/stream/reset - Clear the live detector, optionally with a new `config`
+app.post('/api/stream/reset', (req, res) => {
+  try {
+    const configField = parseConfigField(req.body?.config);
+    const { config, errors: configErrors } = configField.error
+      ? { config: undefined, errors: [configField.error] }
+      : resolveDetectionConfig(configField.value);
+
+    if (configErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid detection config',
+        configErrors,
+      });
+      return;
+    }
+
+    liveDetector.reset(config);
+    res.json({ success: true, config: liveDetector.getConfig() });
+  } catch (error: any) {
+    console.error('Stream error:', error);
+    res.status(500).json({ success: false, error: 'Failed to reset stream', message: error.message });
+  }
+});
+
 // ─── START SERVER ────────────────────────────────────────────────────────────
 
 app.listen(PORT, () => {
@@ -153,7 +1325,17 @@ app.listen(PORT, () => {
   console.log(`   Server running on http://localhost:${PORT}`);
   console.log(`\n   Endpoints:`);
   console.log(`   GET  /api/health       - Health check`);
-  console.log(`   POST /api/analyze      - Upload CSV & analyze`);
+  console.log(`   POST /api/analyze      - Upload CSV & queue analysis (?stream=true for raw CSV body)`);
+  console.log(`   GET  /api/jobs/:id     - Analysis job status, progress and result`);
   console.log(`   POST /api/validate     - Validate CSV only`);
-  console.log(`   GET  /api/sample-data  - Analyze sample data\n`);
+  console.log(`   GET  /api/sample-data  - Queue analysis of sample data`);
+  console.log(`   GET  /api/fx-rates     - Configured FX rate table`);
+  console.log(`   GET  /api/runs[/:id]   - Persisted analysis runs (DELETE /api/runs/:id)`);
+  console.log(`   POST /api/runs/:id/transactions - Append a batch to a run and re-analyze it`);
+  console.log(`   *    /api/cases[/:id[/notes|/evidence]] - Case management`);
+  console.log(`   *    /api/dispositions[/:id] - Analyst dispositions`);
+  console.log(`   *    /api/watchlists[/:name|/screen] - Watchlist screening lists`);
+  console.log(`   *    /api/column-profiles[/:name] - Column mapping profiles`);
+  console.log(`   POST /api/stream/transactions - Push transactions to the live detector`);
+  console.log(`   GET  /api/stream/alerts - Live alerts (Server-Sent Events)\n`);
 });
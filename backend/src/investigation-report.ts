@@ -0,0 +1,680 @@
+// RIFT 2026 – Investigation Report
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   A printable report of a saved run for investigators who work from paper
+//   or attach reports to filings: GET /api/runs/:id/report?format=html|pdf.
+//
+// CONTENTS
+//   Summary      Run details, headline counts, score distribution and rings
+//                per pattern type
+//   Fraud rings  Highest risk first: explanation, a graph snapshot of the
+//                members and the money between them, the member table and
+//                the ring's transactions
+//   Accounts     Flagged accounts, highest score first: the score breakdown
+//                (score contributions in pipeline order) and explanation
+//   Long runs are capped (MAX_REPORT_RINGS, MAX_REPORT_ACCOUNTS, ...); the
+//   report says how much was left out.
+//
+// FORMATS
+//   html  One self-contained document: inline CSS and SVG, no scripts and
+//         no external resources, print-ready (each ring starts a new page)
+//   pdf   Drawn with pdf-document (standard fonts, no dependencies), so it
+//         renders without network access or a headless browser
+//
+// Graph snapshots use a circular layout: members in ring order (flow order
+// for cycles), arrows for every sender → receiver pair, nodes coloured by
+// suspicion score like the UI.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AccountNode, AnalysisRun, FraudRing, RawTransaction } from './types';
+import { formatCurrency } from './fx-rates';
+import { PdfColor, PdfDocument, PdfFont, createPdfDocument, textWidth, wrapText } from './pdf-document';
+
+export type ReportFormat = 'html' | 'pdf';
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'pdf'];
+
+const MAX_REPORT_RINGS = 50;
+const MAX_REPORT_ACCOUNTS = 50;
+const MAX_RING_TRANSACTIONS = 40;
+const MAX_SNAPSHOT_NODES = 30;
+
+interface SnapshotNode {
+  id: string;
+  score: number;
+  /** Position in the unit square */
+  x: number;
+  y: number;
+}
+
+interface SnapshotEdge {
+  from: number;
+  to: number;
+  amount: number;
+  count: number;
+}
+
+interface RingSnapshot {
+  nodes: SnapshotNode[];
+  edges: SnapshotEdge[];
+  omitted_members: number;
+}
+
+interface ReportRing {
+  ring: FraudRing;
+  members: AccountNode[];
+  transactions: RawTransaction[];
+  transaction_count: number;
+  snapshot: RingSnapshot;
+}
+
+interface ReportCount {
+  label: string;
+  count: number;
+}
+
+interface InvestigationReport {
+  run: AnalysisRun;
+  generated_at: string;
+  currency: string;
+  score_bands: ReportCount[];
+  ring_types: ReportCount[];
+  rings: ReportRing[];
+  omitted_rings: number;
+  accounts: AccountNode[];
+  omitted_accounts: number;
+}
+
+// ─── Report model ────────────────────────────────────────────────────────────
+
+function scoreColor(score: number): string {
+  return score > 70 ? '#ef4444' : score > 30 ? '#f59e0b' : '#22c55e';
+}
+
+function ringSnapshot(ring: FraudRing, accountById: Map<string, AccountNode>, internal: RawTransaction[]): RingSnapshot {
+  const ranked = [...ring.members].sort(
+    (a, b) => (accountById.get(b)?.suspicion_score ?? 0) - (accountById.get(a)?.suspicion_score ?? 0)
+  );
+  const kept = new Set(ranked.slice(0, MAX_SNAPSHOT_NODES));
+  const ids = ring.members.filter((id) => kept.has(id));
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  // Clockwise from the top
+  const nodes = ids.map((id, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / ids.length;
+    return {
+      id,
+      score: accountById.get(id)?.suspicion_score ?? 0,
+      x: 0.5 + 0.4 * Math.cos(angle),
+      y: 0.5 + 0.4 * Math.sin(angle),
+    };
+  });
+
+  const pairs = new Map<string, SnapshotEdge>();
+  for (const tx of internal) {
+    const from = index.get(tx.sender_id);
+    const to = index.get(tx.receiver_id);
+    if (from === undefined || to === undefined || from === to) continue;
+    const key = `${from}:${to}`;
+    const edge = pairs.get(key) ?? { from, to, amount: 0, count: 0 };
+    edge.amount += tx.amount;
+    edge.count++;
+    pairs.set(key, edge);
+  }
+  return { nodes, edges: [...pairs.values()], omitted_members: ring.members.length - ids.length };
+}
+
+function buildInvestigationReport(run: AnalysisRun): InvestigationReport {
+  const { result } = run;
+  const accountById = new Map(result.accounts.map((a) => [a.account_id, a]));
+  const transactionById = new Map(result.transactions.map((tx) => [tx.transaction_id, tx]));
+
+  const ranked = [...result.fraudRings].sort(
+    (a, b) => b.risk_score - a.risk_score || a.ring_id.localeCompare(b.ring_id)
+  );
+  const rings = ranked.slice(0, MAX_REPORT_RINGS).map((ring) => {
+    const memberSet = new Set(ring.members);
+    const internal = result.transactions.filter(
+      (tx) => memberSet.has(tx.sender_id) && memberSet.has(tx.receiver_id)
+    );
+    // Cycle rings list their hops in flow order; other rings in time order
+    const listed = ring.transaction_ids
+      ? ring.transaction_ids.map((id) => transactionById.get(id)).filter((tx): tx is RawTransaction => !!tx)
+      : [...internal].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return {
+      ring,
+      members: ring.members
+        .map((id) => accountById.get(id))
+        .filter((a): a is AccountNode => !!a)
+        .sort((a, b) => b.suspicion_score - a.suspicion_score),
+      transactions: listed.slice(0, MAX_RING_TRANSACTIONS),
+      transaction_count: listed.length,
+      snapshot: ringSnapshot(ring, accountById, internal),
+    };
+  });
+
+  const flagged = result.accounts
+    .filter((a) => a.suspicion_score > 0)
+    .sort((a, b) => b.suspicion_score - a.suspicion_score || a.account_id.localeCompare(b.account_id));
+
+  const ringTypes = new Map<string, number>();
+  for (const ring of result.fraudRings) ringTypes.set(ring.pattern_type, (ringTypes.get(ring.pattern_type) ?? 0) + 1);
+
+  const scores = result.accounts.map((a) => a.suspicion_score);
+  return {
+    run,
+    generated_at: new Date().toISOString(),
+    currency: result.reporting_currency,
+    score_bands: [
+      { label: 'Critical (70+)', count: scores.filter((s) => s > 70).length },
+      { label: 'High (30-70)', count: scores.filter((s) => s > 30 && s <= 70).length },
+      { label: 'Low (1-30)', count: scores.filter((s) => s > 0 && s <= 30).length },
+      { label: 'Clean (0)', count: scores.filter((s) => s === 0).length },
+    ],
+    ring_types: [...ringTypes].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count),
+    rings,
+    omitted_rings: ranked.length - rings.length,
+    accounts: flagged.slice(0, MAX_REPORT_ACCOUNTS),
+    omitted_accounts: flagged.length - Math.min(flagged.length, MAX_REPORT_ACCOUNTS),
+  };
+}
+
+function runDetails(report: InvestigationReport): [string, string][] {
+  const { run } = report;
+  return [
+    ['Run', run.run_id],
+    ['File', run.file_name ?? '—'],
+    ['Analysed', run.completed_at],
+    ...(run.updated_at ? [['Last batch appended', run.updated_at] as [string, string]] : []),
+    ['Mode', run.mode],
+    ['Reporting currency', report.currency],
+    ['Report generated', report.generated_at],
+  ];
+}
+
+function summaryCounts(report: InvestigationReport): [string, string][] {
+  const { summary } = report.run.result;
+  return [
+    ['Accounts analysed', String(summary.total_accounts_analyzed)],
+    ['Transactions', String(summary.total_transactions)],
+    ['Suspicious accounts', String(summary.suspicious_accounts_flagged)],
+    ['Fraud rings', String(summary.fraud_rings_detected)],
+    ['Processing time', `${summary.processing_time_seconds.toFixed(3)}s`],
+  ];
+}
+
+function ringHeading(ring: FraudRing): string {
+  return `${ring.ring_id} · ${ring.pattern_type} · risk ${ring.risk_score}`;
+}
+
+function ringFacts(ring: ReportRing, currency: string): string {
+  return (
+    `${ring.ring.member_count} members · total value ${formatCurrency(ring.ring.total_value, ring.ring.currency || currency)}` +
+    ` · ${ring.transaction_count} transaction(s) listed`
+  );
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function htmlTable(headers: string[], rows: string[][], numeric: number[] = []): string {
+  const cell = (tag: string, i: number, value: string) =>
+    `<${tag}${numeric.includes(i) ? ' class="num"' : ''}>${value}</${tag}>`;
+  return (
+    '<table><thead><tr>' + headers.map((h, i) => cell('th', i, escapeHtml(h))).join('') + '</tr></thead><tbody>' +
+    rows.map((row) => '<tr>' + row.map((v, i) => cell('td', i, v)).join('') + '</tr>').join('') +
+    '</tbody></table>'
+  );
+}
+
+function snapshotSvg(snapshot: RingSnapshot): string {
+  const size = 360;
+  const radius = 7;
+  const at = (n: SnapshotNode) => [n.x * size, n.y * size];
+  const maxAmount = Math.max(1, ...snapshot.edges.map((e) => e.amount));
+  const edges = snapshot.edges.map((e) => {
+    const [x1, y1] = at(snapshot.nodes[e.from]);
+    const [x2, y2] = at(snapshot.nodes[e.to]);
+    const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+    const [ex, ey] = [x2 - ((x2 - x1) / length) * (radius + 2), y2 - ((y2 - y1) / length) * (radius + 2)];
+    const width = 0.75 + 2.25 * (e.amount / maxAmount);
+    return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${ex.toFixed(1)}" y2="${ey.toFixed(1)}" stroke-width="${width.toFixed(2)}" marker-end="url(#arrow)"/>`;
+  });
+  const nodes = snapshot.nodes.map((n) => {
+    const [x, y] = at(n);
+    return (
+      `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${radius}" fill="${scoreColor(n.score)}"/>` +
+      `<text x="${x.toFixed(1)}" y="${(y - radius - 3).toFixed(1)}">${escapeHtml(n.id)}</text>`
+    );
+  });
+  return (
+    `<svg class="snapshot" viewBox="-40 -20 ${size + 80} ${size + 40}" width="${size + 80}" height="${size + 40}" xmlns="http://www.w3.org/2000/svg">` +
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">' +
+    '<path d="M0,0 L10,5 L0,10 z" fill="#64748b"/></marker></defs>' +
+    `<g stroke="#94a3b8">${edges.join('')}</g><g>${nodes.join('')}</g></svg>`
+  );
+}
+
+const HTML_STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+h2 { font-size: 17px; border-bottom: 2px solid #0f172a; padding-bottom: 4px; margin-top: 28px; }
+h3 { font-size: 14px; margin: 20px 0 6px; }
+p.muted, .muted { color: #64748b; }
+table { border-collapse: collapse; width: 100%; margin: 6px 0 12px; }
+th, td { border-bottom: 1px solid #e2e8f0; padding: 3px 6px; text-align: left; vertical-align: top; }
+th { background: #f1f5f9; font-weight: 600; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+table.details { width: auto; }
+table.details th { background: none; font-weight: normal; color: #64748b; }
+.mono { font-family: Courier, monospace; }
+.pos { color: #dc2626; } .neg { color: #16a34a; }
+svg.snapshot text { font-size: 9px; text-anchor: middle; fill: #0f172a; }
+section.account { break-inside: avoid-page; }
+h2.page, section.ring + section.ring { break-before: page; }
+@media print { body { margin: 0; } }
+`;
+
+function renderReportHtml(report: InvestigationReport): string {
+  const { run, currency } = report;
+  const details = (rows: [string, string][]) =>
+    '<table class="details"><tbody>' +
+    rows.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`).join('') +
+    '</tbody></table>';
+
+  const rings = report.rings.map((r) => {
+    const members = htmlTable(
+      ['Account', 'Score', 'Role', 'Patterns'],
+      r.members.map((a) => [
+        `<span class="mono">${escapeHtml(a.account_id)}</span>`,
+        String(a.suspicion_score),
+        escapeHtml(a.ring_role ?? '—'),
+        escapeHtml(a.detected_patterns.join(', ')),
+      ]),
+      [1]
+    );
+    const transactions = htmlTable(
+      ['Transaction', 'Time', 'From', 'To', 'Amount'],
+      r.transactions.map((tx) => [
+        `<span class="mono">${escapeHtml(tx.transaction_id)}</span>`,
+        escapeHtml(tx.timestamp),
+        `<span class="mono">${escapeHtml(tx.sender_id)}</span>`,
+        `<span class="mono">${escapeHtml(tx.receiver_id)}</span>`,
+        escapeHtml(formatCurrency(tx.amount, currency)),
+      ]),
+      [4]
+    );
+    const more = r.transaction_count - r.transactions.length;
+    return (
+      `<section class="ring"><h3>${escapeHtml(ringHeading(r.ring))}</h3>` +
+      `<p class="muted">${escapeHtml(ringFacts(r, currency))}</p>` +
+      `<p>${escapeHtml(r.ring.explanation)}</p>` +
+      snapshotSvg(r.snapshot) +
+      (r.snapshot.omitted_members > 0
+        ? `<p class="muted">Snapshot shows the ${r.snapshot.nodes.length} highest-scoring members; ${r.snapshot.omitted_members} more are listed below.</p>`
+        : '') +
+      `<h4>Members</h4>${members}` +
+      `<h4>Transactions</h4>${r.transactions.length > 0 ? transactions : '<p class="muted">No transactions between members.</p>'}` +
+      (more > 0 ? `<p class="muted">${more} more transaction(s) not listed.</p>` : '') +
+      '</section>'
+    );
+  });
+
+  const accounts = report.accounts.map((a) => {
+    const contributions = a.score_contributions;
+    const breakdown = contributions
+      ? htmlTable(
+          ['Stage', 'Algorithm', 'Change', 'Score', 'Reason'],
+          contributions.map((c) => [
+            `<span class="mono">${escapeHtml(c.stage)}</span>`,
+            escapeHtml(c.algorithm),
+            `<span class="${c.delta > 0 ? 'pos' : c.delta < 0 ? 'neg' : 'muted'}">${formatDelta(c.delta)}</span>`,
+            String(c.score_after),
+            escapeHtml(c.reason),
+          ]),
+          [2, 3]
+        )
+      : '<p class="muted">Score breakdown not recorded for this run.</p>';
+    return (
+      `<section class="account"><h3><span class="mono">${escapeHtml(a.account_id)}</span> · score ${a.suspicion_score}/100</h3>` +
+      `<p class="muted">Patterns: ${escapeHtml(a.detected_patterns.join(', ') || '—')} · Rings: ${escapeHtml(a.ring_ids.join(', ') || '—')}</p>` +
+      breakdown +
+      `<p><strong>Explanation:</strong> ${escapeHtml(a.explanation || '—')}</p></section>`
+    );
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>Investigation Report – ${escapeHtml(run.file_name ?? run.run_id)}</title>`,
+    `<style>${HTML_STYLE}</style></head><body>`,
+    '<h1>Investigation Report</h1>',
+    '<p class="muted">Money muling network detection</p>',
+    details(runDetails(report)),
+    '<h2>Summary</h2>',
+    details(summaryCounts(report)),
+    '<h3>Score distribution</h3>',
+    htmlTable(['Band', 'Accounts'], report.score_bands.map((b) => [escapeHtml(b.label), String(b.count)]), [1]),
+    '<h3>Fraud rings by pattern</h3>',
+    report.ring_types.length > 0
+      ? htmlTable(['Pattern', 'Rings'], report.ring_types.map((t) => [escapeHtml(t.label), String(t.count)]), [1])
+      : '<p class="muted">No fraud rings detected.</p>',
+    '<h2 class="page">Fraud Rings</h2>',
+    ...rings,
+    report.omitted_rings > 0 ? `<p class="muted">${report.omitted_rings} lower-risk ring(s) not included.</p>` : '',
+    '<h2 class="page">Account Score Breakdowns</h2>',
+    ...(accounts.length > 0 ? accounts : ['<p class="muted">No suspicious accounts.</p>']),
+    report.omitted_accounts > 0
+      ? `<p class="muted">${report.omitted_accounts} lower-scoring account(s) not included.</p>`
+      : '',
+    '</body></html>',
+  ].join('\n');
+}
+
+// ─── PDF ─────────────────────────────────────────────────────────────────────
+
+const MARGIN = 40;
+const TEXT: PdfColor = [0.06, 0.09, 0.16];
+const MUTED: PdfColor = [0.39, 0.45, 0.55];
+const RULE: PdfColor = [0.89, 0.91, 0.94];
+const HEADER_FILL: PdfColor = [0.95, 0.96, 0.98];
+
+function hexColor(hex: string): PdfColor {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255) as PdfColor;
+}
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  font?: PdfFont;
+  alignRight?: boolean;
+}
+
+/** Top-to-bottom flow over pages: every block first makes room for itself */
+function createPdfLayout(doc: PdfDocument) {
+  const contentWidth = doc.width - 2 * MARGIN;
+  let top = MARGIN;
+  doc.addPage();
+
+  const ensure = (height: number) => {
+    if (top + height <= doc.height - MARGIN) return;
+    doc.addPage();
+    top = MARGIN;
+  };
+
+  const layout = {
+    contentWidth,
+    get top() {
+      return top;
+    },
+    newPage() {
+      if (top === MARGIN) return;
+      doc.addPage();
+      top = MARGIN;
+    },
+    gap(height: number) {
+      top += height;
+    },
+    ensure,
+    heading(text: string, size: number) {
+      ensure(size * 2.4);
+      top += size * 1.2;
+      doc.text(MARGIN, top, text, { font: 'bold', size, color: TEXT });
+      top += size * 0.6;
+      if (size >= 15) {
+        doc.line(MARGIN, top, MARGIN + contentWidth, top, { stroke: TEXT, lineWidth: 1.2 });
+        top += 6;
+      }
+    },
+    paragraph(text: string, size = 9, color: PdfColor = TEXT, font: PdfFont = 'regular') {
+      const lineHeight = size * 1.35;
+      for (const line of wrapText(text, font, size, contentWidth)) {
+        ensure(lineHeight);
+        top += lineHeight;
+        doc.text(MARGIN, top - size * 0.3, line, { font, size, color });
+      }
+      top += 4;
+    },
+    details(rows: [string, string][]) {
+      const labelWidth = 120;
+      for (const [label, value] of rows) {
+        const lines = wrapText(value, 'regular', 9, contentWidth - labelWidth);
+        ensure(lines.length * 12);
+        doc.text(MARGIN, top + 9, label, { size: 9, color: MUTED });
+        lines.forEach((line, i) => doc.text(MARGIN + labelWidth, top + 9 + i * 12, line, { size: 9, color: TEXT }));
+        top += lines.length * 12 + 1;
+      }
+      top += 4;
+    },
+    table(columns: PdfColumn[], rows: { cells: string[]; colors?: (PdfColor | undefined)[] }[]) {
+      const size = 8;
+      const lineHeight = 10;
+      const padding = 3;
+      const header = () => {
+        ensure(lineHeight + 2 * padding);
+        doc.rect(MARGIN, top, contentWidth, lineHeight + 2 * padding, { fill: HEADER_FILL });
+        let x = MARGIN;
+        for (const column of columns) {
+          const w = textWidth(column.header, 'bold', size);
+          doc.text(column.alignRight ? x + column.width - padding - w : x + padding, top + padding + size, column.header, {
+            font: 'bold',
+            size,
+            color: TEXT,
+          });
+          x += column.width;
+        }
+        top += lineHeight + 2 * padding;
+      };
+      header();
+      for (const row of rows) {
+        const wrapped = row.cells.map((cell, i) =>
+          wrapText(cell, columns[i].font ?? 'regular', size, columns[i].width - 2 * padding)
+        );
+        const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + 2 * padding;
+        if (top + height > doc.height - MARGIN) {
+          doc.addPage();
+          top = MARGIN;
+          header();
+        }
+        let x = MARGIN;
+        wrapped.forEach((lines, i) => {
+          const column = columns[i];
+          const font = column.font ?? 'regular';
+          lines.forEach((line, l) => {
+            const w = textWidth(line, font, size);
+            doc.text(column.alignRight ? x + column.width - padding - w : x + padding, top + padding + size + l * lineHeight, line, {
+              font,
+              size,
+              color: row.colors?.[i] ?? TEXT,
+            });
+          });
+          x += column.width;
+        });
+        top += height;
+        doc.line(MARGIN, top, MARGIN + contentWidth, top, { stroke: RULE, lineWidth: 0.5 });
+      }
+      top += 8;
+    },
+    snapshot(snapshot: RingSnapshot) {
+      const size = 240;
+      const radius = 5;
+      ensure(size + 20);
+      const left = MARGIN + (contentWidth - size) / 2;
+      const origin = top + 10;
+      const at = (n: SnapshotNode): [number, number] => [left + n.x * size, origin + n.y * size];
+      const maxAmount = Math.max(1, ...snapshot.edges.map((e) => e.amount));
+
+      for (const e of snapshot.edges) {
+        const [x1, y1] = at(snapshot.nodes[e.from]);
+        const [x2, y2] = at(snapshot.nodes[e.to]);
+        const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+        const [ux, uy] = [(x2 - x1) / length, (y2 - y1) / length];
+        const [tipX, tipY] = [x2 - ux * (radius + 1), y2 - uy * (radius + 1)];
+        const [baseX, baseY] = [tipX - ux * 6, tipY - uy * 6];
+        doc.line(x1, y1, baseX, baseY, { stroke: [0.58, 0.64, 0.72], lineWidth: 0.5 + 1.5 * (e.amount / maxAmount) });
+        doc.polygon(
+          [
+            [tipX, tipY],
+            [baseX - uy * 2.5, baseY + ux * 2.5],
+            [baseX + uy * 2.5, baseY - ux * 2.5],
+          ],
+          { fill: [0.39, 0.45, 0.55] }
+        );
+      }
+      for (const n of snapshot.nodes) {
+        const [x, y] = at(n);
+        doc.circle(x, y, radius, { fill: hexColor(scoreColor(n.score)) });
+        const w = textWidth(n.id, 'regular', 6);
+        doc.text(x - w / 2, y - radius - 2, n.id, { size: 6, color: TEXT });
+      }
+      top += size + 20;
+    },
+  };
+  return layout;
+}
+
+function renderReportPdf(report: InvestigationReport): Buffer {
+  const { run, currency } = report;
+  const doc = createPdfDocument();
+  const layout = createPdfLayout(doc);
+  const width = layout.contentWidth;
+
+  layout.heading('Investigation Report', 20);
+  layout.paragraph('Money muling network detection', 10, MUTED);
+  layout.details(runDetails(report));
+
+  layout.heading('Summary', 15);
+  layout.details(summaryCounts(report));
+  layout.heading('Score distribution', 11);
+  layout.table(
+    [
+      { header: 'Band', width: width - 80 },
+      { header: 'Accounts', width: 80, alignRight: true },
+    ],
+    report.score_bands.map((b) => ({ cells: [b.label, String(b.count)] }))
+  );
+  layout.heading('Fraud rings by pattern', 11);
+  if (report.ring_types.length > 0) {
+    layout.table(
+      [
+        { header: 'Pattern', width: width - 80 },
+        { header: 'Rings', width: 80, alignRight: true },
+      ],
+      report.ring_types.map((t) => ({ cells: [t.label, String(t.count)] }))
+    );
+  } else {
+    layout.paragraph('No fraud rings detected.', 9, MUTED);
+  }
+
+  for (const [i, r] of report.rings.entries()) {
+    layout.newPage();
+    if (i === 0) layout.heading('Fraud Rings', 15);
+    layout.heading(ringHeading(r.ring), 12);
+    layout.paragraph(ringFacts(r, currency), 8, MUTED);
+    layout.paragraph(r.ring.explanation);
+    layout.snapshot(r.snapshot);
+    if (r.snapshot.omitted_members > 0) {
+      layout.paragraph(
+        `Snapshot shows the ${r.snapshot.nodes.length} highest-scoring members; ${r.snapshot.omitted_members} more are listed below.`,
+        8,
+        MUTED
+      );
+    }
+    layout.heading('Members', 10);
+    layout.table(
+      [
+        { header: 'Account', width: 110, font: 'mono' },
+        { header: 'Score', width: 45, alignRight: true },
+        { header: 'Role', width: 90 },
+        { header: 'Patterns', width: width - 245 },
+      ],
+      r.members.map((a) => ({
+        cells: [a.account_id, String(a.suspicion_score), a.ring_role ?? '—', a.detected_patterns.join(', ')],
+      }))
+    );
+    layout.heading('Transactions', 10);
+    if (r.transactions.length > 0) {
+      layout.table(
+        [
+          { header: 'Transaction', width: 95, font: 'mono' },
+          { header: 'Time', width: 100 },
+          { header: 'From', width: 95, font: 'mono' },
+          { header: 'To', width: 95, font: 'mono' },
+          { header: 'Amount', width: width - 385, alignRight: true },
+        ],
+        r.transactions.map((tx) => ({
+          cells: [tx.transaction_id, tx.timestamp, tx.sender_id, tx.receiver_id, formatCurrency(tx.amount, currency)],
+        }))
+      );
+    } else {
+      layout.paragraph('No transactions between members.', 9, MUTED);
+    }
+    const more = r.transaction_count - r.transactions.length;
+    if (more > 0) layout.paragraph(`${more} more transaction(s) not listed.`, 8, MUTED);
+  }
+  if (report.omitted_rings > 0) layout.paragraph(`${report.omitted_rings} lower-risk ring(s) not included.`, 8, MUTED);
+
+  layout.newPage();
+  layout.heading('Account Score Breakdowns', 15);
+  if (report.accounts.length === 0) layout.paragraph('No suspicious accounts.', 9, MUTED);
+  for (const a of report.accounts) {
+    layout.ensure(80);
+    layout.heading(`${a.account_id} · score ${a.suspicion_score}/100`, 11);
+    layout.paragraph(
+      `Patterns: ${a.detected_patterns.join(', ') || '—'} · Rings: ${a.ring_ids.join(', ') || '—'}`,
+      8,
+      MUTED
+    );
+    const contributions = a.score_contributions;
+    if (contributions) {
+      layout.table(
+        [
+          { header: 'Stage', width: 85, font: 'mono' },
+          { header: 'Algorithm', width: 110 },
+          { header: 'Change', width: 40, alignRight: true },
+          { header: 'Score', width: 35, alignRight: true },
+          { header: 'Reason', width: width - 270 },
+        ],
+        contributions.map((c) => ({
+          cells: [c.stage, c.algorithm, formatDelta(c.delta), String(c.score_after), c.reason],
+          colors: [undefined, undefined, c.delta > 0 ? [0.86, 0.15, 0.15] : c.delta < 0 ? [0.09, 0.64, 0.29] : MUTED],
+        }))
+      );
+    } else {
+      layout.paragraph('Score breakdown not recorded for this run.', 8, MUTED);
+    }
+    layout.paragraph(`Explanation: ${a.explanation || '—'}`, 8);
+  }
+  if (report.omitted_accounts > 0) {
+    layout.paragraph(`${report.omitted_accounts} lower-scoring account(s) not included.`, 8, MUTED);
+  }
+
+  // Page numbers, once the page count is known
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.usePage(page);
+    const label = `Run ${run.run_id} · page ${page + 1} of ${doc.pageCount}`;
+    doc.text(doc.width - MARGIN - textWidth(label, 'regular', 7), doc.height - MARGIN / 2, label, { size: 7, color: MUTED });
+  }
+  return doc.toBuffer();
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/** The report for a saved run, ready to send */
+export function renderInvestigationReport(
+  run: AnalysisRun,
+  format: ReportFormat
+): { body: string | Buffer; contentType: string; fileName: string } {
+  const report = buildInvestigationReport(run);
+  const fileName = `investigation-report-${run.run_id}.${format}`;
+  return format === 'pdf'
+    ? { body: renderReportPdf(report), contentType: 'application/pdf', fileName }
+    : { body: renderReportHtml(report), contentType: 'text/html; charset=utf-8', fileName };
+}
@@ -0,0 +1,260 @@
+// RIFT 2026 – Asynchronous Analysis Job Queue
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Detection on a large graph can take seconds to minutes.  Running it inside
+//   the request handler would block every other request, so POST /api/analyze
+//   only validates the upload and submits a job; the analysis itself runs in a
+//   pool of worker threads (analysis-worker) and clients poll
+//   GET /api/jobs/:id for status, per-stage progress and the final result.
+//
+// POOL
+//   Workers are spawned lazily up to ANALYSIS_WORKERS (default: CPU cores − 1,
+//   between 1 and 4) and reused across jobs; each runs one job at a time and
+//   further jobs wait in a FIFO queue.  A worker that crashes fails its job
+//   and is replaced on the next dispatch.
+//
+// RETENTION
+//   Jobs live in memory only.  Finished jobs are dropped JOB_RETENTION_MS
+//   after completion — completed results are persisted as runs (run-store)
+//   through the onComplete callback.
+//
+// APPEND JOBS
+//   A job with `previous` appends its transactions to an earlier analysis
+//   (run-append): the worker re-analyses both lists merged.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Worker } from 'worker_threads';
+import {
+  AnalysisDelta,
+  AnalysisJob,
+  AnalysisResult,
+  AnalysisStage,
+  DetectionConfigInput,
+  DetectionMode,
+  Disposition,
+  RawTransaction,
+  Watchlist,
+} from './types';
+import { ANALYSIS_STAGES } from './detection-engine';
+
+const JOB_RETENTION_MS = 30 * 60 * 1000;
+
+// analysis-worker.ts under tsx (dev), analysis-worker.js once compiled
+const WORKER_FILE = path.join(__dirname, `analysis-worker${path.extname(__filename)}`);
+
+/** Earlier analysis an append job builds on */
+export interface PreviousAnalysis {
+  transactions: RawTransaction[];
+}
+
+/** Message sent to a worker: everything analyzeTransactions needs */
+export interface AnalysisTask {
+  job_id: string;
+  transactions: RawTransaction[];  // The appended batch when `previous` is set
+  mode: DetectionMode;
+  config?: DetectionConfigInput;
+  reportingCurrency: string;
+  dispositions?: Disposition[];
+  watchlists?: Watchlist[];
+  previous?: PreviousAnalysis;
+  debug?: boolean;
+}
+
+/** Messages posted back by a worker */
+export type WorkerMessage =
+  | { type: 'progress'; job_id: string; stage: AnalysisStage }
+  | { type: 'result'; job_id: string; result: AnalysisResult }
+  | { type: 'error'; job_id: string; message: string };
+
+/** Fields the completion handler attaches to the finished job */
+export interface JobCompletion {
+  run_id?: string;
+  delta?: AnalysisDelta;
+}
+
+export interface NewAnalysisJob {
+  transactions: RawTransaction[];
+  mode: DetectionMode;
+  config?: DetectionConfigInput;
+  reportingCurrency: string;
+  /** Analyst dispositions in force when the job was submitted */
+  dispositions?: Disposition[];
+  /** Watchlists in force when the job was submitted */
+  watchlists?: Watchlist[];
+  previous?: PreviousAnalysis;
+  /** Record per-stage account snapshots in the result */
+  debug?: boolean;
+  /** Runs on the main thread with the finished analysis (e.g. to persist it) */
+  onComplete?: (result: AnalysisResult) => JobCompletion | undefined;
+}
+
+interface JobRecord {
+  job: AnalysisJob;
+  task?: AnalysisTask;           // Released once handed to a worker
+  onComplete?: NewAnalysisJob['onComplete'];
+}
+
+interface PoolWorker {
+  worker: Worker;
+  jobId: string | null;
+}
+
+const jobs = new Map<string, JobRecord>();
+const queue: string[] = [];
+const pool: PoolWorker[] = [];
+
+function resolvePoolSize(): number {
+  const configured = parseInt(process.env.ANALYSIS_WORKERS ?? '', 10);
+  if (configured >= 1) return configured;
+  return Math.max(1, Math.min(4, os.cpus().length - 1));
+}
+
+const POOL_SIZE = resolvePoolSize();
+
+// ─── Job state ───────────────────────────────────────────────────────────────
+
+function setProgress(job: AnalysisJob, stage: AnalysisStage | null, completed: number): void {
+  const total = ANALYSIS_STAGES.length;
+  job.progress = {
+    stage,
+    completed_stages: completed,
+    total_stages: total,
+    percent: Math.round((completed / total) * 100),
+  };
+}
+
+function completeJob(record: JobRecord, result: AnalysisResult): void {
+  const { job } = record;
+  job.status = 'completed';
+  job.completed_at = new Date().toISOString();
+  job.result = result;
+  setProgress(job, null, ANALYSIS_STAGES.length);
+
+  try {
+    Object.assign(job, record.onComplete?.(result));
+  } catch (error) {
+    console.error(`Job ${job.job_id} completion handler failed:`, error);
+  }
+}
+
+function failJob(record: JobRecord, message: string): void {
+  record.job.status = 'failed';
+  record.job.completed_at = new Date().toISOString();
+  record.job.error = message;
+  record.job.progress.stage = null;
+}
+
+function pruneJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [jobId, { job }] of jobs) {
+    if (job.completed_at && Date.parse(job.completed_at) < cutoff) jobs.delete(jobId);
+  }
+}
+
+// ─── Worker pool ─────────────────────────────────────────────────────────────
+
+function handleMessage(entry: PoolWorker, message: WorkerMessage): void {
+  const record = jobs.get(message.job_id);
+  if (!record) return;
+
+  if (message.type === 'progress') {
+    setProgress(record.job, message.stage, ANALYSIS_STAGES.indexOf(message.stage));
+    return;
+  }
+
+  if (message.type === 'result') completeJob(record, message.result);
+  else failJob(record, message.message);
+
+  entry.jobId = null;
+  dispatch();
+}
+
+// A crashed worker (uncaught error, out of memory) fails its job and leaves the pool
+function retireWorker(entry: PoolWorker, reason: string): void {
+  const index = pool.indexOf(entry);
+  if (index !== -1) pool.splice(index, 1);
+
+  const record = entry.jobId ? jobs.get(entry.jobId) : undefined;
+  if (record && record.job.status === 'running') failJob(record, reason);
+  entry.jobId = null;
+  dispatch();
+}
+
+function createWorker(): Worker {
+  if (path.extname(WORKER_FILE) !== '.ts') return new Worker(WORKER_FILE);
+  // Under tsx (npm run dev) workers do not inherit the TypeScript loader
+  const loader = require.resolve('tsx/cjs');
+  return new Worker(`require(${JSON.stringify(loader)}); require(${JSON.stringify(WORKER_FILE)});`, { eval: true });
+}
+
+function spawnWorker(): PoolWorker {
+  const entry: PoolWorker = { worker: createWorker(), jobId: null };
+  entry.worker.on('message', (message: WorkerMessage) => handleMessage(entry, message));
+  entry.worker.on('error', (error) => retireWorker(entry, `Analysis worker crashed: ${error.message}`));
+  entry.worker.on('exit', (code) => retireWorker(entry, `Analysis worker exited with code ${code}`));
+  pool.push(entry);
+  return entry;
+}
+
+/** Hand queued jobs to idle workers, spawning new ones up to POOL_SIZE. */
+function dispatch(): void {
+  while (queue.length > 0) {
+    const entry = pool.find((w) => w.jobId === null)
+      ?? (pool.length < POOL_SIZE ? spawnWorker() : undefined);
+    if (!entry) return;
+
+    const record = jobs.get(queue.shift()!);
+    if (!record?.task) continue;
+
+    record.job.status = 'running';
+    record.job.started_at = new Date().toISOString();
+    entry.jobId = record.job.job_id;
+    entry.worker.postMessage(record.task);
+    record.task = undefined;
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/** Queue an analysis and return the job immediately. */
+export function submitAnalysisJob(input: NewAnalysisJob): AnalysisJob {
+  pruneJobs();
+
+  const jobId = randomUUID();
+  const job: AnalysisJob = {
+    job_id: jobId,
+    status: 'queued',
+    mode: input.mode,
+    created_at: new Date().toISOString(),
+    progress: { stage: null, completed_stages: 0, total_stages: ANALYSIS_STAGES.length, percent: 0 },
+  };
+
+  jobs.set(jobId, {
+    job,
+    task: {
+      job_id: jobId,
+      transactions: input.transactions,
+      mode: input.mode,
+      config: input.config,
+      reportingCurrency: input.reportingCurrency,
+      dispositions: input.dispositions,
+      watchlists: input.watchlists,
+      previous: input.previous,
+      debug: input.debug,
+    },
+    onComplete: input.onComplete,
+  });
+  queue.push(jobId);
+  dispatch();
+  return job;
+}
+
+/** Current state of a job; includes the result once completed. */
+export function getAnalysisJob(jobId: string): AnalysisJob | undefined {
+  pruneJobs();
+  return jobs.get(jobId)?.job;
+}
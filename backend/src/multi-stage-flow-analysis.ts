@@ -10,12 +10,14 @@
 //   AND a cycle is likely acting as a multi-stage intermediary.
 //
 // SCORING
-//   Accounts flagged as MULTI_STAGE receive +20 suspicion-score boost (cap 100).
+//   Accounts flagged as MULTI_STAGE receive a suspicion-score boost (cap 100)
+//   from DetectionConfig.multi_stage.boost (default +20).
 //
 // ALGORITHM
 //   1. For each account, collect the fraud rings it belongs to.
 //   2. Extract the distinct pattern_types from those rings.
-//   3. If the account participates in ≥ 2 distinct pattern types, tag it.
+//   3. If the account participates in ≥ min_pattern_types (default 2)
+//      distinct pattern types, tag it.
 //   4. Order the patterns by the earliest transaction timestamp associated
 //      with each pattern to produce a temporal flow sequence.
 //
@@ -23,7 +25,9 @@
 //   Called AFTER centrality analysis (last post-detection enrichment step).
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { AccountNode, FraudRing, RawTransaction } from './types';
+import { AccountNode, DetectionConfig, FraudRing, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import { recordScoreChange } from './score-contributions';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -61,16 +65,17 @@ function earliestTimestampForPattern(
 // ─── Public API ──────────────────────────────────────────────────────────────
 
 /**
- * Detect accounts that span ≥ 2 distinct pattern types across their fraud ring
- * memberships.  Tag them as `MULTI_STAGE`, record the ordered flow pattern, and
- * apply a +20 score boost (capped at 100).
+ * Detect accounts that span ≥ min_pattern_types distinct pattern types across
+ * their fraud ring memberships.  Tag them as `MULTI_STAGE`, record the ordered
+ * flow pattern, and apply the configured score boost (capped at 100).
  *
  * Mutates `accounts` in-place.
  */
 export function detectMultiStageFlows(
   accounts: AccountNode[],
   fraudRings: FraudRing[],
-  transactions: RawTransaction[]
+  transactions: RawTransaction[],
+  config: DetectionConfig['multi_stage'] = DEFAULT_DETECTION_CONFIG.multi_stage
 ): void {
   if (fraudRings.length === 0) return;
 
@@ -94,7 +99,7 @@ export function detectMultiStageFlows(
   for (const a of accounts) accountIdx.set(a.account_id, a);
 
   for (const [accountId, patternTypes] of accountRings) {
-    if (patternTypes.size < 2) continue;
+    if (patternTypes.size < config.min_pattern_types) continue;
 
     const account = accountIdx.get(accountId);
     if (!account) continue;
@@ -119,15 +124,18 @@ export function detectMultiStageFlows(
     account.flow_pattern = flowPattern;
 
     // Score boost
-    account.suspicion_score = Math.min(100, account.suspicion_score + 20);
+    const flowStr = flowPattern.join(' → ');
+    recordScoreChange(account, Math.min(100, account.suspicion_score + config.boost), {
+      stage: 'multi_stage',
+      algorithm: 'Multi-Stage Flow Detection',
+      reason: `Multi-stage laundering flow detected: ${flowStr} (${patternTypes.size} distinct patterns)`,
+      counterparties: fraudRings.filter((ring) => ring.members.includes(accountId)).flatMap((ring) => ring.members),
+    });
 
     if (!account.triggered_algorithms.includes('Multi-Stage Flow Detection')) {
       account.triggered_algorithms.push('Multi-Stage Flow Detection');
     }
 
-    const flowStr = flowPattern.join(' → ');
-    account.explanation += `. Multi-stage laundering flow detected: ${flowStr} (${patternTypes.size} distinct patterns)`;
-
     // Update detected_patterns if 'multi_stage' not already present
     if (!account.detected_patterns.includes('multi_stage')) {
       account.detected_patterns.push('multi_stage');
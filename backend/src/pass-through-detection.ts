@@ -0,0 +1,203 @@
+// ─── PASS-THROUGH DETECTION ──────────────────────────────────────────────────
+// Finds accounts that receive funds and forward nearly the same amount within
+// hours — the textbook mule signature.  Unlike fan-in-validation's rapid
+// outflow check (aggregation candidates only) this runs for every account.
+//
+// MATCHING (per account, chronological, greedy)
+//   Each outbound transaction is matched to the oldest unmatched inbound one
+//   that arrived at most max_dwell_hours earlier, from a different
+//   counterparty (returning funds to the sender is not a pass-through), with
+//   |out − in| ≤ amount_tolerance × in.
+//
+// METRICS
+//   ratio        matched inbound value / total inbound value
+//   median dwell median hours between arrival and forwarding of matched pairs
+//   An account is flagged when it has ≥ min_matches pairs and ratio ≥ min_ratio.
+//
+// RINGS
+//   Matched flows of flagged accounts (sender → account → receiver) are joined
+//   into connected components; each component is one ring, so a chain of
+//   relays yields a single ring rather than one per hop.
+//
+// Complexity: O(T log T + Σ W) where W = inbound transactions inside an
+//   outbound transaction's dwell window
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { DetectionConfig, PassThroughSummary, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG, hoursToMs } from './detection-config';
+import { formatCurrency } from './fx-rates';
+
+type PassThroughConfig = DetectionConfig['pass_through'];
+
+export interface PassThroughMatch {
+  inbound: RawTransaction;
+  outbound: RawTransaction;
+  dwellHours: number;
+}
+
+/** A flagged account's matched pairs and metrics */
+export interface PassThroughResult {
+  matches: PassThroughMatch[];
+  summary: PassThroughSummary;
+}
+
+/** One ring: connected relays and the counterparties of their matched flows */
+export interface PassThroughRing {
+  members: string[];
+  relays: string[];
+  forwardedValue: number;
+  matchCount: number;
+}
+
+const MAX_LISTED_MATCHES = 5;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Match inbound to outbound flows for every account.  Returns the flagged
+ * accounts only.
+ */
+export function detectPassThrough(
+  transactions: RawTransaction[],
+  config: PassThroughConfig = DEFAULT_DETECTION_CONFIG.pass_through,
+): Map<string, PassThroughResult> {
+  const dwellMs = hoursToMs(config.max_dwell_hours);
+  type Timed = { tx: RawTransaction; time: number };
+
+  const inbound = new Map<string, Timed[]>();
+  const outbound = new Map<string, Timed[]>();
+  const push = (map: Map<string, Timed[]>, key: string, entry: Timed) => {
+    const list = map.get(key);
+    if (list) list.push(entry);
+    else map.set(key, [entry]);
+  };
+  for (const tx of transactions) {
+    if (tx.sender_id === tx.receiver_id) continue;
+    const entry = { tx, time: new Date(tx.timestamp).getTime() };
+    push(inbound, tx.receiver_id, entry);
+    push(outbound, tx.sender_id, entry);
+  }
+
+  const results = new Map<string, PassThroughResult>();
+  for (const [accountId, ins] of inbound) {
+    const outs = outbound.get(accountId);
+    if (!outs || outs.length < config.min_matches) continue;
+    ins.sort((a, b) => a.time - b.time);
+    outs.sort((a, b) => a.time - b.time);
+
+    const matched = new Array<boolean>(ins.length).fill(false);
+    const matches: PassThroughMatch[] = [];
+    let windowStart = 0;
+    for (const out of outs) {
+      // Inbound transactions older than the dwell window can never match again
+      while (windowStart < ins.length && out.time - ins[windowStart].time > dwellMs) windowStart++;
+      for (let i = windowStart; i < ins.length && ins[i].time <= out.time; i++) {
+        const candidate = ins[i];
+        if (matched[i] || candidate.tx.sender_id === out.tx.receiver_id) continue;
+        if (Math.abs(out.tx.amount - candidate.tx.amount) > config.amount_tolerance * candidate.tx.amount) continue;
+        matched[i] = true;
+        matches.push({
+          inbound: candidate.tx,
+          outbound: out.tx,
+          dwellHours: (out.time - candidate.time) / 3_600_000,
+        });
+        break;
+      }
+    }
+    if (matches.length < config.min_matches) continue;
+
+    const inboundValue = ins.reduce((sum, e) => sum + e.tx.amount, 0);
+    const matchedInbound = matches.reduce((sum, m) => sum + m.inbound.amount, 0);
+    const ratio = inboundValue > 0 ? matchedInbound / inboundValue : 0;
+    if (ratio < config.min_ratio) continue;
+
+    results.set(accountId, {
+      matches,
+      summary: {
+        ratio: Math.round(ratio * 1000) / 1000,
+        median_dwell_hours: Math.round(median(matches.map((m) => m.dwellHours)) * 100) / 100,
+        matched_count: matches.length,
+        inbound_value: Math.round(inboundValue * 100) / 100,
+        forwarded_value: Math.round(matches.reduce((sum, m) => sum + m.outbound.amount, 0) * 100) / 100,
+      },
+    });
+  }
+
+  return results;
+}
+
+/** Join the matched flows of flagged accounts into connected components */
+export function buildPassThroughRings(results: Map<string, PassThroughResult>): PassThroughRing[] {
+  const adjacency = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!adjacency.has(a)) adjacency.set(a, new Set());
+    if (!adjacency.has(b)) adjacency.set(b, new Set());
+    adjacency.get(a)!.add(b);
+    adjacency.get(b)!.add(a);
+  };
+  for (const [accountId, result] of results) {
+    for (const m of result.matches) {
+      link(m.inbound.sender_id, accountId);
+      link(accountId, m.outbound.receiver_id);
+    }
+  }
+
+  const rings: PassThroughRing[] = [];
+  const visited = new Set<string>();
+  for (const start of results.keys()) {
+    if (visited.has(start)) continue;
+    const members: string[] = [];
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      members.push(node);
+      for (const next of adjacency.get(node) ?? []) {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    const relays = members.filter((id) => results.has(id));
+    rings.push({
+      members,
+      relays,
+      forwardedValue: relays.reduce((sum, id) => sum + results.get(id)!.summary.forwarded_value, 0),
+      matchCount: relays.reduce((sum, id) => sum + results.get(id)!.summary.matched_count, 0),
+    });
+  }
+  return rings;
+}
+
+/** Account explanation listing the first MAX_LISTED_MATCHES matched pairs */
+export function describePassThrough(
+  result: PassThroughResult,
+  config: PassThroughConfig,
+  currency: string,
+): string {
+  const { summary, matches } = result;
+  const listed = matches
+    .slice(0, MAX_LISTED_MATCHES)
+    .map((m) => `${m.inbound.transaction_id} → ${m.outbound.transaction_id} (${m.dwellHours.toFixed(1)}h)`);
+  if (matches.length > MAX_LISTED_MATCHES) listed.push(`and ${matches.length - MAX_LISTED_MATCHES} more`);
+  return (
+    `Pass-through: ${Math.round(summary.ratio * 100)}% of ${formatCurrency(summary.inbound_value, currency)} inbound ` +
+    `value forwarded within ${config.max_dwell_hours}h (±${Math.round(config.amount_tolerance * 100)}%) ` +
+    `in ${summary.matched_count} in/out pairs totalling ${formatCurrency(summary.forwarded_value, currency)}, ` +
+    `median dwell ${summary.median_dwell_hours}h: ${listed.join(', ')}`
+  );
+}
+
+/** Ring explanation */
+export function describePassThroughRing(ring: PassThroughRing, config: PassThroughConfig, currency: string): string {
+  return (
+    `Pass-through: funds relayed through ${ring.relays.length} account(s) (${ring.relays.join(', ')}) ` +
+    `within ${config.max_dwell_hours}h of arrival, ${ring.matchCount} matched in/out pairs ` +
+    `forwarding ${formatCurrency(ring.forwardedValue, currency)}.`
+  );
+}
@@ -0,0 +1,282 @@
+// ─── PATH QUERIES ────────────────────────────────────────────────────────────
+// Answers "how are accounts A and B linked?" on the transaction graph from
+// buildAdjacencyList.  Every query follows the direction money moved.
+//
+// SHORTEST     breadth-first search: fewest hops
+// K SHORTEST   Yen's algorithm over the same search: loopless paths in order
+//              of hop count, ties in discovery order
+// TEMPORAL     depth-first search over loopless paths of up to max_hops where
+//              every hop has a transaction no earlier than the one before it.
+//              Carrying the earliest possible arrival is enough: arriving
+//              later only narrows the choices further on.  Branches that
+//              cannot reach the target within the hop limit are pruned.
+//
+// Complexity: shortest O(V+E); k shortest O(K·L·(V+E)) for paths of up to
+//   L hops; temporal bounded by MAX_TEMPORAL_PATHS results and
+//   MAX_TEMPORAL_STEPS edge visits, O(log m) per visit for an edge with m
+//   transactions
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AdjList } from './detection-engine';
+import { AccountPath, PathQueryOptions, PathQueryResult, PathTransaction, RawTransaction } from './types';
+
+export const DEFAULT_PATH_OPTIONS: PathQueryOptions = {
+  k: 3,
+  all_paths: false,
+  max_hops: 5,
+};
+
+export const MAX_K_PATHS = 10;
+export const MAX_PATH_HOPS = 8;
+
+/** Result and work limits for time-respecting paths, which grow exponentially with the hop limit */
+export const MAX_TEMPORAL_PATHS = 1000;
+const MAX_TEMPORAL_STEPS = 1_000_000;
+
+const edgeKey = (from: string, to: string) => `${from}\u0000${to}`;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toPathTransaction(tx: RawTransaction): PathTransaction {
+  return { transaction_id: tx.transaction_id, amount: tx.amount, timestamp: tx.timestamp };
+}
+
+/** A path with every transaction on each of its edges */
+function buildPath(graph: AdjList, accounts: string[]): AccountPath {
+  const hops = accounts.slice(0, -1).map((from, i) => {
+    const to = accounts[i + 1];
+    const txs = [...graph.get(from)!.get(to)!].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return {
+      from,
+      to,
+      total_amount: round2(txs.reduce((sum, tx) => sum + tx.amount, 0)),
+      transactions: txs.map(toPathTransaction),
+    };
+  });
+  return { accounts: [...accounts], hops };
+}
+
+/** Fewest-hop path that avoids the blocked accounts and edges; null when there is none */
+function bfsPath(
+  graph: AdjList,
+  source: string,
+  target: string,
+  blockedNodes: Set<string>,
+  blockedEdges: Set<string>,
+): string[] | null {
+  const parent = new Map<string, string>([[source, source]]);
+  const queue = [source];
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    for (const next of graph.get(node)!.keys()) {
+      if (parent.has(next) || blockedNodes.has(next) || blockedEdges.has(edgeKey(node, next))) continue;
+      parent.set(next, node);
+      if (next === target) {
+        const path = [target];
+        for (let at = node; at !== source; at = parent.get(at)!) path.push(at);
+        path.push(source);
+        return path.reverse();
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/** Yen's algorithm with unit edge weights */
+function kShortestPaths(graph: AdjList, source: string, target: string, k: number): string[][] {
+  const first = bfsPath(graph, source, target, new Set(), new Set());
+  if (!first) return [];
+
+  const found = [first];
+  const candidates: string[][] = [];
+  const seen = new Set([first.join('\u0000')]);
+
+  while (found.length < k) {
+    const previous = found[found.length - 1];
+    for (let j = 0; j < previous.length - 1; j++) {
+      const root = previous.slice(0, j + 1);
+      // Leave the root by an edge no earlier path with the same root took
+      const blockedEdges = new Set<string>();
+      for (const path of found) {
+        if (path.length > j + 1 && root.every((account, i) => path[i] === account)) {
+          blockedEdges.add(edgeKey(path[j], path[j + 1]));
+        }
+      }
+      const spur = bfsPath(graph, previous[j], target, new Set(root.slice(0, -1)), blockedEdges);
+      if (!spur) continue;
+      const candidate = [...root.slice(0, -1), ...spur];
+      const key = candidate.join('\u0000');
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(candidate);
+      }
+    }
+    if (candidates.length === 0) break;
+
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+      if (candidates[i].length < candidates[best].length) best = i;
+    }
+    found.push(candidates.splice(best, 1)[0]);
+  }
+  return found;
+}
+
+/** Index of the first time ≥ t */
+function lowerBound(times: number[], t: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Loopless paths of up to maxHops whose hops can be taken in time order, each with its earliest transactions */
+function temporalPaths(
+  graph: AdjList,
+  source: string,
+  target: string,
+  maxHops: number,
+): { paths: AccountPath[]; truncated: boolean } {
+  // Hops each account still needs to reach the target, ignoring time
+  const reverse = new Map<string, string[]>();
+  for (const [from, neighbors] of graph) {
+    for (const to of neighbors.keys()) {
+      if (!reverse.has(to)) reverse.set(to, []);
+      reverse.get(to)!.push(from);
+    }
+  }
+  const distance = new Map<string, number>([[target, 0]]);
+  const queue = [target];
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    const d = distance.get(node)!;
+    if (d === maxHops) continue;
+    for (const prev of reverse.get(node) ?? []) {
+      if (distance.has(prev)) continue;
+      distance.set(prev, d + 1);
+      queue.push(prev);
+    }
+  }
+  if (!distance.has(source)) return { paths: [], truncated: false };
+
+  const timed = new Map<RawTransaction[], { times: number[]; txs: RawTransaction[] }>();
+  const timedEdge = (txs: RawTransaction[]) => {
+    let edge = timed.get(txs);
+    if (!edge) {
+      const entries = txs
+        .map((tx) => ({ time: new Date(tx.timestamp).getTime(), tx }))
+        .sort((a, b) => a.time - b.time);
+      edge = { times: entries.map((e) => e.time), txs: entries.map((e) => e.tx) };
+      timed.set(txs, edge);
+    }
+    return edge;
+  };
+
+  const paths: { accounts: string[]; txs: RawTransaction[]; arrival: number }[] = [];
+  const accounts = [source];
+  const used: RawTransaction[] = [];
+  const onPath = new Set([source]);
+  let steps = 0;
+  let truncated = false;
+
+  const visit = (node: string, arrival: number) => {
+    for (const [next, txs] of graph.get(node)!) {
+      if (truncated) return;
+      if (++steps > MAX_TEMPORAL_STEPS) {
+        truncated = true;
+        return;
+      }
+      const remaining = distance.get(next);
+      if (onPath.has(next) || remaining === undefined || accounts.length + remaining > maxHops) continue;
+      const edge = timedEdge(txs);
+      const i = lowerBound(edge.times, arrival);
+      if (i === edge.times.length) continue;
+
+      accounts.push(next);
+      used.push(edge.txs[i]);
+      if (next !== target) {
+        onPath.add(next);
+        visit(next, edge.times[i]);
+        onPath.delete(next);
+      } else if (paths.length < MAX_TEMPORAL_PATHS) {
+        paths.push({ accounts: [...accounts], txs: [...used], arrival: edge.times[i] });
+      } else {
+        truncated = true;
+      }
+      accounts.pop();
+      used.pop();
+    }
+  };
+  visit(source, -Infinity);
+
+  paths.sort((a, b) => a.accounts.length - b.accounts.length || a.arrival - b.arrival);
+  return {
+    paths: paths.map((path) => ({
+      accounts: path.accounts,
+      hops: path.txs.map((tx) => ({
+        from: tx.sender_id,
+        to: tx.receiver_id,
+        total_amount: tx.amount,
+        transactions: [toPathTransaction(tx)],
+      })),
+    })),
+    truncated,
+  };
+}
+
+/** Shortest, k shortest and (optionally) all time-respecting paths from source to target */
+export function queryPaths(
+  graph: AdjList,
+  source: string,
+  target: string,
+  options: PathQueryOptions,
+  currency: string,
+): PathQueryResult {
+  const kShortest = kShortestPaths(graph, source, target, options.k).map((path) => buildPath(graph, path));
+  const temporal = options.all_paths ? temporalPaths(graph, source, target, options.max_hops) : null;
+
+  return {
+    source,
+    target,
+    currency,
+    ...options,
+    shortest: kShortest[0] ?? null,
+    k_shortest: kShortest,
+    temporal_paths: temporal ? temporal.paths : null,
+    truncated: temporal ? temporal.truncated : false,
+  };
+}
+
+/**
+ * Read path options from a request body (camelCase, all optional), falling
+ * back to DEFAULT_PATH_OPTIONS.  Problems are collected in `errors`.
+ */
+export function parsePathOptions(body: Record<string, unknown>): { options: PathQueryOptions; errors: string[] } {
+  const errors: string[] = [];
+  const options: PathQueryOptions = { ...DEFAULT_PATH_OPTIONS };
+  const { k, allPaths, maxHops } = body;
+
+  if (k !== undefined) {
+    if (Number.isInteger(k) && (k as number) >= 1 && (k as number) <= MAX_K_PATHS) options.k = k as number;
+    else errors.push(`k must be an integer from 1 to ${MAX_K_PATHS}`);
+  }
+  if (allPaths !== undefined) {
+    if (typeof allPaths === 'boolean') options.all_paths = allPaths;
+    else errors.push('allPaths must be true or false');
+  }
+  if (maxHops !== undefined) {
+    if (Number.isInteger(maxHops) && (maxHops as number) >= 1 && (maxHops as number) <= MAX_PATH_HOPS) {
+      options.max_hops = maxHops as number;
+    } else {
+      errors.push(`maxHops must be an integer from 1 to ${MAX_PATH_HOPS}`);
+    }
+  }
+  return { options, errors };
+}
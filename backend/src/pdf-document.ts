@@ -0,0 +1,272 @@
+// ─── PDF DOCUMENT ────────────────────────────────────────────────────────────
+// A minimal PDF 1.4 writer for server-side reports: no dependencies and no
+// network access.  Text uses three of the standard 14 fonts (Helvetica,
+// Helvetica-Bold, Courier), which every viewer provides, so nothing is
+// embedded.  Strings are encoded as WinAnsi; characters outside it are
+// replaced by ASCII equivalents ("→" becomes "->") or "?".
+//
+// Coordinates are in points from the TOP-LEFT corner of the page (PDF's own
+// origin is bottom-left; the writer flips y).  Page content streams are
+// Flate-compressed with node's zlib.
+//
+// Complexity: O(total content size)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { deflateSync } from 'zlib';
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+/** RGB, each channel 0–1 */
+export type PdfColor = [number, number, number];
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+}
+
+export interface PdfShapeStyle {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+/** A4 portrait, in points */
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; base: string }> = {
+  regular: { name: 'F1', base: 'Helvetica' },
+  bold: { name: 'F2', base: 'Helvetica-Bold' },
+  mono: { name: 'F3', base: 'Courier' },
+};
+
+// Glyph widths (1/1000 em) for ASCII 32–126, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+/** Width assumed for WinAnsi characters above ASCII */
+const DEFAULT_GLYPH_WIDTH = 556;
+const COURIER_GLYPH_WIDTH = 600;
+
+// WinAnsi bytes 0x80–0x9F that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+const ASCII_FALLBACKS: Record<string, string> = {
+  '→': '->', '←': '<-', '↔': '<->', '≥': '>=', '≤': '<=', '≠': '!=', '≈': '~', '−': '-', '✓': 'v', '✗': 'x',
+};
+
+/** WinAnsi encoding of `text`, one char per byte (code points 0–255) */
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) out += ch;
+    else if (WIN_ANSI_EXTRAS[ch] !== undefined) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    else if (ASCII_FALLBACKS[ch] !== undefined) out += ASCII_FALLBACKS[ch];
+    else if (ch === '\t') out += ' ';
+    else out += '?';
+  }
+  return out;
+}
+
+/** Width of `text` in points when set in `font` at `size` */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  const encoded = toWinAnsi(text);
+  if (font === 'mono') return (encoded.length * COURIER_GLYPH_WIDTH * size) / 1000;
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/** Split `text` into lines no wider than `maxWidth`; over-long words are broken */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, font, size) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+const rgb = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+function escapeString(encoded: string): string {
+  return encoded.replace(/[\\()]/g, (ch) => `\\${ch}`);
+}
+
+// Cubic Bézier approximation of a quarter circle
+const KAPPA = 0.5522847498;
+
+/**
+ * A PDF under construction.  Drawing goes to the current page; addPage()
+ * starts a new one and usePage() returns to an earlier one (e.g. to add page
+ * numbers once the page count is known).
+ */
+export function createPdfDocument(width = A4_WIDTH, height = A4_HEIGHT) {
+  const pages: string[][] = [];
+  let current = -1;
+  const emit = (op: string) => pages[current].push(op);
+  const y = (top: number) => num(height - top);
+
+  // Graphics state must be set before the path: only a painting operator
+  // may follow path construction
+  const shape = (path: string, style: PdfShapeStyle) => {
+    emit('q');
+    if (style.lineWidth !== undefined) emit(`${num(style.lineWidth)} w`);
+    if (style.fill) emit(`${rgb(style.fill)} rg`);
+    if (style.stroke) emit(`${rgb(style.stroke)} RG`);
+    emit(path);
+    emit(style.fill && style.stroke ? 'B' : style.fill ? 'f' : 'S');
+    emit('Q');
+  };
+
+  return {
+    width,
+    height,
+    get pageCount() {
+      return pages.length;
+    },
+    addPage() {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+    usePage(index: number) {
+      current = index;
+    },
+    /** Draw `text` with its baseline at `top` */
+    text(x: number, top: number, text: string, style: PdfTextStyle = {}) {
+      const font = FONT_RESOURCES[style.font ?? 'regular'].name;
+      emit('q');
+      emit(`${rgb(style.color ?? [0, 0, 0])} rg`);
+      emit(`BT /${font} ${num(style.size ?? 10)} Tf ${num(x)} ${y(top)} Td (${escapeString(toWinAnsi(text))}) Tj ET`);
+      emit('Q');
+    },
+    line(x1: number, top1: number, x2: number, top2: number, style: PdfShapeStyle = {}) {
+      shape(`${num(x1)} ${y(top1)} m ${num(x2)} ${y(top2)} l`, { stroke: [0, 0, 0], ...style, fill: undefined });
+    },
+    rect(x: number, top: number, w: number, h: number, style: PdfShapeStyle = {}) {
+      shape(`${num(x)} ${y(top + h)} ${num(w)} ${num(h)} re`, style.fill || style.stroke ? style : { ...style, stroke: [0, 0, 0] });
+    },
+    circle(cx: number, cy: number, r: number, style: PdfShapeStyle = {}) {
+      const k = r * KAPPA;
+      const [x, yc] = [cx, height - cy];
+      const path = [
+        `${num(x + r)} ${num(yc)} m`,
+        `${num(x + r)} ${num(yc + k)} ${num(x + k)} ${num(yc + r)} ${num(x)} ${num(yc + r)} c`,
+        `${num(x - k)} ${num(yc + r)} ${num(x - r)} ${num(yc + k)} ${num(x - r)} ${num(yc)} c`,
+        `${num(x - r)} ${num(yc - k)} ${num(x - k)} ${num(yc - r)} ${num(x)} ${num(yc - r)} c`,
+        `${num(x + k)} ${num(yc - r)} ${num(x + r)} ${num(yc - k)} ${num(x + r)} ${num(yc)} c`,
+      ].join('\n');
+      shape(path, style.fill || style.stroke ? style : { ...style, stroke: [0, 0, 0] });
+    },
+    polygon(points: [number, number][], style: PdfShapeStyle = {}) {
+      if (points.length < 3) return;
+      const path = points.map(([px, py], i) => `${num(px)} ${y(py)} ${i === 0 ? 'm' : 'l'}`).join(' ') + ' h';
+      shape(path, style.fill || style.stroke ? style : { ...style, fill: [0, 0, 0] });
+    },
+    /** The finished file */
+    toBuffer(): Buffer {
+      const objects: Buffer[] = [];
+      const add = (body: string | Buffer) => {
+        objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+        return objects.length;
+      };
+
+      const catalogId = add('');   // Filled in once the page tree exists
+      const pagesId = add('');
+      const fontIds = (Object.keys(FONT_RESOURCES) as PdfFont[]).map((font) =>
+        add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].base} /Encoding /WinAnsiEncoding >>`)
+      );
+      const fontDict = (Object.keys(FONT_RESOURCES) as PdfFont[])
+        .map((font, i) => `/${FONT_RESOURCES[font].name} ${fontIds[i]} 0 R`)
+        .join(' ');
+
+      const pageIds = pages.map((ops) => {
+        const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+        const contentId = add(
+          Buffer.concat([
+            Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+            content,
+            Buffer.from('\nendstream', 'latin1'),
+          ])
+        );
+        return add(
+          `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+          `/Resources << /Font << ${fontDict} >> >> /Contents ${contentId} 0 R >>`
+        );
+      });
+      objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+      objects[pagesId - 1] = Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+        'latin1'
+      );
+
+      const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      let offset = chunks[0].length;
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        const chunk = Buffer.concat([
+          Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+          body,
+          Buffer.from('\nendobj\n', 'latin1'),
+        ]);
+        offsets.push(offset);
+        offset += chunk.length;
+        chunks.push(chunk);
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF',
+      ].join('\n');
+      chunks.push(Buffer.from(xref + '\n', 'latin1'));
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
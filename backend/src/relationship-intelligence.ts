@@ -9,31 +9,23 @@
 // Complexity: O(T log T)  (dominated by per-pair timestamp sorting)
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { AccountNode, RawTransaction } from './types';
+import { AccountNode, DetectionConfig, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG, daysToMs } from './detection-config';
+import { recordScoreChange } from './score-contributions';
 
-// ─── CONSTANTS ───────────────────────────────────────────────────────────────
-
-/** Minimum number of transactions for a pair to be considered "recurring" */
-const MIN_RECURRING_TX_COUNT = 3;
-
-/** Minimum span (ms) a pair must cover to qualify as recurring (30 days) */
-const MIN_RECURRING_SPAN_MS = 30 * 24 * 60 * 60 * 1000;
-
-/** Maximum total score reduction per account from this module */
-const MAX_TOTAL_REDUCTION = 50;
-
-/** Duration thresholds (ms) for Relationship Duration Analysis */
-const DURATION_TIER_1_MS = 60 * 24 * 60 * 60 * 1000;   // 60 days
-const DURATION_TIER_2_MS = 120 * 24 * 60 * 60 * 1000;   // 120 days
-
-/** Coefficient-of-variation threshold for Amount Consistency */
-const CV_THRESHOLD = 0.20; // 20%
-
-/** Fraction of intervals that must fall within ±25 % of the mean */
-const PERIODICITY_MATCH_RATIO = 0.70; // 70%
+// ─── THRESHOLDS ──────────────────────────────────────────────────────────────
+// All thresholds come from DetectionConfig.relationship_intelligence:
+//
+//   min_recurring_tx_count   Minimum transactions for a pair to be "recurring" (3)
+//   min_recurring_span_days  Minimum span a recurring pair must cover (30 days)
+//   max_total_reduction      Maximum total score reduction per account (50)
+//   duration_tier_1_days     Relationship Duration Analysis tier 1 (60 days)
+//   duration_tier_2_days     Relationship Duration Analysis tier 2 (120 days)
+//   cv_threshold             Coefficient-of-variation threshold (20%)
+//   periodicity_match_ratio  Fraction of intervals within tolerance (70%)
+//   periodicity_tolerance    Tolerance band around the mean interval (±25%)
 
-/** Tolerance band around the mean interval for periodicity check */
-const PERIODICITY_TOLERANCE = 0.25; // ±25 %
+type RelationshipConfig = DetectionConfig['relationship_intelligence'];
 
 // ─── HELPER: parse timestamp to epoch ms ─────────────────────────────────────
 function toEpoch(ts: string): number {
@@ -54,6 +46,7 @@ interface PairStats {
   amounts: number[];
   timestamps: number[];  // sorted ascending (epoch ms)
   spanMs: number;        // latest - earliest
+  transactionIds: string[];
 }
 
 interface ScoreReduction {
@@ -61,6 +54,7 @@ interface ScoreReduction {
   duration: number;
   consistency: number;
   periodicity: number;
+  pairs: PairStats[];    // Qualifying pairs the account is part of
 }
 
 // ─── MAIN EXPORT ─────────────────────────────────────────────────────────────
@@ -69,20 +63,26 @@ interface ScoreReduction {
  * Adjust suspicion scores downward for accounts that participate in
  * demonstrably legitimate recurring financial relationships.
  *
- * This function mutates the `suspicion_score`, `explanation`, and
+ * This function mutates the `suspicion_score`, `score_contributions`, and
  * `triggered_algorithms` fields on the supplied AccountNode objects.
  *
  * @param accounts        Array of all account nodes (will be mutated)
  * @param transactions    Full transaction dataset
  * @param cycleMembers    Set of account IDs that belong to detected fraud
  *                        cycles — these are NEVER adjusted
+ * @param config          Relationship intelligence thresholds
  * @returns               The same `accounts` array (mutated in-place)
  */
 export function adjustScoresUsingRelationshipIntelligence(
   accounts: AccountNode[],
   transactions: RawTransaction[],
   cycleMembers: Set<string>,
+  config: RelationshipConfig = DEFAULT_DETECTION_CONFIG.relationship_intelligence,
 ): AccountNode[] {
+  const minRecurringSpanMs = daysToMs(config.min_recurring_span_days);
+  const durationTier1Ms = daysToMs(config.duration_tier_1_days);
+  const durationTier2Ms = daysToMs(config.duration_tier_2_days);
+
   // ── Step 1: Build per-pair statistics ────────────────────────────────────
   // Group transactions by directed sender→receiver pair.
   // O(T) to group, O(T log T) total after per-pair sort.
@@ -99,11 +99,13 @@ export function adjustScoresUsingRelationshipIntelligence(
         amounts: [],
         timestamps: [],
         spanMs: 0,
+        transactionIds: [],
       };
       pairMap.set(key, stats);
     }
     stats.amounts.push(tx.amount);
     stats.timestamps.push(toEpoch(tx.timestamp));
+    stats.transactionIds.push(tx.transaction_id);
   }
 
   // Sort timestamps per pair and compute span — O(T log T) total
@@ -114,13 +116,14 @@ export function adjustScoresUsingRelationshipIntelligence(
   }
 
   // ── Step 2: Identify qualifying recurring pairs ──────────────────────────
-  // A pair qualifies if it has ≥3 transactions spanning ≥30 days.
+  // A pair qualifies if it has ≥min_recurring_tx_count transactions spanning
+  // ≥min_recurring_span_days (defaults: 3 transactions, 30 days).
 
   const qualifyingPairs: PairStats[] = [];
   for (const stats of pairMap.values()) {
     if (
-      stats.amounts.length >= MIN_RECURRING_TX_COUNT &&
-      stats.spanMs >= MIN_RECURRING_SPAN_MS
+      stats.amounts.length >= config.min_recurring_tx_count &&
+      stats.spanMs >= minRecurringSpanMs
     ) {
       qualifyingPairs.push(stats);
     }
@@ -135,7 +138,7 @@ export function adjustScoresUsingRelationshipIntelligence(
   const ensureReduction = (id: string): ScoreReduction => {
     let r = accountReductions.get(id);
     if (!r) {
-      r = { recurring: 0, duration: 0, consistency: 0, periodicity: 0 };
+      r = { recurring: 0, duration: 0, consistency: 0, periodicity: 0, pairs: [] };
       accountReductions.set(id, r);
     }
     return r;
@@ -152,9 +155,9 @@ export function adjustScoresUsingRelationshipIntelligence(
 
     // ── B) Relationship Duration Analysis ──────────────────────────────
     let durationReduction = 0;
-    if (pair.spanMs >= DURATION_TIER_2_MS) {
+    if (pair.spanMs >= durationTier2Ms) {
       durationReduction = 20;
-    } else if (pair.spanMs >= DURATION_TIER_1_MS) {
+    } else if (pair.spanMs >= durationTier1Ms) {
       durationReduction = 10;
     }
 
@@ -174,10 +177,10 @@ export function adjustScoresUsingRelationshipIntelligence(
         // Coefficient of variation
         const cv = stdDev / mean;
 
-        if (cv < CV_THRESHOLD) {
+        if (cv < config.cv_threshold) {
           // More consistent → more reduction (max 15 pts)
-          // cv = 0 → 15,  cv = 0.20 → 0
-          consistencyReduction = Math.round(15 * (1 - cv / CV_THRESHOLD));
+          // cv = 0 → 15,  cv = cv_threshold → 0
+          consistencyReduction = Math.round(15 * (1 - cv / config.cv_threshold));
         }
       }
     }
@@ -194,17 +197,18 @@ export function adjustScoresUsingRelationshipIntelligence(
       const avgGap = gaps.reduce((s, g) => s + g, 0) / gaps.length;
 
       if (avgGap > 0) {
-        // Count gaps within ±25 % of the average
-        const lo = avgGap * (1 - PERIODICITY_TOLERANCE);
-        const hi = avgGap * (1 + PERIODICITY_TOLERANCE);
+        // Count gaps within ±periodicity_tolerance of the average
+        const lo = avgGap * (1 - config.periodicity_tolerance);
+        const hi = avgGap * (1 + config.periodicity_tolerance);
         const matchCount = gaps.filter((g) => g >= lo && g <= hi).length;
         const matchRatio = matchCount / gaps.length;
 
-        if (matchRatio >= PERIODICITY_MATCH_RATIO) {
-          // Scale: 70 % match → 10 pts, 100 % match → 20 pts
-          periodicityReduction = Math.round(
-            10 + ((matchRatio - PERIODICITY_MATCH_RATIO) / (1 - PERIODICITY_MATCH_RATIO)) * 10,
-          );
+        if (matchRatio >= config.periodicity_match_ratio) {
+          // Scale: match_ratio threshold → 10 pts, 100 % match → 20 pts
+          const headroom = 1 - config.periodicity_match_ratio;
+          periodicityReduction = headroom > 0
+            ? Math.round(10 + ((matchRatio - config.periodicity_match_ratio) / headroom) * 10)
+            : 20;
         }
       }
     }
@@ -216,6 +220,7 @@ export function adjustScoresUsingRelationshipIntelligence(
       r.duration = Math.max(r.duration, durationReduction);
       r.consistency = Math.max(r.consistency, consistencyReduction);
       r.periodicity = Math.max(r.periodicity, periodicityReduction);
+      r.pairs.push(pair);
     }
   }
 
@@ -231,17 +236,16 @@ export function adjustScoresUsingRelationshipIntelligence(
     const r = accountReductions.get(account.account_id);
     if (!r) continue;
 
-    // Sum individual reductions, cap at MAX_TOTAL_REDUCTION
+    // Sum individual reductions, cap at max_total_reduction
     const totalReduction = Math.min(
-      MAX_TOTAL_REDUCTION,
+      config.max_total_reduction,
       r.recurring + r.duration + r.consistency + r.periodicity,
     );
 
     if (totalReduction <= 0) continue;
 
-    // Apply reduction — floor at 0
     const oldScore = account.suspicion_score;
-    account.suspicion_score = Math.max(0, oldScore - totalReduction);
+    const newScore = Math.max(0, oldScore - totalReduction);
 
     // Update metadata so the adjustment is visible in the output
     account.triggered_algorithms.push('relationship_intelligence');
@@ -254,11 +258,15 @@ export function adjustScoresUsingRelationshipIntelligence(
     if (r.periodicity > 0) parts.push(`monthly_periodicity(-${r.periodicity})`);
 
     const detail = parts.join(', ');
-    const note =
-      ` | Relationship Intelligence: score reduced by ${totalReduction}` +
-      ` (${oldScore}→${account.suspicion_score}) [${detail}]`;
 
-    account.explanation += note;
+    // Apply reduction — floor at 0
+    recordScoreChange(account, newScore, {
+      stage: 'relationship_intelligence',
+      algorithm: 'Relationship Intelligence',
+      reason: `Relationship Intelligence: score reduced by ${totalReduction} (${oldScore}→${newScore}) [${detail}]`,
+      transaction_ids: r.pairs.flatMap((pair) => pair.transactionIds),
+      counterparties: r.pairs.map((pair) => (pair.sender === account.account_id ? pair.receiver : pair.sender)),
+    });
 
     // If score dropped to 0, the account is no longer suspicious
     account.is_suspicious = account.suspicion_score > 0;
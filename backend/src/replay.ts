@@ -0,0 +1,190 @@
+// RIFT 2026 – Transaction Feed Replay
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Local test harness for streaming detection.  Replays a transaction CSV in
+//   timestamp order with time compression, either into a running server
+//   (POST /api/stream/transactions) or into an in-process detector, and
+//   prints every alert as it is raised.
+//
+// USAGE
+//   npm run replay -- <file.csv> [options]
+//
+//   --speed <n>       Feed seconds replayed per real second (default 3600:
+//                     one hour of transactions per second)
+//   --max-gap <s>     Longest real-time pause between transactions (default 2)
+//   --url <url>       Server to push to (default http://localhost:8080)
+//   --local           Run an in-process detector instead of using a server
+//   --reset           Clear the server's live detector first
+//   --delimiter <d>   CSV delimiter (default: detected from the header)
+//
+// Transactions due within the same millisecond are sent as one request.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import fs from 'fs';
+import { validateAndParseCSV } from './csv-validator';
+import { normalizeDelimiter } from './csv-tokenizer';
+import { createStreamDetector } from './stream-detection';
+import { RawTransaction, StreamAlert } from './types';
+
+const MAX_REQUEST_BATCH = 500;
+
+interface ReplayOptions {
+  file: string;
+  speed: number;
+  maxGapMs: number;
+  url: string;
+  local: boolean;
+  reset: boolean;
+  delimiter?: string;
+}
+
+/** Delivers a batch of transactions and resolves with the alerts it raised */
+type Sink = (batch: RawTransaction[]) => Promise<StreamAlert[]>;
+
+function usage(message: string): never {
+  console.error(`${message}\n\nUsage: npm run replay -- <file.csv> [--speed <n>] [--max-gap <s>] [--url <url>] [--local] [--reset] [--delimiter <d>]`);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+  const options: Partial<ReplayOptions> = {
+    speed: 3600,
+    maxGapMs: 2000,
+    url: 'http://localhost:8080',
+    local: false,
+    reset: false,
+  };
+  const positive = (flag: string, value: string | undefined): number => {
+    const n = Number(value);
+    if (!(n > 0)) usage(`${flag} must be a positive number`);
+    return n;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--speed': options.speed = positive(arg, argv[++i]); break;
+      case '--max-gap': options.maxGapMs = positive(arg, argv[++i]) * 1000; break;
+      case '--url': options.url = argv[++i]?.replace(/\/+$/, ''); break;
+      case '--local': options.local = true; break;
+      case '--reset': options.reset = true; break;
+      case '--delimiter': {
+        const delimiter = normalizeDelimiter(argv[++i] ?? '');
+        if (!delimiter) usage('--delimiter must be a single character (or comma, semicolon, tab, pipe)');
+        options.delimiter = delimiter;
+        break;
+      }
+      default:
+        if (arg.startsWith('--') || options.file) usage(`Unexpected argument: ${arg}`);
+        options.file = arg;
+    }
+  }
+
+  if (!options.file) usage('No CSV file given');
+  if (!options.url) usage('--url requires a value');
+  return options as ReplayOptions;
+}
+
+// ─── Sinks ───────────────────────────────────────────────────────────────────
+
+function createLocalSink(): Sink {
+  const detector = createStreamDetector();
+  return async (batch) => batch.flatMap((tx) => detector.push(tx));
+}
+
+/** Body of the stream endpoints' JSON responses */
+interface StreamResponse {
+  success: boolean;
+  alerts?: StreamAlert[];
+  error?: string;
+  errors?: string[];
+}
+
+async function postJson(url: string, body: unknown): Promise<StreamResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = (await response.json()) as StreamResponse;
+  if (!response.ok || !data.success) {
+    const details = data.errors ? `: ${data.errors.slice(0, 3).join('; ')}` : '';
+    throw new Error(`${url} responded ${response.status} ${data.error ?? ''}${details}`);
+  }
+  return data;
+}
+
+function createHttpSink(baseUrl: string): Sink {
+  return async (batch) => {
+    const data = await postJson(`${baseUrl}/api/stream/transactions`, { transactions: batch });
+    return data.alerts ?? [];
+  };
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function printAlert(alert: StreamAlert): void {
+  const label = alert.type.replace('_', '-').toUpperCase().padEnd(7);
+  console.log(`[${alert.event_time}] ${label} ${alert.explanation}`);
+}
+
+async function replay(options: ReplayOptions): Promise<void> {
+  const validation = validateAndParseCSV(fs.readFileSync(options.file, 'utf-8'), {
+    delimiter: options.delimiter,
+  });
+  if (!validation.success || validation.transactions.length === 0) {
+    validation.errors.slice(0, 10).forEach((error) => console.error(error));
+    throw new Error(`${options.file} has no valid transactions`);
+  }
+
+  const transactions = validation.transactions
+    .map((tx) => ({ tx, time: new Date(tx.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  if (!options.local && options.reset) {
+    await postJson(`${options.url}/api/stream/reset`, {});
+  }
+  const sink = options.local ? createLocalSink() : createHttpSink(options.url);
+  console.log(
+    `Replaying ${transactions.length} transactions from ${options.file} at ${options.speed}x `
+    + `${options.local ? 'into a local detector' : `to ${options.url}`}`,
+  );
+
+  const counts: Record<string, number> = { fan_in: 0, fan_out: 0, cycle: 0 };
+  const startedAt = Date.now();
+  let batch: RawTransaction[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const alerts = await sink(batch);
+    batch = [];
+    for (const alert of alerts) {
+      counts[alert.type]++;
+      printAlert(alert);
+    }
+  };
+
+  let previousTime = transactions[0].time;
+  for (const { tx, time } of transactions) {
+    const waitMs = Math.min((time - previousTime) / options.speed, options.maxGapMs);
+    if (waitMs >= 1 || batch.length >= MAX_REQUEST_BATCH) {
+      await flush();
+      if (waitMs >= 1) await sleep(waitMs);
+    }
+    batch.push(tx);
+    previousTime = time;
+  }
+  await flush();
+
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  console.log(
+    `Done in ${seconds}s: ${counts.fan_in} fan-in, ${counts.fan_out} fan-out, ${counts.cycle} cycle alerts`,
+  );
+}
+
+replay(parseArgs(process.argv.slice(2))).catch((error) => {
+  console.error(`Replay failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+// RIFT 2026 – Appending to Runs
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Transaction feeds arrive daily.  Appending a batch to a persisted run
+//   adds it to the run's transactions, re-analyses the merged list on the
+//   job queue, updates the run in place and reports what the batch changed.
+//
+// COST
+//   Every stage reruns on the merged list, so an append costs about the same
+//   as analysing the full history again.  Graph metrics, communities and
+//   scoring depend on the whole graph; the batch only saves a re-upload.
+//
+// DELTA
+//   Accounts are compared by ID.  Rings are matched by pattern and members —
+//   fan-in / fan-out rings by their hub account, since new senders or
+//   receivers extend the same ring, cycle rings by their transactions —
+//   because ring IDs are renumbered.
+//
+// CONCURRENCY
+//   One append per run at a time; a second one is rejected while the first
+//   is queued or running so neither overwrites the other's result.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AnalysisDelta, AnalysisJob, AnalysisResult, AnalysisRun, FraudRing, RawTransaction } from './types';
+import { getAnalysisJob, submitAnalysisJob } from './job-queue';
+import { updateRun } from './run-store';
+import { listDispositions } from './disposition-store';
+import { loadAllWatchlists } from './watchlist-store';
+
+/** run_id → job_id of the append currently queued or running for it */
+const pendingAppends = new Map<string, string>();
+
+/**
+ * Drop batch transactions whose transaction_id is already in the run (feeds
+ * often overlap the previous day).  Returns the skipped IDs.
+ */
+export function splitBatch(
+  existing: RawTransaction[],
+  batch: RawTransaction[],
+): { transactions: RawTransaction[]; duplicates: string[] } {
+  const knownIds = new Set(existing.map((tx) => tx.transaction_id));
+  const transactions: RawTransaction[] = [];
+  const duplicates: string[] = [];
+  for (const tx of batch) {
+    if (knownIds.has(tx.transaction_id)) duplicates.push(tx.transaction_id);
+    else transactions.push(tx);
+  }
+  return { transactions, duplicates };
+}
+
+/** Job ID of an unfinished append for the run, if any. */
+export function findPendingAppend(runId: string): string | undefined {
+  const jobId = pendingAppends.get(runId);
+  if (!jobId) return undefined;
+  const job = getAnalysisJob(jobId);
+  if (job && (job.status === 'queued' || job.status === 'running')) return jobId;
+  pendingAppends.delete(runId);
+  return undefined;
+}
+
+/**
+ * Queue an append of `batch` (already validated, normalized and de-duplicated)
+ * to a run.  On completion the run is updated in place and the job carries
+ * the run_id and the delta.  With `debug` the updated result carries stage
+ * snapshots of the re-analysis; without it the result has none.
+ */
+export function submitAppendJob(
+  run: AnalysisRun,
+  batch: RawTransaction[],
+  fileHash: string,
+  debug = false,
+): AnalysisJob {
+  const job = submitAnalysisJob({
+    transactions: batch,
+    mode: run.mode,
+    config: run.config,
+    reportingCurrency: run.reporting_currency,
+    debug,
+    dispositions: listDispositions(),
+    watchlists: loadAllWatchlists(),
+    previous: { transactions: run.result.transactions },
+    onComplete: (result) => {
+      const delta = computeAnalysisDelta(run.result, result, batch.length);
+      try {
+        updateRun(run.run_id, {
+          result,
+          batch: { appended_at: new Date().toISOString(), file_hash: fileHash, transaction_count: batch.length },
+        });
+      } catch (error) {
+        console.error(`Failed to persist append to run ${run.run_id}:`, error);
+      }
+      return { run_id: run.run_id, delta };
+    },
+  });
+  pendingAppends.set(run.run_id, job.job_id);
+  return job;
+}
+
+// ─── Delta ───────────────────────────────────────────────────────────────────
+
+function ringKey(ring: FraudRing): string {
+  if (ring.pattern_type === 'fan_in' || ring.pattern_type === 'fan_out') {
+    return `${ring.pattern_type}:${ring.members[0]}`;
+  }
+  // Repeated rounds through the same accounts are separate cycle rings
+  if (ring.transaction_ids) return `${ring.pattern_type}:${ring.transaction_ids.join(',')}`;
+  return `${ring.pattern_type}:${[...ring.members].sort().join(',')}`;
+}
+
+/** Compare the analysis before and after an append. */
+export function computeAnalysisDelta(
+  before: AnalysisResult,
+  after: AnalysisResult,
+  appendedTransactions: number,
+): AnalysisDelta {
+  const previousAccounts = new Map(before.accounts.map((a) => [a.account_id, a]));
+  const newAccounts: string[] = [];
+  const newlyFlagged: string[] = [];
+  const scoreChanges: AnalysisDelta['score_changes'] = [];
+
+  for (const account of after.accounts) {
+    const previous = previousAccounts.get(account.account_id);
+    if (!previous) newAccounts.push(account.account_id);
+    if (account.suspicion_score > 0 && !(previous && previous.suspicion_score > 0)) {
+      newlyFlagged.push(account.account_id);
+    }
+    const previousScore = previous?.suspicion_score ?? 0;
+    if (account.suspicion_score !== previousScore) {
+      scoreChanges.push({
+        account_id: account.account_id,
+        previous_score: previousScore,
+        score: account.suspicion_score,
+      });
+    }
+  }
+  scoreChanges.sort((a, b) => Math.abs(b.score - b.previous_score) - Math.abs(a.score - a.previous_score));
+
+  const previousRings = new Map(before.fraudRings.map((r) => [ringKey(r), r]));
+  const matched = new Set<string>();
+  const newRings: FraudRing[] = [];
+  const changedRings: AnalysisDelta['changed_rings'] = [];
+
+  for (const ring of after.fraudRings) {
+    const key = ringKey(ring);
+    const previous = previousRings.get(key);
+    if (!previous) {
+      newRings.push(ring);
+      continue;
+    }
+    matched.add(key);
+    if (
+      previous.risk_score !== ring.risk_score
+      || previous.member_count !== ring.member_count
+      || previous.total_value !== ring.total_value
+    ) {
+      changedRings.push({
+        ring,
+        previous_ring_id: previous.ring_id,
+        previous_risk_score: previous.risk_score,
+        previous_member_count: previous.member_count,
+      });
+    }
+  }
+
+  const removedRings = before.fraudRings
+    .filter((r) => !matched.has(ringKey(r)))
+    .map((r) => r.ring_id);
+
+  return {
+    appended_transactions: appendedTransactions,
+    new_accounts: newAccounts,
+    newly_flagged: newlyFlagged,
+    score_changes: scoreChanges,
+    new_rings: newRings,
+    changed_rings: changedRings,
+    removed_rings: removedRings,
+  };
+}
@@ -0,0 +1,147 @@
+// RIFT 2026 – Analysis Run Store
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Persist every completed analysis so investigators can reopen earlier
+//   results without re-uploading.  A run records what was analysed (file
+//   hash and name), how (mode, effective config, reporting currency), when,
+//   and the full AnalysisResult.  Batches appended later (run-append)
+//   update the run in place.
+//
+// STORAGE (file-store, under DATA_DIR)
+//   runs/<run_id>.json   Full AnalysisRun
+//   runs/index.json      AnalysisRunSummary[] — lets GET /api/runs list runs
+//                        without loading every result
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHash, randomUUID } from 'crypto';
+import { Transform } from 'stream';
+import {
+  AnalysisResult,
+  AnalysisRun,
+  AnalysisRunSummary,
+  AppendedBatch,
+  DetectionMode,
+} from './types';
+import { deleteJsonFile, readJsonFile, writeJsonFile } from './file-store';
+
+const INDEX_FILE = 'runs/index.json';
+const RUN_ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export interface NewRun {
+  created_at: string;
+  file_name?: string;
+  file_hash: string;
+  mode: DetectionMode;
+  result: AnalysisResult;
+}
+
+function runFile(runId: string): string {
+  return `runs/${runId}.json`;
+}
+
+/** Run IDs are UUIDs; anything else never reaches the filesystem. */
+export function isValidRunId(runId: string): boolean {
+  return RUN_ID_REGEX.test(runId);
+}
+
+// ─── Input hashing ───────────────────────────────────────────────────────────
+
+/** sha256 hex digest of an uploaded CSV. */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Pass-through stream that hashes the bytes flowing through it, for
+ * streaming uploads that are never held in memory.  digest() is valid once
+ * the stream has ended.
+ */
+export function createHashingStream(): { stream: Transform; digest: () => string } {
+  const hash = createHash('sha256');
+  const stream = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  return { stream, digest: () => hash.digest('hex') };
+}
+
+// ─── CRUD ────────────────────────────────────────────────────────────────────
+
+function loadIndex(): AnalysisRunSummary[] {
+  return readJsonFile<AnalysisRunSummary[]>(INDEX_FILE, []);
+}
+
+/** Persist a completed analysis and return the stored run. */
+export function saveRun(input: NewRun): AnalysisRun {
+  const summary: AnalysisRunSummary = {
+    run_id: randomUUID(),
+    created_at: input.created_at,
+    completed_at: new Date().toISOString(),
+    ...(input.file_name && { file_name: input.file_name }),
+    file_hash: input.file_hash,
+    mode: input.mode,
+    reporting_currency: input.result.reporting_currency,
+    summary: input.result.summary,
+  };
+  const run: AnalysisRun = { ...summary, config: input.result.config, result: input.result };
+
+  // Write the run before indexing it so the index never points at nothing
+  writeJsonFile(runFile(summary.run_id), run);
+  writeJsonFile(INDEX_FILE, [...loadIndex(), summary]);
+  return run;
+}
+
+/** Replace a run's result after appending a batch; returns the updated run. */
+export function updateRun(
+  runId: string,
+  update: { result: AnalysisResult; batch: AppendedBatch },
+): AnalysisRun | undefined {
+  const run = getRun(runId);
+  if (!run) return undefined;
+
+  const updated: AnalysisRun = {
+    ...run,
+    summary: update.result.summary,
+    updated_at: update.batch.appended_at,
+    result: update.result,
+    batches: [...(run.batches ?? []), update.batch],
+  };
+  writeJsonFile(runFile(runId), updated);
+
+  const summary: AnalysisRunSummary = {
+    run_id: updated.run_id,
+    created_at: updated.created_at,
+    completed_at: updated.completed_at,
+    ...(updated.file_name && { file_name: updated.file_name }),
+    file_hash: updated.file_hash,
+    mode: updated.mode,
+    reporting_currency: updated.reporting_currency,
+    summary: updated.summary,
+    updated_at: updated.updated_at,
+  };
+  writeJsonFile(INDEX_FILE, loadIndex().map((r) => (r.run_id === runId ? summary : r)));
+  return updated;
+}
+
+/** Run summaries, newest first. */
+export function listRuns(): AnalysisRunSummary[] {
+  return loadIndex().sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function getRun(runId: string): AnalysisRun | undefined {
+  if (!isValidRunId(runId)) return undefined;
+  return readJsonFile<AnalysisRun | undefined>(runFile(runId), undefined);
+}
+
+/** Delete a run; returns false when it did not exist. */
+export function deleteRun(runId: string): boolean {
+  if (!isValidRunId(runId)) return false;
+  const index = loadIndex();
+  const remaining = index.filter((r) => r.run_id !== runId);
+  const existed = deleteJsonFile(runFile(runId));
+  if (remaining.length !== index.length) writeJsonFile(INDEX_FILE, remaining);
+  return existed || remaining.length !== index.length;
+}
@@ -0,0 +1,58 @@
+// ─── SCORE CONTRIBUTIONS ─────────────────────────────────────────────────────
+// The evidence chain behind an account's suspicion score.  Every pipeline
+// stage that changes a score records the change as a ScoreContribution:
+// which stage and algorithm, by how much, why, and the transactions and
+// counterparties that support it.  Stages that only add a finding (community
+// membership, fan-in validation) record a contribution with delta 0.
+//
+// Contributions are kept in pipeline order, so replaying their deltas from 0
+// reproduces the final score.  The legacy `explanation` string is derived
+// from the reasons once the pipeline is done.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AccountNode, AnalysisStage, ScoreContribution } from './types';
+
+/** Supporting transaction IDs and counterparties kept per contribution */
+export const MAX_SUPPORTING_IDS = 25;
+
+export interface ContributionInput {
+  stage: AnalysisStage;
+  algorithm: string;
+  reason: string;
+  transaction_ids?: Iterable<string>;
+  counterparties?: Iterable<string>;
+}
+
+function firstDistinct(ids: Iterable<string>, exclude: string): string[] {
+  const kept = new Set<string>();
+  for (const id of ids) {
+    if (kept.size === MAX_SUPPORTING_IDS) break;
+    if (id !== exclude) kept.add(id);
+  }
+  return [...kept];
+}
+
+/** Set the account's score to `newScore` and record the change */
+export function recordScoreChange(account: AccountNode, newScore: number, input: ContributionInput): void {
+  const contribution: ScoreContribution = {
+    stage: input.stage,
+    algorithm: input.algorithm,
+    delta: newScore - account.suspicion_score,
+    score_after: newScore,
+    reason: input.reason,
+    transaction_ids: firstDistinct(input.transaction_ids ?? [], ''),
+    counterparties: firstDistinct(input.counterparties ?? [], account.account_id),
+  };
+  account.suspicion_score = newScore;
+  (account.score_contributions ??= []).push(contribution);
+}
+
+/** Record a finding that leaves the score unchanged */
+export function recordFinding(account: AccountNode, input: ContributionInput): void {
+  recordScoreChange(account, account.suspicion_score, input);
+}
+
+/** The legacy explanation string: every reason, in pipeline order */
+export function explanationFromContributions(contributions: ScoreContribution[]): string {
+  return contributions.map((c) => c.reason.replace(/\.$/, '')).join('. ');
+}
@@ -0,0 +1,531 @@
+// RIFT 2026 – Streaming Detection
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Online counterparts of the batch fan-in / fan-out and cycle passes for a
+//   live transaction feed.  Transactions are pushed one at a time and an
+//   alert is raised the moment a pattern appears, instead of after the next
+//   full analysis.
+//
+// DETECTORS
+//   Fan-in / fan-out   Per-account incoming (outgoing) transactions inside the
+//                      sliding window, with detectFanIn / detectFanOut
+//                      semantics: the window ends at the newest transaction
+//                      and spans window_hours.  An alert fires when the unique
+//                      counterparty count reaches the threshold, and re-arms
+//                      once a later window falls below it.
+//   Cycles             Time-respecting, as in detectTemporalCycles: every
+//                      hop follows the previous one and the cycle fits in
+//                      max_duration_hours.  Each transaction closes the cycles
+//                      it is the last hop of: a backward DFS from the sender
+//                      to the receiver takes, per hop, the latest transaction
+//                      no later than the next hop's, within cycle lengths.
+//                      Like the batch instances, a transaction is used by at
+//                      most one alert of an account sequence, so repeated
+//                      rounds are separate alerts told apart by their
+//                      transaction IDs.
+//
+// MEMORY
+//   Entries older than their window are pruned from an account (edge) when it
+//   receives a new transaction.  Accounts and edges that go quiet, and seen
+//   transaction IDs, are swept whenever event time has advanced by the
+//   shortest window; IDs are kept for the longest.  Memory is therefore
+//   bounded by the traffic inside about two windows, not by the feed length.
+//
+// ORDERING
+//   The feed is expected in roughly chronological order.  A late transaction
+//   is inserted into its window by timestamp but only evaluated against the
+//   window ending at it.  Transaction IDs already seen inside the longest
+//   window are skipped.
+//
+// EVENTS
+//   The detector is an EventEmitter: 'alert' (StreamAlert) for every alert
+//   push() returns, and 'reset' when its state is cleared.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import {
+  DetectionConfig,
+  DetectionConfigInput,
+  RawTransaction,
+  StreamAlert,
+  StreamAlertType,
+  StreamDetectorStats,
+} from './types';
+import { hoursToMs, requireDetectionConfig } from './detection-config';
+
+/** Alerts kept for late subscribers (GET /api/stream, SSE ?replay=true) */
+const RECENT_ALERT_LIMIT = 100;
+
+export interface StreamDetector extends EventEmitter {
+  /** Process one transaction; returns the alerts it raised (also emitted) */
+  push(tx: RawTransaction): StreamAlert[];
+  /** Clear all state, optionally switching to a new config */
+  reset(config?: DetectionConfigInput): void;
+  getConfig(): DetectionConfig;
+  stats(): StreamDetectorStats;
+  /** Most recent alerts, oldest first */
+  recentAlerts(): StreamAlert[];
+}
+
+// ─── Transaction input ───────────────────────────────────────────────────────
+
+/**
+ * Validate a transaction pushed as JSON (same fields as a CSV row).  Amounts
+ * may be numbers or numeric strings.
+ */
+export function parseStreamTransaction(input: unknown): { transaction?: RawTransaction; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Expected a transaction object' };
+  }
+  const raw = input as Record<string, unknown>;
+
+  for (const field of ['transaction_id', 'sender_id', 'receiver_id', 'timestamp'] as const) {
+    const value = raw[field];
+    if (typeof value !== 'string' || !value.trim()) return { error: `Missing ${field}` };
+  }
+
+  const amount = typeof raw.amount === 'string' ? parseFloat(raw.amount) : raw.amount;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return { error: `Invalid amount "${raw.amount}" - must be a positive number` };
+  }
+
+  const timestamp = (raw.timestamp as string).trim();
+  if (isNaN(new Date(timestamp).getTime())) {
+    return { error: `Invalid timestamp "${timestamp}" - expected format: YYYY-MM-DD HH:MM:SS` };
+  }
+
+  return {
+    transaction: {
+      transaction_id: (raw.transaction_id as string).trim(),
+      sender_id: (raw.sender_id as string).trim(),
+      receiver_id: (raw.receiver_id as string).trim(),
+      amount: Math.round(amount * 100) / 100,
+      timestamp,
+    },
+  };
+}
+
+// ─── Sliding-window fan tracker ──────────────────────────────────────────────
+
+interface WindowEntry {
+  counterparty: string;
+  time: number;
+  timestamp: string;
+}
+
+interface FanTracker {
+  windowMs: number;
+  threshold: number;
+  /** account → transactions inside the window, sorted by time */
+  entries: Map<string, WindowEntry[]>;
+  /** Accounts whose latest window is at or above the threshold */
+  active: Set<string>;
+}
+
+interface FanWindow {
+  counterparties: string[];
+  windowStart: string;
+  windowEnd: string;
+}
+
+/** Remove the entries before `horizon` from a time-sorted list; returns how many remain */
+function dropBefore(entries: { time: number }[], horizon: number): number {
+  let expired = 0;
+  while (expired < entries.length && entries[expired].time < horizon) expired++;
+  if (expired > 0) entries.splice(0, expired);
+  return entries.length;
+}
+
+function createFanTracker(windowHours: number, threshold: number): FanTracker {
+  return { windowMs: hoursToMs(windowHours), threshold, entries: new Map(), active: new Set() };
+}
+
+/**
+ * Add a transaction to an account's window.  Returns the window when it has
+ * just crossed the threshold, null otherwise.
+ */
+function trackFan(tracker: FanTracker, account: string, entry: WindowEntry): FanWindow | null {
+  let entries = tracker.entries.get(account);
+  if (!entries) {
+    entries = [];
+    tracker.entries.set(account, entries);
+  }
+
+  // Insert by time (late transactions land inside the window)
+  let index = entries.length;
+  while (index > 0 && entries[index - 1].time > entry.time) index--;
+  entries.splice(index, 0, entry);
+
+  // Prune everything that can no longer share a window with the newest entry
+  const horizon = entries[entries.length - 1].time - tracker.windowMs;
+  dropBefore(entries, horizon);
+  if (entry.time < horizon) return null; // Arrived more than a window late
+
+  // Window ending at this transaction, as the batch sliding window sees it
+  const counterparties = new Set<string>();
+  let start: WindowEntry | undefined;
+  for (const candidate of entries) {
+    if (candidate.time > entry.time) break;
+    if (entry.time - candidate.time > tracker.windowMs) continue;
+    start ??= candidate;
+    counterparties.add(candidate.counterparty);
+  }
+
+  if (counterparties.size < tracker.threshold) {
+    tracker.active.delete(account);
+    return null;
+  }
+  if (tracker.active.has(account)) return null;
+
+  tracker.active.add(account);
+  return {
+    counterparties: [...counterparties],
+    windowStart: start!.timestamp,
+    windowEnd: entry.timestamp,
+  };
+}
+
+// ─── Timed edge graph ────────────────────────────────────────────────────────
+
+interface EdgeTransaction {
+  transaction_id: string;
+  time: number;
+  /** Account sequences of cycle alerts that used this transaction */
+  cycles?: Set<string>;
+}
+
+/** Sorted by time; shared between the sender's and the receiver's maps */
+type EdgeTransactions = EdgeTransaction[];
+
+interface ClosedCycle {
+  members: string[];
+  transaction_ids: string[];
+  durationMs: number;
+}
+
+// ─── Detector ────────────────────────────────────────────────────────────────
+
+interface DetectorState {
+  config: DetectionConfig;
+  /** Transaction ID → event time, for IDs inside the longest window */
+  seenIds: Map<string, number>;
+  /** sender → receiver → transactions inside the cycle window */
+  outgoing: Map<string, Map<string, EdgeTransactions>>;
+  /** receiver → sender → the same transaction lists */
+  incoming: Map<string, Map<string, EdgeTransactions>>;
+  /** Accounts with a transaction in a fan window or on a cycle edge */
+  accounts: Set<string>;
+  edgeCount: number;
+  fanIn: FanTracker;
+  fanOut: FanTracker;
+  alertCounts: Record<StreamAlertType, number>;
+  processed: number;
+  duplicates: number;
+  /** Longest window: how long seen IDs are kept */
+  retentionMs: number;
+  /** Shortest window: event time between sweeps */
+  sweepIntervalMs: number;
+  nextSweep: number;
+  lastEventTime: number;
+  lastEventTimestamp: string | null;
+  recent: StreamAlert[];
+}
+
+function createState(config: DetectionConfig): DetectorState {
+  const windows = [
+    config.fan_in.window_hours,
+    config.fan_out.window_hours,
+    config.cycles.max_duration_hours,
+  ].map(hoursToMs);
+  return {
+    config,
+    seenIds: new Map(),
+    outgoing: new Map(),
+    incoming: new Map(),
+    accounts: new Set(),
+    edgeCount: 0,
+    fanIn: createFanTracker(config.fan_in.window_hours, config.fan_in.min_unique_senders),
+    fanOut: createFanTracker(config.fan_out.window_hours, config.fan_out.min_unique_receivers),
+    alertCounts: { fan_in: 0, fan_out: 0, cycle: 0 },
+    processed: 0,
+    duplicates: 0,
+    retentionMs: Math.max(...windows),
+    sweepIntervalMs: Math.min(...windows),
+    nextSweep: -Infinity,
+    lastEventTime: -Infinity,
+    lastEventTimestamp: null,
+    recent: [],
+  };
+}
+
+/**
+ * Add a transaction to its edge, pruning the edge's transactions that fall
+ * before `horizon`.  Returns the stored entry.
+ */
+function addEdgeTransaction(
+  state: DetectorState,
+  tx: RawTransaction,
+  time: number,
+  horizon: number,
+): EdgeTransaction {
+  let receivers = state.outgoing.get(tx.sender_id);
+  if (!receivers) {
+    receivers = new Map();
+    state.outgoing.set(tx.sender_id, receivers);
+  }
+  let entries = receivers.get(tx.receiver_id);
+  if (!entries) {
+    entries = [];
+    receivers.set(tx.receiver_id, entries);
+    if (!state.incoming.has(tx.receiver_id)) state.incoming.set(tx.receiver_id, new Map());
+    state.incoming.get(tx.receiver_id)!.set(tx.sender_id, entries);
+    state.edgeCount++;
+  }
+
+  const entry: EdgeTransaction = { transaction_id: tx.transaction_id, time };
+  let index = entries.length;
+  while (index > 0 && entries[index - 1].time > time) index--;
+  entries.splice(index, 0, entry);
+
+  dropBefore(entries, horizon);
+  return entry;
+}
+
+/** Index of the latest transaction in [earliest, bound], or -1 */
+function latestWithin(entries: EdgeTransactions, earliest: number, bound: number, sequence?: string): number {
+  let at = entries.length - 1;
+  while (at >= 0 && entries[at].time > bound) at--;
+  if (sequence) while (at >= 0 && entries[at].cycles?.has(sequence)) at--;
+  return at >= 0 && entries[at].time >= earliest ? at : -1;
+}
+
+/** Rotation starting at the smallest account: one key per direction around a set */
+function sequenceKey(members: string[]): string {
+  let first = 0;
+  members.forEach((member, i) => { if (member < members[first]) first = i; });
+  return [...members.slice(first), ...members.slice(0, first)].join(',');
+}
+
+// Cycles that `closing` (sender → receiver at `time`) completes as their last
+// hop, members in flow order from the receiver.  The DFS walks back from the
+// sender with the latest feasible time per hop, which dominates every earlier
+// choice; the instance is then picked with transactions not yet used by an
+// alert of the same account sequence.
+function findClosedCycles(
+  state: DetectorState,
+  tx: RawTransaction,
+  closing: EdgeTransaction,
+): ClosedCycle[] {
+  const { min_length: minLength, max_length: maxLength } = state.config.cycles;
+  const earliest = closing.time - hoursToMs(state.config.cycles.max_duration_hours);
+  const sender = tx.sender_id;
+  const receiver = tx.receiver_id;
+  const cycles: ClosedCycle[] = [];
+  const path = [sender];   // Backwards: path[i + 1] → path[i]
+  const onPath = new Set(path);
+
+  const buildInstance = (): ClosedCycle | null => {
+    const members = [receiver, ...[...path].reverse()];
+    const sequence = sequenceKey(members);
+    if (closing.cycles?.has(sequence)) return null;
+
+    const picks: EdgeTransaction[] = [closing];
+    let bound = closing.time;
+    for (let hop = 0; hop < path.length; hop++) {
+      const from = hop + 1 < path.length ? path[hop + 1] : receiver;
+      const entries = state.outgoing.get(from)!.get(path[hop])!;
+      const at = latestWithin(entries, earliest, bound, sequence);
+      if (at < 0) return null;
+      picks.push(entries[at]);
+      bound = entries[at].time;
+    }
+
+    for (const pick of picks) (pick.cycles ??= new Set()).add(sequence);
+    return {
+      members,
+      transaction_ids: picks.reverse().map((pick) => pick.transaction_id),
+      durationMs: closing.time - bound,
+    };
+  };
+
+  const visit = (node: string, bound: number) => {
+    for (const [pred, entries] of state.incoming.get(node) ?? []) {
+      const at = latestWithin(entries, earliest, bound);
+      if (at < 0) continue;
+      if (pred === receiver) {
+        if (path.length + 1 < minLength) continue;
+        const cycle = buildInstance();
+        if (cycle) cycles.push(cycle);
+      } else if (!onPath.has(pred) && path.length + 1 < maxLength) {
+        path.push(pred);
+        onPath.add(pred);
+        visit(pred, entries[at].time);
+        onPath.delete(pred);
+        path.pop();
+      }
+    }
+  };
+
+  visit(sender, closing.time);
+  return cycles;
+}
+
+/**
+ * Drop what can no longer share a window with the newest transaction: seen
+ * IDs, the windows of accounts that went quiet, and cycle edges.
+ */
+function sweepExpired(state: DetectorState): void {
+  const now = state.lastEventTime;
+  for (const [id, time] of state.seenIds) {
+    if (time < now - state.retentionMs) state.seenIds.delete(id);
+  }
+
+  for (const tracker of [state.fanIn, state.fanOut]) {
+    for (const [account, entries] of tracker.entries) {
+      if (dropBefore(entries, now - tracker.windowMs) > 0) continue;
+      tracker.entries.delete(account);
+      tracker.active.delete(account);
+    }
+  }
+
+  const cycleHorizon = now - hoursToMs(state.config.cycles.max_duration_hours);
+  for (const [sender, receivers] of state.outgoing) {
+    for (const [receiver, entries] of receivers) {
+      if (dropBefore(entries, cycleHorizon) > 0) continue;
+      receivers.delete(receiver);
+      const senders = state.incoming.get(receiver)!;
+      senders.delete(sender);
+      if (senders.size === 0) state.incoming.delete(receiver);
+      state.edgeCount--;
+    }
+    if (receivers.size === 0) state.outgoing.delete(sender);
+  }
+
+  for (const account of state.accounts) {
+    const held =
+      state.fanIn.entries.has(account) ||
+      state.fanOut.entries.has(account) ||
+      state.outgoing.has(account) ||
+      state.incoming.has(account);
+    if (!held) state.accounts.delete(account);
+  }
+
+  state.nextSweep = now + state.sweepIntervalMs;
+}
+
+export function createStreamDetector(configInput?: DetectionConfigInput): StreamDetector {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0); // One listener per SSE subscriber
+  let state = createState(requireDetectionConfig(configInput));
+
+  const raise = (
+    type: StreamAlertType,
+    accounts: string[],
+    tx: RawTransaction,
+    explanation: string,
+    details: Pick<StreamAlert, 'window_start' | 'window_end' | 'transaction_ids'> = {},
+  ): StreamAlert => {
+    const alert: StreamAlert = {
+      alert_id: randomUUID(),
+      type,
+      accounts,
+      trigger_transaction_id: tx.transaction_id,
+      event_time: tx.timestamp,
+      detected_at: new Date().toISOString(),
+      ...details,
+      explanation,
+    };
+    state.alertCounts[type]++;
+    state.recent.push(alert);
+    if (state.recent.length > RECENT_ALERT_LIMIT) state.recent.shift();
+    return alert;
+  };
+
+  const push = (tx: RawTransaction): StreamAlert[] => {
+    if (state.seenIds.has(tx.transaction_id)) {
+      state.duplicates++;
+      return [];
+    }
+    const { config } = state;
+    const time = new Date(tx.timestamp).getTime();
+    state.seenIds.set(tx.transaction_id, time);
+    state.processed++;
+    if (time >= state.lastEventTime) {
+      state.lastEventTime = time;
+      state.lastEventTimestamp = tx.timestamp;
+      if (time >= state.nextSweep) sweepExpired(state);
+    }
+    state.accounts.add(tx.sender_id);
+    state.accounts.add(tx.receiver_id);
+    const alerts: StreamAlert[] = [];
+
+    const fanIn = trackFan(state.fanIn, tx.receiver_id, {
+      counterparty: tx.sender_id, time, timestamp: tx.timestamp,
+    });
+    if (fanIn) {
+      alerts.push(raise(
+        'fan_in',
+        [tx.receiver_id, ...fanIn.counterparties],
+        tx,
+        `${tx.receiver_id} received from ${fanIn.counterparties.length} unique senders within ${config.fan_in.window_hours}h`,
+        { window_start: fanIn.windowStart, window_end: fanIn.windowEnd },
+      ));
+    }
+
+    const fanOut = trackFan(state.fanOut, tx.sender_id, {
+      counterparty: tx.receiver_id, time, timestamp: tx.timestamp,
+    });
+    if (fanOut) {
+      alerts.push(raise(
+        'fan_out',
+        [tx.sender_id, ...fanOut.counterparties],
+        tx,
+        `${tx.sender_id} sent to ${fanOut.counterparties.length} unique receivers within ${config.fan_out.window_hours}h`,
+        { window_start: fanOut.windowStart, window_end: fanOut.windowEnd },
+      ));
+    }
+
+    const horizon = state.lastEventTime - hoursToMs(config.cycles.max_duration_hours);
+    if (tx.sender_id !== tx.receiver_id && time >= horizon) {
+      const closing = addEdgeTransaction(state, tx, time, horizon);
+      for (const cycle of findClosedCycles(state, tx, closing)) {
+        const route = [...cycle.members, cycle.members[0]].join(' → ');
+        alerts.push(raise(
+          'cycle',
+          cycle.members,
+          tx,
+          `Transaction ${tx.transaction_id} closed a ${cycle.members.length}-account cycle: ${route} ` +
+            `via ${cycle.transaction_ids.join(', ')} within ${(cycle.durationMs / 3_600_000).toFixed(1)}h`,
+          { transaction_ids: cycle.transaction_ids },
+        ));
+      }
+    }
+
+    for (const alert of alerts) emitter.emit('alert', alert);
+    return alerts;
+  };
+
+  const reset = (config?: DetectionConfigInput): void => {
+    state = createState(config ? requireDetectionConfig(config) : state.config);
+    emitter.emit('reset');
+  };
+
+  const stats = (): StreamDetectorStats => ({
+    transactions_processed: state.processed,
+    duplicates_skipped: state.duplicates,
+    accounts: state.accounts.size,
+    edges: state.edgeCount,
+    alerts: { ...state.alertCounts },
+    last_event_time: state.lastEventTimestamp,
+  });
+
+  return Object.assign(emitter, {
+    push,
+    reset,
+    getConfig: () => state.config,
+    stats,
+    recentAlerts: () => [...state.recent],
+  });
+}
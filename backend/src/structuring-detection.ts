@@ -0,0 +1,130 @@
+// ─── STRUCTURING DETECTION ───────────────────────────────────────────────────
+// Flags amounts deliberately kept just below a reporting threshold, e.g.
+// repeated 9,500–9,999 transfers against a 10,000 limit.
+//
+//   band        reporting_threshold × (1 − band_pct / 100) ≤ amount
+//               < reporting_threshold
+//   grouping    band transactions are grouped by receiver (the account the
+//               funds are placed into); one sender splitting a sum and several
+//               smurfs feeding the same account are both caught
+//   window      a receiver qualifies when ≥ min_transactions band transactions
+//               fall inside one window_hours sliding window; every transaction
+//               inside a qualifying window is an offending transaction
+//
+// The senders of offending transactions carry the `structuring` pattern; each
+// receiver with offending transactions yields one ring (senders + receiver).
+// Amounts are compared after currency normalization, so the threshold is in
+// the reporting currency.
+//
+// Complexity: O(T + S log S) where S = band transactions
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { DetectionConfig, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG, hoursToMs } from './detection-config';
+import { formatCurrency } from './fx-rates';
+
+type StructuringConfig = DetectionConfig['structuring'];
+
+/** Offending transactions into one receiver */
+export interface StructuringGroup {
+  senders: Set<string>;
+  transactions: RawTransaction[];  // Chronological
+  windowStart: string;
+  windowEnd: string;
+}
+
+const MAX_LISTED_TRANSACTIONS = 10;
+
+/**
+ * Detect structuring.  Returns receiver → offending transactions for every
+ * receiver with at least one qualifying window.
+ */
+export function detectStructuring(
+  transactions: RawTransaction[],
+  config: StructuringConfig = DEFAULT_DETECTION_CONFIG.structuring,
+): Map<string, StructuringGroup> {
+  const groups = new Map<string, StructuringGroup>();
+  const lowerBound = config.reporting_threshold * (1 - config.band_pct / 100);
+  const windowMs = hoursToMs(config.window_hours);
+
+  // Band transactions by receiver
+  const byReceiver = new Map<string, { tx: RawTransaction; time: number }[]>();
+  for (const tx of transactions) {
+    if (tx.amount < lowerBound || tx.amount >= config.reporting_threshold) continue;
+    const entry = { tx, time: new Date(tx.timestamp).getTime() };
+    const list = byReceiver.get(tx.receiver_id);
+    if (list) list.push(entry);
+    else byReceiver.set(tx.receiver_id, [entry]);
+  }
+
+  for (const [receiver, entries] of byReceiver) {
+    if (entries.length < config.min_transactions) continue;
+    entries.sort((a, b) => a.time - b.time);
+
+    // Sliding window; each qualifying window marks its not-yet-marked entries
+    const offending: RawTransaction[] = [];
+    let markedUpTo = 0;
+    let left = 0;
+    for (let right = 0; right < entries.length; right++) {
+      while (entries[right].time - entries[left].time > windowMs) left++;
+      if (right - left + 1 < config.min_transactions) continue;
+      for (let i = Math.max(left, markedUpTo); i <= right; i++) offending.push(entries[i].tx);
+      markedUpTo = right + 1;
+    }
+
+    if (offending.length > 0) {
+      groups.set(receiver, {
+        senders: new Set(offending.map((tx) => tx.sender_id)),
+        transactions: offending,
+        windowStart: offending[0].timestamp,
+        windowEnd: offending[offending.length - 1].timestamp,
+      });
+    }
+  }
+
+  return groups;
+}
+
+/** Band description for explanations: "$9,500–$10,000 band below the reporting threshold" */
+function describeBand(config: StructuringConfig, currency: string): string {
+  const lowerBound = config.reporting_threshold * (1 - config.band_pct / 100);
+  return `${formatCurrency(lowerBound, currency)}–${formatCurrency(config.reporting_threshold, currency)} band below the reporting threshold`;
+}
+
+/**
+ * Explanation for one sender: its offending transactions into `receiver`,
+ * listed with amount and timestamp (first MAX_LISTED_TRANSACTIONS).
+ */
+export function describeStructuringSender(
+  sender: string,
+  receiver: string,
+  group: StructuringGroup,
+  config: StructuringConfig,
+  currency: string,
+): string {
+  const own = group.transactions.filter((tx) => tx.sender_id === sender);
+  const listed = own
+    .slice(0, MAX_LISTED_TRANSACTIONS)
+    .map((tx) => `${tx.transaction_id} (${formatCurrency(tx.amount, currency)}, ${tx.timestamp})`);
+  if (own.length > MAX_LISTED_TRANSACTIONS) listed.push(`and ${own.length - MAX_LISTED_TRANSACTIONS} more`);
+  const others = group.senders.size - 1;
+  return (
+    `Structuring: ${own.length} transaction(s) in the ${describeBand(config, currency)} to ${receiver}` +
+    `${others > 0 ? ` alongside ${others} other sender(s)` : ''} within ${config.window_hours}h: ${listed.join(', ')}`
+  );
+}
+
+/** Ring explanation for one receiver's group */
+export function describeStructuringRing(
+  receiver: string,
+  group: StructuringGroup,
+  config: StructuringConfig,
+  currency: string,
+): string {
+  const total = group.transactions.reduce((sum, tx) => sum + tx.amount, 0);
+  return (
+    `Structuring: ${group.senders.size} sender(s) made ${group.transactions.length} transfers in the ` +
+    `${describeBand(config, currency)} to ${receiver} within ${config.window_hours}h windows ` +
+    `(${group.windowStart} to ${group.windowEnd}). Total value: ${formatCurrency(total, currency)}.`
+  );
+}
@@ -2,28 +2,37 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 //
 // PURPOSE
-//   For every detected cycle (A → B → C → A), verify that the transactions
-//   actually occurred in chronological order.  A cycle is only meaningful when
-//   money can plausibly flow along the path in time.  Additionally, amounts
-//   must not drop more than 50% between consecutive hops (excessive leakage
-//   signals a broken flow, not a laundering circuit).
+//   For every detected cycle (A → B → C → A), verify that money can
+//   plausibly flow along the path.  Amounts must not drop more than 50%
+//   between consecutive hops (excessive leakage signals a broken flow, not a
+//   laundering circuit).
 //
 // VALIDATION RULES
 //   1. Chronological ordering:  t(A→B) ≤ t(B→C) ≤ t(C→A)
-//      Uses the *earliest* qualifying transaction per hop.
-//   2. Amount continuity:  amt(hop_i+1) >= 50% of amt(hop_i)
+//      Guaranteed by cycle-detection, which only reports time-respecting
+//      cycles; re-checked here on the cycle's own transactions.
+//   2. Amount continuity:  amt(hop_i+1) >= min_amount_ratio × amt(hop_i)
+//      (DetectionConfig.temporal_validation, default 50%), over the cycle's
+//      own hop transactions.  Amounts are compared in the reporting currency
+//      (normalized by fx-rates).
 //
 // ACTIONS ON INVALID CYCLES
 //   • Remove the cycle's ring from the fraud_rings list
 //   • Remove the ring_id from member accounts
-//   • Subtract the cycle score contribution (–40) from affected accounts
+//   • Subtract the cycle score contribution (default –40) from affected accounts
 //   • Clamp suspicion_score to [0, 100]
 //
 // INTEGRATION
 //   Called AFTER scoring + fraud-ring construction, BEFORE centrality analysis.
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { AccountNode, FraudRing, RawTransaction } from './types';
+import { AccountNode, DetectionConfig, FraudRing, RawTransaction } from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import { DEFAULT_REPORTING_CURRENCY, formatCurrency } from './fx-rates';
+import { TemporalCycle } from './cycle-detection';
+import { recordScoreChange } from './score-contributions';
+
+type TemporalValidationConfig = DetectionConfig['temporal_validation'];
 
 interface CycleValidationResult {
   /** Ring IDs that were invalidated and removed */
@@ -34,45 +43,13 @@ interface CycleValidationResult {
   invalidCount: number;
 }
 
-// ─── Find the earliest transaction for a directed hop ────────────────────────
-
-function findEarliestTx(
-  from: string,
-  to: string,
-  transactions: RawTransaction[]
-): RawTransaction | undefined {
-  let earliest: RawTransaction | undefined;
-  let earliestTime = Infinity;
-  for (const tx of transactions) {
-    if (tx.sender_id === from && tx.receiver_id === to) {
-      const t = new Date(tx.timestamp).getTime();
-      if (t < earliestTime) {
-        earliestTime = t;
-        earliest = tx;
-      }
-    }
-  }
-  return earliest;
-}
-
 // ─── Validate a single cycle ─────────────────────────────────────────────────
 
 function validateCycle(
-  cycle: string[],
-  transactions: RawTransaction[]
+  hopTxs: RawTransaction[],
+  config: TemporalValidationConfig,
+  currency: string
 ): { valid: boolean; reason?: string } {
-  const hopCount = cycle.length; // cycle: [A,B,C] means hops A→B, B→C, C→A
-  const hopTxs: RawTransaction[] = [];
-
-  for (let i = 0; i < hopCount; i++) {
-    const from = cycle[i];
-    const to = cycle[(i + 1) % hopCount];
-    const tx = findEarliestTx(from, to, transactions);
-    if (!tx) {
-      return { valid: false, reason: `No transaction found for hop ${from} → ${to}` };
-    }
-    hopTxs.push(tx);
-  }
 
   // 1. Chronological ordering: t(hop_0) ≤ t(hop_1) ≤ … ≤ t(hop_n-1)
   for (let i = 1; i < hopTxs.length; i++) {
@@ -86,12 +63,13 @@ function validateCycle(
     }
   }
 
-  // 2. Amount continuity: no hop drops more than 50%
+  // 2. Amount continuity: no hop drops below min_amount_ratio of the previous
+  const maxDropPct = Math.round((1 - config.min_amount_ratio) * 100);
   for (let i = 1; i < hopTxs.length; i++) {
-    if (hopTxs[i].amount < hopTxs[i - 1].amount * 0.5) {
+    if (hopTxs[i].amount < hopTxs[i - 1].amount * config.min_amount_ratio) {
       return {
         valid: false,
-        reason: `Amount drop >50%: hop ${i - 1} ($${hopTxs[i - 1].amount}) → hop ${i} ($${hopTxs[i].amount})`,
+        reason: `Amount drop >${maxDropPct}%: hop ${i - 1} (${formatCurrency(hopTxs[i - 1].amount, currency)}) → hop ${i} (${formatCurrency(hopTxs[i].amount, currency)})`,
       };
     }
   }
@@ -112,17 +90,21 @@ function validateCycle(
 export function validateTemporalCycles(
   accounts: AccountNode[],
   fraudRings: FraudRing[],
-  cycles: string[][],
-  transactions: RawTransaction[]
+  cycles: TemporalCycle[],
+  config: TemporalValidationConfig = DEFAULT_DETECTION_CONFIG.temporal_validation,
+  currency: string = DEFAULT_REPORTING_CURRENCY
 ): CycleValidationResult {
   const accountIdx = new Map<string, AccountNode>();
   for (const a of accounts) accountIdx.set(a.account_id, a);
 
-  // Map ring_id → cycle path for cycle-type rings
-  const cycleRingIds = new Map<string, string[]>();
+  // Map ring_id → cycle for cycle-type rings, matched by their transactions
+  const cycleByTxs = new Map<string, TemporalCycle>();
+  for (const cycle of cycles) cycleByTxs.set(cycle.transaction_ids.join(','), cycle);
+  const cycleRingIds = new Map<string, TemporalCycle>();
   for (const ring of fraudRings) {
-    if (ring.pattern_type === 'cycle') {
-      cycleRingIds.set(ring.ring_id, ring.members);
+    const cycle = ring.transaction_ids && cycleByTxs.get(ring.transaction_ids.join(','));
+    if (ring.pattern_type === 'cycle' && cycle) {
+      cycleRingIds.set(ring.ring_id, cycle);
     }
   }
 
@@ -130,8 +112,9 @@ export function validateTemporalCycles(
   let validCount = 0;
   let invalidCount = 0;
 
-  for (const [ringId, members] of cycleRingIds) {
-    const result = validateCycle(members, transactions);
+  for (const [ringId, cycle] of cycleRingIds) {
+    const { members } = cycle;
+    const result = validateCycle(cycle.transactions, config, currency);
 
     if (result.valid) {
       validCount++;
@@ -161,16 +144,19 @@ export function validateTemporalCycles(
 
         // Recalculate total from per-pattern scores
         const ps = account.pattern_scores;
-        let total = ps.fan_in + ps.fan_out + ps.cycle + ps.shell + ps.velocity;
+        let total = ps.fan_in + ps.fan_out + ps.cycle + ps.shell + ps.structuring + ps.pass_through + ps.amount + ps.velocity + ps.watchlist + ps.centrality;
         total = Math.min(100, Math.max(0, total));
-        account.suspicion_score = total;
+        recordScoreChange(account, total, {
+          stage: 'temporal_validation',
+          algorithm: 'Temporal Cycle Validation',
+          reason: `Cycle ring ${ringId} invalidated: ${result.reason}`,
+          transaction_ids: cycle.transaction_ids,
+          counterparties: members,
+        });
 
         // Remove 'cycle' from detected_patterns
         account.detected_patterns = account.detected_patterns.filter((p) => p !== 'cycle');
 
-        // Update explanation
-        account.explanation += `. Cycle ring ${ringId} invalidated: ${result.reason}`;
-
         // Update is_suspicious
         account.is_suspicious = account.suspicion_score > 0;
       }
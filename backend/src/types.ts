@@ -3,7 +3,173 @@
 
 // ─── Detection Mode ──────────────────────────────────────────────────────────
 // Controls which algorithms run in the pipeline.
-export type DetectionMode = 'all' | 'fan-in' | 'fan-out' | 'cycles' | 'shell';
+export type DetectionMode = 'all' | 'fan-in' | 'fan-out' | 'cycles' | 'shell' | 'structuring';
+
+// ─── Detection Configuration ─────────────────────────────────────────────────
+// Every tunable threshold and weight used by the pipeline.  Defaults live in
+// detection-config.ts and reproduce the original hard-coded behaviour.
+
+export interface DetectionConfig {
+  cycles: {
+    min_length: number;              // Minimum accounts in a cycle
+    max_length: number;              // Maximum accounts in a cycle
+    max_duration_hours: number;      // Max time from a cycle's first to last transaction
+  };
+  fan_in: {
+    window_hours: number;            // Sliding window size
+    min_unique_senders: number;      // Unique senders required within window
+  };
+  fan_out: {
+    window_hours: number;
+    min_unique_receivers: number;    // Unique receivers required within window
+  };
+  shell_chain: {
+    max_account_transactions: number; // Accounts at or below this count are shells
+    min_hops: number;                // Minimum hops for a chain to be reported
+    max_hops: number;                // Maximum hops explored from a start node
+  };
+  structuring: {
+    reporting_threshold: number;     // Reporting limit in the reporting currency
+    band_pct: number;                // Amounts within this % below the threshold count
+    window_hours: number;            // Sliding window size
+    min_transactions: number;        // Sub-threshold transactions required within window
+  };
+  pass_through: {
+    max_dwell_hours: number;         // Longest time between arrival and forwarding
+    amount_tolerance: number;        // Allowed |out - in| / in
+    min_matches: number;             // Matched in/out pairs required
+    min_ratio: number;               // Matched share of inbound value (0-1) required
+  };
+  amount_analysis: {
+    min_transactions: number;        // Round / repeated signals need at least this many
+    round_unit: number;              // Whole multiples of this amount are round
+    round_ratio_threshold: number;   // Share of round amounts (0-1) that triggers
+    repeat_min_count: number;        // One amount seen this often triggers
+    benford_min_transactions: number; // Benford test needs at least this many
+    benford_mad_threshold: number;   // Minimum first-digit MAD cut-off (raised for small samples)
+  };
+  scoring: {
+    cycle_weight: number;
+    fan_in_weight: number;
+    fan_out_weight: number;
+    shell_weight: number;
+    structuring_weight: number;
+    pass_through_weight: number;
+    amount_weight: number;
+    velocity_weight: number;
+    velocity_tx_per_day: number;     // Velocity triggers above this rate
+    centrality_weight: number;       // Top global centrality (graph_metrics.top_percentile); 0 disables
+    dampening: {
+      min_degree: number;            // in_degree + out_degree must exceed this
+      min_transactions: number;      // Account must have more transactions than this
+      interval_tolerance: number;    // |interval - mean| / mean below this is "consistent"
+      consistent_ratio: number;      // Fraction of consistent intervals required
+      reduction: number;             // Points removed when dampening applies
+    };
+  };
+  relationship_intelligence: {
+    min_recurring_tx_count: number;
+    min_recurring_span_days: number;
+    max_total_reduction: number;
+    duration_tier_1_days: number;
+    duration_tier_2_days: number;
+    cv_threshold: number;
+    periodicity_match_ratio: number;
+    periodicity_tolerance: number;
+  };
+  temporal_validation: {
+    min_amount_ratio: number;        // Each hop must carry at least this share of the previous hop
+  };
+  ring_leadership: {
+    orchestrator_boost: number;
+  };
+  cross_ring: {
+    min_rings: number;               // Rings an account must be connected to
+    min_ring_members: number;        // Members a non-member must pay (or be paid by) to be connected
+    controller_boost: number;
+  };
+  multi_stage: {
+    min_pattern_types: number;
+    boost: number;
+  };
+  community: {
+    min_evidence: number;            // Independent evidence categories required
+    resolution: number;              // Louvain resolution; higher values give smaller communities
+  };
+  graph_metrics: {
+    damping: number;                 // PageRank damping factor (0-1)
+    max_iterations: number;          // PageRank / HITS power-iteration cap
+    betweenness_samples: number;     // Source accounts sampled for betweenness; 0 = every account
+    top_percentile: number;          // Top % by PageRank or betweenness that centrality_weight scores
+  };
+  fan_in_validation: {
+    window_hours: number;
+    min_unique_senders: number;
+    amount_tolerance: number;
+    rapid_outflow_window_hours: number;
+    rapid_outflow_ratio: number;
+    low_activity_tx_threshold: number;
+  };
+  watchlist: {
+    exact_weight: number;            // Account ID or exact name/alias match
+    fuzzy_weight: number;            // Fuzzy name/alias match for name-like IDs
+    fuzzy_threshold: number;         // Minimum similarity (0-1) for a fuzzy match
+  };
+  dispositions: {
+    benign_reduction_pct: number;    // Share of the score removed by a benign disposition (0-100)
+    confirmed_mule_min_score: number; // Score floor for confirmed mules
+  };
+}
+
+/** Recursive partial used for user-supplied overrides of DetectionConfig */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type DetectionConfigInput = DeepPartial<DetectionConfig>;
+
+// ─── Column Mapping ──────────────────────────────────────────────────────────
+// Describes how a non-standard bank export maps onto the required schema.
+
+/** Canonical fields every transaction row must provide */
+export type CanonicalColumn = 'transaction_id' | 'sender_id' | 'receiver_id' | 'amount' | 'timestamp';
+
+/** Canonical fields a row may provide */
+export type OptionalColumn = 'currency';
+
+export type MappableColumn = CanonicalColumn | OptionalColumn;
+
+/**
+ * How signed amounts are interpreted:
+ *   positive          – amounts must be > 0 (default, original behaviour)
+ *   absolute          – the sign is ignored
+ *   negative_reverses – a negative amount means money flowed receiver → sender
+ */
+export type AmountSignConvention = 'positive' | 'absolute' | 'negative_reverses';
+
+export interface ColumnMapping {
+  /** Accepted header names per field (case-insensitive); the canonical name always matches */
+  columns: Partial<Record<MappableColumn, string[]>>;
+  /** Timestamp pattern using YYYY MM DD HH mm ss tokens, e.g. "DD.MM.YYYY HH:mm" */
+  date_format?: string;
+  amount_sign?: AmountSignConvention;
+  /**
+   * Debit/credit indicator column.  The sender/receiver columns are read as
+   * written for debit rows; credit rows are reversed (receiver → sender).
+   */
+  direction?: {
+    column: string;
+    debit_values: string[];
+    credit_values: string[];
+  };
+}
+
+/** Named mapping saved server-side and selectable per upload */
+export interface ColumnMappingProfile extends ColumnMapping {
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
 
 // ─── Per-pattern score breakdown ─────────────────────────────────────────────
 export interface PatternScores {
@@ -11,7 +177,12 @@ export interface PatternScores {
   fan_out: number;
   cycle: number;
   shell: number;
+  structuring: number;
+  pass_through: number;
+  amount: number;
   velocity: number;
+  watchlist: number;
+  centrality: number;
 }
 
 export interface RawTransaction {
@@ -20,6 +191,11 @@ export interface RawTransaction {
   receiver_id: string;
   amount: number;
   timestamp: string; // YYYY-MM-DD HH:MM:SS
+
+  // ── Multi-currency (fx-rates) ──
+  currency?: string;          // ISO 4217 code; after normalization the reporting currency
+  original_amount?: number;   // Amount as it appeared in the file
+  original_currency?: string; // Currency as it appeared in the file
 }
 
 // Role assigned by centrality analysis within fraud rings
@@ -37,13 +213,20 @@ export interface AccountNode {
   detected_patterns: string[];
   ring_ids: string[];
   triggered_algorithms: string[];
-  explanation: string;
+  explanation: string;          // Derived from score_contributions (reasons in order)
   is_suspicious: boolean;
+  score_contributions?: ScoreContribution[]; // Absent in runs saved before score contributions
 
   // ── Ring Leadership Detection (centrality-analysis) ──
   centrality_score?: number;   // Betweenness centrality within ring subgraph
   ring_role?: RingRole;        // ORCHESTRATOR | INTERMEDIARY | PERIPHERAL
 
+  // ── Global Graph Metrics (graph-metrics) ──
+  graph_metrics?: GraphMetrics;
+
+  // ── Cross-Ring Control (cross-ring-analysis) ──
+  network_controller?: NetworkControllerSummary;
+
   // ── Multi-Stage Laundering Flow Detection ──
   laundering_stage?: string;   // "MULTI_STAGE" when node spans multiple pattern types
   flow_pattern?: string[];     // Ordered pattern sequence, e.g. ["fan_in","shell_chain","cycle"]
@@ -51,16 +234,33 @@ export interface AccountNode {
   // ── Two-Phase Fan-In Validation ──
   fan_in_classification?: 'aggregation_candidate' | 'confirmed_money_laundering';
   corroboration_checks?: string[];  // List of triggered corroboration check names
+
+  // ── Pass-Through Detection (pass-through-detection) ──
+  pass_through?: PassThroughSummary;
+
+  // ── Amount Distribution Analysis (amount-analysis) ──
+  amount_profile?: AmountProfile;
+
+  // ── Watchlist Screening (watchlist-screening) ──
+  watchlist_hits?: WatchlistHit[];
+
+  // ── Analyst Dispositions (analyst-dispositions) ──
+  dispositions?: AppliedDisposition[];
 }
 
 export interface FraudRing {
   ring_id: string;
-  pattern_type: 'cycle' | 'fan_in' | 'fan_out' | 'shell_chain' | 'community';
+  pattern_type: 'cycle' | 'fan_in' | 'fan_out' | 'shell_chain' | 'structuring' | 'pass_through' | 'community';
   members: string[];
   member_count: number;
   risk_score: number;
   total_value: number;
+  currency: string;            // Reporting currency of total_value
   explanation: string;
+  watchlist_members?: string[];  // Members with a watchlist hit
+  transaction_ids?: string[];    // Cycle rings: the hop transactions in flow order
+  modularity?: number;           // Community rings: the community's modularity
+  linked_rings?: RingLink[];     // Pattern-level rings sharing members or money with this one
 }
 
 // Strict JSON output format per hackathon spec
@@ -103,6 +303,167 @@ export interface AnalysisResult {
   summary: SummaryOutput;
   hackathonOutput: HackathonOutput;
   graphData: CytoscapeGraphData;
+  config: DetectionConfig;       // Effective configuration used for this run
+  reporting_currency: string;    // Currency every amount is expressed in
+  communities?: CommunityPartition; // Absent in runs saved before Louvain communities
+  stage_snapshots?: StageSnapshot[]; // Debug mode only (AnalysisOptions.debug)
+}
+
+// ─── Persisted analysis runs (run-store) ──────────────────────────────────────
+
+export interface AnalysisRunSummary {
+  run_id: string;
+  created_at: string;            // Request received (ISO 8601)
+  completed_at: string;          // Analysis finished (ISO 8601)
+  file_name?: string;
+  file_hash: string;             // sha256 of the uploaded CSV bytes
+  mode: DetectionMode;
+  reporting_currency: string;
+  summary: SummaryOutput;
+  updated_at?: string;           // Last appended batch (ISO 8601)
+}
+
+/** A batch of transactions appended to a run after its initial analysis */
+export interface AppendedBatch {
+  appended_at: string;
+  file_hash: string;
+  transaction_count: number;
+}
+
+export interface AnalysisRun extends AnalysisRunSummary {
+  config: DetectionConfig;
+  result: AnalysisResult;
+  batches?: AppendedBatch[];
+}
+
+// ─── Appending to runs (run-append) ───────────────────────────────────────────
+
+export interface ScoreChange {
+  account_id: string;
+  previous_score: number;
+  score: number;
+}
+
+export interface RingChange {
+  ring: FraudRing;
+  previous_ring_id: string;
+  previous_risk_score: number;
+  previous_member_count: number;
+}
+
+/** What an appended batch changed in a run's analysis */
+export interface AnalysisDelta {
+  appended_transactions: number;
+  new_accounts: string[];
+  newly_flagged: string[];       // Suspicious now, not before the append
+  score_changes: ScoreChange[];  // Largest change first
+  new_rings: FraudRing[];
+  changed_rings: RingChange[];
+  removed_rings: string[];       // Previous ring IDs with no counterpart
+}
+
+/** Pipeline stages reported through AnalysisOptions.onProgress, in run order */
+export type AnalysisStage =
+  | 'graph'
+  | 'cycles'
+  | 'fan_in'
+  | 'fan_out'
+  | 'shell_chains'
+  | 'structuring'
+  | 'pass_through'
+  | 'amount_analysis'
+  | 'watchlist'
+  | 'graph_metrics'
+  | 'scoring'
+  | 'fraud_rings'
+  | 'relationship_intelligence'
+  | 'temporal_validation'
+  | 'ring_leadership'
+  | 'cross_ring'
+  | 'multi_stage'
+  | 'community'
+  | 'fan_in_validation'
+  | 'dispositions'
+  | 'graph_data';
+
+/** Run-level options that are not detection thresholds */
+export interface AnalysisOptions {
+  /** ISO 4217 code amounts are expressed in (default USD) */
+  reportingCurrency?: string;
+  /** Called as each pipeline stage starts */
+  onProgress?: (stage: AnalysisStage) => void;
+  /** Analyst dispositions to apply (disposition-store); none when omitted */
+  dispositions?: Disposition[];
+  /** Lists to screen accounts against (watchlist-store); none when omitted */
+  watchlists?: Watchlist[];
+  /** Record a StageSnapshot of every account as each stage ends */
+  debug?: boolean;
+}
+
+/** One account's scoring state at the end of a pipeline stage */
+export interface AccountStageState {
+  account_id: string;
+  suspicion_score: number;
+  detected_patterns: string[];
+  ring_ids: string[];
+}
+
+/** Every account's state once a stage finished (debug mode) */
+export interface StageSnapshot {
+  stage: AnalysisStage;
+  accounts: AccountStageState[];
+}
+
+// ─── Asynchronous analysis jobs (job-queue) ───────────────────────────────────
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJobProgress {
+  stage: AnalysisStage | null;   // Stage currently running (null before start / after end)
+  completed_stages: number;
+  total_stages: number;
+  percent: number;               // 0-100
+}
+
+export interface AnalysisJob {
+  job_id: string;
+  status: AnalysisJobStatus;
+  mode: DetectionMode;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+  progress: AnalysisJobProgress;
+  run_id?: string;               // Persisted run, once completed
+  error?: string;                // Failure reason, when failed
+  result?: AnalysisResult;       // Present once completed
+  delta?: AnalysisDelta;         // Append jobs: what the batch changed
+}
+
+// ─── Streaming detection (stream-detection) ───────────────────────────────────
+
+export type StreamAlertType = 'fan_in' | 'fan_out' | 'cycle';
+
+/** Raised by an online detector the moment a pattern appears in the feed */
+export interface StreamAlert {
+  alert_id: string;
+  type: StreamAlertType;
+  accounts: string[];            // Fan alerts: hub then counterparties; cycles: in flow order
+  trigger_transaction_id: string;
+  event_time: string;            // Timestamp of the triggering transaction
+  detected_at: string;           // Wall-clock time the alert was raised (ISO 8601)
+  window_start?: string;         // Fan alerts: the qualifying window
+  window_end?: string;
+  transaction_ids?: string[];    // Cycles: the transactions forming it, in flow order
+  explanation: string;
+}
+
+export interface StreamDetectorStats {
+  transactions_processed: number;
+  duplicates_skipped: number;
+  accounts: number;
+  edges: number;
+  alerts: Record<StreamAlertType, number>;
+  last_event_time: string | null;
 }
 
 // Cytoscape graph data
@@ -127,6 +488,7 @@ export interface CytoscapeNode {
     explanation: string;
     fan_in_transactions: FanInTransaction[];
     shell_chain_paths: ShellChainPath[];
+    amount_profile?: AmountProfile;
   };
 }
 
@@ -154,3 +516,330 @@ export interface ShellChainPath {
   path: string[];
   hops: { from: string; to: string; amount: number; timestamp: string }[];
 }
+
+// ─── Case management (case-store) ─────────────────────────────────────────────
+
+export type CaseStatus = 'open' | 'under_review' | 'escalated' | 'false_positive' | 'confirmed';
+export type CaseSubjectType = 'account' | 'ring';
+
+export interface CaseNote {
+  note_id: string;
+  author: string;
+  text: string;
+  created_at: string;
+}
+
+export type CaseEvidenceType = 'transactions' | 'graph_snapshot';
+
+/** Copied out of a run so it outlives the run it came from */
+export interface CaseEvidence {
+  evidence_id: string;
+  type: CaseEvidenceType;
+  run_id: string;
+  added_at: string;
+  added_by: string;
+  description?: string;
+  transactions?: RawTransaction[];   // type 'transactions'
+  graph?: CytoscapeGraphData;        // type 'graph_snapshot': case accounts and their counterparties
+}
+
+export type CaseEventType = 'created' | 'status_changed' | 'assigned' | 'note_added' | 'evidence_added';
+
+/** Audit trail entry; cases are never edited without one */
+export interface CaseEvent {
+  at: string;
+  actor: string;
+  type: CaseEventType;
+  from?: string | null;
+  to?: string | null;
+  detail?: string;
+}
+
+export interface InvestigationCase {
+  case_id: string;               // CASE_0001 ...
+  title: string;
+  subject_type: CaseSubjectType;
+  account_ids: string[];         // The account, or the ring's members
+  pattern_type?: string;         // Ring cases: pattern of the originating ring
+  status: CaseStatus;
+  assignee: string | null;
+  created_at: string;
+  created_by: string;
+  updated_at: string;
+  origin_run_id?: string;
+  origin_ring_id?: string;       // Ring IDs are renumbered per run; kept for reference only
+  risk_score_at_creation?: number;
+  notes: CaseNote[];
+  evidence: CaseEvidence[];
+  history: CaseEvent[];
+}
+
+/** Where a case's accounts appear in a given run (computed, never stored) */
+export interface CaseRunLink {
+  run_id: string;
+  present_accounts: string[];
+  flagged_accounts: string[];
+  max_suspicion_score: number;
+  ring_ids: string[];            // Rings sharing accounts with the case, most shared first
+}
+
+export interface LinkedCase extends InvestigationCase {
+  link?: CaseRunLink;
+}
+
+// ─── Analyst dispositions (disposition-store) ─────────────────────────────────
+
+export type DispositionLabel = 'benign_merchant' | 'payroll' | 'confirmed_mule';
+
+/** 'account': every transaction of the account; 'pair': sender→receiver transactions only */
+export type DispositionSubjectType = 'account' | 'pair';
+
+/** An analyst's verdict on an account or a sender→receiver pair, applied to later runs */
+export interface Disposition {
+  disposition_id: string;
+  subject_type: DispositionSubjectType;
+  account_id?: string;           // subject_type 'account'
+  sender_id?: string;            // subject_type 'pair'
+  receiver_id?: string;
+  label: DispositionLabel;
+  note?: string;
+  recorded_by: string;
+  recorded_at: string;           // ISO 8601
+}
+
+/** How one disposition changed an account's score in a run */
+export interface AppliedDisposition {
+  disposition_id: string;
+  label: DispositionLabel;
+  subject: string;               // "ACC_1" or "ACC_1→ACC_2"
+  recorded_by: string;
+  recorded_at: string;
+  score_before: number;
+  score_after: number;
+}
+
+// ─── Watchlists (watchlist-store) ─────────────────────────────────────────────
+
+/** A listed party: an account ID and/or a name with aliases */
+export interface WatchlistEntry {
+  account_id?: string;
+  name?: string;
+  aliases?: string[];
+  reason: string;
+}
+
+export interface Watchlist {
+  name: string;                  // List name, e.g. "OFAC SDN"
+  description?: string;
+  entries: WatchlistEntry[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatchlistSummary extends Omit<Watchlist, 'entries'> {
+  entry_count: number;
+}
+
+/** 'account_id' and 'name' are exact (normalized) matches */
+export type WatchlistMatchType = 'account_id' | 'name' | 'fuzzy';
+
+export interface WatchlistHit {
+  list_name: string;
+  match_type: WatchlistMatchType;
+  matched_value: string;         // Entry account ID, name or alias that matched
+  similarity: number;            // 0-1; 1 for exact matches
+  reason: string;
+}
+
+// ─── Amount Distribution (amount-analysis) ───────────────────────────────────
+
+export type AmountAnomaly = 'benford' | 'round' | 'repeated';
+
+/** Amount statistics over an account's sent and received transactions */
+export interface AmountProfile {
+  transaction_count: number;
+  first_digit_counts: number[];  // Index 0 = leading digit 1 … index 8 = digit 9
+  benford_mad: number | null;    // Mean absolute deviation from Benford; null below benford_min_transactions
+  benford_cutoff: number | null; // MAD above which 'benford' triggers at this sample size
+  round_count: number;           // Whole multiples of round_unit
+  round_ratio: number;           // round_count / transaction_count
+  repeated_amounts: { amount: number; count: number }[];  // Seen ≥ repeat_min_count times, most frequent first
+  anomalies: AmountAnomaly[];
+}
+
+// ─── Pass-Through (pass-through-detection) ───────────────────────────────────
+
+/** Metrics of an account flagged as a pass-through relay */
+export interface PassThroughSummary {
+  ratio: number;                 // Matched inbound value / total inbound value
+  median_dwell_hours: number;    // Median time from arrival to forwarding
+  matched_count: number;         // Matched in/out pairs
+  inbound_value: number;         // Total inbound value
+  forwarded_value: number;       // Outbound value of the matched pairs
+}
+
+// ─── Flow Tracing (flow-tracing) ─────────────────────────────────────────────
+
+/** forward: where funds went; backward: where they came from */
+export type TraceDirection = 'forward' | 'backward';
+
+/** How an account's outflows draw on its earlier inflows */
+export type TraceAllocation = 'fifo' | 'lifo' | 'proportional';
+
+export interface TraceOptions {
+  direction: TraceDirection;
+  allocation: TraceAllocation;
+  max_hops: number;
+  min_amount: number;            // Branches carrying less are cut off
+}
+
+/** Traced funds at one account.  Children are the next hop in the trace direction */
+export interface FlowTraceNode {
+  account_id: string;
+  transaction_id: string | null; // Moved the funds into (forward) or out of (backward) the account; null at an untied root
+  timestamp: string | null;
+  amount: number;
+  hop: number;
+  untraced_amount: number;       // Forward: still held at the end of the data; backward: from before the data
+  cutoff_amount: number;         // In branches dropped by min_amount, max_hops or the node cap
+  children: FlowTraceNode[];
+}
+
+/** Traced amount per sender → receiver pair, summed over the tree */
+export interface FlowTraceLink {
+  source: string;
+  target: string;
+  amount: number;
+  hop: number;                   // Fewest hops from the root
+  transaction_ids: string[];
+}
+
+export interface FlowTrace extends TraceOptions {
+  account_id: string;
+  transaction_id: string | null;
+  currency: string;
+  root: FlowTraceNode;
+  links: FlowTraceLink[];
+  node_count: number;
+  truncated: boolean;            // Node cap reached
+}
+
+// ─── Path Queries (path-query) ───────────────────────────────────────────────
+
+export interface PathQueryOptions {
+  k: number;                     // Number of shortest paths
+  all_paths: boolean;            // Also enumerate time-respecting paths
+  max_hops: number;              // Length limit for time-respecting paths
+}
+
+export interface PathTransaction {
+  transaction_id: string;
+  amount: number;
+  timestamp: string;
+}
+
+export interface PathHop {
+  from: string;
+  to: string;
+  total_amount: number;
+  transactions: PathTransaction[]; // Every transfer on the edge, or the one used by a time-respecting path
+}
+
+export interface AccountPath {
+  accounts: string[];
+  hops: PathHop[];
+}
+
+export interface PathQueryResult extends PathQueryOptions {
+  source: string;
+  target: string;
+  currency: string;
+  shortest: AccountPath | null;
+  k_shortest: AccountPath[];     // Loopless, fewest hops first; includes the shortest
+  temporal_paths: AccountPath[] | null; // Null unless all_paths was requested
+  truncated: boolean;            // Time-respecting path limit reached
+}
+
+// ─── Ego Networks (ego-network) ──────────────────────────────────────────────
+
+/** in: accounts that sent to the center; out: accounts it sent to; both: either */
+export type EgoDirection = 'in' | 'out' | 'both';
+
+/** k-hop neighborhood of an account, in the run's graph shape */
+export interface EgoNetwork extends CytoscapeGraphData {
+  account_id: string;
+  hops: number;
+  direction: EgoDirection;
+  frontier: string[];            // Included accounts with neighbors beyond the neighborhood
+  truncated: boolean;            // Node cap reached
+}
+
+// ─── Communities (community-detection) ───────────────────────────────────────
+
+/** One Louvain community of the suspicious subgraph */
+export interface CommunitySummary {
+  community_id: string;          // COMM_001…, largest first
+  members: string[];
+  modularity: number;            // This community's part of the partition modularity
+  internal_weight: number;       // Edge weight between its members
+  evidence: string[];            // Independent evidence categories found
+  ring_id: string | null;        // Community ring, when the evidence validated it
+  subsumed_ring_ids: string[];   // Pattern-level rings with a member in the community
+}
+
+export interface CommunityPartition {
+  resolution: number;
+  modularity: number;            // Of the whole partition, single accounts included
+  communities: CommunitySummary[]; // Communities of 2 or more accounts
+}
+
+// ─── Graph Metrics (graph-metrics) ───────────────────────────────────────────
+
+/** Whole-graph centrality of one account */
+export interface GraphMetrics {
+  pagerank: number;              // Amount-weighted PageRank; sums to 1 over the graph
+  betweenness: number;           // Amount-weighted (sampled) betweenness, top account = 1
+  hub: number;                   // HITS hub score, top account = 1
+  authority: number;             // HITS authority score, top account = 1
+  k_core: number;                // Core number over distinct counterparties, direction ignored
+}
+
+// ─── Cross-Ring Control (cross-ring-analysis) ────────────────────────────────
+
+/** Another ring that shares members with a ring or exchanged money with it */
+export interface RingLink {
+  ring_id: string;
+  shared_members: string[];
+  amount_out: number;            // Sent by this ring's members to the linked ring's members
+  amount_in: number;             // Received by this ring's members from the linked ring's members
+  transaction_count: number;     // Transactions between the two rings, either way
+}
+
+export type RingControlRelation = 'member' | 'funder' | 'beneficiary' | 'funder_beneficiary';
+
+/** One ring a network controller is connected to */
+export interface ControlledRing {
+  ring_id: string;
+  relation: RingControlRelation;
+  amount_sent: number;           // From the controller to the ring's members
+  amount_received: number;       // From the ring's members to the controller
+}
+
+export interface NetworkControllerSummary {
+  rings: ControlledRing[];
+  inter_ring_amount: number;     // Moved between members of separate groups of controlled rings
+  currency: string;
+}
+
+// ─── Score Contributions (score-contributions) ───────────────────────────────
+
+/** One step of an account's score: what changed it, by how much and why */
+export interface ScoreContribution {
+  stage: AnalysisStage;
+  algorithm: string;
+  delta: number;                 // Points added (negative: removed); 0 for findings
+  score_after: number;           // Suspicion score once this step applied
+  reason: string;
+  transaction_ids: string[];     // Supporting transactions (first 25)
+  counterparties: string[];      // Other accounts involved (first 25)
+}
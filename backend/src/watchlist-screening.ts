@@ -0,0 +1,237 @@
+// ─── WATCHLIST SCREENING ─────────────────────────────────────────────────────
+// Matches every account (sender_id / receiver_id) against the watchlists in
+// watchlist-store.  Hits become the `watchlist` pattern score in
+// calculateSuspicionScores, and fraud rings containing a listed account are
+// flagged after ring building.
+//
+// MATCHING (per account, best hit per list)
+//   account_id   ID equals an entry's account_id (case-insensitive)
+//   name         ID equals an entry's name or alias after normalization —
+//                lower-cased, accents stripped, split on punctuation and
+//                camelCase, tokens sorted ("SMITH_JOHN" = "John Smith")
+//   fuzzy        Name-like IDs only: Levenshtein similarity of the normalized
+//                forms ≥ fuzzy_threshold.  An ID is name-like when digits are
+//                under 30% of its characters and it has two or more alphabetic
+//                tokens, or one of at least 6 letters ("ACCT_001" is not).
+//
+// Candidate names for the fuzzy pass are looked up by 3-letter token prefix
+// and pruned by length and bag distance (both lower bounds on the edit
+// distance) before a Levenshtein computation that stops once the threshold's
+// edit budget is exceeded.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AccountNode, DetectionConfig, FraudRing, Watchlist, WatchlistHit } from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+
+type WatchlistConfig = DetectionConfig['watchlist'];
+
+const PREFIX_LENGTH = 3;
+
+interface ListedName {
+  list_name: string;
+  value: string;        // Name or alias as listed
+  key: string;          // Normalized form
+  counts: Int16Array;   // charCounts(key)
+  reason: string;
+  seenBy: number;       // Last account (sequence number) that examined it
+}
+
+// ─── Normalization ───────────────────────────────────────────────────────────
+
+function nameTokens(value: string): string[] {
+  const tokens = value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  // Rejoin initialisms split by punctuation: "L.L.C." → "llc"
+  const joined: string[] = [];
+  let inInitialism = false;
+  for (const token of tokens) {
+    const isLetter = /^[a-z]$/.test(token);
+    if (isLetter && inInitialism) joined[joined.length - 1] += token;
+    else joined.push(token);
+    inInitialism = isLetter;
+  }
+  return joined;
+}
+
+/** Token-sorted normalized form used for name comparison */
+export function normalizeName(value: string): string {
+  return nameTokens(value).sort().join(' ');
+}
+
+export function isNameLike(accountId: string): boolean {
+  const tokens = nameTokens(accountId);
+  const chars = tokens.join('');
+  if (chars.length === 0) return false;
+  const digits = chars.replace(/[^0-9]/g, '').length;
+  if (digits / chars.length >= 0.3) return false;
+  const alphabetic = tokens.filter((t) => /^[a-z]{2,}$/.test(t));
+  return alphabetic.length >= 2 || alphabetic.some((t) => t.length >= 6);
+}
+
+/** Character counts (a-z, 0-9, space) for the bag-distance bound */
+function charCounts(value: string): Int16Array {
+  const counts = new Int16Array(37);
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    counts[code >= 97 ? code - 97 : code >= 48 ? code - 22 : 36]++;
+  }
+  return counts;
+}
+
+/** Lower bound on the edit distance: unmatched characters on the larger side */
+function bagDistance(a: Int16Array, b: Int16Array): number {
+  let onlyA = 0;
+  let onlyB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    if (diff > 0) onlyA += diff;
+    else onlyB -= diff;
+  }
+  return Math.max(onlyA, onlyB);
+}
+
+/** Levenshtein distance, or maxDistance + 1 as soon as it must exceed maxDistance */
+function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (current[j] < rowMin) rowMin = current[j];
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ─── Screening ───────────────────────────────────────────────────────────────
+
+/**
+ * Screen account IDs against the lists.  Returns the hits of every listed
+ * account (best hit per list, strongest first); accounts without hits are
+ * absent.
+ */
+export function screenAccounts(
+  accountIds: Iterable<string>,
+  watchlists: Watchlist[],
+  config: WatchlistConfig = DEFAULT_DETECTION_CONFIG.watchlist,
+): Map<string, WatchlistHit[]> {
+  const hits = new Map<string, WatchlistHit[]>();
+  if (watchlists.length === 0) return hits;
+
+  // Index listed IDs, exact names and name prefixes
+  const byAccountId = new Map<string, WatchlistHit[]>();
+  const byNameKey = new Map<string, ListedName[]>();
+  const byPrefix = new Map<string, ListedName[]>();
+  const push = <T>(map: Map<string, T[]>, key: string, value: T) => {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+  };
+
+  for (const list of watchlists) {
+    for (const entry of list.entries) {
+      if (entry.account_id) {
+        push(byAccountId, entry.account_id.toLowerCase(), {
+          list_name: list.name,
+          match_type: 'account_id',
+          matched_value: entry.account_id,
+          similarity: 1,
+          reason: entry.reason,
+        });
+      }
+      for (const value of [entry.name, ...(entry.aliases ?? [])]) {
+        if (!value) continue;
+        const key = normalizeName(value);
+        if (!key) continue;
+        const listed: ListedName = { list_name: list.name, value, key, counts: charCounts(key), reason: entry.reason, seenBy: -1 };
+        push(byNameKey, key, listed);
+        for (const prefix of new Set(key.split(' ').map((t) => t.slice(0, PREFIX_LENGTH)))) {
+          push(byPrefix, prefix, listed);
+        }
+      }
+    }
+  }
+
+  let sequence = 0;
+  for (const accountId of accountIds) {
+    sequence++;
+    const best = new Map<string, WatchlistHit>();
+    const offer = (hit: WatchlistHit) => {
+      const current = best.get(hit.list_name);
+      if (!current || hit.similarity > current.similarity) best.set(hit.list_name, hit);
+    };
+
+    for (const hit of byAccountId.get(accountId.toLowerCase()) ?? []) offer(hit);
+
+    const key = normalizeName(accountId);
+    for (const listed of byNameKey.get(key) ?? []) {
+      offer({ list_name: listed.list_name, match_type: 'name', matched_value: listed.value, similarity: 1, reason: listed.reason });
+    }
+
+    if (key && isNameLike(accountId)) {
+      const counts = charCounts(key);
+      for (const token of key.split(' ')) {
+        for (const listed of byPrefix.get(token.slice(0, PREFIX_LENGTH)) ?? []) {
+          if (listed.seenBy === sequence) continue;
+          listed.seenBy = sequence;
+          if (best.get(listed.list_name)?.similarity === 1) continue;
+          // Edit budget for the threshold; the bag distance rules out most candidates cheaply
+          const longest = Math.max(key.length, listed.key.length);
+          const maxDistance = Math.floor((1 - config.fuzzy_threshold) * longest + 1e-9);
+          if (Math.abs(key.length - listed.key.length) > maxDistance) continue;
+          if (bagDistance(counts, listed.counts) > maxDistance) continue;
+          const distance = boundedEditDistance(key, listed.key, maxDistance);
+          if (distance > maxDistance) continue;
+          const score = 1 - distance / longest;
+          offer({
+            list_name: listed.list_name,
+            match_type: score === 1 ? 'name' : 'fuzzy',
+            matched_value: listed.value,
+            similarity: Math.round(score * 100) / 100,
+            reason: listed.reason,
+          });
+        }
+      }
+    }
+
+    if (best.size > 0) {
+      hits.set(accountId, [...best.values()].sort((a, b) => b.similarity - a.similarity));
+    }
+  }
+  return hits;
+}
+
+/** Human-readable description of one hit, for account explanations */
+export function describeWatchlistHit(hit: WatchlistHit): string {
+  const match = hit.match_type === 'account_id'
+    ? 'account ID match'
+    : hit.match_type === 'name'
+      ? `name match "${hit.matched_value}"`
+      : `fuzzy name match "${hit.matched_value}" (${Math.round(hit.similarity * 100)}% similar)`;
+  return `Watchlist hit on ${hit.list_name}: ${match} (reason: ${hit.reason})`;
+}
+
+/**
+ * Flag fraud rings with a listed member: sets `watchlist_members` and
+ * extends the explanation.  Mutates the supplied rings.
+ */
+export function flagWatchlistedRings(fraudRings: FraudRing[], accounts: Map<string, AccountNode>): void {
+  for (const ring of fraudRings) {
+    const listed = ring.members.filter((id) => accounts.get(id)?.watchlist_hits);
+    if (listed.length === 0) continue;
+    ring.watchlist_members = listed;
+    const lists = [...new Set(listed.flatMap((id) => accounts.get(id)!.watchlist_hits!.map((h) => h.list_name)))];
+    const separator = ring.explanation.endsWith('.') ? ' ' : '. ';
+    ring.explanation += `${separator}Contains ${listed.length} watchlisted account(s): ${listed.join(', ')} (${lists.join(', ')})`;
+  }
+}
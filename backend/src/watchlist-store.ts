@@ -0,0 +1,212 @@
+// RIFT 2026 – Watchlists
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PURPOSE
+//   Named local watchlists (sanctions lists, internal blocklists, PEP lists)
+//   that every analysis screens sender and receiver IDs against in its
+//   `watchlist` stage (watchlist-screening).
+//
+// FORMATS
+//   CSV   header row with account_id, name, aliases, reason (any order, case-
+//         insensitive).  Aliases are separated by | or ;.
+//   JSON  an array of entries, or { description?, entries: [...] } where
+//         aliases may be an array or a |-separated string.
+//   Every entry needs a reason and an account_id or a name.
+//
+// STORAGE
+//   A single JSON object keyed by list name in DATA_DIR/watchlists.json
+//   (file-store).  Saving an existing name replaces its entries while keeping
+//   the original created_at.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Watchlist, WatchlistEntry, WatchlistSummary } from './types';
+import { readJsonRecord, writeJsonFile } from './file-store';
+import { createCsvTokenizer } from './csv-tokenizer';
+
+const WATCHLISTS_FILE = 'watchlists.json';
+const LIST_NAME_REGEX = /^[A-Za-z0-9 _.-]{1,64}$/;
+export const MAX_WATCHLIST_ENTRIES = 100_000;
+const MAX_REPORTED_ERRORS = 50;
+
+type WatchlistMap = Record<string, Watchlist>;
+
+function loadWatchlists(): WatchlistMap {
+  return readJsonRecord<Watchlist>(WATCHLISTS_FILE);
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+function splitAliases(value: unknown): string[] {
+  const aliases = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[|;]/) : [];
+  return aliases
+    .filter((alias): alias is string => typeof alias === 'string')
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+/** Validate one raw entry; `where` prefixes error messages ("Line 3", "Entry 2") */
+function toEntry(raw: Record<string, unknown>, where: string, errors: string[]): WatchlistEntry | undefined {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const accountId = text(raw.account_id);
+  const name = text(raw.name);
+  const reason = text(raw.reason);
+  const aliases = splitAliases(raw.aliases);
+
+  if (!accountId && !name) {
+    errors.push(`${where}: account_id or name is required`);
+    return undefined;
+  }
+  if (!reason) {
+    errors.push(`${where}: reason is required`);
+    return undefined;
+  }
+  return {
+    ...(accountId && { account_id: accountId }),
+    ...(name && { name }),
+    ...(aliases.length > 0 && { aliases }),
+    reason,
+  };
+}
+
+function parseCsvEntries(content: string, errors: string[]): WatchlistEntry[] {
+  const tokenizer = createCsvTokenizer();
+  const records = [...tokenizer.push(content), ...tokenizer.flush()];
+  const [header, ...rows] = records;
+  if (!header) {
+    errors.push('Watchlist CSV is empty');
+    return [];
+  }
+
+  const columns = header.fields.map((field) => field.trim().toLowerCase().replace(/\s+/g, '_'));
+  if (!columns.includes('reason') || (!columns.includes('account_id') && !columns.includes('name'))) {
+    errors.push('Watchlist CSV needs a reason column and an account_id or name column');
+    return [];
+  }
+
+  const entries: WatchlistEntry[] = [];
+  for (const record of rows) {
+    if (record.fields.every((field) => field.trim() === '')) continue;
+    const raw = Object.fromEntries(columns.map((column, i) => [column, record.fields[i] ?? '']));
+    const entry = toEntry(raw, `Line ${record.line}`, errors);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+function parseJsonEntries(input: unknown, errors: string[]): WatchlistEntry[] {
+  const list = Array.isArray(input) ? input : (input as { entries?: unknown })?.entries;
+  if (!Array.isArray(list)) {
+    errors.push('Watchlist JSON must be an array of entries or an object with an entries array');
+    return [];
+  }
+  const entries: WatchlistEntry[] = [];
+  list.forEach((raw, i) => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      errors.push(`Entry ${i + 1}: must be an object`);
+      return;
+    }
+    const entry = toEntry(raw as Record<string, unknown>, `Entry ${i + 1}`, errors);
+    if (entry) entries.push(entry);
+  });
+  return entries;
+}
+
+/**
+ * Parse a watchlist upload: CSV text, JSON text, or an already-parsed JSON
+ * body.  Returns the valid entries and the description (JSON object form),
+ * plus errors for every rejected entry.
+ */
+export function parseWatchlist(input: unknown): { entries: WatchlistEntry[]; description?: string; errors: string[] } {
+  const errors: string[] = [];
+  let parsed = input;
+  if (typeof input === 'string') {
+    const text = input.replace(/^\uFEFF/, '').trim();
+    if (!text.startsWith('[') && !text.startsWith('{')) {
+      const entries = parseCsvEntries(text, errors);
+      return { entries, errors: capErrors(errors) };
+    }
+    try {
+      parsed = JSON.parse(text);
+    } catch (error: any) {
+      return { entries: [], errors: [`Invalid watchlist JSON: ${error.message}`] };
+    }
+  }
+
+  const entries = parseJsonEntries(parsed, errors);
+  const description = (parsed as { description?: unknown })?.description;
+  return {
+    entries,
+    ...(typeof description === 'string' && description.trim() && { description: description.trim() }),
+    errors: capErrors(errors),
+  };
+}
+
+function capErrors(errors: string[]): string[] {
+  if (errors.length <= MAX_REPORTED_ERRORS) return errors;
+  return [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${errors.length - MAX_REPORTED_ERRORS} more errors`];
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────────────
+
+/** All lists with their entries, for screening */
+export function loadAllWatchlists(): Watchlist[] {
+  return Object.values(loadWatchlists());
+}
+
+export function listWatchlists(): WatchlistSummary[] {
+  return Object.values(loadWatchlists())
+    .map(({ entries, ...summary }) => ({ ...summary, entry_count: entries.length }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getWatchlist(name: string): Watchlist | undefined {
+  return loadWatchlists()[name];
+}
+
+// ─── Mutations ───────────────────────────────────────────────────────────────
+
+/**
+ * Create or replace a list from an upload (see parseWatchlist).  Returns
+ * validation errors instead of throwing; nothing is saved unless every entry
+ * is valid.
+ */
+export function saveWatchlist(
+  name: string,
+  input: unknown,
+  description?: string,
+): { watchlist?: Watchlist; errors: string[] } {
+  if (!LIST_NAME_REGEX.test(name)) {
+    return { errors: ['List name must be 1-64 characters: letters, digits, space, _ . -'] };
+  }
+
+  const parsed = parseWatchlist(input);
+  if (parsed.errors.length > 0) return { errors: parsed.errors };
+  if (parsed.entries.length === 0) return { errors: ['Watchlist has no entries'] };
+  if (parsed.entries.length > MAX_WATCHLIST_ENTRIES) {
+    return { errors: [`Watchlist has ${parsed.entries.length} entries; the limit is ${MAX_WATCHLIST_ENTRIES}`] };
+  }
+
+  const watchlists = loadWatchlists();
+  const now = new Date().toISOString();
+  const listDescription = description?.trim() || parsed.description;
+  const watchlist: Watchlist = {
+    name,
+    ...(listDescription && { description: listDescription }),
+    entries: parsed.entries,
+    created_at: watchlists[name]?.created_at ?? now,
+    updated_at: now,
+  };
+
+  watchlists[name] = watchlist;
+  writeJsonFile(WATCHLISTS_FILE, watchlists);
+  return { watchlist, errors: [] };
+}
+
+/** Delete a list; returns false when it did not exist. */
+export function deleteWatchlist(name: string): boolean {
+  const watchlists = loadWatchlists();
+  if (!watchlists[name]) return false;
+  delete watchlists[name];
+  writeJsonFile(WATCHLISTS_FILE, watchlists);
+  return true;
+}
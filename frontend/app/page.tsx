@@ -6,29 +6,41 @@ import { MetricsDashboard } from '@/components/metrics-dashboard';
 import { FraudRingTable } from '@/components/fraud-ring-table';
 import { SuspiciousAccountsTable } from '@/components/suspicious-accounts-table';
 import { FileUpload } from '@/components/file-upload';
+import { RunHistory } from '@/components/run-history';
+import { AnalysisProgress } from '@/components/analysis-progress';
+import { CasesPanel } from '@/components/case-management';
+import { DispositionsPanel } from '@/components/dispositions-panel';
+import { StageScrubber } from '@/components/stage-scrubber';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { AnalysisResult } from '@/lib/types';
-import { Shield, Database, Download, RotateCcw } from 'lucide-react';
-
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
+import { AnalysisJob, AnalysisResult, AnalysisRun, ColumnMappingSelection, FraudRing } from '@/lib/types';
+import { API_BASE, createCase, getAnalystName, reportUrl, waitForJob } from '@/lib/api';
+import { Shield, Database, Download, FileText, RotateCcw } from 'lucide-react';
 
 export default function Home() {
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [highlightedNodes, setHighlightedNodes] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const [activeTab, setActiveTab] = useState('rings');
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+  const [caseRefreshKey, setCaseRefreshKey] = useState(0);
+  // Debug mode: the backend records every account's state after each stage
+  const [debugMode, setDebugMode] = useState(false);
 
   const loadSampleData = async () => {
     setIsLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/api/sample-data`);
-      const data = await res.json();
-      if (data.success) {
-        setAnalysis(data.analysis);
-        setHighlightedNodes([]);
-      } else {
-        console.error('Sample data error:', data.error);
-      }
+      const res = await fetch(`${API_BASE}/api/sample-data${debugMode ? '?debug=true' : ''}`);
+      await handleAnalyzeResponse(res);
     } catch (err) {
       console.error('Failed to load sample data:', err);
     } finally {
@@ -36,21 +48,35 @@ export default function Home() {
     }
   };
 
-  const handleCsvUploaded = async (csvContent: string) => {
+  // /api/analyze and /api/sample-data queue a backend job: poll it, showing stage progress, until done
+  const handleAnalyzeResponse = async (res: Response) => {
+    setJob(null);
+    const data = await res.json();
+    if (!data.success) {
+      console.error('Analysis error:', data.validation?.errors || data.error);
+      return;
+    }
+
+    const finished = await waitForJob(data.job_id, setJob);
+    if (finished.status === 'completed' && finished.result) {
+      setAnalysis(finished.result);
+      setRunId(finished.run_id ?? null);
+      setHighlightedNodes([]);
+      setJob(null);
+    } else {
+      console.error('Analysis error:', finished.error);
+    }
+  };
+
+  const handleCsvUploaded = async (csvContent: string, mapping?: ColumnMappingSelection, fileName?: string) => {
     setIsLoading(true);
     try {
       const res = await fetch(`${API_BASE}/api/analyze`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ csvContent }),
+        body: JSON.stringify({ csvContent, fileName, debug: debugMode, ...mapping }),
       });
-      const data = await res.json();
-      if (data.success) {
-        setAnalysis(data.analysis);
-        setHighlightedNodes([]);
-      } else {
-        console.error('Analysis error:', data.validation?.errors || data.error);
-      }
+      await handleAnalyzeResponse(res);
     } catch (err) {
       console.error('Failed to analyze CSV:', err);
     } finally {
@@ -58,6 +84,35 @@ export default function Home() {
     }
   };
 
+  // Files above the JSON body limit are streamed as a raw CSV request body
+  const handleLargeFileUploaded = async (file: File, mapping?: ColumnMappingSelection) => {
+    setIsLoading(true);
+    try {
+      // The body is the raw file, so the mapping travels in the query string
+      const params = new URLSearchParams({ stream: 'true', fileName: file.name });
+      if (mapping?.profile) params.set('profile', mapping.profile);
+      if (mapping?.columnMapping) params.set('columnMapping', JSON.stringify(mapping.columnMapping));
+      if (debugMode) params.set('debug', 'true');
+
+      const res = await fetch(`${API_BASE}/api/analyze?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: file,
+      });
+      await handleAnalyzeResponse(res);
+    } catch (err) {
+      console.error('Failed to analyze CSV:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenRun = (run: AnalysisRun) => {
+    setAnalysis(run.result);
+    setRunId(run.run_id);
+    setHighlightedNodes([]);
+  };
+
   const handleRingSelect = useCallback((members: string[]) => {
     setHighlightedNodes(members);
   }, []);
@@ -66,6 +121,24 @@ export default function Home() {
     setHighlightedNodes([accountId]);
   }, []);
 
+  // Open a case (or jump to the one already open) and switch to the Cases tab
+  const handleOpenCase = async (subject: { accountId: string } | { ringId: string }) => {
+    if (!runId) return;
+    try {
+      const { case: created, error, existingCaseId } = await createCase(subject, runId, getAnalystName() || 'analyst');
+      const caseId = created?.case_id ?? existingCaseId;
+      if (!caseId) {
+        console.error('Case error:', error);
+        return;
+      }
+      setSelectedCaseId(caseId);
+      setCaseRefreshKey((key) => key + 1);
+      setActiveTab('cases');
+    } catch (err) {
+      console.error('Failed to open case:', err);
+    }
+  };
+
   const downloadJSON = () => {
     if (!analysis) return;
     const blob = new Blob(
@@ -82,8 +155,20 @@ export default function Home() {
     URL.revokeObjectURL(url);
   };
 
+  // The report is built server-side from the saved run
+  const downloadReport = (format: 'html' | 'pdf') => {
+    if (!runId) return;
+    const a = document.createElement('a');
+    a.href = reportUrl(runId, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   const resetAnalysis = () => {
     setAnalysis(null);
+    setRunId(null);
+    setJob(null);
     setHighlightedNodes([]);
   };
 
@@ -107,6 +192,7 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <RunHistory activeRunId={runId} onOpenRun={handleOpenRun} />
               {analysis && (
                 <>
                   <Button
@@ -130,6 +216,23 @@ export default function Home() {
                     <Download className="h-4 w-4 mr-2" />
                     Download JSON
                   </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="default"
+                        size="sm"
+                        disabled={!runId}
+                        title={runId ? undefined : 'Reports are available for saved runs (not sample data)'}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Download Report
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => downloadReport('pdf')}>PDF</DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => downloadReport('html')}>HTML</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </>
               )}
             </div>
@@ -141,7 +244,19 @@ export default function Home() {
         {!analysis ? (
           /* Upload Screen */
           <div className="max-w-2xl mx-auto mt-8">
-            <FileUpload onCsvUploaded={handleCsvUploaded} />
+            <FileUpload
+              onCsvUploaded={handleCsvUploaded}
+              onLargeFileUploaded={handleLargeFileUploaded}
+            />
+            <label className="mt-4 flex items-center justify-end gap-2 text-xs text-muted-foreground">
+              <Switch checked={debugMode} onCheckedChange={setDebugMode} />
+              Record stage snapshots (debug)
+            </label>
+            {job && (
+              <div className="mt-6">
+                <AnalysisProgress job={job} />
+              </div>
+            )}
             <div className="mt-6 text-center">
               <p className="text-sm text-muted-foreground mb-4">
                 Or start with sample data to explore the detection system
@@ -181,6 +296,8 @@ export default function Home() {
                     fraudRings={analysis.fraudRings}
                     highlightedNodes={highlightedNodes}
                     onNodeClick={handleAccountSelect}
+                    currency={analysis.reporting_currency}
+                    runId={runId}
                   />
                 </div>
               </div>
@@ -199,6 +316,8 @@ export default function Home() {
                         { label: 'Fan-In', count: analysis.fraudRings.filter(r => r.pattern_type === 'fan_in').length, color: '#3b82f6' },
                         { label: 'Fan-Out', count: analysis.fraudRings.filter(r => r.pattern_type === 'fan_out').length, color: '#f97316' },
                         { label: 'Shell Chains', count: analysis.fraudRings.filter(r => r.pattern_type === 'shell_chain').length, color: '#a855f7' },
+                        { label: 'Structuring', count: analysis.fraudRings.filter(r => r.pattern_type === 'structuring').length, color: '#ec4899' },
+                        { label: 'Pass-Through', count: analysis.fraudRings.filter(r => r.pattern_type === 'pass_through').length, color: '#06b6d4' },
                       ].map(item => (
                         <div key={item.label} className="flex justify-between items-center">
                           <div className="flex items-center gap-2">
@@ -278,29 +397,82 @@ export default function Home() {
                       <Download className="h-4 w-4 mr-2" />
                       Download Hackathon JSON
                     </Button>
+                    {runId && (
+                      <>
+                        <Button
+                          variant="outline"
+                          className="w-full justify-start"
+                          size="sm"
+                          onClick={() => downloadReport('pdf')}
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          Download Report (PDF)
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="w-full justify-start"
+                          size="sm"
+                          onClick={() => downloadReport('html')}
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          Download Report (HTML)
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
 
             {/* Detailed Analysis Tabs */}
-            <Tabs defaultValue="rings" className="w-full">
-              <TabsList className="grid w-full grid-cols-2 max-w-md">
+            {/* Runs without snapshots fall back to the first tab */}
+            <Tabs
+              value={activeTab === 'stages' && !analysis.stage_snapshots ? 'rings' : activeTab}
+              onValueChange={setActiveTab}
+              className="w-full"
+            >
+              <TabsList className={`grid w-full max-w-lg ${analysis.stage_snapshots ? 'grid-cols-4' : 'grid-cols-3'}`}>
                 <TabsTrigger value="rings">Fraud Rings</TabsTrigger>
                 <TabsTrigger value="accounts">Suspicious Accounts</TabsTrigger>
+                <TabsTrigger value="cases">Cases</TabsTrigger>
+                {analysis.stage_snapshots && <TabsTrigger value="stages">Stages</TabsTrigger>}
               </TabsList>
               <TabsContent value="rings" className="mt-6">
                 <FraudRingTable
                   rings={analysis.fraudRings}
                   onRingSelect={handleRingSelect}
+                  onOpenCase={runId ? (ring: FraudRing) => handleOpenCase({ ringId: ring.ring_id }) : undefined}
                 />
               </TabsContent>
               <TabsContent value="accounts" className="mt-6">
                 <SuspiciousAccountsTable
                   accounts={analysis.accounts}
                   onAccountSelect={handleAccountSelect}
+                  currency={analysis.reporting_currency}
+                  onOpenCase={runId ? (accountId: string) => handleOpenCase({ accountId }) : undefined}
                 />
               </TabsContent>
+              <TabsContent value="cases" className="mt-6 space-y-6">
+                <CasesPanel
+                  runId={runId}
+                  refreshKey={caseRefreshKey}
+                  selectedCaseId={selectedCaseId}
+                  onSelectCase={setSelectedCaseId}
+                  onAccountsSelect={setHighlightedNodes}
+                  currency={analysis.reporting_currency}
+                />
+                <DispositionsPanel
+                  selectedAccountId={highlightedNodes.length === 1 ? highlightedNodes[0] : null}
+                />
+              </TabsContent>
+              {analysis.stage_snapshots && (
+                <TabsContent value="stages" className="mt-6">
+                  <StageScrubber
+                    snapshots={analysis.stage_snapshots}
+                    onAccountSelect={handleAccountSelect}
+                  />
+                </TabsContent>
+              )}
             </Tabs>
           </div>
         )}
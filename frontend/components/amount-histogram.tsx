@@ -0,0 +1,93 @@
+'use client';
+
+import { AmountProfile } from '@/lib/types';
+import { formatCurrency } from '@/lib/format';
+
+/** Benford first-digit probabilities for digits 1-9 */
+const BENFORD_EXPECTED = Array.from({ length: 9 }, (_, i) => Math.log10(1 + 1 / (i + 1)));
+
+interface AmountHistogramProps {
+  profile: AmountProfile;
+  currency?: string;
+}
+
+/** An account's leading-digit shares as bars, with Benford's expectation as dashed markers */
+export function AmountHistogram({ profile, currency }: AmountHistogramProps) {
+  const total = profile.first_digit_counts.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return null;
+
+  const observed = profile.first_digit_counts.map((n) => n / total);
+  const scale = Math.max(...observed, BENFORD_EXPECTED[0]);
+  const benfordFlagged = profile.anomalies.includes('benford');
+
+  return (
+    <div className="pt-2 border-t border-border space-y-1.5">
+      <div className="flex justify-between text-[10px]">
+        <span className="text-muted-foreground">First-Digit Distribution</span>
+        <span className={`font-mono ${benfordFlagged ? 'text-red-400' : 'text-foreground'}`}>
+          {profile.benford_mad !== null
+            ? `MAD ${profile.benford_mad.toFixed(4)} / ${profile.benford_cutoff?.toFixed(4)}`
+            : 'too few for Benford'}{' '}
+          · n={total}
+        </span>
+      </div>
+      <div className="flex items-end gap-1 h-14">
+        {observed.map((share, i) => (
+          <div
+            key={i}
+            className="relative flex-1 h-full flex items-end"
+            title={`Digit ${i + 1}: ${(share * 100).toFixed(1)}% observed, ${(BENFORD_EXPECTED[i] * 100).toFixed(1)}% expected`}
+          >
+            <div
+              className="w-full rounded-t-sm"
+              style={{
+                height: `${(share / scale) * 100}%`,
+                backgroundColor: benfordFlagged ? '#ef4444' : '#6366f1',
+              }}
+            />
+            <div
+              className="absolute inset-x-0 border-t-2 border-dashed border-amber-400"
+              style={{ bottom: `${(BENFORD_EXPECTED[i] / scale) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {observed.map((_, i) => (
+          <span key={i} className="flex-1 text-center text-[9px] font-mono text-muted-foreground">
+            {i + 1}
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 text-[9px] text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: benfordFlagged ? '#ef4444' : '#6366f1' }} />
+          Observed
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 border-t-2 border-dashed border-amber-400" />
+          Benford
+        </span>
+      </div>
+      <div className="text-[10px] space-y-0.5">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Round Amounts</span>
+          <span className={`font-mono ${profile.anomalies.includes('round') ? 'text-red-400' : 'text-foreground'}`}>
+            {profile.round_count}/{profile.transaction_count} ({Math.round(profile.round_ratio * 100)}%)
+          </span>
+        </div>
+        {profile.repeated_amounts.length > 0 && (
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Repeated</span>
+            <span className={`font-mono truncate ${profile.anomalies.includes('repeated') ? 'text-red-400' : 'text-foreground'}`}>
+              {profile.repeated_amounts
+                .slice(0, 3)
+                .map((r) => `${formatCurrency(r.amount, currency)} ×${r.count}`)
+                .join(', ')}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
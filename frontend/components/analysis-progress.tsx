@@ -0,0 +1,76 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import { AnalysisJob, AnalysisStage } from '@/lib/types';
+import { CheckCircle2, Circle, Loader2 } from 'lucide-react';
+
+// Pipeline stages in run order, as reported by the backend job
+export const PIPELINE_STAGES: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'graph', label: 'Building transaction graph' },
+  { stage: 'cycles', label: 'Cycle detection' },
+  { stage: 'fan_in', label: 'Fan-in detection' },
+  { stage: 'fan_out', label: 'Fan-out detection' },
+  { stage: 'shell_chains', label: 'Shell chain detection' },
+  { stage: 'structuring', label: 'Structuring detection' },
+  { stage: 'pass_through', label: 'Pass-through detection' },
+  { stage: 'amount_analysis', label: 'Amount distribution analysis' },
+  { stage: 'watchlist', label: 'Watchlist screening' },
+  { stage: 'graph_metrics', label: 'Graph centrality' },
+  { stage: 'scoring', label: 'Suspicion scoring' },
+  { stage: 'fraud_rings', label: 'Building fraud rings' },
+  { stage: 'relationship_intelligence', label: 'Relationship intelligence' },
+  { stage: 'temporal_validation', label: 'Temporal cycle validation' },
+  { stage: 'ring_leadership', label: 'Ring leadership' },
+  { stage: 'cross_ring', label: 'Cross-ring controllers' },
+  { stage: 'multi_stage', label: 'Multi-stage flows' },
+  { stage: 'community', label: 'Mule communities' },
+  { stage: 'fan_in_validation', label: 'Fan-in validation' },
+  { stage: 'dispositions', label: 'Applying dispositions' },
+  { stage: 'graph_data', label: 'Preparing graph' },
+];
+
+interface AnalysisProgressProps {
+  job: AnalysisJob;
+}
+
+export function AnalysisProgress({ job }: AnalysisProgressProps) {
+  const { progress } = job;
+  const statusText = job.status === 'queued'
+    ? 'Waiting for a free worker...'
+    : job.status === 'failed'
+      ? job.error || 'Analysis failed'
+      : `${progress.percent}% complete`;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-foreground">Analyzing transactions</h3>
+        <span className={`text-xs ${job.status === 'failed' ? 'text-red-400' : 'text-muted-foreground'}`}>
+          {statusText}
+        </span>
+      </div>
+      <Progress value={progress.percent} />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1.5 mt-4">
+        {PIPELINE_STAGES.map(({ stage, label }, index) => {
+          const done = index < progress.completed_stages;
+          const active = progress.stage === stage && job.status === 'running';
+          return (
+            <div key={stage} className="flex items-center gap-2 text-xs">
+              {done ? (
+                <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0" />
+              ) : active ? (
+                <Loader2 className="h-3.5 w-3.5 text-primary animate-spin shrink-0" />
+              ) : (
+                <Circle className="h-3.5 w-3.5 text-muted-foreground/50 shrink-0" />
+              )}
+              <span className={done || active ? 'text-foreground' : 'text-muted-foreground'}>
+                {label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
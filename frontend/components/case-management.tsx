@@ -0,0 +1,432 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CaseEvidence, CaseEvent, CaseStatus, InvestigationCase } from '@/lib/types';
+import {
+  addCaseEvidence,
+  addCaseNote,
+  fetchCases,
+  getAnalystName,
+  setAnalystName,
+  updateCase,
+} from '@/lib/api';
+import { formatCurrency } from '@/lib/format';
+import { Briefcase, FileText, Link2, Network, Paperclip } from 'lucide-react';
+
+// Mirrors CASE_TRANSITIONS in backend/src/case-store.ts
+const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  open: ['under_review', 'escalated', 'false_positive', 'confirmed'],
+  under_review: ['open', 'escalated', 'false_positive', 'confirmed'],
+  escalated: ['under_review', 'false_positive', 'confirmed'],
+  false_positive: ['open'],
+  confirmed: ['open'],
+};
+
+const STATUS_LABELS: Record<CaseStatus, { label: string; color: string }> = {
+  open: { label: 'Open', color: '#6366f1' },
+  under_review: { label: 'Under Review', color: '#f59e0b' },
+  escalated: { label: 'Escalated', color: '#ef4444' },
+  false_positive: { label: 'False Positive', color: '#22c55e' },
+  confirmed: { label: 'Confirmed', color: '#a855f7' },
+};
+
+function StatusBadge({ status }: { status: CaseStatus }) {
+  const { label, color } = STATUS_LABELS[status];
+  return (
+    <Badge className="text-[10px]" style={{ backgroundColor: color, color: '#fff' }}>
+      {label}
+    </Badge>
+  );
+}
+
+function describeEvent(event: CaseEvent): string {
+  switch (event.type) {
+    case 'created':
+      return `opened the case${event.detail ? `: ${event.detail}` : ''}`;
+    case 'status_changed':
+      return `moved ${STATUS_LABELS[event.from as CaseStatus]?.label ?? event.from} → ${STATUS_LABELS[event.to as CaseStatus]?.label ?? event.to}${event.detail ? ` (${event.detail})` : ''}`;
+    case 'assigned':
+      return event.to ? `assigned to ${event.to}` : 'removed the assignee';
+    case 'note_added':
+      return 'added a note';
+    case 'evidence_added':
+      return `attached ${event.detail ?? 'evidence'}`;
+  }
+}
+
+interface CasesPanelProps {
+  runId: string | null;
+  /** Bumped by the page when a case is created elsewhere */
+  refreshKey: number;
+  selectedCaseId?: string | null;
+  onSelectCase: (caseId: string) => void;
+  onAccountsSelect?: (accountIds: string[]) => void;
+  currency?: string;
+}
+
+export function CasesPanel({
+  runId,
+  refreshKey,
+  selectedCaseId,
+  onSelectCase,
+  onAccountsSelect,
+  currency,
+}: CasesPanelProps) {
+  const [cases, setCases] = useState<InvestigationCase[]>([]);
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | 'all'>('all');
+  const [analyst, setAnalyst] = useState(() => getAnalystName());
+  const [assigneeDraft, setAssigneeDraft] = useState<{ caseId: string; value: string } | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCases(runId)
+      .then((loaded) => {
+        if (!cancelled) setCases(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load cases.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, refreshKey]);
+
+  const visible = cases.filter((c) => statusFilter === 'all' || c.status === statusFilter);
+  const selected = cases.find((c) => c.case_id === selectedCaseId) ?? null;
+  const actor = analyst.trim() || 'analyst';
+  // Unsaved assignee edits belong to the case they were typed for
+  const assigneeValue = selected && assigneeDraft?.caseId === selected.case_id
+    ? assigneeDraft.value
+    : selected?.assignee ?? '';
+
+  const handleSelect = (c: InvestigationCase) => {
+    onSelectCase(c.case_id);
+    setNoteDraft('');
+    setError(null);
+    onAccountsSelect?.(c.link?.present_accounts ?? c.account_ids);
+  };
+
+  // Apply a mutation and swap the returned case into the list (keeping its run link)
+  const mutate = async (request: Promise<{ case?: InvestigationCase; error?: string }>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { case: updated, error: message } = await request;
+      if (!updated) {
+        setError(message || 'Update failed.');
+        return false;
+      }
+      setCases((prev) => prev.map((c) => (
+        c.case_id === updated.case_id ? { ...updated, link: c.link } : c
+      )));
+      return true;
+    } catch {
+      setError('Could not reach the server.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAnalystChange = (name: string) => {
+    setAnalyst(name);
+    setAnalystName(name);
+  };
+
+  const handleAddNote = async () => {
+    if (!selected || !noteDraft.trim()) return;
+    if (await mutate(addCaseNote(selected.case_id, noteDraft.trim(), actor))) setNoteDraft('');
+  };
+
+  const renderEvidence = (evidence: CaseEvidence) => (
+    <div key={evidence.evidence_id} className="p-2 rounded border border-border text-xs space-y-1">
+      <div className="flex items-center gap-2">
+        {evidence.type === 'transactions'
+          ? <FileText className="h-3.5 w-3.5 text-primary" />
+          : <Network className="h-3.5 w-3.5 text-primary" />}
+        <span className="font-medium text-foreground">
+          {evidence.type === 'transactions'
+            ? `${evidence.transactions?.length ?? 0} transactions`
+            : `Graph snapshot: ${evidence.graph?.nodes.length ?? 0} accounts, ${evidence.graph?.edges.length ?? 0} links`}
+        </span>
+        <span className="ml-auto text-muted-foreground">
+          {evidence.added_by} · {new Date(evidence.added_at).toLocaleString()}
+        </span>
+      </div>
+      <p className="text-muted-foreground font-mono" title={evidence.run_id}>
+        run {evidence.run_id.slice(0, 8)}
+      </p>
+      {evidence.transactions && (
+        <div className="space-y-0.5 font-mono text-[11px] text-muted-foreground">
+          {evidence.transactions.slice(0, 5).map((tx) => (
+            <div key={tx.transaction_id}>
+              {tx.timestamp} {tx.sender_id} → {tx.receiver_id} {formatCurrency(tx.amount, tx.currency ?? currency)}
+            </div>
+          ))}
+          {evidence.transactions.length > 5 && <div>…and {evidence.transactions.length - 5} more</div>}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Briefcase className="h-5 w-5 text-primary" />
+            Cases
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Analyst</span>
+            <Input
+              value={analyst}
+              onChange={(e) => handleAnalystChange(e.target.value)}
+              placeholder="Your name"
+              className="h-8 w-40"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1.5 mt-4">
+          {(['all', ...Object.keys(STATUS_LABELS)] as (CaseStatus | 'all')[]).map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setStatusFilter(status)}
+            >
+              {status === 'all' ? 'All' : STATUS_LABELS[status].label}
+              <span className="ml-1.5 font-mono opacity-70">
+                {status === 'all' ? cases.length : cases.filter((c) => c.status === status).length}
+              </span>
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+        {cases.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            No cases yet. Open one from the Fraud Rings or Suspicious Accounts tab.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Case list */}
+            <ScrollArea className="h-[520px] pr-3">
+              <div className="space-y-2">
+                {visible.map((c) => (
+                  <div
+                    key={c.case_id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => handleSelect(c)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSelect(c)}
+                    className={`p-3 rounded-lg border cursor-pointer hover:bg-muted/50 ${
+                      selected?.case_id === c.case_id ? 'border-primary bg-primary/5' : 'border-border'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-xs text-muted-foreground">{c.case_id}</span>
+                      <StatusBadge status={c.status} />
+                    </div>
+                    <p className="text-sm font-medium text-foreground mt-1 truncate">{c.title}</p>
+                    <div className="flex items-center gap-2 mt-1 text-[11px] text-muted-foreground">
+                      <span>{c.assignee ? `@${c.assignee}` : 'Unassigned'}</span>
+                      {c.link && c.link.present_accounts.length > 0 && (
+                        <span className="flex items-center gap-1 ml-auto">
+                          <Link2 className="h-3 w-3" />
+                          score {c.link.max_suspicion_score}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Case detail */}
+            <div className="lg:col-span-2">
+              {!selected ? (
+                <div className="text-center py-16 text-muted-foreground text-sm">
+                  Select a case to review it
+                </div>
+              ) : (
+                <div className="space-y-5">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs text-muted-foreground">{selected.case_id}</span>
+                      <StatusBadge status={selected.status} />
+                      <Badge variant="outline" className="text-[10px]">
+                        {selected.subject_type === 'ring' ? `${selected.pattern_type ?? ''} ring` : 'account'}
+                      </Badge>
+                    </div>
+                    <h3 className="text-lg font-semibold text-foreground mt-1">{selected.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Opened by {selected.created_by} on {new Date(selected.created_at).toLocaleString()}
+                      {selected.risk_score_at_creation !== undefined && ` · risk ${selected.risk_score_at_creation} at creation`}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {selected.account_ids.map((id) => (
+                        <Badge
+                          key={id}
+                          variant={selected.link?.flagged_accounts.includes(id) ? 'destructive' : 'secondary'}
+                          className="text-[10px] font-mono cursor-pointer"
+                          onClick={() => onAccountsSelect?.([id])}
+                        >
+                          {id}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Link to the run on screen */}
+                  <div className="p-3 rounded-lg bg-muted/40 text-xs text-muted-foreground">
+                    {!selected.link ? (
+                      'Open a saved run to see where these accounts appear.'
+                    ) : selected.link.present_accounts.length === 0 ? (
+                      'None of the case accounts appear in this run.'
+                    ) : (
+                      <>
+                        In this run: {selected.link.present_accounts.length} of {selected.account_ids.length} accounts,{' '}
+                        {selected.link.flagged_accounts.length} flagged, max score{' '}
+                        <span className="font-mono text-foreground">{selected.link.max_suspicion_score}</span>
+                        {selected.link.ring_ids.length > 0 && (
+                          <> · rings <span className="font-mono text-foreground">{selected.link.ring_ids.join(', ')}</span></>
+                        )}
+                      </>
+                    )}
+                  </div>
+
+                  {/* Status and assignee */}
+                  <div className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-16">Move to</span>
+                      {CASE_TRANSITIONS[selected.status].map((status) => (
+                        <Button
+                          key={status}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          disabled={isSaving}
+                          onClick={() => mutate(updateCase(selected.case_id, { status }, actor))}
+                        >
+                          {STATUS_LABELS[status].label}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-16">Assignee</span>
+                      <Input
+                        value={assigneeValue}
+                        onChange={(e) => setAssigneeDraft({ caseId: selected.case_id, value: e.target.value })}
+                        placeholder="Unassigned"
+                        className="h-8 max-w-xs"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        disabled={isSaving || assigneeValue.trim() === (selected.assignee ?? '')}
+                        onClick={() => mutate(updateCase(selected.case_id, { assignee: assigneeValue.trim() || null }, actor))}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Evidence */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                        <Paperclip className="h-4 w-4" />
+                        Evidence
+                      </h4>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          disabled={!runId || isSaving}
+                          onClick={() => runId && mutate(addCaseEvidence(selected.case_id, 'transactions', runId, actor))}
+                        >
+                          Attach transactions
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          disabled={!runId || isSaving}
+                          onClick={() => runId && mutate(addCaseEvidence(selected.case_id, 'graph_snapshot', runId, actor))}
+                        >
+                          Attach graph snapshot
+                        </Button>
+                      </div>
+                    </div>
+                    {selected.evidence.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No evidence attached</p>
+                    ) : (
+                      <div className="space-y-2">{selected.evidence.map(renderEvidence)}</div>
+                    )}
+                  </div>
+
+                  {/* Notes */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-foreground mb-2">Notes</h4>
+                    <div className="space-y-2 mb-2">
+                      {selected.notes.map((note) => (
+                        <div key={note.note_id} className="p-2 rounded border border-border text-xs">
+                          <p className="text-foreground whitespace-pre-wrap">{note.text}</p>
+                          <p className="text-muted-foreground mt-1">
+                            {note.author} · {new Date(note.created_at).toLocaleString()}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                    <Textarea
+                      value={noteDraft}
+                      onChange={(e) => setNoteDraft(e.target.value)}
+                      placeholder="Add a note..."
+                      className="text-sm"
+                    />
+                    <Button
+                      size="sm"
+                      className="mt-2"
+                      disabled={isSaving || !noteDraft.trim()}
+                      onClick={handleAddNote}
+                    >
+                      Add Note
+                    </Button>
+                  </div>
+
+                  {/* Audit trail */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-foreground mb-2">Audit Trail</h4>
+                    <div className="space-y-1.5 border-l border-border pl-3">
+                      {[...selected.history].reverse().map((event, index) => (
+                        <div key={`${event.at}-${index}`} className="text-xs">
+                          <span className="text-muted-foreground">{new Date(event.at).toLocaleString()}</span>{' '}
+                          <span className="font-medium text-foreground">{event.actor}</span>{' '}
+                          <span className="text-muted-foreground">{describeEvent(event)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
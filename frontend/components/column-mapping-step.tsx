@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AmountSignConvention,
+  CanonicalColumn,
+  ColumnMapping,
+  ColumnMappingProfile,
+  ColumnMappingSelection,
+} from '@/lib/types';
+import { fetchColumnProfiles, saveColumnProfile } from '@/lib/api';
+import { REQUIRED_COLUMNS } from '@/lib/csv-header';
+import { Columns3 } from 'lucide-react';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  missingColumns: string[];
+  onApply: (selection: ColumnMappingSelection) => void;
+  onCancel: () => void;
+}
+
+const NONE = '__none__';
+
+const SIGN_LABELS: Record<AmountSignConvention, string> = {
+  positive: 'Amounts are always positive',
+  absolute: 'Ignore the sign',
+  negative_reverses: 'Negative reverses direction',
+};
+
+function splitValues(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+export function ColumnMappingStep({ headers, missingColumns, onApply, onCancel }: ColumnMappingStepProps) {
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>([]);
+  const [columns, setColumns] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      REQUIRED_COLUMNS.map((col) => [col, headers.find((h) => h.toLowerCase() === col) ?? NONE])
+    )
+  );
+  const [dateFormat, setDateFormat] = useState('');
+  const [amountSign, setAmountSign] = useState<AmountSignConvention>('positive');
+  const [directionColumn, setDirectionColumn] = useState(NONE);
+  const [debitValues, setDebitValues] = useState('D');
+  const [creditValues, setCreditValues] = useState('C');
+  const [profileName, setProfileName] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchColumnProfiles()
+      .then(setProfiles)
+      .catch(() => setProfiles([]));
+  }, []);
+
+  const unmapped = REQUIRED_COLUMNS.filter((col) => columns[col] === NONE);
+
+  const buildMapping = (): ColumnMapping => {
+    const mapping: ColumnMapping = {
+      columns: Object.fromEntries(
+        REQUIRED_COLUMNS.map((col) => [col, [columns[col]]])
+      ) as Record<CanonicalColumn, string[]>,
+      amount_sign: amountSign,
+    };
+    if (dateFormat.trim()) mapping.date_format = dateFormat.trim();
+    if (directionColumn !== NONE) {
+      mapping.direction = {
+        column: directionColumn,
+        debit_values: splitValues(debitValues),
+        credit_values: splitValues(creditValues),
+      };
+    }
+    return mapping;
+  };
+
+  const handleApply = async () => {
+    const mapping = buildMapping();
+    if (!profileName.trim()) {
+      onApply({ columnMapping: mapping });
+      return;
+    }
+
+    // Save first so the same bank feed can be uploaded by profile next time
+    setIsSaving(true);
+    try {
+      const saveErrors = await saveColumnProfile(profileName.trim(), mapping);
+      if (saveErrors.length > 0) {
+        setErrors(saveErrors);
+        return;
+      }
+      onApply({ profile: profileName.trim() });
+    } catch {
+      setErrors(['Failed to save profile. Please try again.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-4 text-left">
+      <div className="flex items-start gap-2">
+        <Columns3 className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+        <div className="text-xs text-muted-foreground">
+          <p className="font-semibold text-foreground">Map columns</p>
+          <p>
+            Required columns not found: {missingColumns.join(', ')}. Choose the matching
+            columns from your file, or use a saved profile.
+          </p>
+        </div>
+      </div>
+
+      {profiles.length > 0 && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Saved profile</Label>
+          <Select onValueChange={(name) => onApply({ profile: name })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Select a saved profile..." />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.name} value={p.name} className="text-xs">
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {REQUIRED_COLUMNS.map((col) => (
+          <div key={col} className="space-y-1.5">
+            <Label className="text-xs font-mono">{col}</Label>
+            <Select
+              value={columns[col]}
+              onValueChange={(value) => setColumns((prev) => ({ ...prev, [col]: value }))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE} className="text-xs">Not mapped</SelectItem>
+                {headers.map((h) => (
+                  <SelectItem key={h} value={h} className="text-xs">{h}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Date format</Label>
+          <Input
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value)}
+            placeholder="YYYY-MM-DD HH:mm:ss"
+            className="h-8 text-xs font-mono"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Amount sign</Label>
+          <Select value={amountSign} onValueChange={(v) => setAmountSign(v as AmountSignConvention)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SIGN_LABELS) as AmountSignConvention[]).map((sign) => (
+                <SelectItem key={sign} value={sign} className="text-xs">{SIGN_LABELS[sign]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Debit/credit column</Label>
+          <Select value={directionColumn} onValueChange={setDirectionColumn}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE} className="text-xs">None</SelectItem>
+              {headers.map((h) => (
+                <SelectItem key={h} value={h} className="text-xs">{h}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {directionColumn !== NONE && (
+          <>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Debit values</Label>
+              <Input
+                value={debitValues}
+                onChange={(e) => setDebitValues(e.target.value)}
+                placeholder="D, DR"
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Credit values (reversed)</Label>
+              <Input
+                value={creditValues}
+                onChange={(e) => setCreditValues(e.target.value)}
+                placeholder="C, CR"
+                className="h-8 text-xs"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Save as profile (optional)</Label>
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="e.g. Bank A SEPA export"
+          className="h-8 text-xs"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-xs text-red-400">
+          {errors.map((err, i) => (
+            <p key={i}>{err}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleApply} disabled={unmapped.length > 0 || isSaving}>
+          {isSaving ? 'Saving...' : 'Apply mapping'}
+        </Button>
+      </div>
+    </div>
+  );
+}
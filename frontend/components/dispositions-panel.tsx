@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Disposition, DispositionLabel } from '@/lib/types';
+import { deleteDisposition, fetchDispositions, getAnalystName, recordDisposition } from '@/lib/api';
+import { ArrowRight, Stamp, Trash2 } from 'lucide-react';
+
+export const DISPOSITION_LABELS: Record<DispositionLabel, { label: string; color: string }> = {
+  benign_merchant: { label: 'Benign Merchant', color: '#22c55e' },
+  payroll: { label: 'Payroll', color: '#0ea5e9' },
+  confirmed_mule: { label: 'Confirmed Mule', color: '#ef4444' },
+};
+
+interface DispositionsPanelProps {
+  /** Pre-fills the account field when the analyst selects a single account */
+  selectedAccountId?: string | null;
+}
+
+export function DispositionsPanel({ selectedAccountId }: DispositionsPanelProps) {
+  const [dispositions, setDispositions] = useState<Disposition[]>([]);
+  const [subjectType, setSubjectType] = useState<'account' | 'pair'>('account');
+  // Typed account ID; falls back to the selected account until edited
+  const [accountDraft, setAccountDraft] = useState<{ for: string | null; value: string } | null>(null);
+  const [senderId, setSenderId] = useState('');
+  const [receiverId, setReceiverId] = useState('');
+  const [label, setLabel] = useState<DispositionLabel>('benign_merchant');
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDispositions()
+      .then((loaded) => {
+        if (!cancelled) setDispositions(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setErrors(['Could not load dispositions.']);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const accountId = accountDraft && accountDraft.for === (selectedAccountId ?? null)
+    ? accountDraft.value
+    : selectedAccountId ?? '';
+  const canSave = subjectType === 'account'
+    ? accountId.trim() !== ''
+    : senderId.trim() !== '' && receiverId.trim() !== '';
+
+  const handleRecord = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const subject = subjectType === 'account'
+        ? { accountId: accountId.trim() }
+        : { senderId: senderId.trim(), receiverId: receiverId.trim() };
+      const { disposition, errors: failed } = await recordDisposition(
+        subject,
+        label,
+        note.trim(),
+        getAnalystName() || 'analyst',
+      );
+      if (!disposition) {
+        setErrors(failed);
+        return;
+      }
+      setDispositions((prev) => [
+        disposition,
+        ...prev.filter((d) => d.disposition_id !== disposition.disposition_id),
+      ]);
+      setNote('');
+    } catch {
+      setErrors(['Could not reach the server.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (dispositionId: string) => {
+    try {
+      if (await deleteDisposition(dispositionId)) {
+        setDispositions((prev) => prev.filter((d) => d.disposition_id !== dispositionId));
+      }
+    } catch {
+      setErrors(['Could not reach the server.']);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <Stamp className="h-5 w-5 text-primary" />
+          Dispositions
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Analyst verdicts on accounts and sender → receiver pairs. They adjust scores from the next analysis on.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {/* Record form */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground w-16">Subject</span>
+            {(['account', 'pair'] as const).map((type) => (
+              <Button
+                key={type}
+                variant={subjectType === type ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSubjectType(type)}
+              >
+                {type === 'account' ? 'Account' : 'Sender → Receiver'}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground w-16">{subjectType === 'account' ? 'Account' : 'Pair'}</span>
+            {subjectType === 'account' ? (
+              <Input
+                value={accountId}
+                onChange={(e) => setAccountDraft({ for: selectedAccountId ?? null, value: e.target.value })}
+                placeholder="Account ID"
+                className="h-8 max-w-xs font-mono"
+              />
+            ) : (
+              <>
+                <Input
+                  value={senderId}
+                  onChange={(e) => setSenderId(e.target.value)}
+                  placeholder="Sender ID"
+                  className="h-8 w-40 font-mono"
+                />
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={receiverId}
+                  onChange={(e) => setReceiverId(e.target.value)}
+                  placeholder="Receiver ID"
+                  className="h-8 w-40 font-mono"
+                />
+              </>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground w-16">Verdict</span>
+            {(Object.keys(DISPOSITION_LABELS) as DispositionLabel[]).map((key) => (
+              <Button
+                key={key}
+                variant={label === key ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setLabel(key)}
+              >
+                {DISPOSITION_LABELS[key].label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground w-16">Note</span>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              className="h-8 max-w-md"
+            />
+            <Button size="sm" className="h-8" disabled={isSaving || !canSave} onClick={handleRecord}>
+              Record
+            </Button>
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5">
+              {errors.map((message) => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Recorded dispositions */}
+        {dispositions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No dispositions recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {dispositions.map((d) => (
+              <div key={d.disposition_id} className="flex items-center gap-3 p-2 rounded border border-border text-xs">
+                <Badge
+                  className="text-[10px]"
+                  style={{ backgroundColor: DISPOSITION_LABELS[d.label].color, color: '#fff' }}
+                >
+                  {DISPOSITION_LABELS[d.label].label}
+                </Badge>
+                <span className="font-mono text-foreground">
+                  {d.subject_type === 'account' ? d.account_id : `${d.sender_id} → ${d.receiver_id}`}
+                </span>
+                {d.note && <span className="text-muted-foreground truncate">{d.note}</span>}
+                <span className="ml-auto text-muted-foreground whitespace-nowrap">
+                  {d.recorded_by} · {new Date(d.recorded_at).toLocaleString()}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Withdraw disposition"
+                  aria-label={`Withdraw disposition for ${d.account_id ?? `${d.sender_id} → ${d.receiver_id}`}`}
+                  onClick={() => handleDelete(d.disposition_id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
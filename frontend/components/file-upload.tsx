@@ -3,6 +3,9 @@
 import { useState, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { ColumnMappingStep } from '@/components/column-mapping-step';
+import { ColumnMappingSelection } from '@/lib/types';
+import { findMissingColumns, parseCsvHeader } from '@/lib/csv-header';
 import { Upload, FileSpreadsheet, X, AlertCircle, CheckCircle2 } from 'lucide-react';
 
 interface ValidationState {
@@ -12,15 +15,29 @@ interface ValidationState {
   transactionCount?: number;
 }
 
+// File whose header lacks required columns, waiting for the user to map them
+interface PendingMapping {
+  headers: string[];
+  missingColumns: string[];
+  content?: string;
+  file?: File;
+}
+
 interface FileUploadProps {
-  onCsvUploaded: (csvContent: string) => void;
+  onCsvUploaded: (csvContent: string, mapping?: ColumnMappingSelection, fileName?: string) => void;
+  // Files above the in-memory limit are handed over as-is for streaming upload
+  onLargeFileUploaded?: (file: File, mapping?: ColumnMappingSelection) => void;
 }
 
-export function FileUpload({ onCsvUploaded }: FileUploadProps) {
+// Files larger than this are streamed to the backend instead of read into memory
+const IN_MEMORY_LIMIT = 50 * 1024 * 1024;
+
+export function FileUpload({ onCsvUploaded, onLargeFileUploaded }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [validation, setValidation] = useState<ValidationState | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -54,8 +71,8 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
       return;
     }
 
-    // Check file size (max 50MB)
-    if (file.size > 50 * 1024 * 1024) {
+    // Check file size (max 50MB unless streaming upload is available)
+    if (file.size > IN_MEMORY_LIMIT && !onLargeFileUploaded) {
       setValidation({
         success: false,
         errors: ['File too large. Maximum size is 50MB.'],
@@ -67,37 +84,29 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
     setFileName(file.name);
     setIsProcessing(true);
     setValidation(null);
+    setPendingMapping(null);
+
+    if (file.size > IN_MEMORY_LIMIT) {
+      processLargeFile(file);
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
 
-      // Quick client-side check: verify header has required columns
-      const firstLine = content.split('\n')[0]?.toLowerCase() || '';
-      const requiredCols = ['transaction_id', 'sender_id', 'receiver_id', 'amount', 'timestamp'];
-      const missingCols = requiredCols.filter(col => !firstLine.includes(col));
-
-      if (missingCols.length > 0) {
-        setValidation({
-          success: false,
-          errors: [`Missing required columns: ${missingCols.join(', ')}`],
-          warnings: [],
-        });
-        setIsProcessing(false);
+      // Quick client-side check: verify header has required columns,
+      // otherwise ask the user to map them before uploading
+      const headers = parseCsvHeader(content);
+      const missingColumns = findMissingColumns(headers);
+      setIsProcessing(false);
+
+      if (missingColumns.length > 0) {
+        setPendingMapping({ headers, missingColumns, content });
         return;
       }
 
-      const lineCount = content.split('\n').filter(l => l.trim()).length - 1;
-      setValidation({
-        success: true,
-        errors: [],
-        warnings: [],
-        transactionCount: lineCount,
-      });
-      setIsProcessing(false);
-
-      // Send CSV content to parent for backend processing
-      onCsvUploaded(content);
+      submitContent(content, undefined, file.name);
     };
 
     reader.onerror = () => {
@@ -112,9 +121,67 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
     reader.readAsText(file);
   };
 
+  const submitContent = (content: string, mapping?: ColumnMappingSelection, name?: string) => {
+    const lineCount = content.split('\n').filter(l => l.trim()).length - 1;
+    setValidation({
+      success: true,
+      errors: [],
+      warnings: [],
+      transactionCount: lineCount,
+    });
+
+    // Send CSV content to parent for backend processing
+    onCsvUploaded(content, mapping, name);
+  };
+
+  const submitLargeFile = (file: File, mapping?: ColumnMappingSelection) => {
+    setValidation({
+      success: true,
+      errors: [],
+      warnings: [
+        `Large file (${(file.size / (1024 * 1024)).toFixed(0)}MB) - rows are validated while streaming to the server`,
+      ],
+    });
+    onLargeFileUploaded?.(file, mapping);
+  };
+
+  // Large files: only the header is read client-side; the backend validates
+  // rows while the file streams up, so the row count is unknown here.
+  const processLargeFile = async (file: File) => {
+    try {
+      const head = await file.slice(0, 64 * 1024).text();
+      const headers = parseCsvHeader(head);
+      const missingColumns = findMissingColumns(headers);
+
+      if (missingColumns.length > 0) {
+        setPendingMapping({ headers, missingColumns, file });
+        return;
+      }
+
+      submitLargeFile(file);
+    } catch {
+      setValidation({
+        success: false,
+        errors: ['Failed to read file. Please try again.'],
+        warnings: [],
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const applyMapping = (mapping: ColumnMappingSelection) => {
+    if (!pendingMapping) return;
+    const { content, file } = pendingMapping;
+    setPendingMapping(null);
+    if (file) submitLargeFile(file, mapping);
+    else if (content !== undefined) submitContent(content, mapping, fileName ?? undefined);
+  };
+
   const clearFile = () => {
     setFileName(null);
     setValidation(null);
+    setPendingMapping(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -164,6 +231,9 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
               <p className="mt-2">
                 Timestamp format: <code>YYYY-MM-DD HH:MM:SS</code>
               </p>
+              <p className="mt-2">
+                Different headers or date formats? You can map them after selecting the file.
+              </p>
             </div>
           </>
         ) : (
@@ -175,8 +245,12 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
                 <p className="text-xs text-muted-foreground">
                   {isProcessing
                     ? 'Uploading and processing...'
+                    : pendingMapping
+                    ? 'Column mapping required'
                     : validation?.success
-                    ? `${validation.transactionCount ?? 0} transactions detected`
+                    ? validation.transactionCount !== undefined
+                      ? `${validation.transactionCount} transactions detected`
+                      : 'Streaming to server for validation'
                     : 'Validation failed'}
                 </p>
               </div>
@@ -185,6 +259,15 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
               </Button>
             </div>
 
+            {pendingMapping && (
+              <ColumnMappingStep
+                headers={pendingMapping.headers}
+                missingColumns={pendingMapping.missingColumns}
+                onApply={applyMapping}
+                onCancel={clearFile}
+              />
+            )}
+
             {/* Validation feedback */}
             {validation && !validation.success && validation.errors.length > 0 && (
               <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 mb-3">
@@ -222,8 +305,9 @@ export function FileUpload({ onCsvUploaded }: FileUploadProps) {
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="h-4 w-4 text-emerald-500" />
                   <span className="text-xs text-emerald-400 font-medium">
-                    CSV validated successfully - {validation.transactionCount ?? 0}{' '}
-                    transactions sent for analysis
+                    {validation.transactionCount !== undefined
+                      ? `CSV validated successfully - ${validation.transactionCount} transactions sent for analysis`
+                      : 'CSV header validated - file sent for streaming analysis'}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import { FlowTrace, FlowTraceNode, TraceAllocation, TraceDirection, TraceOptions } from '@/lib/types';
+import { formatCurrency } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+  direction: 'forward',
+  allocation: 'fifo',
+  max_hops: 5,
+  min_amount: 0,
+};
+
+const ALLOCATION_LABELS: Record<TraceAllocation, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  proportional: 'Proportional',
+};
+
+/** Band colour by hop, warming from the traced account outward */
+const HOP_COLORS = ['#fbbf24', '#f59e0b', '#f97316', '#ef4444', '#dc2626', '#b91c1c'];
+
+const MAX_HOPS = 10;
+
+type Point = { x: number; y: number };
+
+interface FlowTraceOverlayProps {
+  trace: FlowTrace;
+  /** Positions of accounts inside the graph container; accounts not in the graph are absent */
+  positions: Record<string, Point>;
+}
+
+/** Sankey-style bands over the graph: width by traced amount, dashes moving with the money */
+export function FlowTraceOverlay({ trace, positions }: FlowTraceOverlayProps) {
+  const maxAmount = Math.max(0, ...trace.links.map((l) => l.amount));
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none z-30">
+      {trace.links.map((link) => {
+        const from = positions[link.source];
+        const to = positions[link.target];
+        if (!from || !to) return null;
+
+        const width = 2 + 14 * (maxAmount > 0 ? link.amount / maxAmount : 0);
+        // Bow each band to its left so opposite flows between two accounts stay apart
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const length = Math.hypot(dx, dy) || 1;
+        const bow = Math.min(40, length / 4);
+        const cx = (from.x + to.x) / 2 - (dy / length) * bow;
+        const cy = (from.y + to.y) / 2 + (dx / length) * bow;
+        const path = `M ${from.x} ${from.y} Q ${cx} ${cy} ${to.x} ${to.y}`;
+        const color = HOP_COLORS[Math.min(link.hop - 1, HOP_COLORS.length - 1)];
+
+        return (
+          <g key={`${link.source}\u0000${link.target}`}>
+            <path d={path} fill="none" stroke={color} strokeOpacity={0.3} strokeWidth={width} strokeLinecap="round" />
+            <path
+              d={path}
+              fill="none"
+              stroke={color}
+              strokeWidth={Math.max(1.5, width / 3)}
+              strokeDasharray="6 10"
+              strokeLinecap="round"
+            >
+              <animate attributeName="stroke-dashoffset" from="32" to="0" dur="1.2s" repeatCount="indefinite" />
+            </path>
+            <text
+              x={(from.x + 2 * cx + to.x) / 4}
+              y={(from.y + 2 * cy + to.y) / 4}
+              fill="#fde68a"
+              fontSize={9}
+              fontFamily="monospace"
+              textAnchor="middle"
+              stroke="#070b14"
+              strokeWidth={3}
+              paintOrder="stroke"
+            >
+              {formatCurrency(link.amount, trace.currency)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function sumTree(node: FlowTraceNode, field: 'untraced_amount' | 'cutoff_amount'): number {
+  return node.children.reduce((sum, child) => sum + sumTree(child, field), node[field]);
+}
+
+function TraceTreeRow({ node, currency }: { node: FlowTraceNode; currency: string }) {
+  return (
+    <>
+      <div
+        className="flex justify-between gap-2 text-[10px] font-mono"
+        style={{ paddingLeft: node.hop * 10 }}
+        title={node.timestamp ?? undefined}
+      >
+        <span className="truncate text-foreground">
+          {node.hop > 0 && <span className="text-muted-foreground">↳ </span>}
+          {node.account_id}
+          {node.transaction_id && <span className="text-muted-foreground"> · {node.transaction_id}</span>}
+        </span>
+        <span className="whitespace-nowrap text-amber-300">{formatCurrency(node.amount, currency)}</span>
+      </div>
+      {node.children.map((child, i) => (
+        <TraceTreeRow key={`${child.transaction_id}-${i}`} node={child} currency={currency} />
+      ))}
+    </>
+  );
+}
+
+interface FlowTracePanelProps {
+  accountId: string;
+  options: TraceOptions;
+  onOptionsChange: (options: TraceOptions) => void;
+  trace: FlowTrace | null;
+  loading: boolean;
+  errors: string[];
+  /** Links with an account outside the current graph view */
+  hiddenLinks: number;
+  onClose: () => void;
+}
+
+/** Trace controls, totals and the flow tree */
+export function FlowTracePanel({
+  accountId,
+  options,
+  onOptionsChange,
+  trace,
+  loading,
+  errors,
+  hiddenLinks,
+  onClose,
+}: FlowTracePanelProps) {
+  // Typed minimum; applied on blur or Enter so each keystroke does not re-trace
+  const [minDraft, setMinDraft] = useState<string | null>(null);
+  const commitMin = () => {
+    if (minDraft === null) return;
+    const value = Number(minDraft);
+    setMinDraft(null);
+    if (Number.isFinite(value) && value >= 0 && value !== options.min_amount) {
+      onOptionsChange({ ...options, min_amount: value });
+    }
+  };
+
+  return (
+    <div className="absolute top-0 left-0 w-80 max-h-[600px] bg-card/95 backdrop-blur-sm border border-border rounded-l-lg z-40 overflow-y-auto">
+      <div className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground">
+            Flow Trace <span className="font-mono text-amber-300">{accountId}</span>
+          </h3>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} aria-label="Close trace">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={options.direction}
+            onValueChange={(v) => onOptionsChange({ ...options, direction: v as TraceDirection })}
+          >
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="forward">Where it went</SelectItem>
+              <SelectItem value="backward">Where it came from</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={options.allocation}
+            onValueChange={(v) => onOptionsChange({ ...options, allocation: v as TraceAllocation })}
+          >
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ALLOCATION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(options.max_hops)}
+            onValueChange={(v) => onOptionsChange({ ...options, max_hops: Number(v) })}
+          >
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_HOPS }, (_, i) => i + 1).map((hops) => (
+                <SelectItem key={hops} value={String(hops)}>
+                  {hops} hop{hops > 1 ? 's' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            className="h-7 text-xs"
+            placeholder="Min amount"
+            aria-label="Minimum amount"
+            value={minDraft ?? String(options.min_amount)}
+            onChange={(e) => setMinDraft(e.target.value)}
+            onBlur={commitMin}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitMin();
+            }}
+          />
+        </div>
+
+        {loading && <p className="text-xs text-muted-foreground">Tracing…</p>}
+        {errors.length > 0 && (
+          <div className="text-xs text-red-400 space-y-0.5">
+            {errors.map((error) => <p key={error}>{error}</p>)}
+          </div>
+        )}
+
+        {trace && !loading && (
+          <>
+            <div className="text-[11px] space-y-1 pt-2 border-t border-border">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Traced</span>
+                <span className="font-mono text-foreground">{formatCurrency(trace.root.amount, trace.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {trace.direction === 'forward' ? 'Still held' : 'From before the data'}
+                </span>
+                <span className="font-mono text-foreground">
+                  {formatCurrency(sumTree(trace.root, 'untraced_amount'), trace.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Beyond cut-offs</span>
+                <span className="font-mono text-foreground">
+                  {formatCurrency(sumTree(trace.root, 'cutoff_amount'), trace.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tree</span>
+                <span className="font-mono text-foreground">
+                  {trace.node_count} nodes · {trace.links.length} flows
+                </span>
+              </div>
+            </div>
+            {trace.truncated && (
+              <p className="text-[10px] text-amber-400">Node limit reached; raise the minimum amount to see the rest.</p>
+            )}
+            {hiddenLinks > 0 && (
+              <p className="text-[10px] text-muted-foreground">
+                {hiddenLinks} flow(s) involve accounts outside this view.
+              </p>
+            )}
+            <div className="pt-2 border-t border-border space-y-0.5">
+              <TraceTreeRow node={trace.root} currency={trace.currency} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,9 @@
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { FraudRing } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { FraudRing, RingLink } from '@/lib/types';
+import { formatCurrency } from '@/lib/format';
 import {
   Table,
   TableBody,
@@ -12,11 +14,13 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, FolderPlus, ShieldAlert } from 'lucide-react';
 
 interface FraudRingTableProps {
   rings: FraudRing[];
   onRingSelect?: (members: string[]) => void;
+  /** Shown as a per-row action when provided */
+  onOpenCase?: (ring: FraudRing) => void;
 }
 
 const PATTERN_LABELS: Record<string, { label: string; color: string }> = {
@@ -24,9 +28,19 @@ const PATTERN_LABELS: Record<string, { label: string; color: string }> = {
   fan_in: { label: 'Fan-In', color: '#3b82f6' },
   fan_out: { label: 'Fan-Out', color: '#f97316' },
   shell_chain: { label: 'Shell Chain', color: '#a855f7' },
+  structuring: { label: 'Structuring', color: '#ec4899' },
+  pass_through: { label: 'Pass-Through', color: '#06b6d4' },
 };
 
-export function FraudRingTable({ rings, onRingSelect }: FraudRingTableProps) {
+function describeLink(link: RingLink, currency: string): string {
+  const parts: string[] = [];
+  if (link.shared_members.length > 0) parts.push(`Shared: ${link.shared_members.join(', ')}`);
+  if (link.amount_out > 0) parts.push(`Sent ${formatCurrency(link.amount_out, currency)}`);
+  if (link.amount_in > 0) parts.push(`Received ${formatCurrency(link.amount_in, currency)}`);
+  return parts.join(' | ');
+}
+
+export function FraudRingTable({ rings, onRingSelect, onOpenCase }: FraudRingTableProps) {
   const [selectedRing, setSelectedRing] = useState<string | null>(null);
 
   const handleRowClick = (ring: FraudRing) => {
@@ -34,6 +48,8 @@ export function FraudRingTable({ rings, onRingSelect }: FraudRingTableProps) {
     onRingSelect?.(ring.members);
   };
 
+  const ringsById = new Map(rings.map((ring) => [ring.ring_id, ring]));
+
   return (
     <Card>
       <CardHeader>
@@ -59,7 +75,10 @@ export function FraudRingTable({ rings, onRingSelect }: FraudRingTableProps) {
                   <TableHead>Pattern Type</TableHead>
                   <TableHead className="text-right">Member Count</TableHead>
                   <TableHead className="text-right">Risk Score</TableHead>
+                  <TableHead className="text-right">Total Value</TableHead>
                   <TableHead>Member Account IDs</TableHead>
+                  <TableHead>Linked Rings</TableHead>
+                  {onOpenCase && <TableHead className="w-10" />}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -77,7 +96,14 @@ export function FraudRingTable({ rings, onRingSelect }: FraudRingTableProps) {
                       onClick={() => handleRowClick(ring)}
                     >
                       <TableCell className="font-mono font-medium text-foreground">
-                        {ring.ring_id}
+                        <div className="flex items-center gap-1.5">
+                          {ring.ring_id}
+                          {ring.watchlist_members && (
+                            <span title={`Watchlisted: ${ring.watchlist_members.join(', ')}`}>
+                              <ShieldAlert className="h-4 w-4 text-red-500" aria-label="Contains watchlisted accounts" />
+                            </span>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell>
                         <Badge
@@ -89,6 +115,11 @@ export function FraudRingTable({ rings, onRingSelect }: FraudRingTableProps) {
                         >
                           {pattern.label}
                         </Badge>
+                        {ring.modularity !== undefined && (
+                          <span className="ml-2 text-[10px] font-mono text-muted-foreground" title="Community modularity">
+                            Q {ring.modularity.toFixed(3)}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right font-mono text-foreground">
                         {ring.member_count}
@@ -106,11 +137,55 @@ export function FraudRingTable({ rings, onRingSelect }: FraudRingTableProps) {
                           {ring.risk_score}
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-right font-mono text-foreground">
+                        {ring.total_value > 0 ? formatCurrency(ring.total_value, ring.currency) : '—'}
+                      </TableCell>
                       <TableCell>
-                        <div className="max-w-[300px] truncate text-xs font-mono text-muted-foreground">
+                        <div
+                          className="max-w-[300px] truncate text-xs font-mono text-muted-foreground"
+                          title={ring.transaction_ids ? `Transactions: ${ring.transaction_ids.join(' → ')}` : undefined}
+                        >
                           {ring.members.join(', ')}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 max-w-[220px]">
+                          {ring.linked_rings?.map((link) => {
+                            const linked = ringsById.get(link.ring_id);
+                            return (
+                              <Badge
+                                key={link.ring_id}
+                                variant="outline"
+                                className={`text-xs font-mono ${linked ? 'cursor-pointer hover:bg-muted' : ''}`}
+                                title={describeLink(link, ring.currency)}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (linked) handleRowClick(linked);
+                                }}
+                              >
+                                {link.ring_id}
+                              </Badge>
+                            );
+                          }) ?? <span className="text-xs text-muted-foreground">—</span>}
+                        </div>
+                      </TableCell>
+                      {onOpenCase && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Open case"
+                            aria-label={`Open case for ${ring.ring_id}`}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onOpenCase(ring);
+                            }}
+                          >
+                            <FolderPlus className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
                     </TableRow>
                   );
                 })}
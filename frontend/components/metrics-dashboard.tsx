@@ -2,11 +2,12 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AnalysisResult } from '@/lib/types';
+import { formatCurrencyCompact } from '@/lib/format';
 import {
   AlertTriangle,
   Users,
   Activity,
-  DollarSign,
+  Banknote,
   Network,
   Clock,
 } from 'lucide-react';
@@ -48,9 +49,12 @@ export function MetricsDashboard({ analysis }: MetricsDashboardProps) {
       bgColor: 'bg-amber-500/10',
     },
     {
-      title: 'Total Value',
-      value: `$${(analysis.transactions.reduce((s, t) => s + t.amount, 0) / 1000).toFixed(0)}K`,
-      icon: DollarSign,
+      title: `Total Value (${analysis.reporting_currency})`,
+      value: formatCurrencyCompact(
+        analysis.transactions.reduce((s, t) => s + t.amount, 0),
+        analysis.reporting_currency
+      ),
+      icon: Banknote,
       color: 'text-emerald-500',
       bgColor: 'bg-emerald-500/10',
     },
@@ -1,7 +1,19 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { CytoscapeGraphData, FraudRing, ShellChainPath } from '@/lib/types';
+import {
+  AccountPath,
+  CytoscapeGraphData,
+  EgoDirection,
+  EgoNetwork,
+  FlowTrace,
+  FraudRing,
+  PathQueryOptions,
+  PathQueryResult,
+  ShellChainPath,
+  TraceOptions,
+} from '@/lib/types';
+import { formatCurrency } from '@/lib/format';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -14,6 +26,11 @@ import {
 import { Slider } from '@/components/ui/slider';
 import { X, ZoomIn, ZoomOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { AmountHistogram } from '@/components/amount-histogram';
+import { DEFAULT_TRACE_OPTIONS, FlowTraceOverlay, FlowTracePanel } from '@/components/flow-trace';
+import { DEFAULT_PATH_OPTIONS, PathQueryPanel, pathKey } from '@/components/path-query';
+import { fetchEgoNetwork, findPaths, traceFunds } from '@/lib/api';
+import { Input } from '@/components/ui/input';
 
 type PatternFilter =
   | 'all'
@@ -21,6 +38,8 @@ type PatternFilter =
   | 'fan_in'
   | 'fan_out'
   | 'shell_chain'
+  | 'structuring'
+  | 'pass_through'
   | 'suspicious';
 
 interface NetworkGraphProps {
@@ -28,6 +47,9 @@ interface NetworkGraphProps {
   fraudRings: FraudRing[];
   highlightedNodes?: string[];
   onNodeClick?: (accountId: string) => void;
+  currency?: string;
+  /** Saved run backing the graph; enables flow tracing */
+  runId?: string | null;
 }
 
 // TASK 5: Consistent pattern-based color scheme
@@ -36,6 +58,8 @@ const PATTERN_COLORS: Record<string, string> = {
   fan_in: '#3b82f6',
   fan_out: '#f97316',
   shell_chain: '#a855f7',
+  structuring: '#ec4899',
+  pass_through: '#06b6d4',
   community: '#10b981',
 };
 
@@ -44,13 +68,15 @@ const PATTERN_LABELS: Record<string, string> = {
   fan_in: 'Fan-In',
   fan_out: 'Fan-Out',
   shell_chain: 'Shell Chain',
+  structuring: 'Structuring',
+  pass_through: 'Pass-Through',
   community: 'Community',
 };
 
 function getNodeColor(patterns: string[] | undefined | null): string {
   if (!patterns || patterns.length === 0) return '#6366f1';
-  // Priority: cycle > shell > fan_in > fan_out
-  const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out'];
+  // Priority: cycle > shell > fan_in > fan_out > structuring > pass_through
+  const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out', 'structuring', 'pass_through'];
   for (const p of priority) {
     if (patterns.includes(p)) return PATTERN_COLORS[p];
   }
@@ -59,18 +85,64 @@ function getNodeColor(patterns: string[] | undefined | null): string {
 
 function getEdgeColor(patternTypes: string[] | undefined | null): string {
   if (!patternTypes || patternTypes.length === 0) return '#6366f1';
-  const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out'];
+  const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out', 'structuring', 'pass_through'];
   for (const p of priority) {
     if (patternTypes.includes(p)) return PATTERN_COLORS[p];
   }
   return '#ef4444';
 }
 
+function traceAccounts(trace: FlowTrace): string[] {
+  return [...new Set(trace.links.flatMap((l) => [l.source, l.target]))];
+}
+
+/** Container-relative positions of the given accounts that are in the graph */
+function renderedPositions(cy: any, accountIds: string[]): Record<string, { x: number; y: number }> {
+  const positions: Record<string, { x: number; y: number }> = {};
+  if (!cy || cy.destroyed()) return positions;
+  try {
+    for (const id of accountIds) {
+      const node = cy.getElementById(id);
+      if (node.empty()) continue;
+      const { x, y } = node.renderedPosition();
+      positions[id] = { x, y };
+    }
+  } catch (_) { /* ignore if cy was destroyed between check and use */ }
+  return positions;
+}
+
+/** Add an ego network to the focused graph, keeping elements already loaded */
+function mergeGraphs(base: CytoscapeGraphData | null, ego: EgoNetwork): CytoscapeGraphData {
+  if (!base) return { nodes: ego.nodes, edges: ego.edges };
+  const nodeIds = new Set(base.nodes.map((n) => n.data.id));
+  const edgeIds = new Set(base.edges.map((e) => e.data.id));
+  return {
+    nodes: [...base.nodes, ...ego.nodes.filter((n) => !nodeIds.has(n.data.id))],
+    edges: [...base.edges, ...ego.edges.filter((e) => !edgeIds.has(e.data.id))],
+  };
+}
+
+/** Highlight a queried path (and its end accounts) with classes only */
+function applyPathClasses(cy: any, accounts: string[], ends: string[]) {
+  if (!cy || cy.destroyed()) return;
+  try {
+    cy.elements().removeClass('on-path on-path-edge path-end');
+    accounts.forEach((id, i) => {
+      const node = cy.getElementById(id);
+      node.addClass('on-path');
+      if (i > 0) cy.getElementById(accounts[i - 1]).edgesTo(node).addClass('on-path-edge');
+    });
+    ends.forEach((id) => cy.getElementById(id).addClass('path-end'));
+  } catch (_) { /* ignore if cy was destroyed between check and use */ }
+}
+
 export function NetworkGraph({
   graphData,
   fraudRings,
   highlightedNodes = [],
   onNodeClick,
+  currency,
+  runId,
 }: NetworkGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const cyRef = useRef<any>(null);
@@ -85,39 +157,92 @@ export function NetworkGraph({
   } | null>(null);
   const [patternFilter, setPatternFilter] = useState<PatternFilter>('all');
   const [zoomLevel, setZoomLevel] = useState([1]);
+  const [flowTrace, setFlowTrace] = useState<{
+    runId: string;
+    accountId: string;
+    options: TraceOptions;
+    trace: FlowTrace | null;
+    errors: string[];
+    loading: boolean;
+  } | null>(null);
+  // Screen positions of traced accounts, refreshed on pan/zoom/drag so the overlay follows the nodes
+  const [tracePositions, setTracePositions] = useState<Record<string, { x: number; y: number }>>({});
+  const traceRequestRef = useRef(0);
+  // Path queries: the first account is picked with "Path start", the second from its tooltip
+  const [pathStart, setPathStart] = useState<string | null>(null);
+  const [pathQuery, setPathQuery] = useState<{
+    runId: string;
+    sourceId: string;
+    targetId: string;
+    options: PathQueryOptions;
+    result: PathQueryResult | null;
+    errors: string[];
+    loading: boolean;
+    selected: string | null;
+  } | null>(null);
+  const pathRequestRef = useRef(0);
+  // Focus mode: a run's graph loaded one neighborhood at a time
+  const [focus, setFocus] = useState<{
+    runId: string;
+    center: string;
+    hops: number;
+    direction: EgoDirection;
+    graph: CytoscapeGraphData | null;
+    expanded: string[];
+    frontier: string[];
+    truncated: boolean;
+    loading: boolean;
+    errors: string[];
+  } | null>(null);
+  const [focusInput, setFocusInput] = useState('');
+  const focusRequestRef = useRef(0);
+  // Center and expandable accounts of the focused graph, marked when it is drawn
+  const focusMarksRef = useRef<{ graphData: CytoscapeGraphData; center: string; frontier: string[] } | null>(null);
+  const nodeDoubleTapRef = useRef<(accountId: string) => void>(() => {});
+  // Highlighted path, re-applied when the graph is rebuilt for a filter change
+  const pathHighlightRef = useRef<{ graphData: CytoscapeGraphData; accounts: string[]; ends: string[] } | null>(null);
 
   // Use refs for values needed inside Cytoscape event handlers
   // to avoid recreating the entire graph on every state change
   const pinnedNodeRef = useRef<any>(null);
   const onNodeClickRef = useRef(onNodeClick);
+  const traceAccountsRef = useRef<string[]>([]);
   pinnedNodeRef.current = pinnedNode;
   onNodeClickRef.current = onNodeClick;
 
+  // A trace belongs to the run it was requested for
+  const activeTrace = flowTrace && flowTrace.runId === runId ? flowTrace : null;
+  const activePaths = pathQuery && pathQuery.runId === runId ? pathQuery : null;
+  const activeFocus = focus && focus.runId === runId ? focus : null;
+  // The graph being drawn: the focused neighborhoods, or the whole run
+  const focused = activeFocus?.graph ? activeFocus : null;
+  const viewGraph = focused?.graph ?? graphData;
+
   // TASK 8: Performance safeguard
-  const isLargeGraph = graphData.nodes.length > 300;
+  const isLargeGraph = viewGraph.nodes.length > 300;
 
   const getFilteredElements = useCallback(
     (filter: PatternFilter) => {
       if (filter === 'all') {
         return {
-          nodes: graphData.nodes,
-          edges: graphData.edges,
+          nodes: viewGraph.nodes,
+          edges: viewGraph.edges,
         };
       }
 
       if (filter === 'suspicious') {
-        const suspNodes = graphData.nodes.filter(
+        const suspNodes = viewGraph.nodes.filter(
           (n) => n.data.is_suspicious
         );
         const suspIds = new Set(suspNodes.map((n) => n.data.id));
-        const suspEdges = graphData.edges.filter(
+        const suspEdges = viewGraph.edges.filter(
           (e) => suspIds.has(e.data.source) && suspIds.has(e.data.target)
         );
         return { nodes: suspNodes, edges: suspEdges };
       }
 
       // Filter by pattern type - find nodes involved in this pattern via edges
-      const relevantEdges = graphData.edges.filter((e) =>
+      const relevantEdges = viewGraph.edges.filter((e) =>
         (e.data.pattern_types || []).includes(filter)
       );
       const nodeIds = new Set<string>();
@@ -125,12 +250,12 @@ export function NetworkGraph({
         nodeIds.add(e.data.source);
         nodeIds.add(e.data.target);
       });
-      const patternNodes = graphData.nodes.filter((n) =>
+      const patternNodes = viewGraph.nodes.filter((n) =>
         nodeIds.has(n.data.id)
       );
       return { nodes: patternNodes, edges: relevantEdges };
     },
-    [graphData]
+    [viewGraph]
   );
 
   // TASK 1: Layout config based on filter and size
@@ -181,7 +306,7 @@ export function NetworkGraph({
   );
 
   // Main Cytoscape initialization effect
-  // Only depends on graphData and patternFilter – NOT on pinnedNode/onNodeClick
+  // Only depends on the drawn graph and patternFilter – NOT on pinnedNode/onNodeClick
   useEffect(() => {
     let cancelled = false;
     let layoutRef: any = null;
@@ -236,7 +361,7 @@ export function NetworkGraph({
         const classes: string[] = [];
 
         // Primary pattern class for background-color
-        const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out', 'community'];
+        const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out', 'structuring', 'pass_through', 'community'];
         for (const p of priority) {
           if (patterns.includes(p)) {
             classes.push(`pat-${p}`);
@@ -287,7 +412,7 @@ export function NetworkGraph({
         const classes: string[] = [];
 
         // Edge pattern class for color
-        const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out', 'community'];
+        const priority = ['cycle', 'shell_chain', 'fan_in', 'fan_out', 'structuring', 'pass_through', 'community'];
         for (const p of priority) {
           if (patternTypes.includes(p)) {
             classes.push(`ept-${p}`);
@@ -360,6 +485,8 @@ export function NetworkGraph({
             { selector: 'node.pat-fan_in', style: { 'background-color': '#3b82f6' } as any },
             { selector: 'node.pat-fan_out', style: { 'background-color': '#f97316' } as any },
             { selector: 'node.pat-shell_chain', style: { 'background-color': '#a855f7' } as any },
+            { selector: 'node.pat-structuring', style: { 'background-color': '#ec4899' } as any },
+            { selector: 'node.pat-pass_through', style: { 'background-color': '#06b6d4' } as any },
             { selector: 'node.pat-community', style: { 'background-color': '#10b981' } as any },
             // ── NODE BORDER COLORS (secondary pattern) ────
             { selector: 'node.suspicious', style: { 'border-color': '#ffffff', 'font-weight': 'bold', 'font-size': '9px' } as any },
@@ -367,6 +494,8 @@ export function NetworkGraph({
             { selector: 'node.bdr-fan_in', style: { 'border-color': '#3b82f6' } as any },
             { selector: 'node.bdr-fan_out', style: { 'border-color': '#f97316' } as any },
             { selector: 'node.bdr-shell_chain', style: { 'border-color': '#a855f7' } as any },
+            { selector: 'node.bdr-structuring', style: { 'border-color': '#ec4899' } as any },
+            { selector: 'node.bdr-pass_through', style: { 'border-color': '#06b6d4' } as any },
             { selector: 'node.bdr-community', style: { 'border-color': '#10b981' } as any },
             // ── NODE STATES ───────────────────────────────
             { selector: 'node.critical', style: { 'border-color': '#fbbf24', 'border-width': 4 } as any },
@@ -394,6 +523,8 @@ export function NetworkGraph({
             { selector: 'edge.ept-fan_in', style: { 'line-color': '#3b82f6', 'target-arrow-color': '#3b82f6' } as any },
             { selector: 'edge.ept-fan_out', style: { 'line-color': '#f97316', 'target-arrow-color': '#f97316' } as any },
             { selector: 'edge.ept-shell_chain', style: { 'line-color': '#a855f7', 'target-arrow-color': '#a855f7' } as any },
+            { selector: 'edge.ept-structuring', style: { 'line-color': '#ec4899', 'target-arrow-color': '#ec4899' } as any },
+            { selector: 'edge.ept-pass_through', style: { 'line-color': '#06b6d4', 'target-arrow-color': '#06b6d4' } as any },
             { selector: 'edge.ept-community', style: { 'line-color': '#10b981', 'target-arrow-color': '#10b981' } as any },
             // ── HIGHLIGHTS ────────────────────────────────
             {
@@ -423,6 +554,22 @@ export function NetworkGraph({
             // ── ZOOM-BASED LABELS ─────────────────────────
             { selector: 'node.show-label', style: { label: 'data(label)', 'font-size': '9px' } as any },
             { selector: 'node.show-label-suspicious', style: { label: 'data(label)' } as any },
+            // ── FOCUS MODE ────────────────────────────────
+            { selector: 'node.expandable', style: { 'border-style': 'dashed', 'border-color': '#94a3b8', 'border-width': 3 } as any },
+            { selector: 'node.focus-center', style: { 'border-color': '#f8fafc', 'border-width': 6, label: 'data(label)' } as any },
+            // ── PATH QUERY ────────────────────────────────
+            { selector: 'node.on-path', style: { 'border-color': '#22d3ee', 'border-width': 5, 'z-index': 110 } as any },
+            { selector: 'node.path-end', style: { 'border-color': '#f0abfc', 'border-width': 6, label: 'data(label)' } as any },
+            {
+              selector: 'edge.on-path-edge',
+              style: {
+                'line-color': '#22d3ee',
+                'target-arrow-color': '#22d3ee',
+                width: 4,
+                opacity: 1,
+                'z-index': 110,
+              } as any,
+            },
           ],
           minZoom: 0.2,
           maxZoom: 4,
@@ -559,6 +706,36 @@ export function NetworkGraph({
         } catch (_) {}
       });
 
+      // Re-render the flow-trace overlay at most once per frame while the view moves
+      let overlayFrame: number | null = null;
+      const scheduleOverlay = () => {
+        if (traceAccountsRef.current.length === 0 || overlayFrame !== null) return;
+        overlayFrame = requestAnimationFrame(() => {
+          overlayFrame = null;
+          setTracePositions(renderedPositions(cy, traceAccountsRef.current));
+        });
+      };
+      cy.on('pan zoom resize', scheduleOverlay);
+      cy.on('position', 'node', scheduleOverlay);
+
+      // Double-click focuses on an account, or expands it when already focused
+      cy.on('dbltap', 'node', (evt: any) => {
+        if (cy.destroyed()) return;
+        nodeDoubleTapRef.current(evt.target.id());
+      });
+
+      const marks = focusMarksRef.current;
+      if (marks && marks.graphData === viewGraph) {
+        try {
+          cy.getElementById(marks.center).addClass('focus-center');
+          marks.frontier.forEach((id) => cy.getElementById(id).addClass('expandable'));
+        } catch (_) {}
+      }
+      const highlight = pathHighlightRef.current;
+      if (highlight && highlight.graphData === viewGraph) {
+        applyPathClasses(cy, highlight.accounts, highlight.ends);
+      }
+
       cyRef.current = cy;
     };
 
@@ -575,7 +752,7 @@ export function NetworkGraph({
       destroyCy(cyRef.current);
       cyRef.current = null;
     };
-  }, [graphData, patternFilter, getFilteredElements, getLayoutConfig, isLargeGraph]);
+  }, [viewGraph, patternFilter, getFilteredElements, getLayoutConfig, isLargeGraph]);
 
   // Highlight nodes from external selection
   useEffect(() => {
@@ -610,6 +787,136 @@ export function NetworkGraph({
     setShellPanel(null);
   };
 
+  // Flow tracing — stale responses are dropped when a newer request was made
+  const runTrace = async (accountId: string, options: TraceOptions) => {
+    if (!runId) return;
+    closePaths();
+    const request = ++traceRequestRef.current;
+    setFlowTrace({ runId, accountId, options, trace: null, errors: [], loading: true });
+    let result: { trace?: FlowTrace; errors: string[] };
+    try {
+      result = await traceFunds(runId, accountId, options);
+    } catch (err) {
+      console.error('Flow trace failed:', err);
+      result = { errors: ['Flow trace request failed'] };
+    }
+    if (request !== traceRequestRef.current) return;
+    traceAccountsRef.current = result.trace ? traceAccounts(result.trace) : [];
+    setTracePositions(renderedPositions(cyRef.current, traceAccountsRef.current));
+    setFlowTrace({ runId, accountId, options, trace: result.trace ?? null, errors: result.errors, loading: false });
+  };
+
+  const closeTrace = () => {
+    traceRequestRef.current++;
+    traceAccountsRef.current = [];
+    setFlowTrace(null);
+  };
+
+  const highlightPath = (accounts: string[], ends: string[]) => {
+    pathHighlightRef.current = { graphData: viewGraph, accounts, ends };
+    applyPathClasses(cyRef.current, accounts, ends);
+  };
+
+  // Path queries between two accounts; the shortest path is highlighted first
+  const runPaths = async (sourceId: string, targetId: string, options: PathQueryOptions) => {
+    if (!runId) return;
+    closeTrace();
+    const request = ++pathRequestRef.current;
+    setPathStart(null);
+    highlightPath([], [sourceId, targetId]);
+    setPathQuery({ runId, sourceId, targetId, options, result: null, errors: [], loading: true, selected: null });
+    let response: { paths?: PathQueryResult; errors: string[] };
+    try {
+      response = await findPaths(runId, sourceId, targetId, options);
+    } catch (err) {
+      console.error('Path query failed:', err);
+      response = { errors: ['Path query request failed'] };
+    }
+    if (request !== pathRequestRef.current) return;
+    const shortest = response.paths?.shortest ?? null;
+    if (shortest) highlightPath(shortest.accounts, [sourceId, targetId]);
+    setPathQuery({
+      runId,
+      sourceId,
+      targetId,
+      options,
+      result: response.paths ?? null,
+      errors: response.errors,
+      loading: false,
+      selected: shortest ? pathKey(shortest) : null,
+    });
+  };
+
+  const selectPath = (path: AccountPath) => {
+    if (!pathQuery) return;
+    highlightPath(path.accounts, [pathQuery.sourceId, pathQuery.targetId]);
+    setPathQuery({ ...pathQuery, selected: pathKey(path) });
+  };
+
+  const markPathStart = (accountId: string | null) => {
+    setPathStart(accountId);
+    highlightPath([], accountId ? [accountId] : []);
+  };
+
+  const closePaths = () => {
+    pathRequestRef.current++;
+    setPathQuery(null);
+    highlightPath([], pathStart ? [pathStart] : []);
+  };
+
+  // Focus mode — each neighborhood is merged into the focused graph
+  const loadNeighborhood = async (
+    base: NonNullable<typeof focus>,
+    accountId: string,
+  ) => {
+    if (!runId) return;
+    const request = ++focusRequestRef.current;
+    setFocus({ ...base, loading: true, errors: [] });
+    let response: { ego?: EgoNetwork; errors: string[] };
+    try {
+      response = await fetchEgoNetwork(runId, accountId, base.hops, base.direction);
+    } catch (err) {
+      console.error('Ego network request failed:', err);
+      response = { errors: ['Ego network request failed'] };
+    }
+    if (request !== focusRequestRef.current) return;
+    const { ego } = response;
+    if (!ego) {
+      setFocus({ ...base, loading: false, errors: response.errors });
+      return;
+    }
+    const graph = mergeGraphs(base.graph, ego);
+    const expanded = [...base.expanded, accountId];
+    const frontier = [...new Set([...base.frontier, ...ego.frontier])].filter((id) => !expanded.includes(id));
+    focusMarksRef.current = { graphData: graph, center: base.center, frontier };
+    setPinnedNode(null);
+    setTooltipNode(null);
+    setTooltipVisible(false);
+    setFocus({ ...base, graph, expanded, frontier, truncated: base.truncated || ego.truncated, loading: false, errors: [] });
+  };
+
+  const startFocus = (center: string, hops = activeFocus?.hops ?? 1, direction = activeFocus?.direction ?? 'both') => {
+    if (!runId || !center) return;
+    loadNeighborhood(
+      { runId, center, hops, direction, graph: null, expanded: [], frontier: [], truncated: false, loading: true, errors: [] },
+      center,
+    );
+  };
+
+  const exitFocus = () => {
+    focusRequestRef.current++;
+    focusMarksRef.current = null;
+    setFocus(null);
+  };
+
+  useEffect(() => {
+    nodeDoubleTapRef.current = (accountId: string) => {
+      if (!runId) return;
+      if (!activeFocus) startFocus(accountId);
+      else if (!activeFocus.expanded.includes(accountId)) loadNeighborhood(activeFocus, accountId);
+    };
+  });
+
   // Zoom controls
   const handleZoom = (direction: 'in' | 'out') => {
     const cy = cyRef.current;
@@ -640,12 +947,18 @@ export function NetworkGraph({
   const displayNode = pinnedNode || (tooltipVisible ? tooltipNode : null);
 
   const { nodes: currentNodes } = getFilteredElements(patternFilter);
+  const currentNodeIds = new Set(currentNodes.map((n) => n.data.id));
+  const hiddenTraceLinks = activeTrace?.trace
+    ? activeTrace.trace.links.filter((l) => !currentNodeIds.has(l.source) || !currentNodeIds.has(l.target)).length
+    : 0;
   const filterLabel: Record<PatternFilter, string> = {
     all: 'Full Transaction Network',
     cycle: 'Cycles (3-5)',
     fan_in: 'Fan-In Networks',
     fan_out: 'Fan-Out Networks',
     shell_chain: 'Shell Chains Only',
+    structuring: 'Structuring Only',
+    pass_through: 'Pass-Through Only',
     suspicious: 'Suspicious Accounts Only',
   };
 
@@ -666,6 +979,8 @@ export function NetworkGraph({
             <SelectItem value="fan_in">Fan-In Networks</SelectItem>
             <SelectItem value="fan_out">Fan-Out Networks</SelectItem>
             <SelectItem value="shell_chain">Shell Chains Only</SelectItem>
+            <SelectItem value="structuring">Structuring Only</SelectItem>
+            <SelectItem value="pass_through">Pass-Through Only</SelectItem>
             <SelectItem value="suspicious">Suspicious Accounts Only</SelectItem>
           </SelectContent>
         </Select>
@@ -684,10 +999,98 @@ export function NetworkGraph({
         )}
 
         <span className="text-xs text-muted-foreground ml-auto">
-          {graphData.nodes.length} accounts / {graphData.edges.length} edges
+          {focused
+            ? `${viewGraph.nodes.length} of ${graphData.nodes.length} accounts / ${viewGraph.edges.length} edges`
+            : `${graphData.nodes.length} accounts / ${graphData.edges.length} edges`}
         </span>
       </div>
 
+      {/* Focus mode: load the network one neighborhood at a time */}
+      {runId && (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="text-xs font-medium text-muted-foreground whitespace-nowrap">
+            Focus
+          </label>
+          {focused ? (
+            <>
+              <Badge variant="secondary" className="text-xs font-mono">
+                {focused.center}
+              </Badge>
+              <Select
+                value={focused.direction}
+                onValueChange={(v) => startFocus(focused.center, focused.hops, v as EgoDirection)}
+              >
+                <SelectTrigger className="w-[150px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="both">Senders & receivers</SelectItem>
+                  <SelectItem value="in">Senders only</SelectItem>
+                  <SelectItem value="out">Receivers only</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(focused.hops)}
+                onValueChange={(v) => startFocus(focused.center, Number(v), focused.direction)}
+              >
+                <SelectTrigger className="w-[100px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3].map((hops) => (
+                    <SelectItem key={hops} value={String(hops)}>
+                      {hops} hop{hops > 1 ? 's' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">
+                {focused.loading ? 'Loading…' : 'Double-click a dashed node to expand it'}
+              </span>
+              {focused.truncated && (
+                <span className="text-xs text-amber-400">Neighborhoods capped at 500 accounts</span>
+              )}
+              {focused.errors.map((error) => (
+                <span key={error} className="text-xs text-red-400">{error}</span>
+              ))}
+              <Button variant="outline" size="sm" className="h-8 text-xs ml-auto" onClick={exitFocus}>
+                Show full network
+              </Button>
+            </>
+          ) : (
+            <>
+              <Input
+                className="w-[200px] h-8 text-xs"
+                placeholder="Account ID"
+                aria-label="Account to focus on"
+                value={focusInput}
+                onChange={(e) => setFocusInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') startFocus(focusInput.trim());
+                }}
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                className="h-8 text-xs"
+                disabled={!focusInput.trim() || !!activeFocus?.loading}
+                onClick={() => startFocus(focusInput.trim())}
+              >
+                Focus
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {activeFocus?.loading
+                  ? 'Loading…'
+                  : `or double-click a node${isLargeGraph ? ' to explore this large network piece by piece' : ''}`}
+              </span>
+              {activeFocus?.errors.map((error) => (
+                <span key={error} className="text-xs text-red-400">{error}</span>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Graph container */}
       <div className="relative overflow-hidden">
         <div
@@ -696,6 +1099,37 @@ export function NetworkGraph({
           style={{ height: '600px' }}
         />
 
+        {/* Flow trace overlay and panel */}
+        {activeTrace?.trace && (
+          <FlowTraceOverlay trace={activeTrace.trace} positions={tracePositions} />
+        )}
+        {activePaths && (
+          <PathQueryPanel
+            sourceId={activePaths.sourceId}
+            targetId={activePaths.targetId}
+            options={activePaths.options}
+            onOptionsChange={(options) => runPaths(activePaths.sourceId, activePaths.targetId, options)}
+            result={activePaths.result}
+            loading={activePaths.loading}
+            errors={activePaths.errors}
+            selectedKey={activePaths.selected}
+            onSelectPath={selectPath}
+            onClose={closePaths}
+          />
+        )}
+        {activeTrace && (
+          <FlowTracePanel
+            accountId={activeTrace.accountId}
+            options={activeTrace.options}
+            onOptionsChange={(options) => runTrace(activeTrace.accountId, options)}
+            trace={activeTrace.trace}
+            loading={activeTrace.loading}
+            errors={activeTrace.errors}
+            hiddenLinks={hiddenTraceLinks}
+            onClose={closeTrace}
+          />
+        )}
+
         {/* TASK 6: Zoom controls */}
         <div className="absolute bottom-4 right-4 flex flex-col items-center gap-2 z-40 bg-background/80 backdrop-blur-sm border border-border rounded-lg p-2">
           <Button
@@ -872,9 +1306,7 @@ export function NetworkGraph({
                       Total Amount Sent
                     </span>
                     <span className="font-mono text-foreground">
-                      $
-                      {displayNode.total_amount_sent?.toLocaleString() ||
-                        '0'}
+                      {formatCurrency(displayNode.total_amount_sent ?? 0, currency)}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -882,13 +1314,15 @@ export function NetworkGraph({
                       Total Amount Received
                     </span>
                     <span className="font-mono text-foreground">
-                      $
-                      {displayNode.total_amount_received?.toLocaleString() ||
-                        '0'}
+                      {formatCurrency(displayNode.total_amount_received ?? 0, currency)}
                     </span>
                   </div>
                 </div>
 
+                {displayNode.amount_profile && (
+                  <AmountHistogram profile={displayNode.amount_profile} currency={currency} />
+                )}
+
                 {/* TASK 4: Fan-in transactions */}
                 {displayNode.fan_in_transactions?.length > 0 && (
                   <div className="pt-2 border-t border-border">
@@ -907,7 +1341,7 @@ export function NetworkGraph({
                               {tx.sender_id} {'->'}  {tx.receiver_id}
                             </span>
                             <span className="whitespace-nowrap text-foreground">
-                              ${tx.amount.toLocaleString()} | {tx.timestamp}
+                              {formatCurrency(tx.amount, currency)} | {tx.timestamp}
                             </span>
                           </div>
                         ))}
@@ -915,6 +1349,62 @@ export function NetworkGraph({
                   </div>
                 )}
 
+                {pinnedNode && runId && (
+                  <div className="flex gap-2 pt-2 border-t border-border">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="h-6 text-[10px] flex-1"
+                      onClick={() =>
+                        runTrace(pinnedNode.id, {
+                          ...(activeTrace?.options ?? DEFAULT_TRACE_OPTIONS),
+                          direction: 'forward',
+                        })
+                      }
+                    >
+                      Trace forward
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="h-6 text-[10px] flex-1"
+                      onClick={() =>
+                        runTrace(pinnedNode.id, {
+                          ...(activeTrace?.options ?? DEFAULT_TRACE_OPTIONS),
+                          direction: 'backward',
+                        })
+                      }
+                    >
+                      Trace back
+                    </Button>
+                  </div>
+                )}
+
+                {pinnedNode && runId && (
+                  <div className="flex gap-2">
+                    {pathStart && pathStart !== pinnedNode.id && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        className="h-6 text-[10px] flex-1"
+                        onClick={() =>
+                          runPaths(pathStart, pinnedNode.id, activePaths?.options ?? DEFAULT_PATH_OPTIONS)
+                        }
+                      >
+                        Paths from {pathStart}
+                      </Button>
+                    )}
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="h-6 text-[10px] flex-1"
+                      onClick={() => markPathStart(pathStart === pinnedNode.id ? null : pinnedNode.id)}
+                    >
+                      {pathStart === pinnedNode.id ? 'Clear path start' : 'Path start'}
+                    </Button>
+                  </div>
+                )}
+
                 {pinnedNode && (
                   <p className="text-[10px] text-muted-foreground italic">
                     Click background to dismiss
@@ -963,7 +1453,7 @@ export function NetworkGraph({
                     >
                       {hop.from} {'->'}  {hop.to} |{' '}
                       <span className="text-foreground">
-                        ${hop.amount.toLocaleString()}
+                        {formatCurrency(hop.amount, currency)}
                       </span>{' '}
                       | {hop.timestamp}
                     </div>
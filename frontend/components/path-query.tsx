@@ -0,0 +1,219 @@
+'use client';
+
+import { AccountPath, PathQueryOptions, PathQueryResult } from '@/lib/types';
+import { formatCurrency } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+
+export const DEFAULT_PATH_OPTIONS: PathQueryOptions = {
+  k: 3,
+  all_paths: false,
+  max_hops: 5,
+};
+
+const MAX_K_PATHS = 10;
+const MAX_PATH_HOPS = 8;
+
+/** Transactions listed per hop of the selected path */
+const HOP_TRANSACTIONS_SHOWN = 5;
+
+export const pathKey = (path: AccountPath) => path.accounts.join('\u0000');
+
+function PathRow({
+  path,
+  currency,
+  selected,
+  onSelect,
+}: {
+  path: AccountPath;
+  currency: string;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <div
+      className={`p-2 rounded-md cursor-pointer border ${
+        selected ? 'border-cyan-400/70 bg-cyan-500/10' : 'border-transparent bg-muted/30 hover:bg-muted/50'
+      }`}
+      onClick={onSelect}
+    >
+      <div className="flex justify-between gap-2 text-[10px]">
+        <span className="font-mono text-foreground break-all">{path.accounts.join(' → ')}</span>
+        <span className="whitespace-nowrap text-muted-foreground">
+          {path.hops.length} hop{path.hops.length > 1 ? 's' : ''}
+        </span>
+      </div>
+      {selected && (
+        <div className="mt-2 space-y-1.5">
+          {path.hops.map((hop) => (
+            <div key={`${hop.from}-${hop.to}`} className="text-[10px] font-mono">
+              <div className="flex justify-between gap-2 text-muted-foreground">
+                <span>
+                  {hop.from} {'->'} {hop.to}
+                </span>
+                <span className="text-cyan-300">{formatCurrency(hop.total_amount, currency)}</span>
+              </div>
+              {hop.transactions.slice(0, HOP_TRANSACTIONS_SHOWN).map((tx) => (
+                <div key={tx.transaction_id} className="flex justify-between gap-2 pl-3 text-muted-foreground">
+                  <span className="truncate">{tx.transaction_id}</span>
+                  <span className="whitespace-nowrap text-foreground">
+                    {formatCurrency(tx.amount, currency)} | {tx.timestamp}
+                  </span>
+                </div>
+              ))}
+              {hop.transactions.length > HOP_TRANSACTIONS_SHOWN && (
+                <div className="pl-3 text-muted-foreground italic">
+                  +{hop.transactions.length - HOP_TRANSACTIONS_SHOWN} more
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PathQueryPanelProps {
+  sourceId: string;
+  targetId: string;
+  options: PathQueryOptions;
+  onOptionsChange: (options: PathQueryOptions) => void;
+  result: PathQueryResult | null;
+  loading: boolean;
+  errors: string[];
+  selectedKey: string | null;
+  onSelectPath: (path: AccountPath) => void;
+  onClose: () => void;
+}
+
+/** Path query controls and results; the selected path is highlighted in the graph */
+export function PathQueryPanel({
+  sourceId,
+  targetId,
+  options,
+  onOptionsChange,
+  result,
+  loading,
+  errors,
+  selectedKey,
+  onSelectPath,
+  onClose,
+}: PathQueryPanelProps) {
+  return (
+    <div className="absolute top-0 left-0 w-80 max-h-[600px] bg-card/95 backdrop-blur-sm border border-border rounded-l-lg z-40 overflow-y-auto">
+      <div className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground">
+            Paths <span className="font-mono text-cyan-300">{sourceId}</span> →{' '}
+            <span className="font-mono text-cyan-300">{targetId}</span>
+          </h3>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} aria-label="Close paths">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={String(options.k)} onValueChange={(v) => onOptionsChange({ ...options, k: Number(v) })}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_K_PATHS }, (_, i) => i + 1).map((k) => (
+                <SelectItem key={k} value={String(k)}>
+                  {k} shortest
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(options.max_hops)}
+            onValueChange={(v) => onOptionsChange({ ...options, max_hops: Number(v) })}
+            disabled={!options.all_paths}
+          >
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_PATH_HOPS }, (_, i) => i + 1).map((hops) => (
+                <SelectItem key={hops} value={String(hops)}>
+                  ≤ {hops} hop{hops > 1 ? 's' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Switch
+            checked={options.all_paths}
+            onCheckedChange={(checked) => onOptionsChange({ ...options, all_paths: checked })}
+          />
+          All time-respecting paths
+        </label>
+
+        {loading && <p className="text-xs text-muted-foreground">Searching…</p>}
+        {errors.length > 0 && (
+          <div className="text-xs text-red-400 space-y-0.5">
+            {errors.map((error) => <p key={error}>{error}</p>)}
+          </div>
+        )}
+
+        {result && !loading && (
+          <>
+            {result.k_shortest.length === 0 ? (
+              <p className="text-xs text-muted-foreground pt-2 border-t border-border">
+                No money moved from {result.source} to {result.target}.
+              </p>
+            ) : (
+              <div className="pt-2 border-t border-border space-y-1.5">
+                <div className="text-xs font-semibold text-foreground">Shortest paths</div>
+                {result.k_shortest.map((path) => (
+                  <PathRow
+                    key={pathKey(path)}
+                    path={path}
+                    currency={result.currency}
+                    selected={selectedKey === pathKey(path)}
+                    onSelect={() => onSelectPath(path)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {result.temporal_paths && (
+              <div className="pt-2 border-t border-border space-y-1.5">
+                <div className="text-xs font-semibold text-foreground">
+                  Time-respecting paths ({result.temporal_paths.length})
+                </div>
+                {result.temporal_paths.length === 0 && (
+                  <p className="text-[10px] text-muted-foreground">
+                    None within {result.max_hops} hops where each transfer follows the previous one.
+                  </p>
+                )}
+                {result.truncated && (
+                  <p className="text-[10px] text-amber-400">Search limit reached; lower the hop limit to see every path.</p>
+                )}
+                {result.temporal_paths.map((path) => (
+                  <PathRow
+                    key={`t-${pathKey(path)}`}
+                    path={path}
+                    currency={result.currency}
+                    selected={selectedKey === pathKey(path)}
+                    onSelect={() => onSelectPath(path)}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { AnalysisRun, AnalysisRunSummary } from '@/lib/types';
+import { deleteRun, fetchRun, fetchRuns } from '@/lib/api';
+import { History, FileSpreadsheet, Trash2 } from 'lucide-react';
+
+interface RunHistoryProps {
+  activeRunId?: string | null;
+  onOpenRun: (run: AnalysisRun) => void;
+}
+
+export function RunHistory({ activeRunId, onOpenRun }: RunHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [runs, setRuns] = useState<AnalysisRunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRuns(await fetchRuns());
+    } catch {
+      setError('Could not load run history.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Refresh every time the sidebar opens so new runs appear
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) loadRuns();
+  };
+
+  const handleOpen = async (runId: string) => {
+    try {
+      const run = await fetchRun(runId);
+      if (!run) {
+        setError('Run no longer exists.');
+        loadRuns();
+        return;
+      }
+      onOpenRun(run);
+      setOpen(false);
+    } catch {
+      setError('Could not load run.');
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, runId: string) => {
+    e.stopPropagation();
+    try {
+      if (await deleteRun(runId)) {
+        setRuns((prev) => prev.filter((r) => r.run_id !== runId));
+      }
+    } catch {
+      setError('Could not delete run.');
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="w-[360px] sm:max-w-[360px]">
+        <SheetHeader>
+          <SheetTitle>Run History</SheetTitle>
+          <SheetDescription>Reopen a previous analysis without re-uploading.</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+          {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+          {isLoading && runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">Loading...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No saved runs yet</p>
+          ) : (
+            <div className="space-y-2">
+              {runs.map((run) => (
+                <div
+                  key={run.run_id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => handleOpen(run.run_id)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleOpen(run.run_id)}
+                  className={`p-3 rounded-lg border cursor-pointer hover:bg-muted/50 ${
+                    activeRunId === run.run_id ? 'border-primary bg-primary/5' : 'border-border'
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    <FileSpreadsheet className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {run.file_name || 'Untitled upload'}
+                      </p>
+                      <p className="text-[11px] text-muted-foreground">
+                        {new Date(run.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      onClick={(e) => handleDelete(e, run.run_id)}
+                      aria-label="Delete run"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    <Badge variant="outline" className="text-[10px]">{run.mode}</Badge>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {run.summary.suspicious_accounts_flagged} flagged
+                    </Badge>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {run.summary.fraud_rings_detected} rings
+                    </Badge>
+                    <span className="text-[10px] font-mono text-muted-foreground ml-auto" title={run.file_hash}>
+                      {run.file_hash.slice(0, 8)}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
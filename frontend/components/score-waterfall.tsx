@@ -0,0 +1,96 @@
+'use client';
+
+import { AccountNode } from '@/lib/types';
+
+/** Transaction IDs and counterparties listed per step before "+N more" */
+const MAX_LISTED = 5;
+
+interface ScoreWaterfallProps {
+  account: AccountNode;
+}
+
+function listIds(ids: string[]): string {
+  const more = ids.length > MAX_LISTED ? ` +${ids.length - MAX_LISTED} more` : '';
+  return ids.slice(0, MAX_LISTED).join(', ') + more;
+}
+
+/**
+ * An account's score contributions as a waterfall on the 0–100 scale: each
+ * step's bar runs from the previous score to the score after it, red when
+ * it added points and green when it removed them.
+ */
+export function ScoreWaterfall({ account }: ScoreWaterfallProps) {
+  const contributions = account.score_contributions;
+  if (!contributions) {
+    // Runs saved before score contributions only carry the explanation string
+    return (
+      <div className="pt-2 border-t border-border text-[11px] text-muted-foreground">
+        {account.explanation || 'No explanation recorded for this run.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-2 border-t border-border space-y-1.5">
+      <div className="flex justify-between text-[10px]">
+        <span className="text-muted-foreground">Score Waterfall — {account.account_id}</span>
+        <span className="font-mono text-foreground">{account.suspicion_score}/100</span>
+      </div>
+      {contributions.length === 0 && (
+        <p className="text-[11px] text-muted-foreground">No stage changed this account&apos;s score.</p>
+      )}
+      {contributions.map((c, i) => {
+        const before = c.score_after - c.delta;
+        const low = Math.min(before, c.score_after);
+        return (
+          <div key={i} className="grid grid-cols-[8rem_1fr_3rem] gap-2 items-start text-[10px]">
+            <div className="min-w-0">
+              <div className="text-foreground truncate" title={c.algorithm}>
+                {c.algorithm}
+              </div>
+              <div className="text-muted-foreground font-mono">{c.stage}</div>
+            </div>
+            <div className="min-w-0 space-y-0.5">
+              <div className="relative h-3 bg-muted rounded-sm">
+                {c.delta === 0 ? (
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-slate-400"
+                    style={{ left: `${c.score_after}%` }}
+                  />
+                ) : (
+                  <div
+                    className="absolute inset-y-0 rounded-sm"
+                    style={{
+                      left: `${low}%`,
+                      width: `${Math.abs(c.delta)}%`,
+                      backgroundColor: c.delta > 0 ? '#ef4444' : '#22c55e',
+                    }}
+                  />
+                )}
+              </div>
+              <div className="text-muted-foreground">{c.reason}</div>
+              {c.transaction_ids.length > 0 && (
+                <div className="font-mono text-muted-foreground truncate" title={c.transaction_ids.join(', ')}>
+                  Tx: {listIds(c.transaction_ids)}
+                </div>
+              )}
+              {c.counterparties.length > 0 && (
+                <div className="font-mono text-muted-foreground truncate" title={c.counterparties.join(', ')}>
+                  With: {listIds(c.counterparties)}
+                </div>
+              )}
+            </div>
+            <div
+              className={`text-right font-mono ${
+                c.delta > 0 ? 'text-red-400' : c.delta < 0 ? 'text-green-400' : 'text-muted-foreground'
+              }`}
+            >
+              {c.delta > 0 ? `+${c.delta}` : c.delta}
+              <div className="text-muted-foreground">{c.score_after}</div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
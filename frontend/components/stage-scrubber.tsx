@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { PIPELINE_STAGES } from '@/components/analysis-progress';
+import { AccountStageState, StageSnapshot } from '@/lib/types';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Layers, Search } from 'lucide-react';
+
+const MAX_ROWS = 30;
+
+const STAGE_LABELS = new Map(PIPELINE_STAGES.map(({ stage, label }) => [stage, label]));
+
+const EMPTY_STATE: Omit<AccountStageState, 'account_id'> = {
+  suspicion_score: 0,
+  detected_patterns: [],
+  ring_ids: [],
+};
+
+function sameState(a: AccountStageState, b: Omit<AccountStageState, 'account_id'>): boolean {
+  return (
+    a.suspicion_score === b.suspicion_score &&
+    a.detected_patterns.join() === b.detected_patterns.join() &&
+    a.ring_ids.join() === b.ring_ids.join()
+  );
+}
+
+interface StageScrubberProps {
+  snapshots: StageSnapshot[];
+  onAccountSelect?: (accountId: string) => void;
+}
+
+/**
+ * Debug-mode view of a run: scrub through the pipeline stages and see every
+ * account's score, patterns and rings as each stage left them, with what the
+ * stage changed.
+ */
+export function StageScrubber({ snapshots, onAccountSelect }: StageScrubberProps) {
+  const [index, setIndex] = useState(snapshots.length - 1);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [search, setSearch] = useState('');
+
+  const current = Math.min(index, snapshots.length - 1);
+  const snapshot = snapshots[current];
+  if (!snapshot) return null;
+
+  const previous = new Map(
+    (current > 0 ? snapshots[current - 1].accounts : []).map((a) => [a.account_id, a])
+  );
+  const rows = snapshot.accounts.map((account) => ({
+    account,
+    before: previous.get(account.account_id) ?? EMPTY_STATE,
+  }));
+  const changed = rows.filter(({ account, before }) => !sameState(account, before));
+  const flagged = snapshot.accounts.filter((a) => a.suspicion_score > 0).length;
+
+  const visible = (changedOnly ? changed : rows)
+    .filter(({ account }) => account.account_id.toLowerCase().includes(search.toLowerCase()))
+    .sort((a, b) => b.account.suspicion_score - a.account.suspicion_score);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Layers className="h-5 w-5 text-purple-500" />
+            Pipeline Stages
+          </CardTitle>
+          <Badge variant="outline">
+            Stage {current + 1}/{snapshots.length}
+          </Badge>
+        </div>
+        <div className="mt-4 space-y-3">
+          <Slider
+            value={[current]}
+            min={0}
+            max={snapshots.length - 1}
+            step={1}
+            onValueChange={(value) => setIndex(value[0])}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+            <span className="font-medium text-foreground">
+              {STAGE_LABELS.get(snapshot.stage) ?? snapshot.stage}
+              <span className="ml-2 font-mono text-muted-foreground">{snapshot.stage}</span>
+            </span>
+            <span className="text-muted-foreground">
+              {changed.length} account(s) changed · {flagged} flagged
+            </span>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search accounts..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Switch checked={changedOnly} onCheckedChange={setChangedOnly} />
+              Changed by this stage
+            </label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account ID</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead>Patterns</TableHead>
+                <TableHead>Ring IDs</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.slice(0, MAX_ROWS).map(({ account, before }) => {
+                const delta = account.suspicion_score - before.suspicion_score;
+                const removedPatterns = before.detected_patterns.filter((p) => !account.detected_patterns.includes(p));
+                return (
+                  <TableRow
+                    key={account.account_id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => onAccountSelect?.(account.account_id)}
+                  >
+                    <TableCell className="font-mono font-medium text-foreground">{account.account_id}</TableCell>
+                    <TableCell className="text-right font-mono text-foreground">{account.suspicion_score}</TableCell>
+                    <TableCell
+                      className={`text-right font-mono ${
+                        delta > 0 ? 'text-red-400' : delta < 0 ? 'text-green-400' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {delta > 0 ? `+${delta}` : delta === 0 ? '—' : delta}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {account.detected_patterns.map((p) => (
+                          <Badge
+                            key={p}
+                            variant={before.detected_patterns.includes(p) ? 'secondary' : 'destructive'}
+                            className="text-xs"
+                          >
+                            {p}
+                          </Badge>
+                        ))}
+                        {removedPatterns.map((p) => (
+                          <Badge key={p} variant="outline" className="text-xs line-through text-muted-foreground">
+                            {p}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {account.ring_ids.map((r) => (
+                          <Badge
+                            key={r}
+                            variant={before.ring_ids.includes(r) ? 'outline' : 'secondary'}
+                            className="text-xs font-mono"
+                          >
+                            {r}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        {visible.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            {changedOnly ? 'This stage changed no accounts' : 'No accounts found matching your search'}
+          </div>
+        )}
+        {visible.length > MAX_ROWS && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Showing {MAX_ROWS} of {visible.length} accounts
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
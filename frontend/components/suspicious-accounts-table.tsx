@@ -4,7 +4,11 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { AccountNode } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { AccountNode, GraphMetrics } from '@/lib/types';
+import { formatCurrency } from '@/lib/format';
+import { DISPOSITION_LABELS } from '@/components/dispositions-panel';
+import { ScoreWaterfall } from '@/components/score-waterfall';
 import {
   Table,
   TableBody,
@@ -13,19 +17,96 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Search, Users } from 'lucide-react';
+import { ArrowDown, ArrowUp, FolderPlus, Search, Users } from 'lucide-react';
+
+type SortKey =
+  | 'account_id'
+  | 'suspicion_score'
+  | 'in_degree'
+  | 'out_degree'
+  | 'total_amount_sent'
+  | 'total_amount_received'
+  | keyof GraphMetrics;
+
+interface SortState {
+  key: SortKey;
+  descending: boolean;
+}
+
+/** Accounts from runs saved before graph metrics sort last */
+function sortValue(account: AccountNode, key: SortKey): string | number {
+  switch (key) {
+    case 'account_id':
+    case 'suspicion_score':
+    case 'in_degree':
+    case 'out_degree':
+    case 'total_amount_sent':
+    case 'total_amount_received':
+      return account[key];
+    default:
+      return account.graph_metrics?.[key] ?? -1;
+  }
+}
+
+function compareAccounts(a: AccountNode, b: AccountNode, { key, descending }: SortState): number {
+  const x = sortValue(a, key);
+  const y = sortValue(b, key);
+  const order = x < y ? -1 : x > y ? 1 : 0;
+  return (descending ? -order : order) || b.suspicion_score - a.suspicion_score;
+}
+
+function formatMetric(value: number | undefined, digits: number): string {
+  return value === undefined ? '—' : value.toPrecision(digits);
+}
+
+function SortableHead({
+  label,
+  sortKey,
+  sort,
+  onSort,
+  title,
+  alignRight = true,
+}: {
+  label: string;
+  sortKey: SortKey;
+  sort: SortState;
+  onSort: (key: SortKey) => void;
+  title?: string;
+  alignRight?: boolean;
+}) {
+  const active = sort.key === sortKey;
+  const Arrow = sort.descending ? ArrowDown : ArrowUp;
+  return (
+    <TableHead className={alignRight ? 'text-right' : undefined} title={title}>
+      <button
+        type="button"
+        className={`inline-flex items-center gap-1 hover:text-foreground ${active ? 'text-foreground' : ''}`}
+        onClick={() => onSort(sortKey)}
+      >
+        {label}
+        {active && <Arrow className="h-3 w-3" />}
+      </button>
+    </TableHead>
+  );
+}
 
 interface SuspiciousAccountsTableProps {
   accounts: AccountNode[];
   onAccountSelect?: (accountId: string) => void;
+  currency?: string;
+  /** Shown as a per-row action when provided */
+  onOpenCase?: (accountId: string) => void;
 }
 
 export function SuspiciousAccountsTable({
   accounts,
   onAccountSelect,
+  currency,
+  onOpenCase,
 }: SuspiciousAccountsTableProps) {
   const [search, setSearch] = useState('');
   const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortState>({ key: 'suspicion_score', descending: true });
 
   const filtered = accounts
     .filter(
@@ -35,7 +116,17 @@ export function SuspiciousAccountsTable({
           p.toLowerCase().includes(search.toLowerCase())
         )
     )
-    .sort((a, b) => b.suspicion_score - a.suspicion_score);
+    .sort((a, b) => compareAccounts(a, b, sort));
+
+  // A new column starts with its largest values, except IDs which start at A
+  const handleSort = (key: SortKey) =>
+    setSort((current) =>
+      current.key === key
+        ? { key, descending: !current.descending }
+        : { key, descending: key !== 'account_id' }
+    );
+  const sortProps = { sort, onSort: handleSort };
+  const selected = accounts.find((a) => a.account_id === selectedAccount);
 
   const handleRowClick = (accountId: string) => {
     setSelectedAccount(accountId);
@@ -69,14 +160,35 @@ export function SuspiciousAccountsTable({
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Account ID</TableHead>
-                <TableHead className="text-right">Score</TableHead>
+                <SortableHead label="Account ID" sortKey="account_id" alignRight={false} {...sortProps} />
+                <SortableHead label="Score" sortKey="suspicion_score" {...sortProps} />
                 <TableHead>Patterns</TableHead>
                 <TableHead>Ring IDs</TableHead>
-                <TableHead className="text-right">In-Deg</TableHead>
-                <TableHead className="text-right">Out-Deg</TableHead>
-                <TableHead className="text-right">Sent</TableHead>
-                <TableHead className="text-right">Received</TableHead>
+                <SortableHead label="In-Deg" sortKey="in_degree" {...sortProps} />
+                <SortableHead label="Out-Deg" sortKey="out_degree" {...sortProps} />
+                <SortableHead label="Sent" sortKey="total_amount_sent" {...sortProps} />
+                <SortableHead label="Received" sortKey="total_amount_received" {...sortProps} />
+                <SortableHead
+                  label="PageRank"
+                  sortKey="pagerank"
+                  title="Amount-weighted PageRank over the whole graph"
+                  {...sortProps}
+                />
+                <SortableHead
+                  label="Betweenness"
+                  sortKey="betweenness"
+                  title="Amount-weighted betweenness over the whole graph (top account = 1)"
+                  {...sortProps}
+                />
+                <SortableHead label="Hub" sortKey="hub" title="HITS hub score (top account = 1)" {...sortProps} />
+                <SortableHead
+                  label="Authority"
+                  sortKey="authority"
+                  title="HITS authority score (top account = 1)"
+                  {...sortProps}
+                />
+                <SortableHead label="k-Core" sortKey="k_core" title="Core number over counterparties" {...sortProps} />
+                {onOpenCase && <TableHead className="w-10" />}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -123,6 +235,16 @@ export function SuspiciousAccountsTable({
                           {p}
                         </Badge>
                       ))}
+                      {account.dispositions?.map((d) => (
+                        <Badge
+                          key={d.disposition_id}
+                          className="text-xs"
+                          style={{ backgroundColor: DISPOSITION_LABELS[d.label].color, color: '#fff' }}
+                          title={`${d.subject} recorded by ${d.recorded_by} on ${new Date(d.recorded_at).toLocaleString()}: score ${d.score_before} → ${d.score_after}`}
+                        >
+                          {DISPOSITION_LABELS[d.label].label}
+                        </Badge>
+                      ))}
                     </div>
                   </TableCell>
                   <TableCell>
@@ -141,11 +263,43 @@ export function SuspiciousAccountsTable({
                     {account.out_degree}
                   </TableCell>
                   <TableCell className="text-right font-mono text-foreground">
-                    ${account.total_amount_sent.toLocaleString()}
+                    {formatCurrency(account.total_amount_sent, currency)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-foreground">
+                    {formatCurrency(account.total_amount_received, currency)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-foreground">
+                    {formatMetric(account.graph_metrics?.pagerank, 3)}
                   </TableCell>
                   <TableCell className="text-right font-mono text-foreground">
-                    ${account.total_amount_received.toLocaleString()}
+                    {formatMetric(account.graph_metrics?.betweenness, 3)}
                   </TableCell>
+                  <TableCell className="text-right font-mono text-foreground">
+                    {formatMetric(account.graph_metrics?.hub, 3)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-foreground">
+                    {formatMetric(account.graph_metrics?.authority, 3)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-foreground">
+                    {account.graph_metrics?.k_core ?? '—'}
+                  </TableCell>
+                  {onOpenCase && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Open case"
+                        aria-label={`Open case for ${account.account_id}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onOpenCase(account.account_id);
+                        }}
+                      >
+                        <FolderPlus className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
                 </TableRow>
               ))}
             </TableBody>
@@ -156,6 +310,11 @@ export function SuspiciousAccountsTable({
             No accounts found matching your search
           </div>
         )}
+        {selected && (
+          <div className="mt-4">
+            <ScoreWaterfall account={selected} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
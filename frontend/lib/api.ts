@@ -0,0 +1,251 @@
+// Backend API access shared by page and components
+
+import {
+  AnalysisJob,
+  AnalysisRun,
+  AnalysisRunSummary,
+  CaseEvidence,
+  CaseStatus,
+  ColumnMapping,
+  ColumnMappingProfile,
+  Disposition,
+  DispositionLabel,
+  EgoDirection,
+  EgoNetwork,
+  FlowTrace,
+  InvestigationCase,
+  PathQueryOptions,
+  PathQueryResult,
+  TraceOptions,
+} from '@/lib/types';
+
+export const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
+
+export async function fetchColumnProfiles(): Promise<ColumnMappingProfile[]> {
+  const res = await fetch(`${API_BASE}/api/column-profiles`);
+  const data = await res.json();
+  return data.success ? data.profiles : [];
+}
+
+export async function fetchJob(jobId: string): Promise<AnalysisJob | null> {
+  const res = await fetch(`${API_BASE}/api/jobs/${encodeURIComponent(jobId)}`);
+  const data = await res.json();
+  return data.success ? data.job : null;
+}
+
+const JOB_POLL_INTERVAL_MS = 500;
+
+/**
+ * Poll an analysis job until it completes or fails, reporting every update.
+ * Resolves with the final job; throws if the job disappears.
+ */
+export async function waitForJob(
+  jobId: string,
+  onUpdate: (job: AnalysisJob) => void,
+): Promise<AnalysisJob> {
+  for (;;) {
+    const job = await fetchJob(jobId);
+    if (!job) throw new Error(`Analysis job ${jobId} not found`);
+    onUpdate(job);
+    if (job.status === 'completed' || job.status === 'failed') return job;
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
+export async function fetchRuns(): Promise<AnalysisRunSummary[]> {
+  const res = await fetch(`${API_BASE}/api/runs`);
+  const data = await res.json();
+  return data.success ? data.runs : [];
+}
+
+export async function fetchRun(runId: string): Promise<AnalysisRun | null> {
+  const res = await fetch(`${API_BASE}/api/runs/${encodeURIComponent(runId)}`);
+  const data = await res.json();
+  return data.success ? data.run : null;
+}
+
+/** Investigation report download (served as an attachment) */
+export function reportUrl(runId: string, format: 'html' | 'pdf'): string {
+  return `${API_BASE}/api/runs/${encodeURIComponent(runId)}/report?format=${format}`;
+}
+
+export async function deleteRun(runId: string): Promise<boolean> {
+  const res = await fetch(`${API_BASE}/api/runs/${encodeURIComponent(runId)}`, { method: 'DELETE' });
+  const data = await res.json();
+  return data.success;
+}
+
+/** Save (create or replace) a named column mapping profile; returns errors on failure */
+export async function saveColumnProfile(name: string, mapping: ColumnMapping): Promise<string[]> {
+  const res = await fetch(`${API_BASE}/api/column-profiles/${encodeURIComponent(name)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(mapping),
+  });
+  const data = await res.json();
+  return data.success ? [] : data.mappingErrors || [data.error];
+}
+
+// ─── Cases ───────────────────────────────────────────────────────────────────
+
+/** `existingCaseId` is set when a case is already open for the same subject */
+type CaseResponse = { case?: InvestigationCase; error?: string; existingCaseId?: string };
+
+async function sendCaseRequest(path: string, method: string, body: unknown): Promise<CaseResponse> {
+  const res = await fetch(`${API_BASE}/api/cases${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  return data.success ? { case: data.case } : { error: data.error, existingCaseId: data.case_id };
+}
+
+/** Analyst name recorded in case audit trails (remembered in localStorage) */
+const ANALYST_NAME_KEY = 'rift-analyst-name';
+
+export function getAnalystName(): string {
+  if (typeof window === 'undefined') return '';
+  return window.localStorage.getItem(ANALYST_NAME_KEY) ?? '';
+}
+
+export function setAnalystName(name: string): void {
+  window.localStorage.setItem(ANALYST_NAME_KEY, name);
+}
+
+/** Cases, most recently updated first; linked to `runId` when given */
+export async function fetchCases(runId?: string | null): Promise<InvestigationCase[]> {
+  const query = runId ? `?runId=${encodeURIComponent(runId)}` : '';
+  const res = await fetch(`${API_BASE}/api/cases${query}`);
+  const data = await res.json();
+  return data.success ? data.cases : [];
+}
+
+export function createCase(
+  subject: { accountId: string } | { ringId: string },
+  runId: string,
+  actor: string,
+): Promise<CaseResponse> {
+  return sendCaseRequest('', 'POST', { ...subject, runId, actor });
+}
+
+export function updateCase(
+  caseId: string,
+  changes: { status?: CaseStatus; assignee?: string | null },
+  actor: string,
+): Promise<CaseResponse> {
+  return sendCaseRequest(`/${encodeURIComponent(caseId)}`, 'PATCH', { ...changes, actor });
+}
+
+export function addCaseNote(caseId: string, text: string, actor: string): Promise<CaseResponse> {
+  return sendCaseRequest(`/${encodeURIComponent(caseId)}/notes`, 'POST', { text, actor });
+}
+
+export function addCaseEvidence(
+  caseId: string,
+  type: CaseEvidence['type'],
+  runId: string,
+  actor: string,
+): Promise<CaseResponse> {
+  return sendCaseRequest(`/${encodeURIComponent(caseId)}/evidence`, 'POST', { type, runId, actor });
+}
+
+// ─── Dispositions ────────────────────────────────────────────────────────────
+
+export async function fetchDispositions(): Promise<Disposition[]> {
+  const res = await fetch(`${API_BASE}/api/dispositions`);
+  const data = await res.json();
+  return data.success ? data.dispositions : [];
+}
+
+/** Record (or replace) the disposition of an account or sender→receiver pair */
+export async function recordDisposition(
+  subject: { accountId: string } | { senderId: string; receiverId: string },
+  label: DispositionLabel,
+  note: string,
+  actor: string,
+): Promise<{ disposition?: Disposition; errors: string[] }> {
+  const res = await fetch(`${API_BASE}/api/dispositions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...subject, label, ...(note && { note }), actor }),
+  });
+  const data = await res.json();
+  return data.success
+    ? { disposition: data.disposition, errors: [] }
+    : { errors: data.dispositionErrors || [data.error] };
+}
+
+export async function deleteDisposition(dispositionId: string): Promise<boolean> {
+  const res = await fetch(`${API_BASE}/api/dispositions/${encodeURIComponent(dispositionId)}`, { method: 'DELETE' });
+  const data = await res.json();
+  return data.success;
+}
+
+// ─── Flow tracing ────────────────────────────────────────────────────────────
+
+/** Follow funds from an account (optionally one of its transactions) through a saved run */
+export async function traceFunds(
+  runId: string,
+  accountId: string,
+  options: TraceOptions,
+  transactionId?: string,
+): Promise<{ trace?: FlowTrace; errors: string[] }> {
+  const res = await fetch(`${API_BASE}/api/trace`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      runId,
+      accountId,
+      ...(transactionId && { transactionId }),
+      direction: options.direction,
+      allocation: options.allocation,
+      maxHops: options.max_hops,
+      minAmount: options.min_amount,
+    }),
+  });
+  const data = await res.json();
+  return data.success ? { trace: data.trace, errors: [] } : { errors: data.optionErrors || [data.error] };
+}
+
+// ─── Path queries ────────────────────────────────────────────────────────────
+
+/** Shortest, k shortest and optionally all time-respecting paths between two accounts of a saved run */
+export async function findPaths(
+  runId: string,
+  sourceId: string,
+  targetId: string,
+  options: PathQueryOptions,
+): Promise<{ paths?: PathQueryResult; errors: string[] }> {
+  const res = await fetch(`${API_BASE}/api/paths`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      runId,
+      sourceId,
+      targetId,
+      k: options.k,
+      allPaths: options.all_paths,
+      maxHops: options.max_hops,
+    }),
+  });
+  const data = await res.json();
+  return data.success ? { paths: data.paths, errors: [] } : { errors: data.optionErrors || [data.error] };
+}
+
+// ─── Ego networks ────────────────────────────────────────────────────────────
+
+/** k-hop neighborhood of an account in a saved run */
+export async function fetchEgoNetwork(
+  runId: string,
+  accountId: string,
+  hops: number,
+  direction: EgoDirection,
+): Promise<{ ego?: EgoNetwork; errors: string[] }> {
+  const params = new URLSearchParams({ hops: String(hops), direction });
+  const res = await fetch(
+    `${API_BASE}/api/runs/${encodeURIComponent(runId)}/ego/${encodeURIComponent(accountId)}?${params}`,
+  );
+  const data = await res.json();
+  return data.success ? { ego: data.ego, errors: [] } : { errors: data.optionErrors || [data.error] };
+}
@@ -0,0 +1,59 @@
+// Client-side header inspection, used before upload to decide whether the
+// column mapping step is needed. Mirrors the backend tokenizer's delimiter
+// auto-detection; only the first line is examined.
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+export const REQUIRED_COLUMNS = ['transaction_id', 'sender_id', 'receiver_id', 'amount', 'timestamp'];
+
+function detectDelimiter(line: string): string {
+  let best = DELIMITER_CANDIDATES[0];
+  let bestCount = 0;
+  for (const candidate of DELIMITER_CANDIDATES) {
+    let count = 0;
+    let inQuotes = false;
+    for (const ch of line) {
+      if (ch === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && ch === candidate) count++;
+    }
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Split the header row of a CSV into trimmed column names (quotes removed). */
+export function parseCsvHeader(content: string): string[] {
+  const line = content.replace(/^\uFEFF/, '').trimStart().split(/\r?\n|\r/)[0] || '';
+  const delimiter = detectDelimiter(line);
+  const headers: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === delimiter && !inQuotes) {
+      headers.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  headers.push(field.trim());
+  return headers;
+}
+
+/** Required columns absent from the given header names (case-insensitive). */
+export function findMissingColumns(headers: string[]): string[] {
+  const normalized = headers.map((h) => h.toLowerCase());
+  return REQUIRED_COLUMNS.filter((col) => !normalized.includes(col));
+}
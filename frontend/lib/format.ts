@@ -0,0 +1,25 @@
+// Display formatting shared by dashboard components
+
+/** Format an amount in the run's reporting currency, e.g. "$1,234.50" or "€980.00" */
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Currency code unknown to Intl
+    return `${currency} ${amount.toLocaleString()}`;
+  }
+}
+
+/** Compact form for headline metrics, e.g. "$1.2M" */
+export function formatCurrencyCompact(amount: number, currency: string = 'USD'): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString()}`;
+  }
+}
@@ -2,7 +2,150 @@
 // Strict compliance with required CSV structure and JSON output format
 
 // Detection mode — controls which algorithms the backend runs
-export type DetectionMode = 'all' | 'fan-in' | 'fan-out' | 'cycles' | 'shell';
+export type DetectionMode = 'all' | 'fan-in' | 'fan-out' | 'cycles' | 'shell' | 'structuring';
+
+// Detection configuration — every tunable threshold and weight (echoed per run)
+export interface DetectionConfig {
+  cycles: {
+    min_length: number;              // Minimum accounts in a cycle
+    max_length: number;              // Maximum accounts in a cycle
+    max_duration_hours: number;      // Max time from a cycle's first to last transaction
+  };
+  fan_in: {
+    window_hours: number;            // Sliding window size
+    min_unique_senders: number;      // Unique senders required within window
+  };
+  fan_out: {
+    window_hours: number;
+    min_unique_receivers: number;    // Unique receivers required within window
+  };
+  shell_chain: {
+    max_account_transactions: number; // Accounts at or below this count are shells
+    min_hops: number;                // Minimum hops for a chain to be reported
+    max_hops: number;                // Maximum hops explored from a start node
+  };
+  structuring: {
+    reporting_threshold: number;     // Reporting limit in the reporting currency
+    band_pct: number;                // Amounts within this % below the threshold count
+    window_hours: number;            // Sliding window size
+    min_transactions: number;        // Sub-threshold transactions required within window
+  };
+  pass_through: {
+    max_dwell_hours: number;         // Longest time between arrival and forwarding
+    amount_tolerance: number;        // Allowed |out - in| / in
+    min_matches: number;             // Matched in/out pairs required
+    min_ratio: number;               // Matched share of inbound value (0-1) required
+  };
+  amount_analysis: {
+    min_transactions: number;        // Round / repeated signals need at least this many
+    round_unit: number;              // Whole multiples of this amount are round
+    round_ratio_threshold: number;   // Share of round amounts (0-1) that triggers
+    repeat_min_count: number;        // One amount seen this often triggers
+    benford_min_transactions: number; // Benford test needs at least this many
+    benford_mad_threshold: number;   // Minimum first-digit MAD cut-off (raised for small samples)
+  };
+  scoring: {
+    cycle_weight: number;
+    fan_in_weight: number;
+    fan_out_weight: number;
+    shell_weight: number;
+    structuring_weight: number;
+    pass_through_weight: number;
+    amount_weight: number;
+    velocity_weight: number;
+    velocity_tx_per_day: number;     // Velocity triggers above this rate
+    centrality_weight: number;       // Top global centrality (graph_metrics.top_percentile); 0 disables
+    dampening: {
+      min_degree: number;            // in_degree + out_degree must exceed this
+      min_transactions: number;      // Account must have more transactions than this
+      interval_tolerance: number;    // |interval - mean| / mean below this is "consistent"
+      consistent_ratio: number;      // Fraction of consistent intervals required
+      reduction: number;             // Points removed when dampening applies
+    };
+  };
+  relationship_intelligence: {
+    min_recurring_tx_count: number;
+    min_recurring_span_days: number;
+    max_total_reduction: number;
+    duration_tier_1_days: number;
+    duration_tier_2_days: number;
+    cv_threshold: number;
+    periodicity_match_ratio: number;
+    periodicity_tolerance: number;
+  };
+  temporal_validation: {
+    min_amount_ratio: number;        // Each hop must carry at least this share of the previous hop
+  };
+  ring_leadership: {
+    orchestrator_boost: number;
+  };
+  cross_ring: {
+    min_rings: number;               // Rings an account must be connected to
+    min_ring_members: number;        // Members a non-member must pay (or be paid by) to be connected
+    controller_boost: number;
+  };
+  multi_stage: {
+    min_pattern_types: number;
+    boost: number;
+  };
+  community: {
+    min_evidence: number;            // Independent evidence categories required
+    resolution: number;              // Louvain resolution; higher values give smaller communities
+  };
+  graph_metrics: {
+    damping: number;                 // PageRank damping factor (0-1)
+    max_iterations: number;          // PageRank / HITS power-iteration cap
+    betweenness_samples: number;     // Source accounts sampled for betweenness; 0 = every account
+    top_percentile: number;          // Top % by PageRank or betweenness that centrality_weight scores
+  };
+  fan_in_validation: {
+    window_hours: number;
+    min_unique_senders: number;
+    amount_tolerance: number;
+    rapid_outflow_window_hours: number;
+    rapid_outflow_ratio: number;
+    low_activity_tx_threshold: number;
+  };
+  watchlist: {
+    exact_weight: number;
+    fuzzy_weight: number;
+    fuzzy_threshold: number;
+  };
+  dispositions: {
+    benign_reduction_pct: number;
+    confirmed_mule_min_score: number;
+  };
+}
+
+// Column mapping — adapts non-standard bank export headers to the required schema
+export type CanonicalColumn = 'transaction_id' | 'sender_id' | 'receiver_id' | 'amount' | 'timestamp';
+
+export type MappableColumn = CanonicalColumn | 'currency';
+
+export type AmountSignConvention = 'positive' | 'absolute' | 'negative_reverses';
+
+export interface ColumnMapping {
+  columns: Partial<Record<MappableColumn, string[]>>;  // Accepted header names per field
+  date_format?: string;                                // e.g. "DD.MM.YYYY HH:mm"
+  amount_sign?: AmountSignConvention;
+  direction?: {                                        // Credit rows are reversed
+    column: string;
+    debit_values: string[];
+    credit_values: string[];
+  };
+}
+
+export interface ColumnMappingProfile extends ColumnMapping {
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** How an upload selects its mapping: a saved profile or an inline mapping */
+export interface ColumnMappingSelection {
+  profile?: string;
+  columnMapping?: ColumnMapping;
+}
 
 // Per-pattern score breakdown
 export interface PatternScores {
@@ -10,15 +153,23 @@ export interface PatternScores {
   fan_out: number;
   cycle: number;
   shell: number;
+  structuring: number;
+  pass_through: number;
+  amount: number;
   velocity: number;
+  watchlist: number;
+  centrality: number;
 }
 
 export interface RawTransaction {
   transaction_id: string;
   sender_id: string;
   receiver_id: string;
-  amount: number;
+  amount: number;             // In the run's reporting currency
   timestamp: string; // YYYY-MM-DD HH:MM:SS
+  currency?: string;
+  original_amount?: number;   // Amount as it appeared in the file
+  original_currency?: string;
 }
 
 // Role assigned by centrality analysis within fraud rings
@@ -36,13 +187,20 @@ export interface AccountNode {
   detected_patterns: string[];
   ring_ids: string[];
   triggered_algorithms: string[];
-  explanation: string;
+  explanation: string;          // Derived from score_contributions (reasons in order)
   is_suspicious: boolean;
+  score_contributions?: ScoreContribution[]; // Absent in runs saved before score contributions
 
   // Ring Leadership Detection
   centrality_score?: number;
   ring_role?: RingRole;
 
+  // Global Graph Metrics
+  graph_metrics?: GraphMetrics;
+
+  // Cross-Ring Control
+  network_controller?: NetworkControllerSummary;
+
   // Multi-Stage Laundering Flow Detection
   laundering_stage?: string;
   flow_pattern?: string[];
@@ -50,16 +208,33 @@ export interface AccountNode {
   // Two-Phase Fan-In Validation
   fan_in_classification?: 'aggregation_candidate' | 'confirmed_money_laundering';
   corroboration_checks?: string[];
+
+  // Pass-Through Detection
+  pass_through?: PassThroughSummary;
+
+  // Amount Distribution Analysis
+  amount_profile?: AmountProfile;
+
+  // Watchlist Screening
+  watchlist_hits?: WatchlistHit[];
+
+  // Analyst Dispositions
+  dispositions?: AppliedDisposition[];
 }
 
 export interface FraudRing {
   ring_id: string;
-  pattern_type: 'cycle' | 'fan_in' | 'fan_out' | 'shell_chain' | 'community';
+  pattern_type: 'cycle' | 'fan_in' | 'fan_out' | 'shell_chain' | 'structuring' | 'pass_through' | 'community';
   members: string[];
   member_count: number;
   risk_score: number;
   total_value: number;
+  currency: string;            // Reporting currency of total_value
   explanation: string;
+  watchlist_members?: string[];  // Members with a watchlist hit
+  transaction_ids?: string[];    // Cycle rings: the hop transactions in flow order
+  modularity?: number;           // Community rings: the community's modularity
+  linked_rings?: RingLink[];     // Pattern-level rings sharing members or money with this one
 }
 
 // Strict JSON output format per hackathon spec
@@ -102,6 +277,96 @@ export interface AnalysisResult {
   summary: SummaryOutput;
   hackathonOutput: HackathonOutput;
   graphData: CytoscapeGraphData;
+  config: DetectionConfig;
+  reporting_currency: string;  // Currency every amount is expressed in
+  communities?: CommunityPartition; // Absent in runs saved before Louvain communities
+  stage_snapshots?: StageSnapshot[]; // Debug mode only (?debug=true)
+}
+
+// Persisted analysis run (server-side run history)
+export interface AnalysisRunSummary {
+  run_id: string;
+  created_at: string;
+  completed_at: string;
+  file_name?: string;
+  updated_at?: string;         // Last appended batch
+  file_hash: string;           // sha256 of the uploaded CSV
+  mode: DetectionMode;
+  reporting_currency: string;
+  summary: SummaryOutput;
+}
+
+export interface AppendedBatch {
+  appended_at: string;
+  file_hash: string;
+  transaction_count: number;
+}
+
+export interface AnalysisRun extends AnalysisRunSummary {
+  config: DetectionConfig;
+  result: AnalysisResult;
+  batches?: AppendedBatch[];
+}
+
+// What an appended batch changed (POST /api/runs/:id/transactions)
+export interface AnalysisDelta {
+  appended_transactions: number;
+  new_accounts: string[];
+  newly_flagged: string[];
+  score_changes: { account_id: string; previous_score: number; score: number }[];
+  new_rings: FraudRing[];
+  changed_rings: {
+    ring: FraudRing;
+    previous_ring_id: string;
+    previous_risk_score: number;
+    previous_member_count: number;
+  }[];
+  removed_rings: string[];
+}
+
+// Asynchronous analysis jobs (GET /api/jobs/:id)
+export type AnalysisStage =
+  | 'graph'
+  | 'cycles'
+  | 'fan_in'
+  | 'fan_out'
+  | 'shell_chains'
+  | 'structuring'
+  | 'pass_through'
+  | 'amount_analysis'
+  | 'watchlist'
+  | 'graph_metrics'
+  | 'scoring'
+  | 'fraud_rings'
+  | 'relationship_intelligence'
+  | 'temporal_validation'
+  | 'ring_leadership'
+  | 'cross_ring'
+  | 'multi_stage'
+  | 'community'
+  | 'fan_in_validation'
+  | 'dispositions'
+  | 'graph_data';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJob {
+  job_id: string;
+  status: AnalysisJobStatus;
+  mode: DetectionMode;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+  progress: {
+    stage: AnalysisStage | null;
+    completed_stages: number;
+    total_stages: number;
+    percent: number;
+  };
+  run_id?: string;
+  error?: string;
+  result?: AnalysisResult;
+  delta?: AnalysisDelta;       // Append jobs only
 }
 
 // Cytoscape graph data
@@ -126,6 +391,7 @@ export interface CytoscapeNode {
     explanation: string;
     fan_in_transactions: FanInTransaction[];
     shell_chain_paths: ShellChainPath[];
+    amount_profile?: AmountProfile;
   };
 }
 
@@ -153,3 +419,299 @@ export interface ShellChainPath {
   path: string[];
   hops: { from: string; to: string; amount: number; timestamp: string }[];
 }
+
+// Case management (GET/POST /api/cases)
+export type CaseStatus = 'open' | 'under_review' | 'escalated' | 'false_positive' | 'confirmed';
+
+export interface CaseNote {
+  note_id: string;
+  author: string;
+  text: string;
+  created_at: string;
+}
+
+export interface CaseEvidence {
+  evidence_id: string;
+  type: 'transactions' | 'graph_snapshot';
+  run_id: string;
+  added_at: string;
+  added_by: string;
+  description?: string;
+  transactions?: RawTransaction[];
+  graph?: CytoscapeGraphData;
+}
+
+export interface CaseEvent {
+  at: string;
+  actor: string;
+  type: 'created' | 'status_changed' | 'assigned' | 'note_added' | 'evidence_added';
+  from?: string | null;
+  to?: string | null;
+  detail?: string;
+}
+
+// Where a case's accounts appear in the run being viewed
+export interface CaseRunLink {
+  run_id: string;
+  present_accounts: string[];
+  flagged_accounts: string[];
+  max_suspicion_score: number;
+  ring_ids: string[];
+}
+
+export interface InvestigationCase {
+  case_id: string;
+  title: string;
+  subject_type: 'account' | 'ring';
+  account_ids: string[];
+  pattern_type?: string;
+  status: CaseStatus;
+  assignee: string | null;
+  created_at: string;
+  created_by: string;
+  updated_at: string;
+  origin_run_id?: string;
+  origin_ring_id?: string;
+  risk_score_at_creation?: number;
+  notes: CaseNote[];
+  evidence: CaseEvidence[];
+  history: CaseEvent[];
+  link?: CaseRunLink;
+}
+
+// Analyst dispositions (backend disposition-store)
+export type DispositionLabel = 'benign_merchant' | 'payroll' | 'confirmed_mule';
+
+export interface Disposition {
+  disposition_id: string;
+  subject_type: 'account' | 'pair';
+  account_id?: string;
+  sender_id?: string;
+  receiver_id?: string;
+  label: DispositionLabel;
+  note?: string;
+  recorded_by: string;
+  recorded_at: string;
+}
+
+export interface AppliedDisposition {
+  disposition_id: string;
+  label: DispositionLabel;
+  subject: string;
+  recorded_by: string;
+  recorded_at: string;
+  score_before: number;
+  score_after: number;
+}
+
+// Watchlist screening (backend watchlist-store / watchlist-screening)
+export interface WatchlistHit {
+  list_name: string;
+  match_type: 'account_id' | 'name' | 'fuzzy';
+  matched_value: string;
+  similarity: number;
+  reason: string;
+}
+
+// Amount distribution (backend amount-analysis)
+export interface AmountProfile {
+  transaction_count: number;
+  first_digit_counts: number[];  // Index 0 = leading digit 1
+  benford_mad: number | null;
+  benford_cutoff: number | null;
+  round_count: number;
+  round_ratio: number;
+  repeated_amounts: { amount: number; count: number }[];
+  anomalies: ('benford' | 'round' | 'repeated')[];
+}
+
+// Pass-through relay metrics (backend pass-through-detection)
+export interface PassThroughSummary {
+  ratio: number;
+  median_dwell_hours: number;
+  matched_count: number;
+  inbound_value: number;
+  forwarded_value: number;
+}
+
+// ─── Flow Tracing (flow-tracing) ─────────────────────────────────────────────
+
+/** forward: where funds went; backward: where they came from */
+export type TraceDirection = 'forward' | 'backward';
+
+/** How an account's outflows draw on its earlier inflows */
+export type TraceAllocation = 'fifo' | 'lifo' | 'proportional';
+
+export interface TraceOptions {
+  direction: TraceDirection;
+  allocation: TraceAllocation;
+  max_hops: number;
+  min_amount: number;            // Branches carrying less are cut off
+}
+
+/** Traced funds at one account.  Children are the next hop in the trace direction */
+export interface FlowTraceNode {
+  account_id: string;
+  transaction_id: string | null; // Moved the funds into (forward) or out of (backward) the account; null at an untied root
+  timestamp: string | null;
+  amount: number;
+  hop: number;
+  untraced_amount: number;       // Forward: still held at the end of the data; backward: from before the data
+  cutoff_amount: number;         // In branches dropped by min_amount, max_hops or the node cap
+  children: FlowTraceNode[];
+}
+
+/** Traced amount per sender → receiver pair, summed over the tree */
+export interface FlowTraceLink {
+  source: string;
+  target: string;
+  amount: number;
+  hop: number;                   // Fewest hops from the root
+  transaction_ids: string[];
+}
+
+export interface FlowTrace extends TraceOptions {
+  account_id: string;
+  transaction_id: string | null;
+  currency: string;
+  root: FlowTraceNode;
+  links: FlowTraceLink[];
+  node_count: number;
+  truncated: boolean;            // Node cap reached
+}
+
+// ─── Path Queries (path-query) ───────────────────────────────────────────────
+
+export interface PathQueryOptions {
+  k: number;                     // Number of shortest paths
+  all_paths: boolean;            // Also enumerate time-respecting paths
+  max_hops: number;              // Length limit for time-respecting paths
+}
+
+export interface PathTransaction {
+  transaction_id: string;
+  amount: number;
+  timestamp: string;
+}
+
+export interface PathHop {
+  from: string;
+  to: string;
+  total_amount: number;
+  transactions: PathTransaction[]; // Every transfer on the edge, or the one used by a time-respecting path
+}
+
+export interface AccountPath {
+  accounts: string[];
+  hops: PathHop[];
+}
+
+export interface PathQueryResult extends PathQueryOptions {
+  source: string;
+  target: string;
+  currency: string;
+  shortest: AccountPath | null;
+  k_shortest: AccountPath[];     // Loopless, fewest hops first; includes the shortest
+  temporal_paths: AccountPath[] | null; // Null unless all_paths was requested
+  truncated: boolean;            // Time-respecting path limit reached
+}
+
+// ─── Ego Networks (ego-network) ──────────────────────────────────────────────
+
+/** in: accounts that sent to the center; out: accounts it sent to; both: either */
+export type EgoDirection = 'in' | 'out' | 'both';
+
+/** k-hop neighborhood of an account, in the run's graph shape */
+export interface EgoNetwork extends CytoscapeGraphData {
+  account_id: string;
+  hops: number;
+  direction: EgoDirection;
+  frontier: string[];            // Included accounts with neighbors beyond the neighborhood
+  truncated: boolean;            // Node cap reached
+}
+
+// ─── Communities (community-detection) ───────────────────────────────────────
+
+/** One Louvain community of the suspicious subgraph */
+export interface CommunitySummary {
+  community_id: string;          // COMM_001…, largest first
+  members: string[];
+  modularity: number;            // This community's part of the partition modularity
+  internal_weight: number;       // Edge weight between its members
+  evidence: string[];            // Independent evidence categories found
+  ring_id: string | null;        // Community ring, when the evidence validated it
+  subsumed_ring_ids: string[];   // Pattern-level rings with a member in the community
+}
+
+export interface CommunityPartition {
+  resolution: number;
+  modularity: number;            // Of the whole partition, single accounts included
+  communities: CommunitySummary[]; // Communities of 2 or more accounts
+}
+
+// ─── Graph Metrics (graph-metrics) ───────────────────────────────────────────
+
+/** Whole-graph centrality of one account */
+export interface GraphMetrics {
+  pagerank: number;              // Amount-weighted PageRank; sums to 1 over the graph
+  betweenness: number;           // Amount-weighted (sampled) betweenness, top account = 1
+  hub: number;                   // HITS hub score, top account = 1
+  authority: number;             // HITS authority score, top account = 1
+  k_core: number;                // Core number over distinct counterparties, direction ignored
+}
+
+// ─── Cross-Ring Control (cross-ring-analysis) ────────────────────────────────
+
+/** Another ring that shares members with a ring or exchanged money with it */
+export interface RingLink {
+  ring_id: string;
+  shared_members: string[];
+  amount_out: number;            // Sent by this ring's members to the linked ring's members
+  amount_in: number;             // Received by this ring's members from the linked ring's members
+  transaction_count: number;     // Transactions between the two rings, either way
+}
+
+export type RingControlRelation = 'member' | 'funder' | 'beneficiary' | 'funder_beneficiary';
+
+/** One ring a network controller is connected to */
+export interface ControlledRing {
+  ring_id: string;
+  relation: RingControlRelation;
+  amount_sent: number;           // From the controller to the ring's members
+  amount_received: number;       // From the ring's members to the controller
+}
+
+export interface NetworkControllerSummary {
+  rings: ControlledRing[];
+  inter_ring_amount: number;     // Moved between members of separate groups of controlled rings
+  currency: string;
+}
+
+// ─── Score Contributions (score-contributions) ───────────────────────────────
+
+/** One step of an account's score: what changed it, by how much and why */
+export interface ScoreContribution {
+  stage: AnalysisStage;
+  algorithm: string;
+  delta: number;                 // Points added (negative: removed); 0 for findings
+  score_after: number;           // Suspicion score once this step applied
+  reason: string;
+  transaction_ids: string[];     // Supporting transactions (first 25)
+  counterparties: string[];      // Other accounts involved (first 25)
+}
+
+// ─── Stage Snapshots (debug mode) ────────────────────────────────────────────
+
+/** One account's scoring state at the end of a pipeline stage */
+export interface AccountStageState {
+  account_id: string;
+  suspicion_score: number;
+  detected_patterns: string[];
+  ring_ids: string[];
+}
+
+/** Every account's state once a stage finished */
+export interface StageSnapshot {
+  stage: AnalysisStage;
+  accounts: AccountStageState[];
+}